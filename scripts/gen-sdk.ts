@@ -0,0 +1,679 @@
+// scripts/gen-sdk.ts
+// Generates typed Metrc resource factories from a local OpenAPI (3.x) or Swagger (2.0) JSON file.
+//
+// Usage:
+//   npm run gen -- path/to/metrc-openapi.json [more-specs.json ...]
+//   METRC_OPENAPI=path/to/spec.json npm run gen
+//
+// Output (per API version found in the spec paths, e.g. /packages/v2/active => v2):
+//   src/metrc/resources/v{N}/{resource}.ts   one factory per resource, same http.request pattern as createLabTestsV2
+//   src/metrc/resources/v{N}/types.ts        interfaces + runtime schemas (src/metrc/schema.ts) for every schema referenced
+//   src/metrc/resources/v{N}/index.ts        createAllV{N}Resources(http) + allV{N}LicenseSlots (for MetrcClient.forLicense)
+//
+// Hand-written resource files (any file without the AUTO-GENERATED header) are never overwritten;
+// if the spec has a matching resource, the hand-written factory is wired into the index instead.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+const HEADER = "// AUTO-GENERATED. Do not edit.";
+const RESOURCES_DIR = path.resolve(__dirname, "../src/metrc/resources");
+const DEFAULT_SPEC = path.resolve(__dirname, "../openapi/metrc.json");
+
+// Resources that MetrcClient attaches itself (outside the generated index).
+const CLIENT_ATTACHED = new Set(["v2/retailId", "v2/retailIdWorkflow"]);
+
+/* ------------------------------------------------------------------------------------------------
+ * Spec shapes (only what we read)
+ * ------------------------------------------------------------------------------------------------ */
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+interface SchemaObject {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  description?: string;
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: "query" | "path" | "header" | "body" | "formData" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+  type?: string; // swagger 2
+  items?: SchemaObject; // swagger 2
+  format?: string; // swagger 2
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { content?: Record<string, { schema?: SchemaObject }>; required?: boolean };
+  responses?: Record<string, { schema?: SchemaObject; content?: Record<string, { schema?: SchemaObject }> }>;
+}
+
+interface SpecDocument {
+  swagger?: string;
+  openapi?: string;
+  paths?: Record<string, Record<string, OperationObject | ParameterObject[]>>;
+  definitions?: Record<string, SchemaObject>;
+  components?: { schemas?: Record<string, SchemaObject>; parameters?: Record<string, ParameterObject> };
+  parameters?: Record<string, ParameterObject>;
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Intermediate model
+ * ------------------------------------------------------------------------------------------------ */
+
+interface Param {
+  name: string; // original wire name
+  ident: string; // safe TS identifier
+  required: boolean;
+  type: string;
+  description?: string;
+}
+
+interface Endpoint {
+  method: HttpMethod;
+  path: string;
+  name: string;
+  summary?: string;
+  pathParams: Param[];
+  queryParams: Param[];
+  body?: { type: string; required: boolean };
+  responseType: string;
+  /** Runtime schema expression for the response, when it is a named schema (or an array of one). */
+  responseSchema?: string;
+  /** Where the license goes in the generated signature (see src/metrc/licenseScope.ts). */
+  licenseSlot?: { arg: number } | { params: number };
+}
+
+interface Resource {
+  version: string; // "v1" | "v2" | ...
+  name: string; // camelCase, e.g. "additivesTemplates"
+  endpoints: Endpoint[];
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Naming helpers
+ * ------------------------------------------------------------------------------------------------ */
+
+function words(s: string): string[] {
+  return s
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function pascal(s: string): string {
+  return words(s)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join("");
+}
+
+function camel(s: string): string {
+  const p = pascal(s);
+  return p ? p[0].toLowerCase() + p.slice(1) : p;
+}
+
+const RESERVED = new Set(["delete", "default", "function", "new", "class", "in", "for", "if", "return", "var", "const"]);
+
+function safeIdent(s: string): string {
+  const c = camel(s) || "param";
+  const id = /^[0-9]/.test(c) ? `_${c}` : c;
+  return RESERVED.has(id) ? `${id}_` : id;
+}
+
+/** "/packages/v2/{id}" => { resource: "packages", version: "v2", rest: ["{id}"] } */
+function splitPath(p: string): { resource: string; version: string; rest: string[] } | null {
+  const segs = p.split("/").filter(Boolean);
+  const vIdx = segs.findIndex((s) => /^v\d+$/i.test(s));
+  if (vIdx < 1) return null;
+  return {
+    resource: segs.slice(0, vIdx).join("-"),
+    version: segs[vIdx].toLowerCase(),
+    rest: segs.slice(vIdx + 1),
+  };
+}
+
+/**
+ * Method names follow the hand-written resources:
+ *   GET  /x/v2/{id}      => getById
+ *   GET  /x/v2/active    => getActive
+ *   POST /x/v2/          => create
+ *   PUT  /x/v2/          => update
+ *   POST /x/v2/record    => record
+ *   PUT  /x/v2/receipts  => updateReceipts (when POST /x/v2/receipts already took "receipts")
+ */
+/** Verb prefixed to a method name another method of the same path already took. */
+const COLLISION_VERB: Record<HttpMethod, string> = { GET: "get", POST: "create", PUT: "update", DELETE: "delete" };
+
+function methodName(method: HttpMethod, rest: string[]): string {
+  const parts = rest.map((seg) => {
+    const m = seg.match(/^\{(.+)\}$/);
+    return m ? `By${pascal(m[1])}` : pascal(seg);
+  });
+  const tail = parts.join("");
+
+  if (method === "GET") return `get${tail}`;
+  if (!tail) return method === "POST" ? "create" : method === "PUT" ? "update" : "archive";
+  if (method === "DELETE") return `delete${tail}`;
+  if (tail.startsWith("By")) return `${method === "POST" ? "create" : "update"}${tail}`;
+  return tail[0].toLowerCase() + tail.slice(1);
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Schema => TypeScript
+ * ------------------------------------------------------------------------------------------------ */
+
+class TypeEmitter {
+  private readonly schemas: Record<string, SchemaObject> = {};
+  private readonly docs = new Set<SpecDocument>();
+  private readonly used = new Set<string>();
+
+  /** Adds a spec's named schemas; on a name clash the spec added first wins. */
+  addDoc(doc: SpecDocument): void {
+    if (this.docs.has(doc)) return;
+    this.docs.add(doc);
+    for (const [k, v] of Object.entries({ ...(doc.definitions ?? {}), ...(doc.components?.schemas ?? {}) })) {
+      if (!(k in this.schemas)) this.schemas[k] = v;
+    }
+  }
+
+  refName(ref: string): string {
+    return pascal(ref.split("/").pop() ?? ref);
+  }
+
+  /** Converts a schema to a TS type expression, recording every named schema it touches. */
+  toType(s: SchemaObject | undefined): string {
+    if (!s) return "unknown";
+    const t = this.toTypeInner(s);
+    return s.nullable && t !== "unknown" ? `${t} | null` : t;
+  }
+
+  private toTypeInner(s: SchemaObject): string {
+    if (s.$ref) {
+      const raw = s.$ref.split("/").pop() ?? s.$ref;
+      this.markUsed(raw);
+      return this.refName(s.$ref);
+    }
+    if (s.allOf?.length) return s.allOf.map((x) => this.toType(x)).join(" & ");
+    const union = s.oneOf ?? s.anyOf;
+    if (union?.length) return union.map((x) => this.toType(x)).join(" | ");
+    if (s.enum?.length) return s.enum.map((v) => JSON.stringify(v)).join(" | ");
+
+    switch (s.type) {
+      case "string":
+        return "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "array":
+        return `Array<${this.toType(s.items)}>`;
+      case "object":
+      case undefined:
+        if (s.properties) return this.inlineObject(s);
+        if (s.additionalProperties && typeof s.additionalProperties === "object") {
+          return `Record<string, ${this.toType(s.additionalProperties)}>`;
+        }
+        return s.type === "object" ? "Record<string, unknown>" : "unknown";
+      default:
+        return "unknown";
+    }
+  }
+
+  private inlineObject(s: SchemaObject): string {
+    const req = new Set(s.required ?? []);
+    const fields = Object.entries(s.properties ?? {}).map(
+      ([k, v]) => `${propKey(k)}${req.has(k) ? "" : "?"}: ${this.toType(v)}`
+    );
+    return `{ ${fields.join("; ")} }`;
+  }
+
+  private markUsed(raw: string): void {
+    if (this.used.has(raw)) return;
+    this.used.add(raw);
+    // walk into the schema so transitive refs are emitted too
+    const s = this.schemas[raw];
+    if (s) this.toType(s);
+  }
+
+  usedNames(): string[] {
+    return [...this.used].map((r) => this.refName(r));
+  }
+
+  /** Runtime schema expression mirroring toType(); named schemas are referenced lazily. */
+  toSchema(s: SchemaObject | undefined): string {
+    if (!s) return "schema.unknown()";
+    const inner = this.toSchemaInner(s);
+    return s.nullable && inner !== "schema.unknown()" ? `schema.nullable(${inner})` : inner;
+  }
+
+  private toSchemaInner(s: SchemaObject): string {
+    if (s.$ref) return `schema.lazy(() => ${this.refName(s.$ref)}Schema, ${JSON.stringify(this.refName(s.$ref))})`;
+    const union = s.oneOf ?? s.anyOf;
+    if (union?.length === 2) return `schema.union(${this.toSchema(union[0])}, ${this.toSchema(union[1])})`;
+    if (s.allOf || union) return "schema.unknown()";
+
+    const type = s.type ?? (s.enum?.length ? typeof s.enum[0] : undefined);
+    switch (type) {
+      case "string":
+        return "schema.string()";
+      case "integer":
+      case "number":
+        return "schema.number()";
+      case "boolean":
+        return "schema.boolean()";
+      case "array":
+        return `schema.array(${this.toSchema(s.items)})`;
+      case "object":
+      case undefined:
+        return s.properties ? this.objectSchema("object", s) : "schema.unknown()";
+      default:
+        return "schema.unknown()";
+    }
+  }
+
+  private objectSchema(name: string, s: SchemaObject): string {
+    const req = new Set(s.required ?? []);
+    const fields = Object.entries(s.properties ?? {}).map(([k, v]) => {
+      const f = this.toSchema(v);
+      return `${propKey(k)}: ${req.has(k) ? f : `schema.optional(${f})`}`;
+    });
+    return `schema.object(${JSON.stringify(name)}, { ${fields.join(", ")} })`;
+  }
+
+  /** Emits `types.ts` for every schema referenced so far. */
+  emitTypesFile(): string {
+    const out: string[] = [
+      HEADER,
+      `// Schemas referenced by this API version. Regenerate with \`npm run gen\`.`,
+      `import { MetrcSchema, schema } from "../../schema";`,
+      "",
+    ];
+    for (const raw of [...this.used].sort()) {
+      const s = this.schemas[raw];
+      const name = this.refName(raw);
+      if (!s) {
+        out.push(`export type ${name} = unknown;`, "");
+        continue;
+      }
+      if (s.properties || (s.type === "object" && !s.additionalProperties)) {
+        const req = new Set(s.required ?? []);
+        out.push(`export interface ${name} {`);
+        for (const [k, v] of Object.entries(s.properties ?? {})) {
+          if (v.description) out.push(`  /** ${oneLine(v.description)} */`);
+          out.push(`  ${propKey(k)}${req.has(k) ? "" : "?"}: ${this.toType(v)};`);
+        }
+        // Metrc includes more fields in some states; keep it permissive (same as AdditiveTemplate).
+        out.push(`  [k: string]: unknown;`);
+        out.push(`}`, "");
+        out.push(`export const ${name}Schema: MetrcSchema<${name}> = ${this.objectSchema(name, s)};`, "");
+      } else {
+        out.push(`export type ${name} = ${this.toType(s)};`, "");
+        out.push(`export const ${name}Schema: MetrcSchema<${name}> = ${this.toSchema(s)} as MetrcSchema<${name}>;`, "");
+      }
+    }
+    return out.join("\n");
+  }
+}
+
+function propKey(k: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(k) ? k : JSON.stringify(k);
+}
+
+function oneLine(s: string): string {
+  return s.replace(/\s+/g, " ").replace(/\*\//g, "*\\/").trim();
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Spec => model
+ * ------------------------------------------------------------------------------------------------ */
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "DELETE"];
+
+function resolveParam(doc: SpecDocument, p: ParameterObject): ParameterObject {
+  if (!p.$ref) return p;
+  const name = p.$ref.split("/").pop() ?? "";
+  return doc.components?.parameters?.[name] ?? doc.parameters?.[name] ?? p;
+}
+
+function paramType(types: TypeEmitter, p: ParameterObject): string {
+  if (p.schema) return types.toType(p.schema);
+  return types.toType({ type: p.type, items: p.items, format: p.format });
+}
+
+function responseSchema(op: OperationObject): SchemaObject | undefined {
+  const responses = op.responses ?? {};
+  const ok = Object.keys(responses).find((c) => /^2\d\d$/.test(c));
+  if (!ok) return undefined;
+  const r = responses[ok];
+  if (r.schema) return r.schema;
+  const content = r.content ?? {};
+  const json = Object.keys(content).find((ct) => ct.includes("json")) ?? Object.keys(content)[0];
+  return json ? content[json].schema : undefined;
+}
+
+function requestBody(types: TypeEmitter, op: OperationObject, params: ParameterObject[]): Endpoint["body"] {
+  // both Swagger 2 body params and OpenAPI 3 requestBody default to required: false
+  const swaggerBody = params.find((p) => p.in === "body");
+  if (swaggerBody) return { type: types.toType(swaggerBody.schema), required: swaggerBody.required ?? false };
+  const content = op.requestBody?.content;
+  if (!content) return undefined;
+  const json = Object.keys(content).find((ct) => ct.includes("json")) ?? Object.keys(content)[0];
+  return { type: types.toType(json ? content[json].schema : undefined), required: op.requestBody?.required ?? false };
+}
+
+function namedResponseSchema(types: TypeEmitter, s: SchemaObject | undefined): string | undefined {
+  if (!s || s.nullable) return undefined;
+  if (s.$ref) return `${types.refName(s.$ref)}Schema`;
+  if (s.type === "array" && s.items?.$ref && !s.items.nullable) return `schema.array(${types.refName(s.items.$ref)}Schema)`;
+  return undefined;
+}
+
+function buildModel(docs: SpecDocument[]): { resources: Resource[]; types: Map<string, TypeEmitter> } {
+  const byKey = new Map<string, Resource>();
+  const types = new Map<string, TypeEmitter>();
+
+  // One emitter per version; specs for the same version share their types file. Every spec is
+  // added before any type is rendered, so refs into a later spec resolve too.
+  for (const doc of docs) {
+    for (const p of Object.keys(doc.paths ?? {})) {
+      const version = splitPath(p)?.version;
+      if (!version) continue;
+      if (!types.has(version)) types.set(version, new TypeEmitter());
+      types.get(version)!.addDoc(doc);
+    }
+  }
+
+  for (const doc of docs) {
+    for (const [p, item] of Object.entries(doc.paths ?? {})) {
+      const split = splitPath(p);
+      if (!split) continue;
+
+      const shared = (Array.isArray(item.parameters) ? item.parameters : []) as ParameterObject[];
+      const emitter = types.get(split.version)!;
+
+      for (const m of METHODS) {
+        const op = item[m.toLowerCase()] as OperationObject | undefined;
+        if (!op || Array.isArray(op)) continue;
+
+        const params = [...shared, ...(op.parameters ?? [])].map((x) => resolveParam(doc, x));
+        const toParam = (x: ParameterObject): Param => ({
+          name: x.name,
+          ident: safeIdent(x.name),
+          required: x.in === "path" ? true : !!x.required,
+          type: paramType(emitter!, x),
+          description: x.description,
+        });
+
+        const resName = camel(op.tags?.[0] ?? split.resource);
+        const key = `${split.version}/${resName}`;
+        let res = byKey.get(key);
+        if (!res) {
+          res = { version: split.version, name: resName, endpoints: [] };
+          byKey.set(key, res);
+        }
+
+        let name = methodName(m, split.rest);
+        if (res.endpoints.some((e) => e.name === name)) name = `${COLLISION_VERB[m]}${name[0].toUpperCase()}${name.slice(1)}`;
+        while (res.endpoints.some((e) => e.name === name)) name = `${name}${m[0]}${m.slice(1).toLowerCase()}`;
+
+        res.endpoints.push({
+          method: m,
+          path: p,
+          name,
+          summary: op.summary ?? op.description,
+          pathParams: params.filter((x) => x.in === "path").map(toParam),
+          queryParams: params.filter((x) => x.in === "query").map(toParam),
+          body: requestBody(emitter, op, params),
+          responseType: op.responses ? emitter.toType(responseSchema(op)) : "unknown",
+          responseSchema: namedResponseSchema(emitter, responseSchema(op)),
+        });
+      }
+    }
+  }
+
+  const resources = [...byKey.values()].sort((a, b) =>
+    a.version === b.version ? a.name.localeCompare(b.name) : a.version.localeCompare(b.version)
+  );
+  return { resources, types };
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Model => source
+ * ------------------------------------------------------------------------------------------------ */
+
+function factoryName(r: Resource): string {
+  return `create${pascal(r.name)}${r.version.toUpperCase()}`;
+}
+
+function slotsName(r: Resource): string {
+  return `${r.name}${r.version.toUpperCase()}LicenseSlots`;
+}
+
+function renderPath(e: Endpoint): string {
+  const byName = new Map(e.pathParams.map((p) => [p.name, p]));
+  const tpl = e.path.replace(/\{([^}]+)\}/g, (_, n: string) => {
+    const p = byName.get(n);
+    return `\${encodeURIComponent(String(${p ? p.ident : safeIdent(n)}))}`;
+  });
+  return tpl.includes("${") ? `\`${tpl}\`` : JSON.stringify(tpl);
+}
+
+interface Arg {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+/** An optional parameter cannot precede a required one (TS1016); those are typed `T | undefined` instead. */
+function renderArgs(args: Arg[]): string {
+  const lastRequired = args.map((a) => a.optional).lastIndexOf(false);
+  return args
+    .map((a, i) => {
+      if (!a.optional) return `${a.name}: ${a.type}`;
+      return i < lastRequired ? `${a.name}: ${a.type} | undefined` : `${a.name}?: ${a.type}`;
+    })
+    .join(", ");
+}
+
+function renderParamsType(params: Param[]): string {
+  const fields = params.map((p) => `${propKey(p.name)}${p.required ? "" : "?"}: ${p.type}`);
+  return `{ ${fields.join("; ")} }`;
+}
+
+/**
+ * Signature conventions (mirrors the hand-written resources):
+ * - path params are positional
+ * - reads take a single `params` object for the query (licenseNumber included), like getActive
+ * - writes take (licenseNumber, body, params?) like labTests.record / additivesTemplates.create
+ */
+function renderEndpoint(e: Endpoint): string {
+  const args: Arg[] = e.pathParams.map((p) => ({ name: p.ident, type: p.type, optional: false }));
+  const hasLicense = e.queryParams.some((p) => p.name === "licenseNumber");
+  const lines: string[] = [];
+
+  lines.push(`    /**`);
+  lines.push(`     * ${e.method} ${e.path}`);
+  if (e.summary) lines.push(`     * ${oneLine(e.summary)}`);
+  lines.push(`     */`);
+
+  const req: string[] = [`        method: "${e.method}",`, `        path: ${renderPath(e)},`];
+
+  if (e.body) {
+    const rest = e.queryParams.filter((p) => p.name !== "licenseNumber");
+    if (hasLicense) {
+      const lp = e.queryParams.find((p) => p.name === "licenseNumber")!;
+      e.licenseSlot = { arg: args.length };
+      args.push({ name: "licenseNumber", type: "string", optional: !lp.required });
+      req.push(`        licenseNumber,`);
+    }
+    args.push({ name: "body", type: e.body.type, optional: !e.body.required });
+    if (rest.length) {
+      const anyRequired = rest.some((p) => p.required);
+      args.push({ name: "params", type: renderParamsType(rest), optional: !anyRequired });
+      req.push(`        query: params,`);
+    }
+    req.push(`        body,`);
+  } else if (e.queryParams.length) {
+    const anyRequired = e.queryParams.some((p) => p.required);
+    if (hasLicense) e.licenseSlot = { params: args.length };
+    args.push({ name: "params", type: renderParamsType(e.queryParams), optional: !anyRequired });
+    if (hasLicense) req.push(`        licenseNumber: params${anyRequired ? "" : "?"}.licenseNumber,`);
+    req.push(`        query: params,`);
+  }
+
+  if (e.responseSchema) req.push(`        schema: ${e.responseSchema},`);
+
+  const responseType = e.responseType === "unknown" && e.method !== "GET" ? "void" : e.responseType;
+  lines.push(`    ${e.name}(${renderArgs(args)}) {`);
+  lines.push(`      return http.request<${responseType}>({`);
+  lines.push(...req);
+  lines.push(`      });`);
+  lines.push(`    },`);
+  return lines.join("\n");
+}
+
+function renderResource(r: Resource, typeNames: Set<string>): string {
+  const body = r.endpoints.map(renderEndpoint).join("\n\n");
+  const usedTypes = [...typeNames].filter((n) => new RegExp(`\\b${n}\\b`).test(body)).sort();
+  const usedSchemas = [...typeNames].filter((n) => new RegExp(`\\b${n}Schema\\b`).test(body)).map((n) => `${n}Schema`).sort();
+
+  const out = [HEADER, `// src/metrc/resources/${r.version}/${r.name}.ts`, `import { MetrcHttp } from "../../http";`];
+  out.push(`import type { LicenseSlots } from "../../licenseScope";`);
+  if (/\bschema\./.test(body)) out.push(`import { schema } from "../../schema";`);
+  if (usedTypes.length) out.push(`import type { ${usedTypes.join(", ")} } from "./types";`);
+  if (usedSchemas.length) out.push(`import { ${usedSchemas.join(", ")} } from "./types";`);
+  out.push("");
+  // renderEndpoint (above) records each endpoint's licenseSlot
+  out.push(`export const ${slotsName(r)} = {`);
+  for (const e of r.endpoints) {
+    if (!e.licenseSlot) continue;
+    const [k, v] = Object.entries(e.licenseSlot)[0];
+    out.push(`  ${e.name}: { ${k}: ${v} },`);
+  }
+  out.push(`} as const satisfies LicenseSlots<ReturnType<typeof ${factoryName(r)}>>;`);
+  out.push("");
+  out.push(`export function ${factoryName(r)}(http: MetrcHttp) {`);
+  out.push(`  return {`);
+  out.push(body);
+  out.push(`  } as const;`);
+  out.push(`}`, "");
+  return out.join("\n");
+}
+
+interface IndexEntry {
+  name: string;
+  factory: string;
+  slots?: string;
+  file: string;
+}
+
+function renderIndex(version: string, entries: IndexEntry[]): string {
+  const fn = `createAll${version.toUpperCase()}Resources`;
+  const out = [HEADER, `import { MetrcHttp } from "../../http";`];
+  for (const e of entries) out.push(`import { ${[e.factory, e.slots].filter(Boolean).join(", ")} } from "./${e.file}";`);
+  out.push("");
+  out.push(`export function ${fn}(http: MetrcHttp) {`);
+  out.push(`  return {`);
+  for (const e of entries) out.push(`    ${e.name}: ${e.factory}(http),`);
+  out.push(`  } as const;`);
+  out.push(`}`, "");
+  out.push(`export const allV${version.slice(1)}LicenseSlots = {`);
+  for (const e of entries) if (e.slots) out.push(`  ${e.name}: ${e.slots},`);
+  out.push(`} as const;`, "");
+  return out.join("\n");
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Main
+ * ------------------------------------------------------------------------------------------------ */
+
+function isGenerated(file: string): boolean {
+  return !fs.existsSync(file) || fs.readFileSync(file, "utf8").startsWith(HEADER);
+}
+
+/** Finds the exported `createXxxVn` factory (and `xxxVnLicenseSlots`, if any) in a hand-written resource file. */
+function handWrittenExports(file: string, version: string): { factory?: string; slots?: string } {
+  const src = fs.readFileSync(file, "utf8");
+  const v = version.toUpperCase();
+  const factory = src.match(new RegExp(`export function (create\\w+${v})\\s*\\(`))?.[1];
+  const slots = src.match(new RegExp(`export const (\\w+${v}LicenseSlots)\\b`))?.[1];
+  return { factory, slots };
+}
+
+function main(): void {
+  const specPaths = process.argv.slice(2).length
+    ? process.argv.slice(2)
+    : [process.env.METRC_OPENAPI ?? DEFAULT_SPEC];
+
+  const docs: SpecDocument[] = specPaths.map((p) => {
+    const abs = path.resolve(p);
+    if (!fs.existsSync(abs)) {
+      throw new Error(`OpenAPI spec not found: ${abs}. Pass a path: npm run gen -- path/to/spec.json`);
+    }
+    return JSON.parse(fs.readFileSync(abs, "utf8")) as SpecDocument;
+  });
+
+  const { resources, types } = buildModel(docs);
+  const versions = [...new Set(resources.map((r) => r.version))].sort();
+
+  for (const version of versions) {
+    const dir = path.join(RESOURCES_DIR, version);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const emitter = types.get(version)!;
+    const typeNames = new Set(emitter.usedNames());
+    const entries: IndexEntry[] = [];
+
+    for (const r of resources.filter((x) => x.version === version)) {
+      const file = path.join(dir, `${r.name}.ts`);
+
+      if (!isGenerated(file)) {
+        const { factory, slots } = handWrittenExports(file, version);
+        console.log(`skip ${version}/${r.name}.ts (hand-written)`);
+        if (factory && !CLIENT_ATTACHED.has(`${version}/${r.name}`)) entries.push({ name: r.name, factory, slots, file: r.name });
+        continue;
+      }
+
+      fs.writeFileSync(file, renderResource(r, typeNames));
+      entries.push({ name: r.name, factory: factoryName(r), slots: slotsName(r), file: r.name });
+      console.log(`wrote ${version}/${r.name}.ts (${r.endpoints.length} endpoints)`);
+    }
+
+    // Hand-written resources the spec doesn't cover (e.g. facilities) stay wired in.
+    for (const f of fs.readdirSync(dir)) {
+      const name = f.replace(/\.ts$/, "");
+      if (!f.endsWith(".ts") || name === "index" || name === "types") continue;
+      if (entries.some((e) => e.name === name) || CLIENT_ATTACHED.has(`${version}/${name}`)) continue;
+      if (isGenerated(path.join(dir, f))) continue;
+      const { factory, slots } = handWrittenExports(path.join(dir, f), version);
+      if (factory) entries.push({ name, factory, slots, file: name });
+    }
+    entries.sort((x, y) => x.name.localeCompare(y.name));
+
+    if (typeNames.size) fs.writeFileSync(path.join(dir, "types.ts"), emitter.emitTypesFile());
+    fs.writeFileSync(path.join(dir, "index.ts"), renderIndex(version, entries));
+    console.log(`wrote ${version}/index.ts (${entries.length} resources)`);
+  }
+}
+
+main();
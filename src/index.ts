@@ -1,3 +1,20 @@
 export * from "./retailid/retailid-core";
+export * from "./retailid/retailid-issuers";
+export * from "./retailid/retailid-scanner";
+export * from "./retailid/retailid-ranges";
+export * from "./retailid/retailid-batch";
+export * from "./retailid/retailid-qr";
 export * from "./metrc/http";
+export * from "./metrc/pagination";
+export * from "./metrc/rateLimit";
+export * from "./metrc/schema";
+export * from "./metrc/states";
+export * from "./metrc/licenseScope";
+export * from "./metrc/mockServer";
+export * from "./metrc/cassette";
+export * from "./metrc/idempotency";
+export * from "./metrc/sync";
 export * from "./metrc/MetrcClient";
+export * from "./metrc/resources/v2/labTestDocuments";
+export * from "./metrc/resources/v2/retailIdReceiving";
+export * from "./metrc/resources/v2/additivesTemplates";
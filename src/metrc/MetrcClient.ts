@@ -1,8 +1,11 @@
-import { MetrcHttp, MetrcHttpOptions } from "./http";
+import { MetrcHttp, MetrcHttpOptions, MetrcMiddleware } from "./http";
+import { LicenseScoped, LicenseScopedResources, scopeResource, scopeResources } from "./licenseScope";
 
-import { createRetailIdV2 } from "./resources/v2/retailId"; // hand-written subset
-import { createAllV2Resources } from "./resources/v2";      // generated index
-import { createAllV1Resources } from "./resources/v1";      // generated index
+import { createRetailIdV2, retailIdV2LicenseSlots } from "./resources/v2/retailId"; // hand-written subset
+import { createRetailIdWorkflowV2, retailIdWorkflowV2LicenseSlots } from "./resources/v2/retailIdWorkflow";
+import { allV2LicenseSlots, createAllV2Resources } from "./resources/v2";      // generated index
+import { allV1LicenseSlots, createAllV1Resources } from "./resources/v1";      // generated index
+import type { Facility } from "./resources/v2/facilities";
 
 export class MetrcClient {
   public readonly http: MetrcHttp;
@@ -10,6 +13,7 @@ export class MetrcClient {
   public readonly v1: ReturnType<typeof createAllV1Resources>;
   public readonly v2: ReturnType<typeof createAllV2Resources> & {
     retailId: ReturnType<typeof createRetailIdV2>;
+    retailIdWorkflow: ReturnType<typeof createRetailIdWorkflowV2>;
   };
 
   constructor(opts: MetrcHttpOptions) {
@@ -22,6 +26,49 @@ export class MetrcClient {
     this.v2 = {
       ...createAllV2Resources(this.http),
       retailId: createRetailIdV2(this.http),
+      retailIdWorkflow: createRetailIdWorkflowV2(this.http),
+    };
+  }
+
+  /**
+   * Adds middleware around every call made through this client (generated and hand-written resources).
+   * metrc.use(async (ctx, next) => { ctx.headers["X-Correlation-Id"] = id; return next(); });
+   */
+  use(mw: MetrcMiddleware): this {
+    this.http.use(mw);
+    return this;
+  }
+
+  /**
+   * Client bound to one license: `licenseNumber` is pre-filled and dropped from method signatures.
+   * const la = metrc.forLicense("123-ABC"); await la.v2.labTests.record(entries);
+   */
+  forLicense(licenseNumber: string): MetrcLicenseClient {
+    return new MetrcLicenseClient(this.http.forLicense(licenseNumber), licenseNumber);
+  }
+
+  /** GET /facilities/v2/ — the licenses this user key can access, e.g. to fan out with forLicense(). */
+  facilities(): Promise<Facility[]> {
+    return this.v2.facilities.getAll();
+  }
+}
+
+export class MetrcLicenseClient {
+  public readonly v1: LicenseScopedResources<ReturnType<typeof createAllV1Resources>, typeof allV1LicenseSlots>;
+  public readonly v2: LicenseScopedResources<ReturnType<typeof createAllV2Resources>, typeof allV2LicenseSlots> & {
+    retailId: LicenseScoped<ReturnType<typeof createRetailIdV2>, typeof retailIdV2LicenseSlots>;
+    retailIdWorkflow: LicenseScoped<ReturnType<typeof createRetailIdWorkflowV2>, typeof retailIdWorkflowV2LicenseSlots>;
+  };
+
+  constructor(
+    public readonly http: MetrcHttp,
+    public readonly licenseNumber: string
+  ) {
+    this.v1 = scopeResources(createAllV1Resources(http), allV1LicenseSlots);
+    this.v2 = {
+      ...scopeResources(createAllV2Resources(http), allV2LicenseSlots),
+      retailId: scopeResource(createRetailIdV2(http), retailIdV2LicenseSlots),
+      retailIdWorkflow: scopeResource(createRetailIdWorkflowV2(http), retailIdWorkflowV2LicenseSlots),
     };
   }
 }
@@ -0,0 +1,384 @@
+// src/metrc/cassette.ts
+// Record/replay fixtures for MetrcHttp. Record once against the sandbox, replay offline:
+//   const cassette = MetrcCassette.record();
+//   const metrc = new MetrcClient({ state: "CA", environment: "sandbox", ...keys, cassette });
+//   ...; await cassette.save("fixtures/labtests.json");
+//   const metrc = new MetrcClient({ baseUrl: "https://replay", integratorApiKey: "x", userApiKey: "x",
+//     cassette: await MetrcCassette.load("fixtures/labtests.json") });
+// Fixtures never contain the Authorization header or API keys; license numbers become LICENSE-1, LICENSE-2, ...
+
+import type { FetchLike, HttpMethod } from "./http";
+
+export type MetrcCassetteMode = "record" | "replay";
+
+export interface MetrcCassetteRequest {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  /** Parsed JSON request body. */
+  body?: unknown;
+}
+
+export interface MetrcCassetteResponse {
+  status: number;
+  /** Only content-type, content-disposition and retry-after are kept. */
+  headers: Record<string, string>;
+  /** Exactly one of these is set (none for an empty body). */
+  json?: unknown;
+  text?: string;
+  base64?: string;
+}
+
+export interface MetrcCassetteInteraction {
+  request: MetrcCassetteRequest;
+  response: MetrcCassetteResponse;
+}
+
+/** The fixture file format. */
+export interface MetrcCassetteData {
+  version: 1;
+  recordedAt: string;
+  interactions: MetrcCassetteInteraction[];
+}
+
+export interface MetrcCassetteMatchOptions {
+  /** Each defaults to true. */
+  method?: boolean;
+  path?: boolean;
+  query?: boolean;
+  body?: boolean;
+  /** Query params left out of the comparison, e.g. ["lastModifiedStart", "lastModifiedEnd"]. */
+  ignoreQueryParams?: string[];
+  /** Replaces the field comparison entirely. Both sides are already redacted. */
+  matcher?: (request: MetrcCassetteRequest, recorded: MetrcCassetteRequest) => boolean;
+}
+
+export interface MetrcCassetteOptions {
+  match?: MetrcCassetteMatchOptions;
+  /**
+   * Replay: serve the last matching interaction again once every match has been used,
+   * instead of failing. Default false (each recorded response is served once, in order).
+   */
+  allowRepeats?: boolean;
+  /**
+   * License numbers to redact even when they never appear in a `licenseNumber` query param
+   * (e.g. ones that only show up in a /facilities response). Aliased in the order given.
+   */
+  licenses?: string[];
+}
+
+/** A replayed request had no recorded interaction left to match. Never retried by MetrcHttp. */
+export class MetrcCassetteError extends Error {
+  constructor(
+    message: string,
+    public readonly request: MetrcCassetteRequest
+  ) {
+    super(message);
+    this.name = "MetrcCassetteError";
+  }
+}
+
+const KEPT_RESPONSE_HEADERS = ["content-type", "content-disposition", "retry-after"];
+const LICENSE_KEY = /licen[cs]enumber$/i;
+/** Characters that continue a license-number token; a match may not touch any of them. */
+const TOKEN_CHAR = "[A-Za-z0-9_-]";
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+function base64ToBytes(s: string): Uint8Array {
+  const bin = atob(s);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/** JSON.stringify with sorted object keys, so bodies compare independent of key order. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_k, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, (v as Record<string, unknown>)[k]]))
+      : v
+  );
+}
+
+/**
+ * Replaces whole-token occurrences of each key in one pass: "LIC-1" is rewritten in "/LIC-1/" or
+ * "LIC-1 Grow" but not inside "LIC-10" or a label like "LIC-1-0042", and replacements are never rewritten again.
+ */
+function replaceTokens(text: string, map: Map<string, string>): string {
+  if (!map.size) return text;
+  const keys = [...map.keys()].sort((a, b) => b.length - a.length).map((k) => k.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const re = new RegExp(`(?<!${TOKEN_CHAR})(?:${keys.join("|")})(?!${TOKEN_CHAR})`, "g");
+  return text.replace(re, (m) => map.get(m)!);
+}
+
+/** Applies `fn` to every string value in a JSON value (object keys are left alone). */
+function mapStrings(value: unknown, fn: (s: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+function describe(req: MetrcCassetteRequest): string {
+  const q = new URLSearchParams(req.query).toString();
+  return `${req.method} ${req.path}${q ? `?${q}` : ""}${req.body === undefined ? "" : ` ${stableStringify(req.body).slice(0, 200)}`}`;
+}
+
+function parseBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string" || !body) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export class MetrcCassette {
+  readonly mode: MetrcCassetteMode;
+  private readonly interactions: MetrcCassetteInteraction[];
+  private readonly used: boolean[];
+  private readonly options: MetrcCassetteOptions;
+  private readonly secrets = new Set<string>();
+  /**
+   * real license number -> alias. Record: in order of first appearance. Replay: bound when a
+   * request's licenseNumber first matches a recorded one (so the live license numbers may differ).
+   */
+  private aliases = new Map<string, string>();
+
+  private constructor(mode: MetrcCassetteMode, interactions: MetrcCassetteInteraction[], options?: MetrcCassetteOptions) {
+    this.mode = mode;
+    this.interactions = interactions;
+    this.used = interactions.map(() => false);
+    this.options = options ?? {};
+    for (const l of this.options.licenses ?? []) this.alias(l);
+  }
+
+  /** Starts an empty cassette that records every response MetrcHttp receives. */
+  static record(options?: MetrcCassetteOptions): MetrcCassette {
+    return new MetrcCassette("record", [], options);
+  }
+
+  /** Serves `data` instead of calling fetch. */
+  static replay(data: MetrcCassetteData, options?: MetrcCassetteOptions): MetrcCassette {
+    if (data?.version !== 1 || !Array.isArray(data.interactions)) {
+      throw new Error("MetrcCassette: unsupported fixture format (expected version 1)");
+    }
+    return new MetrcCassette("replay", data.interactions, options);
+  }
+
+  /** Reads a fixture written by save() and replays it. Needs Node (fs is loaded lazily). */
+  static async load(path: string, options?: MetrcCassetteOptions): Promise<MetrcCassette> {
+    // Kept untyped so the SDK compiles without Node type defs (same approach as loadLabTestDocument).
+    const fs = (await import("fs" as string)) as { promises: { readFile(p: string, enc: string): Promise<string> } };
+    return MetrcCassette.replay(JSON.parse(await fs.promises.readFile(path, "utf8")), options);
+  }
+
+  /** Writes the recorded interactions as pretty-printed JSON. */
+  async save(path: string): Promise<void> {
+    const fs = (await import("fs" as string)) as { promises: { writeFile(p: string, data: string): Promise<void> } };
+    await fs.promises.writeFile(path, JSON.stringify(this.toJSON(), null, 2) + "\n");
+  }
+
+  /**
+   * The fixture. Recording re-redacts every interaction first: a license number learned from a
+   * later response may already appear in requests or responses recorded before it.
+   */
+  toJSON(): MetrcCassetteData {
+    const interactions = this.mode === "record" ? this.interactions.map((x) => this.redactInteraction(x)) : this.interactions;
+    return { version: 1, recordedAt: new Date().toISOString(), interactions };
+  }
+
+  /** Replay: recorded interactions that were never served. Useful to assert a test made every expected call. */
+  unplayed(): MetrcCassetteInteraction[] {
+    return this.interactions.filter((_, i) => !this.used[i]);
+  }
+
+  /**
+   * Wraps MetrcHttp's fetch. Called by MetrcHttp when `MetrcHttpOptions.cassette` is set;
+   * `secrets` are the API keys to scrub from anything recorded.
+   */
+  wrap(fetchImpl: FetchLike, secrets: string[]): FetchLike {
+    // keys only need scrubbing from what gets written; replay never stores anything
+    if (this.mode === "record") for (const s of secrets) if (s) this.secrets.add(s);
+    return (input, init) => (this.mode === "record" ? this.recordOne(fetchImpl, input, init) : this.replayOne(input, init));
+  }
+
+  private alias(license: string): string {
+    let a = this.aliases.get(license);
+    if (!a) {
+      a = `LICENSE-${this.aliases.size + 1}`;
+      this.aliases.set(license, a);
+    }
+    return a;
+  }
+
+  /** Collects license numbers from `licenseNumber`-style keys and License.Number in a JSON value. */
+  private learnLicenses(value: unknown, parentKey?: string): void {
+    if (Array.isArray(value)) {
+      for (const v of value) this.learnLicenses(v, parentKey);
+    } else if (value && typeof value === "object") {
+      for (const [k, v] of Object.entries(value)) {
+        if (typeof v === "string" && v && (LICENSE_KEY.test(k) || (k === "Number" && parentKey === "License"))) this.alias(v);
+        else this.learnLicenses(v, k);
+      }
+    }
+  }
+
+  /** Scrubs API keys anywhere in `text` and replaces known license numbers where they stand as whole tokens. */
+  private redact(text: string, aliases = this.aliases): string {
+    let out = text;
+    for (const s of this.secrets) out = out.split(s).join("<REDACTED>");
+    return replaceTokens(out, aliases);
+  }
+
+  /** Replay: puts the live license numbers back where the fixture has aliases (whole tokens only). */
+  private unredact(text: string): string {
+    return replaceTokens(text, new Map([...this.aliases].map(([license, alias]) => [alias, license])));
+  }
+
+  /** Redacts each string value, so keys, numbers and JSON escaping are never touched. */
+  private redactJson(value: unknown, aliases = this.aliases): unknown {
+    return mapStrings(value, (s) => this.redact(s, aliases));
+  }
+
+  private redactRequest(req: MetrcCassetteRequest, aliases = this.aliases): MetrcCassetteRequest {
+    return {
+      method: req.method,
+      path: this.redact(req.path, aliases),
+      query: Object.fromEntries(Object.entries(req.query).map(([k, v]) => [k, this.redact(v, aliases)])),
+      body: this.redactJson(req.body, aliases),
+    };
+  }
+
+  private redactInteraction({ request, response }: MetrcCassetteInteraction): MetrcCassetteInteraction {
+    const redacted: MetrcCassetteResponse = {
+      status: response.status,
+      headers: Object.fromEntries(Object.entries(response.headers).map(([k, v]) => [k, this.redact(v)])),
+    };
+    if (response.json !== undefined) redacted.json = this.redactJson(response.json);
+    if (response.text !== undefined) redacted.text = this.redact(response.text);
+    if (response.base64 !== undefined) redacted.base64 = response.base64;
+    return { request: this.redactRequest(request), response: redacted };
+  }
+
+  private liveRequest(input: RequestInfo | URL, init?: RequestInit): MetrcCassetteRequest {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    return {
+      method: (init?.method ?? "GET").toUpperCase() as HttpMethod,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body: parseBody(init?.body),
+    };
+  }
+
+  private async recordOne(fetchImpl: FetchLike, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const live = this.liveRequest(input, init);
+    if (live.query.licenseNumber) this.alias(live.query.licenseNumber);
+    this.learnLicenses(live.body);
+    const request = this.redactRequest(live);
+    const res = await fetchImpl(input, init);
+
+    const headers: Record<string, string> = {};
+    for (const h of KEPT_RESPONSE_HEADERS) {
+      const v = res.headers.get(h);
+      if (v !== null) headers[h] = this.redact(v);
+    }
+    const response: MetrcCassetteResponse = { status: res.status, headers };
+    const ct = headers["content-type"] ?? "";
+    const bytes = new Uint8Array(await res.clone().arrayBuffer());
+
+    if (bytes.length && (ct.includes("json") || ct.startsWith("text/"))) {
+      const text = new TextDecoder().decode(bytes);
+      let json: unknown;
+      try {
+        json = ct.includes("json") ? JSON.parse(text) : undefined;
+      } catch {
+        json = undefined;
+      }
+      if (json !== undefined) {
+        this.learnLicenses(json);
+        response.json = this.redactJson(json);
+      } else {
+        response.text = this.redact(text);
+      }
+    } else if (bytes.length) {
+      response.base64 = bytesToBase64(bytes);
+    }
+
+    this.interactions.push({ request, response });
+    this.used.push(true);
+    return res;
+  }
+
+  private matches(request: MetrcCassetteRequest, recorded: MetrcCassetteRequest): boolean {
+    const m = this.options.match ?? {};
+    if (m.matcher) return m.matcher(request, recorded);
+    if (m.method !== false && request.method !== recorded.method) return false;
+    if (m.path !== false && request.path.replace(/\/+$/, "") !== recorded.path.replace(/\/+$/, "")) return false;
+    if (m.query !== false) {
+      const ignore = new Set(m.ignoreQueryParams ?? []);
+      const pick = (q: Record<string, string>) => Object.fromEntries(Object.entries(q).filter(([k]) => !ignore.has(k)));
+      if (stableStringify(pick(request.query)) !== stableStringify(pick(recorded.query))) return false;
+    }
+    if (m.body !== false && stableStringify(request.body ?? null) !== stableStringify(recorded.body ?? null)) return false;
+    return true;
+  }
+
+  /**
+   * Aliases under which `live` matches `recorded`, or undefined. A licenseNumber seen for the first
+   * time is bound to the recorded request's alias when no other license holds it yet.
+   */
+  private matchWith(live: MetrcCassetteRequest, recorded: MetrcCassetteRequest): Map<string, string> | undefined {
+    let aliases = this.aliases;
+    const license = live.query.licenseNumber;
+    const alias = recorded.query.licenseNumber;
+    if (license && !aliases.has(license) && alias && ![...aliases.values()].includes(alias)) {
+      aliases = new Map(aliases).set(license, alias);
+    }
+    return this.matches(this.redactRequest(live, aliases), recorded) ? aliases : undefined;
+  }
+
+  private async replayOne(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const live = this.liveRequest(input, init);
+
+    let index = -1;
+    let aliases: Map<string, string> | undefined;
+    for (let i = 0; i < this.interactions.length && !aliases; i++) {
+      if (!this.used[i] && (aliases = this.matchWith(live, this.interactions[i].request))) index = i;
+    }
+    if (!aliases && this.options.allowRepeats) {
+      for (let i = this.interactions.length - 1; i >= 0 && !aliases; i--) {
+        if ((aliases = this.matchWith(live, this.interactions[i].request))) index = i;
+      }
+    }
+    if (!aliases) {
+      const request = this.redactRequest(live);
+      const near = this.interactions
+        .filter((x) => x.request.method === request.method && x.request.path === request.path)
+        .slice(0, 3)
+        .map((x, i) => `\n  ${this.used[this.interactions.indexOf(x)] ? "(used) " : ""}${describe(x.request)}`);
+      throw new MetrcCassetteError(
+        `MetrcCassette: no recorded interaction matches ${describe(request)}` +
+          (near.length ? `; recorded for the same endpoint:${near.join("")}` : "; nothing recorded for this endpoint"),
+        request
+      );
+    }
+    this.used[index] = true;
+    this.aliases = aliases;
+
+    const { response } = this.interactions[index];
+    const headers = Object.fromEntries(Object.entries(response.headers).map(([k, v]) => [k, this.unredact(v)]));
+    let body: BodyInit | null = null;
+    if (response.json !== undefined) body = JSON.stringify(mapStrings(response.json, (s) => this.unredact(s)));
+    else if (response.text !== undefined) body = this.unredact(response.text);
+    else if (response.base64 !== undefined) body = base64ToBytes(response.base64).buffer as ArrayBuffer;
+    return new Response(body, { status: response.status, headers });
+  }
+}
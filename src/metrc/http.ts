@@ -1,18 +1,124 @@
 // src/metrc/http.ts
 // Shared Metrc HTTP client with Basic auth. 
 
+import { MetrcCassette, MetrcCassetteError } from "./cassette";
+import { MemoryIdempotencyStore, MetrcIdempotencyOptions } from "./idempotency";
+import { MetrcRateLimitOptions, MetrcRateLimiter } from "./rateLimit";
+import {
+  MetrcSchema,
+  MetrcSchemaError,
+  MetrcValidationOptions,
+  checkSchema,
+  formatSchemaIssue,
+  isBreakingIssue,
+} from "./schema";
+import { MetrcEnvironment, MetrcState, assertMetrcEndpointSupported, normalizeMetrcState, resolveMetrcBaseUrl } from "./states";
+
 export type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
 export interface MetrcHttpOptions {
-  baseUrl: string; // e.g. https://api-ca.metrc.com
+  baseUrl?: string; // e.g. https://api-ca.metrc.com; derived from `state` when omitted
+  /** Resolves baseUrl and blocks endpoints the state does not serve (MetrcUnsupportedError). Any case. */
+  state?: MetrcState;
+  environment?: MetrcEnvironment; // default "production"
   integratorApiKey: string;
   userApiKey: string;
   defaultLicenseNumber?: string;
   fetchImpl?: FetchLike;
-  timeoutMs?: number;
+  timeoutMs?: number; // per attempt; each retry gets a fresh timeout
   defaultHeaders?: Record<string, string>;
+  retry?: MetrcRetryOptions | false;
+  /** Token-bucket limits per license / per user key; pass a MetrcRateLimiter to share one across clients. */
+  rateLimit?: MetrcRateLimitOptions | MetrcRateLimiter;
+  /** Registered in order; same as calling http.use(...) for each. */
+  middleware?: MetrcMiddleware[];
+  /** Check responses against each method's runtime schema. Default: off. */
+  validation?: MetrcValidationOptions;
+  /** Record responses to, or replay them from, JSON fixtures (see MetrcCassette). */
+  cassette?: MetrcCassette;
+  /** Duplicate-submission protection for record/create/associate (see withIdempotency). Default: off. */
+  idempotency?: MetrcIdempotencyOptions;
+}
+
+export type MetrcResponseType = "json" | "text" | "arrayBuffer" | "stream";
+
+/** Result of a `responseType: "arrayBuffer"` request. */
+export interface MetrcBinaryResponse {
+  /** From Content-Disposition, when Metrc sends one. */
+  fileName?: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+/** Result of a `responseType: "stream"` request; the body is not buffered. */
+export interface MetrcStreamResponse {
+  fileName?: string;
+  contentType: string;
+  stream: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Mutable view of an outgoing call. Middleware may change any field before calling `next()`;
+ * the URL and body are built from it afterwards.
+ */
+export interface MetrcRequestContext {
+  method: HttpMethod;
+  path: string;
+  /** Used for rate limiting; the value actually sent is query.licenseNumber. */
+  licenseNumber?: string;
+  query: QueryDict;
+  headers: Record<string, string>;
+  body?: unknown;
+  retry?: MetrcRetryOptions | false;
+  responseType: MetrcResponseType;
+  /** Runtime schema for the parsed response (used when validation is on). */
+  schema?: MetrcSchema<unknown>;
+  /** Scratch space shared between middleware (timings, correlation ids, ...). */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Wraps every request. Resolves with the parsed result of `next()` (or a replacement),
+ * or rethrows/replaces the MetrcApiError it raised.
+ */
+export type MetrcMiddleware = (ctx: MetrcRequestContext, next: () => Promise<unknown>) => Promise<unknown>;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface MetrcRetryOptions {
+  /** Total attempts including the first one. Default 3. */
+  maxAttempts?: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^(n-1). Default 500. */
+  baseDelayMs?: number;
+  /** Upper bound for any single wait, including Retry-After. Default 30000. */
+  maxDelayMs?: number;
+  /** Full jitter (random 0..backoff) to spread parallel syncs apart. Default true. */
+  jitter?: boolean;
+  /** Status codes worth retrying. Default [429, 500, 502, 503, 504]. */
+  retryOnStatus?: number[];
+  /** Retry fetch failures and timeouts. Default true. */
+  retryNetworkErrors?: boolean;
+  /**
+   * POST is not idempotent: a 5xx/timeout may still have been applied by Metrc.
+   * Only retry POSTs when the caller opts in (429 is always safe to retry). Default false.
+   */
+  retryNonIdempotent?: boolean;
+  /** Per-attempt timeout; falls back to MetrcHttpOptions.timeoutMs. */
+  attemptTimeoutMs?: number;
 }
 
+type ResolvedRetry = Required<Omit<MetrcRetryOptions, "attemptTimeoutMs">> & Pick<MetrcRetryOptions, "attemptTimeoutMs">;
+
+const DEFAULT_RETRY: ResolvedRetry = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: true,
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryNonIdempotent: false,
+};
+
 export class MetrcApiError extends Error {
   constructor(
     message: string,
@@ -25,6 +131,93 @@ export class MetrcApiError extends Error {
   }
 }
 
+/** One entry of Metrc's 400 body: `[{ row, message }]`; `row` is the index of the submitted entry. */
+export interface MetrcRowError {
+  row: number | null;
+  message: string;
+  /** The submitted body entry at `row`, when the request body was an array. */
+  entry?: unknown;
+}
+
+/** 400: Metrc rejected the payload. `rowErrors` maps each message back to the input entry. */
+export class MetrcValidationError extends MetrcApiError {
+  constructor(message: string, status: number, url: string, details: unknown, public readonly rowErrors: MetrcRowError[]) {
+    super(message, status, url, details);
+    this.name = "MetrcValidationError";
+  }
+
+  /** Row errors for the given input index. */
+  forRow(row: number): MetrcRowError[] {
+    return this.rowErrors.filter((e) => e.row === row);
+  }
+}
+
+/** 401/403: bad keys, or the user key has no access to the license / endpoint. */
+export class MetrcAuthError extends MetrcApiError {
+  constructor(message: string, status: number, url: string, details?: unknown) {
+    super(message, status, url, details);
+    this.name = "MetrcAuthError";
+  }
+}
+
+/** 429 after retries were exhausted. */
+export class MetrcRateLimitError extends MetrcApiError {
+  constructor(message: string, status: number, url: string, details: unknown, public readonly retryAfterMs?: number) {
+    super(message, status, url, details);
+    this.name = "MetrcRateLimitError";
+  }
+}
+
+/** 5xx after retries were exhausted. */
+export class MetrcServerError extends MetrcApiError {
+  constructor(message: string, status: number, url: string, details?: unknown) {
+    super(message, status, url, details);
+    this.name = "MetrcServerError";
+  }
+}
+
+/**
+ * Accepts Metrc's row error array (`row`/`message`, any casing) or a single `{ Message }` object.
+ * Returns an empty list for anything else.
+ */
+export function parseRowErrors(details: unknown, requestBody?: unknown): MetrcRowError[] {
+  const list = Array.isArray(details) ? details : details && typeof details === "object" ? [details] : [];
+  const entries = Array.isArray(requestBody) ? requestBody : undefined;
+
+  const out: MetrcRowError[] = [];
+  for (const item of list) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    const message = o.message ?? o.Message;
+    if (typeof message !== "string") continue;
+    const rawRow = o.row ?? o.Row;
+    const row = typeof rawRow === "number" && Number.isInteger(rawRow) ? rawRow : null;
+    out.push({ row, message, entry: row !== null && entries ? entries[row] : undefined });
+  }
+  return out;
+}
+
+function createApiError(res: Response, url: string, details: unknown, requestBody?: unknown): MetrcApiError {
+  const status = res.status;
+  const base = `Metrc API error ${status}`;
+
+  if (status === 400) {
+    const rowErrors = parseRowErrors(details, requestBody);
+    const summary = rowErrors
+      .slice(0, 3)
+      .map((e) => (e.row !== null ? `row ${e.row}: ${e.message}` : e.message))
+      .join("; ");
+    const more = rowErrors.length > 3 ? ` (+${rowErrors.length - 3} more)` : "";
+    return new MetrcValidationError(summary ? `${base}: ${summary}${more}` : base, status, url, details, rowErrors);
+  }
+  if (status === 401 || status === 403) return new MetrcAuthError(base, status, url, details);
+  if (status === 429) {
+    return new MetrcRateLimitError(base, status, url, details, parseRetryAfter(res.headers.get("Retry-After")));
+  }
+  if (status >= 500) return new MetrcServerError(base, status, url, details);
+  return new MetrcApiError(base, status, url, details);
+}
+
 // Basic auth = Base64("software_api_key:user_api_key") in Authorization header. 
 function buildBasicAuth(integratorApiKey: string, userApiKey: string): string {
   const raw = `${integratorApiKey}:${userApiKey}`;
@@ -54,8 +247,8 @@ function joinUrl(baseUrl: string, path: string): string {
   return `${b}${p}`;
 }
 
-type QueryValue = string | number | boolean | null | undefined;
-type QueryDict = Record<string, QueryValue>;
+export type QueryValue = string | number | boolean | null | undefined;
+export type QueryDict = Record<string, QueryValue>;
 
 function toQuery(params: QueryDict): string {
   const usp = new URLSearchParams();
@@ -69,22 +262,46 @@ function toQuery(params: QueryDict): string {
 
 export class MetrcHttp {
   private readonly opts: MetrcHttpOptions;
+  private readonly baseUrl: string;
   private readonly fetchImpl: FetchLike;
+  private readonly limiter?: MetrcRateLimiter;
+  private readonly middleware: MetrcMiddleware[];
 
-  constructor(opts: MetrcHttpOptions) {
-    this.opts = opts;
+  /** `sharedMiddleware` is internal: license-scoped children share the parent's chain. */
+  constructor(opts: MetrcHttpOptions, sharedMiddleware?: MetrcMiddleware[]) {
+    // JS callers and env config pass "ca"; the registry is keyed by "CA"
+    if (opts.state) opts = { ...opts, state: normalizeMetrcState(opts.state) };
+    // forLicense() children get the resolved store through opts, so they share it
+    this.opts = opts.idempotency && !opts.idempotency.store
+      ? { ...opts, idempotency: { ...opts.idempotency, store: new MemoryIdempotencyStore() } }
+      : opts;
+    this.middleware = sharedMiddleware ?? [];
+    if (opts.baseUrl) this.baseUrl = opts.baseUrl;
+    else if (opts.state) this.baseUrl = resolveMetrcBaseUrl(opts.state, opts.environment);
+    else throw new Error("MetrcHttpOptions needs either baseUrl or state.");
     this.fetchImpl = opts.fetchImpl ?? (globalThis.fetch as FetchLike);
     if (!this.fetchImpl) throw new Error("No fetch implementation found. Pass fetchImpl in MetrcHttpOptions.");
+    if (opts.cassette) this.fetchImpl = opts.cassette.wrap(this.fetchImpl, [opts.integratorApiKey, opts.userApiKey]);
+    if (opts.rateLimit) {
+      this.limiter = opts.rateLimit instanceof MetrcRateLimiter ? opts.rateLimit : new MetrcRateLimiter(opts.rateLimit);
+    }
+    for (const mw of opts.middleware ?? []) this.use(mw);
   }
 
   async request<T>(args: {
-    method: "GET" | "POST" | "PUT" | "DELETE";
+    method: HttpMethod;
     path: string;
     licenseNumber?: string;
     query?: unknown; // ✅ accept typed objects like Paging
     body?: unknown;
     headers?: Record<string, string>;
+    retry?: MetrcRetryOptions | false; // per-call override, e.g. { retryNonIdempotent: true }
+    responseType?: MetrcResponseType; // default "json" (falls back to text for non-JSON bodies)
+    schema?: MetrcSchema<T>; // checked per MetrcHttpOptions.validation
   }): Promise<T> {
+    // Fail before middleware / network when the state doesn't serve this endpoint.
+    if (this.opts.state) assertMetrcEndpointSupported(this.opts.state, args.method, args.path);
+
     const license = args.licenseNumber ?? this.opts.defaultLicenseNumber;
 
     // ✅ convert unknown object shape into a query dictionary
@@ -105,55 +322,202 @@ export class MetrcHttp {
 
     if (license && query.licenseNumber === undefined) query.licenseNumber = license;
 
-    const url = `${joinUrl(this.opts.baseUrl, args.path)}${toQuery(query)}`;
+    const responseType = args.responseType ?? "json";
+    const binary = responseType === "arrayBuffer" || responseType === "stream";
 
-    const headers: Record<string, string> = {
-      Authorization: buildBasicAuth(this.opts.integratorApiKey, this.opts.userApiKey),
-      Accept: "application/json",
-      ...(this.opts.defaultHeaders ?? {}),
-      ...(args.headers ?? {}),
+    const ctx: MetrcRequestContext = {
+      method: args.method,
+      path: args.path,
+      licenseNumber: license,
+      query,
+      headers: {
+        Authorization: buildBasicAuth(this.opts.integratorApiKey, this.opts.userApiKey),
+        Accept: binary ? "*/*" : "application/json",
+        ...(this.opts.defaultHeaders ?? {}),
+        ...(args.headers ?? {}),
+      },
+      body: args.body,
+      retry: args.retry,
+      responseType,
+      schema: args.schema,
+      meta: {},
     };
 
+    const dispatch = (i: number): Promise<unknown> => {
+      const mw = this.middleware[i];
+      if (!mw) return this.send(ctx);
+      let called = false;
+      return mw(ctx, () => {
+        if (called) return Promise.reject(new Error("Metrc middleware called next() more than once"));
+        called = true;
+        return dispatch(i + 1);
+      });
+    };
+
+    return (await dispatch(0)) as T;
+  }
+
+  /** The license used when a call does not pass one. */
+  get defaultLicenseNumber(): string | undefined {
+    return this.opts.defaultLicenseNumber;
+  }
+
+  /** Idempotency settings with the store resolved; undefined when the protection is off. */
+  get idempotency(): MetrcIdempotencyOptions | undefined {
+    return this.opts.idempotency;
+  }
+
+  /**
+   * Same client with `defaultLicenseNumber` set. Shares fetch, rate limiter and middleware
+   * (including middleware added later) with this instance.
+   */
+  forLicense(licenseNumber: string): MetrcHttp {
+    return new MetrcHttp(
+      { ...this.opts, defaultLicenseNumber: licenseNumber, fetchImpl: this.fetchImpl, rateLimit: this.limiter, middleware: undefined, cassette: undefined },
+      this.middleware
+    );
+  }
+
+  /** Adds a middleware to the end of the chain. Returns `this` for chaining. */
+  use(mw: MetrcMiddleware): this {
+    this.middleware.push(mw);
+    return this;
+  }
+
+  private async send(ctx: MetrcRequestContext): Promise<unknown> {
+    const url = `${joinUrl(this.baseUrl, ctx.path)}${toQuery(ctx.query)}`;
+
+    const headers = { ...ctx.headers };
     let body: string | undefined;
-    if (args.body !== undefined) {
+    if (ctx.body !== undefined) {
       headers["Content-Type"] = headers["Content-Type"] ?? "application/json";
-      body = JSON.stringify(args.body);
+      body = JSON.stringify(ctx.body);
+    }
+
+    const retry = this.resolveRetry(ctx.retry);
+    const idempotent = ctx.method !== "POST" || retry.retryNonIdempotent;
+    const timeoutMs = retry.attemptTimeoutMs ?? this.opts.timeoutMs;
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < retry.maxAttempts;
+      const outcome = await this.attempt(ctx, url, { method: ctx.method, headers, body }, timeoutMs, retry, attempt, canRetry && idempotent);
+      if ("retryInMs" in outcome) {
+        await sleep(outcome.retryInMs);
+        continue;
+      }
+      this.validate(ctx, url, outcome.data);
+      return outcome.data;
     }
+  }
 
+  /**
+   * One attempt: limiter slot, fetch and body read. The slot and the timeout both cover the body
+   * download, so `maxConcurrent` bounds downloads and a stalled body stream is aborted.
+   * Resolves with the parsed data, or with how long to wait before the next attempt.
+   */
+  private async attempt(
+    ctx: MetrcRequestContext,
+    url: string,
+    init: RequestInit,
+    timeoutMs: number | undefined,
+    retry: ResolvedRetry,
+    attempt: number,
+    mayRetry: boolean
+  ): Promise<{ data: unknown } | { retryInMs: number }> {
+    // Every attempt (including retries) waits its turn in the limiter queue.
+    const release = this.limiter ? await this.limiter.acquire({ licenseNumber: ctx.licenseNumber, apiKey: this.opts.userApiKey }) : null;
+    // Each attempt gets its own AbortController so a timeout that already fired can't poison a retry.
     const ac = new AbortController();
-    const t = this.opts.timeoutMs ? setTimeout(() => ac.abort(new Error("timeout")), this.opts.timeoutMs) : null;
+    const t = timeoutMs ? setTimeout(() => ac.abort(new Error(`Metrc request timed out after ${timeoutMs}ms`)), timeoutMs) : null;
 
     try {
-      const res = await this.fetchImpl(url, { method: args.method, headers, body, signal: ac.signal });
-
-      // If Metrc rate limits you, you often see 429; honor Retry-After when present.
-      if (res.status === 429) {
-        const ra = res.headers.get("Retry-After");
-        const seconds = ra ? Number(ra) : NaN;
-        if (Number.isFinite(seconds) && seconds > 0) {
-          await new Promise((r) => setTimeout(r, seconds * 1000));
-          const res2 = await this.fetchImpl(url, { method: args.method, headers, body, signal: ac.signal });
-          return await this.parse<T>(res2, url);
-        }
+      const res = await this.fetchImpl(url, { ...init, signal: ac.signal });
+
+      // 429 means Metrc did not process the request, so it is retried regardless of method.
+      const retryable = retry.retryOnStatus.includes(res.status) && (res.status === 429 || mayRetry);
+      if (retryable && attempt < retry.maxAttempts) {
+        const ra = parseRetryAfter(res.headers.get("Retry-After"));
+        await res.text().catch(() => ""); // release the connection
+        return { retryInMs: Math.min(ra ?? backoffDelay(retry, attempt), retry.maxDelayMs) };
       }
 
-      return await this.parse<T>(res, url);
+      return { data: await this.parse<unknown>(res, url, ctx.body, ctx.responseType, ac.signal) };
+    } catch (err) {
+      // An unmatched replay is a test setup problem, not a flaky network.
+      if (err instanceof MetrcApiError || err instanceof MetrcCassetteError) throw err;
+      if (mayRetry && retry.retryNetworkErrors) return { retryInMs: backoffDelay(retry, attempt) };
+      throw err;
     } finally {
       if (t) clearTimeout(t);
+      release?.();
+    }
+  }
+
+  private validate(ctx: MetrcRequestContext, url: string, data: unknown): void {
+    const v = this.opts.validation;
+    if (!v || v.mode === "off" || !ctx.schema) return;
+
+    const issues = checkSchema(ctx.schema, data);
+    if (!issues.length) return;
+
+    const report = { method: ctx.method, path: ctx.path, url, issues };
+    const onDrift =
+      v.onDrift ??
+      ((r: typeof report) =>
+        console.warn(`Metrc schema drift on ${r.method} ${r.path}: ${r.issues.map(formatSchemaIssue).join("; ")}`));
+
+    const breaking = issues.filter(isBreakingIssue);
+    if (v.mode === "strict" && breaking.length) {
+      if (v.onDrift) v.onDrift(report);
+      throw new MetrcSchemaError(
+        `Metrc response for ${ctx.method} ${ctx.path} does not match ${ctx.schema.description}: ` +
+          breaking.slice(0, 5).map(formatSchemaIssue).join("; "),
+        url,
+        issues
+      );
     }
+    if (v.mode === "warn") onDrift(report);
+  }
+
+  private resolveRetry(override?: MetrcRetryOptions | false): ResolvedRetry {
+    if (override === false || this.opts.retry === false) return { ...DEFAULT_RETRY, maxAttempts: 1 };
+    return { ...DEFAULT_RETRY, ...(this.opts.retry ?? {}), ...(override ?? {}) };
   }
 
-  private async parse<T>(res: Response, url: string): Promise<T> {
+  /** `signal` is the attempt's; a body read it aborted (timeout) throws instead of reading as empty. */
+  private async parse<T>(
+    res: Response,
+    url: string,
+    requestBody?: unknown,
+    responseType: MetrcResponseType = "json",
+    signal?: AbortSignal
+  ): Promise<T> {
     const ct = res.headers.get("content-type") ?? "";
+
+    // Binary/stream bodies are only read that way on success; errors are still JSON/text.
+    if (res.ok && (responseType === "arrayBuffer" || responseType === "stream")) {
+      const fileName = parseContentDispositionFileName(res.headers.get("content-disposition"));
+      if (responseType === "stream") {
+        if (!res.body) throw new Error(`Metrc response has no body to stream: ${url}`);
+        return { fileName, contentType: ct, stream: res.body } satisfies MetrcStreamResponse as T;
+      }
+      const data = new Uint8Array(await res.arrayBuffer());
+      return { fileName, contentType: ct, data } satisfies MetrcBinaryResponse as T;
+    }
+
     const isJson = ct.includes("application/json");
 
-    const raw = await res.text().catch(() => "");
-    const data = raw && isJson ? safeJson(raw) : raw || undefined;
+    const raw = await res.text().catch((err) => {
+      if (signal?.aborted) throw signal.reason ?? err;
+      return "";
+    });
+    const data = raw && isJson && responseType === "json" ? safeJson(raw) : raw || undefined;
 
     if (res.ok) return data as T;
 
-    throw new MetrcApiError(`Metrc API error ${res.status}`, res.status, url, data);
+    throw createApiError(res, url, isJson ? safeJson(raw) : data, requestBody);
   }
+
 }
 
 function safeJson(s: string): unknown {
@@ -162,4 +526,42 @@ function safeJson(s: string): unknown {
   } catch {
     return s;
   }
-}
\ No newline at end of file
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function backoffDelay(retry: ResolvedRetry, attempt: number): number {
+  const exp = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+  return retry.jitter ? Math.floor(Math.random() * exp) : exp;
+}
+
+/** Retry-After is either delta-seconds ("120") or an HTTP-date ("Wed, 21 Oct 2015 07:28:00 GMT"). */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - now);
+}
+
+/** Handles both `filename="coa.pdf"` and RFC 5987 `filename*=UTF-8''coa%20final.pdf` (preferred when present). */
+export function parseContentDispositionFileName(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  const star = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (star) {
+    try {
+      return decodeURIComponent(star[2].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // fall through to the plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i);
+  if (!plain) return undefined;
+  const value = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, "$1") : plain[1].trim();
+  return value || undefined;
+}
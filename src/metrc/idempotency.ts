@@ -0,0 +1,298 @@
+// src/metrc/idempotency.ts
+// Duplicate-submission protection for Metrc POSTs (lab test record, additive template create,
+// Retail ID associate). Metrc has no idempotency keys, so when an attempt ends without a definite
+// answer (timeout, network error, 5xx) we read the data back before submitting again.
+
+import { MetrcApiError } from "./http";
+import { MetrcCassetteError } from "./cassette";
+
+export interface MetrcIdempotencyRecord {
+  key: string;
+  operation: string;
+  licenseNumber?: string;
+  /** "pending": submitted, outcome not known yet. "committed": Metrc applied it. */
+  state: "pending" | "committed";
+  /** ISO time of the first attempt; read-backs look for data changed since then. */
+  startedAt: string;
+  completedAt?: string;
+  attempts: number;
+  /** Response of the applied call (must be JSON-serializable for file stores). */
+  result?: unknown;
+  /** What the read-back needs from before the first attempt, e.g. ids that already existed (JSON). */
+  snapshot?: unknown;
+}
+
+/**
+ * Persistence for idempotency records. Implementations must be safe to share between clients.
+ * Concurrent calls for one key against the same store object are joined in memory. A store shared
+ * between processes also needs compare-and-set writes (only create a pending record when none
+ * exists), otherwise two processes can both see no record and both submit.
+ */
+export interface MetrcIdempotencyStore {
+  get(key: string): Promise<MetrcIdempotencyRecord | undefined>;
+  set(key: string, record: MetrcIdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface MetrcIdempotencyOptions {
+  /** Default: an in-memory store shared by this client and its forLicense() children. */
+  store?: MetrcIdempotencyStore;
+  /** Submissions per call, including resubmits after a negative read-back. Default 3. */
+  maxAttempts?: number;
+  /**
+   * How long a committed caller-supplied `idempotencyKey` keeps answering with the stored result.
+   * Default 24h. Keys derived from the body hash are never replayed once committed: an identical
+   * submission made on purpose (re-recording the same results, re-associating after a merge) goes
+   * to Metrc. Pending keys never expire: their outcome is unknown, so they are always read back first.
+   */
+  ttlMs?: number;
+}
+
+/** Per-call options accepted by the protected write methods. */
+export interface MetrcIdempotentCallOptions {
+  /**
+   * Caller-chosen key; a committed key answers with the stored result until `ttlMs` runs out.
+   * Default: derived from operation + license + body hash, which only guards calls in flight and
+   * submissions whose outcome is unknown.
+   */
+  idempotencyKey?: string;
+  /** Skip the protection for this call. */
+  idempotency?: false;
+}
+
+/** What a read-back found. `applied: false` means it is safe to submit again. */
+export type MetrcReadBack<T> = { applied: true; result: T } | { applied: false };
+
+/**
+ * The submission may or may not have been applied and the read-back could not tell.
+ * The key stays pending; calling again with the same key re-runs the read-back first.
+ */
+export class MetrcOutcomeUnknownError extends Error {
+  constructor(
+    message: string,
+    public readonly idempotencyKey: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "MetrcOutcomeUnknownError";
+  }
+}
+
+export class MemoryIdempotencyStore implements MetrcIdempotencyStore {
+  private readonly records = new Map<string, MetrcIdempotencyRecord>();
+
+  async get(key: string) {
+    const r = this.records.get(key);
+    return r && { ...r };
+  }
+
+  async set(key: string, record: MetrcIdempotencyRecord) {
+    this.records.set(key, { ...record });
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+}
+
+/** JSON file store; survives restarts so a crashed sync can confirm its last submission. Needs Node. */
+export class FileIdempotencyStore implements MetrcIdempotencyStore {
+  private records?: Record<string, MetrcIdempotencyRecord>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  // Kept untyped so the SDK compiles without Node type defs (same approach as loadLabTestDocument).
+  private async fs() {
+    return ((await import("fs" as string)) as {
+      promises: { readFile(p: string, enc: string): Promise<string>; writeFile(p: string, d: string): Promise<void> };
+    }).promises;
+  }
+
+  private async load(): Promise<Record<string, MetrcIdempotencyRecord>> {
+    if (!this.records) {
+      try {
+        this.records = JSON.parse(await (await this.fs()).readFile(this.path, "utf8"));
+      } catch (err) {
+        if ((err as { code?: string }).code !== "ENOENT") throw err;
+        this.records = {};
+      }
+    }
+    return this.records!;
+  }
+
+  /** Writes are serialized so concurrent calls never interleave partial files. */
+  private persist(): Promise<void> {
+    const data = JSON.stringify(this.records, null, 2);
+    this.writing = this.writing.then(async () => (await this.fs()).writeFile(this.path, data));
+    return this.writing;
+  }
+
+  async get(key: string) {
+    const r = (await this.load())[key];
+    return r && { ...r };
+  }
+
+  async set(key: string, record: MetrcIdempotencyRecord) {
+    (await this.load())[key] = { ...record };
+    await this.persist();
+  }
+
+  async delete(key: string) {
+    const records = await this.load();
+    if (!(key in records)) return;
+    delete records[key];
+    await this.persist();
+  }
+}
+
+/** Calls currently running per store and key; a second call for the same key joins the first. */
+const inFlight = new WeakMap<MetrcIdempotencyStore, Map<string, Promise<unknown>>>();
+
+/** JSON with sorted object keys, so the same body always hashes the same. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_k, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, (v as Record<string, unknown>)[k]]))
+      : v
+  );
+}
+
+/** "labTests.record:LIC-1:<sha256 of the canonical body>" */
+export async function deriveIdempotencyKey(operation: string, licenseNumber: string | undefined, body: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJson(body) ?? "");
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  let hex = "";
+  for (const b of digest) hex += b.toString(16).padStart(2, "0");
+  return `${operation}:${licenseNumber ?? ""}:${hex}`;
+}
+
+/**
+ * True when Metrc may have applied the request anyway: transport failures, timeouts and 5xx.
+ * Other API errors (400/401/403/404/429) are definite rejections.
+ */
+export function isOutcomeUnknown(err: unknown): boolean {
+  if (err instanceof MetrcCassetteError) return false;
+  if (err instanceof MetrcApiError) return err.status >= 500;
+  return true;
+}
+
+interface IdempotentCall<T, S> {
+  operation: string;
+  licenseNumber?: string;
+  body: unknown;
+  opts?: MetrcIdempotentCallOptions;
+  submit: () => Promise<T>;
+  /** Taken once before the first attempt and stored with the record (must be JSON-serializable). */
+  snapshot?: () => Promise<S>;
+  /**
+   * Reads Metrc to decide whether a submission started at `since` was applied. `snapshot` is
+   * undefined for records written before the call had one.
+   */
+  confirm: (since: Date, snapshot: S | undefined) => Promise<MetrcReadBack<T>>;
+}
+
+/**
+ * Runs `submit` at most once per key: a pending key (previous outcome unknown) is read back via
+ * `confirm` before anything is resubmitted, a call made while another one with the same key is
+ * running gets that call's result, and a committed caller-supplied key returns the stored result.
+ * Without `options` (and no per-call key) this is just `submit()`.
+ */
+export async function withIdempotency<T, S = undefined>(
+  options: MetrcIdempotencyOptions | undefined,
+  call: IdempotentCall<T, S>
+): Promise<T> {
+  if (call.opts?.idempotency === false) return call.submit();
+  if (!options) {
+    if (call.opts?.idempotencyKey) throw new Error(`${call.operation}: idempotencyKey needs MetrcHttpOptions.idempotency`);
+    return call.submit();
+  }
+
+  const store = options.store!;
+  const derived = !call.opts?.idempotencyKey;
+  const key = call.opts?.idempotencyKey ?? (await deriveIdempotencyKey(call.operation, call.licenseNumber, call.body));
+
+  let running = inFlight.get(store);
+  if (!running) inFlight.set(store, (running = new Map()));
+  const joined = running.get(key);
+  if (joined) return joined as Promise<T>;
+
+  const run = runIdempotent(options, store, key, derived, call).finally(() => running!.delete(key));
+  running.set(key, run);
+  return run;
+}
+
+async function runIdempotent<T, S>(
+  options: MetrcIdempotencyOptions,
+  store: MetrcIdempotencyStore,
+  key: string,
+  derived: boolean,
+  call: IdempotentCall<T, S>
+): Promise<T> {
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  const maxAttempts = options.maxAttempts ?? 3;
+
+  let record = await store.get(key);
+  if (
+    record?.state === "committed" &&
+    (derived || Date.now() - Date.parse(record.completedAt ?? record.startedAt) > ttlMs)
+  ) {
+    await store.delete(key);
+    record = undefined;
+  }
+  if (record?.state === "committed") return record.result as T;
+
+  // a derived key only guards the unknown outcome; once applied, the same body may be sent again
+  const commit = async (result: T): Promise<T> => {
+    if (derived) await store.delete(key);
+    else await store.set(key, { ...record!, state: "committed", completedAt: new Date().toISOString(), result });
+    return result;
+  };
+
+  const readBack = async (since: Date, cause: unknown): Promise<MetrcReadBack<T>> => {
+    try {
+      return await call.confirm(since, record?.snapshot as S | undefined);
+    } catch (err) {
+      throw new MetrcOutcomeUnknownError(
+        `${call.operation}: could not confirm whether Metrc applied the request (key ${key}): ${(err as Error)?.message ?? err}`,
+        key,
+        cause ?? err
+      );
+    }
+  };
+
+  if (record?.state === "pending") {
+    const rb = await readBack(new Date(record.startedAt), undefined);
+    if (rb.applied) return commit(rb.result);
+  }
+
+  record = {
+    key,
+    operation: call.operation,
+    licenseNumber: call.licenseNumber,
+    state: "pending",
+    startedAt: record?.startedAt ?? new Date().toISOString(),
+    attempts: record?.attempts ?? 0,
+    snapshot: record ? record.snapshot : await call.snapshot?.(),
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    record.attempts++;
+    await store.set(key, record);
+    try {
+      return await commit(await call.submit());
+    } catch (err) {
+      if (!isOutcomeUnknown(err)) {
+        await store.delete(key);
+        throw err;
+      }
+      const rb = await readBack(new Date(record.startedAt), err);
+      if (rb.applied) return commit(rb.result);
+      if (attempt >= maxAttempts) {
+        // confirmed not applied, so the key can be reused
+        await store.delete(key);
+        throw err;
+      }
+    }
+  }
+}
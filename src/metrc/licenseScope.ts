@@ -0,0 +1,91 @@
+// src/metrc/licenseScope.ts
+// Binds a license number into resource methods and drops it from their signatures.
+//
+// Resources declare where each method takes its license in a `...LicenseSlots` map:
+//   { arg: N }    positional argument N is the license (e.g. record(licenseNumber, body))
+//   { params: N } argument N is an object with a licenseNumber field (e.g. getActive({ licenseNumber, ... }))
+// Methods without an entry are passed through unchanged (their license, if any, is optional).
+// The scoped resources run on an http whose defaultLicenseNumber is the bound license, so the
+// wrapper only has to pass `undefined` where the license used to go.
+
+export type LicenseSlot = { readonly arg: number } | { readonly params: number };
+
+export type LicenseSlots<R> = { readonly [K in keyof R]?: LicenseSlot };
+
+type Before<T extends unknown[], N extends number, Acc extends unknown[] = []> = Acc["length"] extends N
+  ? Acc
+  : T extends [infer H, ...infer R]
+    ? Before<R, N, [...Acc, H]>
+    : Acc;
+
+type After<T extends unknown[], N extends number, Acc extends unknown[] = []> = Acc["length"] extends N
+  ? T extends [unknown?, ...infer R]
+    ? R
+    : []
+  : T extends [infer H, ...infer R]
+    ? After<R, N, [...Acc, H]>
+    : [];
+
+type At<T extends unknown[], N extends number> = NonNullable<T[N]>;
+
+type ParamsWithoutLicense<P, Rest extends unknown[]> = {} extends Omit<P, "licenseNumber">
+  ? Rest extends []
+    ? [params?: Omit<P, "licenseNumber">]
+    : [params: Omit<P, "licenseNumber">]
+  : [params: Omit<P, "licenseNumber">];
+
+type WithoutLicense<F, S> = F extends (...args: infer A) => infer Ret
+  ? S extends { readonly arg: infer N extends number }
+    ? (...args: [...Before<A, N>, ...After<A, N>]) => Ret
+    : S extends { readonly params: infer N extends number }
+      ? (...args: [...Before<A, N>, ...ParamsWithoutLicense<At<A, N>, After<A, N>>, ...After<A, N>]) => Ret
+      : F
+  : F;
+
+export type LicenseScoped<R, S> = {
+  [K in keyof R]: K extends keyof S ? WithoutLicense<R[K], S[K]> : R[K];
+};
+
+export type LicenseScopedResources<R, S> = {
+  [K in keyof R]: K extends keyof S ? LicenseScoped<R[K], S[K]> : R[K];
+};
+
+/** Wraps one resource. `resource` must have been created with a license-scoped MetrcHttp. */
+export function scopeResource<R extends object, S extends LicenseSlots<R>>(resource: R, slots: S): LicenseScoped<R, S> {
+  const out: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(resource)) {
+    if (typeof value !== "function") {
+      out[name] = value;
+      continue;
+    }
+
+    const fn = value as (...args: unknown[]) => unknown;
+    const slot = (slots as Record<string, LicenseSlot | undefined>)[name];
+
+    out[name] = (...args: unknown[]) => {
+      if (slot && "arg" in slot) {
+        while (args.length < slot.arg) args.push(undefined);
+        args.splice(slot.arg, 0, undefined);
+      } else if (slot && "params" in slot) {
+        args[slot.params] = { ...((args[slot.params] as object | undefined) ?? {}), licenseNumber: undefined };
+      }
+      // keep `this` on the original object so helpers like receiveByQrUrl still work
+      return fn.apply(resource, args);
+    };
+  }
+
+  return out as LicenseScoped<R, S>;
+}
+
+/** Wraps every resource of a createAllV{N}Resources() result using its allV{N}LicenseSlots map. */
+export function scopeResources<R extends Record<string, object>, S extends { readonly [K in keyof R]?: LicenseSlots<R[K]> }>(
+  resources: R,
+  slots: S
+): LicenseScopedResources<R, S> {
+  const out: Record<string, unknown> = {};
+  for (const [name, resource] of Object.entries(resources)) {
+    out[name] = scopeResource(resource, (slots as Record<string, LicenseSlots<object> | undefined>)[name] ?? {});
+  }
+  return out as LicenseScopedResources<R, S>;
+}
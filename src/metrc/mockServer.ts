@@ -0,0 +1,849 @@
+// src/metrc/mockServer.ts
+// In-memory Metrc simulator for integration tests. Plug it in as `fetchImpl`:
+//   const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+//   const metrc = new MetrcClient({ baseUrl: "https://mock.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl: mock.fetch });
+// Endpoints keep state between calls, check Basic auth + licenseNumber like Metrc, and can be told to fail.
+
+import type { FetchLike, HttpMethod } from "./http";
+import { METRC_MAX_PAGE_SIZE, MetrcPage } from "./pagination";
+import type { AdditiveTemplate, IdsResponse } from "./resources/v2/additivesTemplates";
+import type { Facility } from "./resources/v2/facilities";
+import type { LabTestBatch, LabTestResult, LabTestType } from "./resources/v2/labTests";
+import type { RetailIdReceiveResponse } from "./resources/v2/retailId";
+import { ObjectId, base64ToBytes, getShortUrl, parseRetailId } from "../retailid/retailid-core";
+import { RetailIdRange, compressIndices } from "../retailid/retailid-ranges";
+
+export interface MetrcMockLicense {
+  licenseNumber: string;
+  name?: string;
+}
+
+export interface MetrcMockOptions {
+  /** Credentials the mock accepts; anything else gets 401. */
+  integratorApiKey: string;
+  userApiKey: string;
+  /** Licenses the user key can access. */
+  licenses: Array<string | MetrcMockLicense>;
+  /** Lab test type names to seed. Default: a small cannabis panel. */
+  labTestTypes?: string[];
+  /** Receive responses set RequiresVerification to this. Default true. */
+  requiresVerification?: boolean;
+  /** Clock for LastModified and release timestamps. Default: the real clock. */
+  now?: () => Date;
+}
+
+export type MetrcMockFaultKind = "rateLimit" | "serverError" | "timeout" | "network" | "validation";
+
+export interface MetrcMockFault {
+  kind: MetrcMockFaultKind;
+  method?: HttpMethod;
+  /** Path prefix (e.g. "/labtests/v2/record") or pattern. Default: every request. */
+  path?: string | RegExp;
+  /** Number of matching requests to fail. Default 1; Infinity fails every one. */
+  times?: number;
+  /** serverError: status to send. Default 500. */
+  status?: number;
+  /** rateLimit: Retry-After header in seconds. Default 1. */
+  retryAfterSeconds?: number;
+  /** validation: 400 body. Default one error for row 0. */
+  rowErrors?: Array<{ row?: number; message: string }>;
+  /** timeout: respond normally after this long unless the request is aborted first. Default: hang until aborted. */
+  delayMs?: number;
+  /**
+   * Process the request before failing, i.e. Metrc applied it but the response was lost.
+   * For serverError/timeout/network; exercises read-back (see withIdempotency).
+   */
+  applied?: boolean;
+}
+
+export interface MetrcMockRequest {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+  status: number;
+  /** Set when the response came from an injected fault. */
+  fault?: MetrcMockFaultKind;
+}
+
+const DEFAULT_LAB_TEST_TYPES = ["THC", "CBD", "Moisture", "Total Yeast and Mold (CFU/g)", "Pesticides", "Heavy Metals"];
+
+const LAB_TEST_STATES = [
+  "NotSubmitted",
+  "SubmittedForTesting",
+  "TestFailed",
+  "TestPassed",
+  "TestingInProgress",
+  "AwaitingConfirmation",
+  "RetestFailed",
+  "RetestPassed",
+  "Remediated",
+  "SelectedForRandomTesting",
+  "NotRequired",
+  "ProcessValidated",
+];
+
+interface MockPackage {
+  id: number;
+  label: string;
+  licenseNumber: string;
+  results: LabTestResult[];
+  /** batch ObjectId hex -> associated indices */
+  retailIds: Map<string, Set<number>>;
+}
+
+interface MockTemplate {
+  template: AdditiveTemplate;
+  licenseNumber: string;
+  active: boolean;
+  lastModified: Date;
+}
+
+interface MockRequestContext {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  params: string[];
+}
+
+type RowError = { row: number; message: string };
+
+/** Thrown inside handlers; turned into the matching Metrc-style response. */
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`Metrc mock ${status}`);
+  }
+}
+
+function rowErrors(errors: RowError[]): MockHttpError {
+  return new MockHttpError(400, errors);
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  if (body === undefined) return new Response(null, { status, headers });
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json; charset=utf-8", ...headers } });
+}
+
+function headerValue(headers: HeadersInit | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (headers instanceof Headers) return headers.get(name) ?? undefined;
+  const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+  return entries.find(([k]) => k.toLowerCase() === name.toLowerCase())?.[1];
+}
+
+function basicAuth(integratorApiKey: string, userApiKey: string): string {
+  const raw = new TextEncoder().encode(`${integratorApiKey}:${userApiKey}`);
+  let bin = "";
+  for (const b of raw) bin += String.fromCharCode(b);
+  return `Basic ${btoa(bin)}`;
+}
+
+/** v2 list endpoints always answer with a page; without paging params it holds every record. */
+function toPage<T>(items: T[], query: Record<string, string>): MetrcPage<T> {
+  if (query.pageNumber === undefined && query.pageSize === undefined) {
+    return { Data: items, Total: items.length, TotalPages: 1, PageSize: items.length, RecordsOnPage: items.length, CurrentPage: 1 };
+  }
+  const pageNumber = Number(query.pageNumber ?? 1);
+  const pageSize = Number(query.pageSize ?? METRC_MAX_PAGE_SIZE);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > METRC_MAX_PAGE_SIZE) {
+    throw new MockHttpError(400, { Message: `pageSize must be between 1 and ${METRC_MAX_PAGE_SIZE}.` });
+  }
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) throw new MockHttpError(400, { Message: "pageNumber must be 1 or greater." });
+  const data = items.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+  return {
+    Data: data,
+    Total: items.length,
+    TotalPages: Math.ceil(items.length / pageSize),
+    PageSize: pageSize,
+    RecordsOnPage: data.length,
+    CurrentPage: pageNumber,
+  };
+}
+
+function inWindow(d: Date, query: Record<string, string>): boolean {
+  const start = query.lastModifiedStart ? Date.parse(query.lastModifiedStart) : -Infinity;
+  const end = query.lastModifiedEnd ? Date.parse(query.lastModifiedEnd) : Infinity;
+  if (Number.isNaN(start) || Number.isNaN(end)) throw new MockHttpError(400, { Message: "lastModifiedStart/End must be ISO dates." });
+  return d.getTime() >= start && d.getTime() <= end;
+}
+
+function asRows(body: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(body)) throw new MockHttpError(400, { Message: "Request body must be an array." });
+  return body.map((r) => (r && typeof r === "object" ? (r as Record<string, unknown>) : {}));
+}
+
+function nonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+export class MetrcMockServer {
+  /** Pass as MetrcHttpOptions.fetchImpl. */
+  readonly fetch: FetchLike = (input, init) => this.handle(input, init);
+  /** Every request seen, in order (including faulted and rejected ones). */
+  readonly requests: MetrcMockRequest[] = [];
+
+  private readonly authorization: string;
+  private readonly licenses = new Map<string, MetrcMockLicense>();
+  private readonly now: () => Date;
+  private readonly faults: Array<MetrcMockFault & { remaining: number }> = [];
+
+  private readonly labTestTypes: LabTestType[];
+  private readonly packages = new Map<string, MockPackage>(); // by label
+  private readonly documents = new Map<number, { fileName: string; data: Uint8Array }>();
+  private readonly templates = new Map<number, MockTemplate>();
+  /** batch ObjectId hex -> package label it was generated for */
+  private readonly issuances = new Map<string, { packageLabel: string; quantity: number }>();
+  private nextId = 1000;
+
+  constructor(private readonly opts: MetrcMockOptions) {
+    this.authorization = basicAuth(opts.integratorApiKey, opts.userApiKey);
+    for (const l of opts.licenses) {
+      const license = typeof l === "string" ? { licenseNumber: l } : l;
+      this.licenses.set(license.licenseNumber, license);
+    }
+    this.now = opts.now ?? (() => new Date());
+    this.labTestTypes = (opts.labTestTypes ?? DEFAULT_LAB_TEST_TYPES).map((Name, i) => ({
+      Id: i + 1,
+      Name,
+      RequiresTestResult: true,
+      InformationalOnly: false,
+      AlwaysPasses: false,
+      LabTestResultMode: null,
+      LabTestResultMinimum: null,
+      LabTestResultMaximum: null,
+      LabTestResultExpirationDays: null,
+      DependencyMode: null,
+      LastModified: null,
+    }));
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Fault injection
+   * --------------------------------------------------------------------------------------------- */
+
+  /** Queues a fault for matching requests; faults are checked in the order they were added. */
+  inject(fault: MetrcMockFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+    return this;
+  }
+
+  clearFaults(): void {
+    this.faults.length = 0;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * State inspection (for assertions)
+   * --------------------------------------------------------------------------------------------- */
+
+  getLabTestResults(packageLabel: string): LabTestResult[] {
+    return (this.packages.get(packageLabel)?.results ?? []).map((r) => ({ ...r }));
+  }
+
+  getAdditiveTemplate(id: number): (AdditiveTemplate & { active: boolean }) | undefined {
+    const t = this.templates.get(id);
+    return t && { ...t.template, active: t.active };
+  }
+
+  /** Associated Retail ID indices per batch ObjectId hex. */
+  getRetailIdRanges(packageLabel: string): Map<string, RetailIdRange[]> {
+    const out = new Map<string, RetailIdRange[]>();
+    for (const [batch, indices] of this.packages.get(packageLabel)?.retailIds ?? []) out.set(batch, compressIndices(indices));
+    return out;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Dispatch
+   * --------------------------------------------------------------------------------------------- */
+
+  private async handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    const method = (init?.method ?? "GET").toUpperCase() as HttpMethod;
+    const query = Object.fromEntries(url.searchParams);
+    const body = typeof init?.body === "string" && init.body ? JSON.parse(init.body) : undefined;
+    const entry: MetrcMockRequest = { method, path: url.pathname, query, body, status: 0 };
+    this.requests.push(entry);
+
+    const respond = (): Response => {
+      try {
+        if (headerValue(init?.headers, "Authorization") !== this.authorization) {
+          throw new MockHttpError(401, { Message: "Authorization has been denied for this request." });
+        }
+        return this.route({ method, path: url.pathname.replace(/\/+$/, "/"), query, body, params: [] });
+      } catch (err) {
+        if (!(err instanceof MockHttpError)) throw err;
+        return json(err.status, err.body);
+      }
+    };
+
+    let processed: Response | undefined;
+    const fault = this.takeFault(method, url.pathname);
+    if (fault) {
+      entry.fault = fault.kind;
+      if (fault.applied) processed = respond();
+      const res = await this.applyFault(fault, init?.signal ?? undefined);
+      if (res) {
+        entry.status = res.status;
+        return res;
+      }
+      // slow response (timeout with delayMs) falls through to the real handler
+    }
+
+    const res = processed ?? respond();
+    entry.status = res.status;
+    return res;
+  }
+
+  private takeFault(method: HttpMethod, path: string): MetrcMockFault | undefined {
+    const f = this.faults.find(
+      (x) =>
+        x.remaining > 0 &&
+        (!x.method || x.method === method) &&
+        (!x.path || (typeof x.path === "string" ? path.toLowerCase().startsWith(x.path.toLowerCase()) : x.path.test(path)))
+    );
+    if (f) f.remaining--;
+    return f;
+  }
+
+  private applyFault(fault: MetrcMockFault, signal?: AbortSignal): Promise<Response | undefined> {
+    switch (fault.kind) {
+      case "rateLimit":
+        return Promise.resolve(
+          json(429, { Message: "Too Many Requests" }, { "Retry-After": String(fault.retryAfterSeconds ?? 1) })
+        );
+      case "serverError":
+        return Promise.resolve(json(fault.status ?? 500, { Message: "An error has occurred." }));
+      case "validation":
+        return Promise.resolve(json(400, fault.rowErrors ?? [{ row: 0, message: "Mock validation error." }]));
+      case "network":
+        return Promise.reject(new TypeError("fetch failed (Metrc mock network fault)"));
+      case "timeout":
+        return new Promise((resolve, reject) => {
+          const abort = () => reject(signal?.reason ?? new Error("Metrc mock: request aborted"));
+          if (signal?.aborted) return abort();
+          signal?.addEventListener("abort", abort, { once: true });
+          if (fault.delayMs !== undefined) {
+            setTimeout(() => {
+              signal?.removeEventListener("abort", abort);
+              resolve(undefined);
+            }, fault.delayMs);
+          } else if (!signal) {
+            reject(new Error("Metrc mock: request timed out (no AbortSignal to wait on)"));
+          }
+        });
+    }
+  }
+
+  private route(ctx: MockRequestContext): Response {
+    const routes: Array<[HttpMethod, RegExp, (c: MockRequestContext) => Response]> = [
+      ["GET", /^\/facilities\/v2\/$/i, () => this.getFacilities()],
+      ["GET", /^\/packages\/v2\/([^/]+)\/?$/i, (c) => this.getPackage(c)],
+
+      ["GET", /^\/labtests\/v2\/states\/?$/i, () => json(200, LAB_TEST_STATES)],
+      ["GET", /^\/labtests\/v2\/types\/?$/i, (c) => json(200, toPage(this.labTestTypes, c.query))],
+      ["GET", /^\/labtests\/v2\/batches\/?$/i, (c) => json(200, toPage(this.labTestBatches(), c.query))],
+      ["GET", /^\/labtests\/v2\/results\/?$/i, (c) => this.getLabTestResultsRoute(c)],
+      ["POST", /^\/labtests\/v2\/record\/?$/i, (c) => this.recordLabTests(c)],
+      ["PUT", /^\/labtests\/v2\/labtestdocument\/?$/i, (c) => this.updateLabTestDocuments(c)],
+      ["GET", /^\/labtests\/v2\/labtestdocument\/(\d+)\/?$/i, (c) => this.getLabTestDocument(c)],
+      ["PUT", /^\/labtests\/v2\/results\/release\/?$/i, (c) => this.releaseLabTests(c)],
+
+      ["GET", /^\/additivestemplates\/v2\/(active|inactive)\/?$/i, (c) => this.listTemplates(c)],
+      ["GET", /^\/additivestemplates\/v2\/(\d+)\/?$/i, (c) => this.getTemplate(c)],
+      ["POST", /^\/additivestemplates\/v2\/$/i, (c) => this.createTemplates(c)],
+      ["PUT", /^\/additivestemplates\/v2\/$/i, (c) => this.updateTemplates(c)],
+      ["DELETE", /^\/additivestemplates\/v2\/(\d+)\/?$/i, (c) => this.archiveTemplate(c)],
+
+      ["POST", /^\/retailid\/v2\/generate\/?$/i, (c) => this.generateRetailIds(c)],
+      ["POST", /^\/retailid\/v2\/associate\/?$/i, (c) => this.associateRetailIds(c)],
+      ["POST", /^\/retailid\/v2\/merge\/?$/i, (c) => this.mergeRetailIds(c)],
+      ["POST", /^\/retailid\/v2\/packages\/info\/?$/i, (c) => this.retailIdPackagesInfo(c)],
+      ["GET", /^\/retailid\/v2\/receive\/qr\/([^/]+)\/?$/i, (c) => this.receiveByShortCode(c)],
+      ["GET", /^\/retailid\/v2\/receive\/([^/]+)\/?$/i, (c) => this.receiveByLabel(c)],
+    ];
+
+    for (const [method, re, handler] of routes) {
+      const m = ctx.path.match(re);
+      if (m && method === ctx.method) return handler({ ...ctx, params: m.slice(1).map(decodeURIComponent) });
+    }
+    throw new MockHttpError(404, { Message: `No HTTP resource was found that matches the request URI '${ctx.path}'.` });
+  }
+
+  /** licenseNumber from the query; 401 when the user key has no access to it. */
+  private license(ctx: MockRequestContext, required = true): string | undefined {
+    const ln = ctx.query.licenseNumber;
+    if (!ln) {
+      if (required) throw new MockHttpError(400, { Message: "licenseNumber is required." });
+      return undefined;
+    }
+    if (!this.licenses.has(ln)) throw new MockHttpError(401, { Message: `No valid license found for ${ln}.` });
+    return ln;
+  }
+
+  private packageFor(label: string, licenseNumber: string): MockPackage {
+    let p = this.packages.get(label);
+    if (!p) {
+      p = { id: this.nextId++, label, licenseNumber, results: [], retailIds: new Map() };
+      this.packages.set(label, p);
+    }
+    return p;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Facilities
+   * --------------------------------------------------------------------------------------------- */
+
+  private getFacilities(): Response {
+    const facilities: Facility[] = [...this.licenses.values()].map((l) => ({
+      HireDate: null,
+      IsOwner: true,
+      IsManager: true,
+      Occupations: [],
+      Name: l.name ?? `Mock Facility ${l.licenseNumber}`,
+      Alias: null,
+      DisplayName: l.name ?? null,
+      CredentialedDate: null,
+      SupportActivationDate: null,
+      SupportExpirationDate: null,
+      SupportLastPaidDate: null,
+      FacilityType: null,
+      License: { Number: l.licenseNumber, StartDate: null, EndDate: null, LicenseType: null },
+    }));
+    return json(200, facilities);
+  }
+
+  /** Minimal package view (Id + Label); packages are created implicitly by record/generate. */
+  private getPackage(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const p = this.packages.get(ctx.params[0]);
+    if (!p || p.licenseNumber !== license) throw new MockHttpError(404, { Message: "Package not found." });
+    return json(200, { Id: p.id, Label: p.label });
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Lab tests
+   * --------------------------------------------------------------------------------------------- */
+
+  private labTestBatches(): LabTestBatch[] {
+    return [
+      {
+        Id: 1,
+        Name: "Full Panel",
+        RequiresAllFromLabTestBatch: true,
+        LabTestTypeCount: this.labTestTypes.length,
+        LabTestTypes: this.labTestTypes,
+        LastModified: null,
+      },
+    ];
+  }
+
+  private getLabTestResultsRoute(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const packageId = Number(ctx.query.packageId);
+    if (!Number.isInteger(packageId)) throw new MockHttpError(400, { Message: "packageId is required." });
+    const pkg = [...this.packages.values()].find((p) => p.id === packageId && p.licenseNumber === license);
+    return json(200, toPage(pkg?.results ?? [], ctx.query));
+  }
+
+  private storeDocument(fileName: unknown, base64: unknown, row: number, errors: RowError[]): number | null {
+    if (base64 === undefined || base64 === null || base64 === "") return null;
+    let data: Uint8Array;
+    try {
+      data = base64ToBytes(String(base64));
+    } catch {
+      errors.push({ row, message: "DocumentFileBase64 is not valid base64." });
+      return null;
+    }
+    if (data.length > 5 * 1024 * 1024) {
+      errors.push({ row, message: "Document exceeds the 5 MB limit." });
+      return null;
+    }
+    const id = this.nextId++;
+    this.documents.set(id, { fileName: nonEmptyString(fileName) ? fileName : `labtestdocument-${id}.pdf`, data });
+    return id;
+  }
+
+  private recordLabTests(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+
+    rows.forEach((r, row) => {
+      if (!nonEmptyString(r.Label)) errors.push({ row, message: "Label is required." });
+      if (!nonEmptyString(r.ResultDate) || Number.isNaN(Date.parse(r.ResultDate))) {
+        errors.push({ row, message: "ResultDate must be a valid date." });
+      }
+      const existing = nonEmptyString(r.Label) ? this.packages.get(r.Label) : undefined;
+      if (existing && existing.licenseNumber !== license) {
+        errors.push({ row, message: `Package ${r.Label} does not belong to ${license}.` });
+      }
+      const results = Array.isArray(r.Results) ? r.Results : [];
+      if (!results.length) errors.push({ row, message: "At least one result is required." });
+      for (const res of results as Array<Record<string, unknown>>) {
+        if (!this.findLabTestType(res?.LabTestTypeName)) {
+          errors.push({ row, message: `Lab Test Type "${String(res?.LabTestTypeName)}" was not found.` });
+        }
+      }
+    });
+    if (errors.length) throw rowErrors(errors);
+
+    rows.forEach((r, row) => {
+      const pkg = this.packageFor(r.Label as string, license);
+      const docId = this.storeDocument(r.DocumentFileName, r.DocumentFileBase64, row, errors);
+      const results = r.Results as Array<Record<string, unknown>>;
+      const created: LabTestResult[] = results.map((res) => {
+        const type = this.findLabTestType(res.LabTestTypeName)!;
+        return {
+          PackageId: pkg.id,
+          LabTestResultId: this.nextId++,
+          LabFacilityLicenseNumber: license,
+          LabFacilityName: this.licenses.get(license)?.name ?? null,
+          SourcePackageLabel: pkg.label,
+          ProductName: null,
+          ProductCategoryName: null,
+          TestPerformedDate: r.ResultDate as string,
+          OverallPassed: false,
+          RevokedDate: null,
+          ResultReleased: false,
+          ResultReleaseDateTime: null,
+          TestTypeName: type.Name,
+          TestPassed: res.Passed !== false,
+          TestResultLevel: typeof res.Quantity === "number" ? res.Quantity : null,
+          TestComment: typeof res.Notes === "string" ? res.Notes : null,
+          TestInformationalOnly: type.InformationalOnly,
+          LabTestDetailRevokedDate: null,
+          LabTestResultDocumentFileId: docId,
+        };
+      });
+      pkg.results.push(...created);
+      const overall = pkg.results.every((x) => x.TestPassed);
+      for (const x of pkg.results) x.OverallPassed = overall;
+    });
+    if (errors.length) throw rowErrors(errors);
+    return json(200, undefined);
+  }
+
+  private findLabTestType(name: unknown): LabTestType | undefined {
+    if (typeof name !== "string") return undefined;
+    return this.labTestTypes.find((t) => t.Name.toLowerCase() === name.toLowerCase());
+  }
+
+  private updateLabTestDocuments(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+    const targets = rows.map((r, row) => {
+      const result = [...this.packages.values()]
+        .filter((p) => p.licenseNumber === license)
+        .flatMap((p) => p.results)
+        .find((x) => x.LabTestResultId === r.LabTestResultId);
+      if (!result) errors.push({ row, message: `Lab Test Result ${String(r.LabTestResultId)} was not found.` });
+      if (!nonEmptyString(r.DocumentFileBase64)) errors.push({ row, message: "DocumentFileBase64 is required." });
+      return result;
+    });
+    if (errors.length) throw rowErrors(errors);
+
+    rows.forEach((r, row) => {
+      const docId = this.storeDocument(r.DocumentFileName, r.DocumentFileBase64, row, errors);
+      targets[row]!.LabTestResultDocumentFileId = docId;
+    });
+    if (errors.length) throw rowErrors(errors);
+    return json(200, undefined);
+  }
+
+  private getLabTestDocument(ctx: MockRequestContext): Response {
+    this.license(ctx);
+    const doc = this.documents.get(Number(ctx.params[0]));
+    if (!doc) throw new MockHttpError(404, { Message: "Lab test document not found." });
+    return new Response(doc.data.slice().buffer as ArrayBuffer, {
+      status: 200,
+      headers: { "content-type": "application/pdf", "content-disposition": `attachment; filename="${doc.fileName}"` },
+    });
+  }
+
+  private releaseLabTests(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+    const pkgs = rows.map((r, row) => {
+      const p = nonEmptyString(r.PackageLabel) ? this.packages.get(r.PackageLabel) : undefined;
+      if (!p || p.licenseNumber !== license) errors.push({ row, message: `Package ${String(r.PackageLabel)} was not found.` });
+      else if (!p.results.length) errors.push({ row, message: `Package ${p.label} has no lab test results to release.` });
+      return p;
+    });
+    if (errors.length) throw rowErrors(errors);
+
+    const released = this.now().toISOString();
+    for (const p of pkgs) {
+      for (const x of p!.results) {
+        x.ResultReleased = true;
+        x.ResultReleaseDateTime = released;
+      }
+    }
+    return json(200, undefined);
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Additive templates
+   * --------------------------------------------------------------------------------------------- */
+
+  private listTemplates(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const active = ctx.params[0].toLowerCase() === "active";
+    const items = [...this.templates.values()]
+      .filter((t) => t.licenseNumber === license && t.active === active && inWindow(t.lastModified, ctx.query))
+      .map((t) => t.template);
+    return json(200, toPage(items, ctx.query));
+  }
+
+  private getTemplate(ctx: MockRequestContext): Response {
+    const license = this.license(ctx, false);
+    const t = this.templates.get(Number(ctx.params[0]));
+    if (!t) throw new MockHttpError(404, { Message: "Additive template not found." });
+    if (license && t.licenseNumber !== license) throw new MockHttpError(401, { Message: `No access to template from ${license}.` });
+    return json(200, t.template);
+  }
+
+  private validateTemplateRow(r: Record<string, unknown>, row: number, errors: RowError[]): void {
+    if (!nonEmptyString(r.Name)) errors.push({ row, message: "Name is required." });
+    if (!nonEmptyString(r.AdditiveType)) errors.push({ row, message: "AdditiveType is required." });
+    const ingredients = Array.isArray(r.ActiveIngredients) ? (r.ActiveIngredients as Array<Record<string, unknown>>) : [];
+    const total = ingredients.reduce((n, i) => n + (typeof i?.Percentage === "number" ? i.Percentage : 0), 0);
+    if (total > 100) errors.push({ row, message: `Active ingredient percentages add up to ${total}%, more than 100%.` });
+  }
+
+  private createTemplates(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+    rows.forEach((r, row) => this.validateTemplateRow(r, row, errors));
+    if (errors.length) throw rowErrors(errors);
+
+    const facilityId = [...this.licenses.keys()].indexOf(license) + 1;
+    const ids = rows.map((r) => {
+      const id = this.nextId++;
+      const template = { ...this.blankTemplate(), ...r, Id: id, FacilityId: facilityId } as AdditiveTemplate;
+      this.templates.set(id, { template, licenseNumber: license, active: true, lastModified: this.now() });
+      return id;
+    });
+    return json(200, { Ids: ids, Warnings: null } satisfies IdsResponse);
+  }
+
+  private blankTemplate(): Omit<AdditiveTemplate, "Id" | "FacilityId"> {
+    return {
+      Name: null,
+      AdditiveType: "",
+      AdditiveTypeName: null,
+      ApplicationDevice: null,
+      EpaRegistrationNumber: null,
+      Note: null,
+      ProductSupplier: null,
+      ProductTradeName: null,
+      RestrictiveEntryIntervalQuantityDescription: null,
+      RestrictiveEntryIntervalTimeDescription: null,
+      ActiveIngredients: [],
+    };
+  }
+
+  private updateTemplates(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+    const targets = rows.map((r, row) => {
+      const t = typeof r.Id === "number" ? this.templates.get(r.Id) : undefined;
+      if (!t || t.licenseNumber !== license) errors.push({ row, message: `Additive template ${String(r.Id)} was not found.` });
+      this.validateTemplateRow({ ...t?.template, ...r }, row, errors);
+      return t;
+    });
+    if (errors.length) throw rowErrors(errors);
+
+    const ids = rows.map((r, row) => {
+      const t = targets[row]!;
+      t.template = { ...t.template, ...r, Id: t.template.Id, FacilityId: t.template.FacilityId } as AdditiveTemplate;
+      t.lastModified = this.now();
+      return t.template.Id;
+    });
+    return json(200, { Ids: ids, Warnings: null } satisfies IdsResponse);
+  }
+
+  private archiveTemplate(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const t = this.templates.get(Number(ctx.params[0]));
+    if (!t || t.licenseNumber !== license) throw new MockHttpError(404, { Message: "Additive template not found." });
+    t.active = false;
+    t.lastModified = this.now();
+    return json(200, undefined);
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+   * Retail ID
+   * --------------------------------------------------------------------------------------------- */
+
+  private generateRetailIds(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const r = (ctx.body ?? {}) as Record<string, unknown>;
+    if (!nonEmptyString(r.PackageLabel)) throw rowErrors([{ row: 0, message: "PackageLabel is required." }]);
+    if (!Number.isInteger(r.Quantity) || (r.Quantity as number) < 1) {
+      throw rowErrors([{ row: 0, message: "Quantity must be a positive integer." }]);
+    }
+    const pkg = this.packageFor(r.PackageLabel, license);
+    if (pkg.licenseNumber !== license) throw rowErrors([{ row: 0, message: `Package ${pkg.label} does not belong to ${license}.` }]);
+
+    // Metrc issuances use the "1a4" RetailID prefix
+    const issuanceId = "1a4" + new ObjectId().toHexString().slice(3);
+    this.issuances.set(issuanceId, { packageLabel: pkg.label, quantity: r.Quantity as number });
+    return json(200, { IssuanceId: issuanceId });
+  }
+
+  private associateRetailIds(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const rows = asRows(ctx.body);
+    const errors: RowError[] = [];
+    const planned: Array<{ pkg: MockPackage; batch: string; index: number }> = [];
+
+    rows.forEach((r, row) => {
+      const pkg = nonEmptyString(r.PackageLabel) ? this.packages.get(r.PackageLabel) : undefined;
+      if (!pkg || pkg.licenseNumber !== license) {
+        errors.push({ row, message: `Package ${String(r.PackageLabel)} was not found.` });
+        return;
+      }
+      const urls = Array.isArray(r.QrUrls) ? r.QrUrls : [];
+      if (!urls.length) errors.push({ row, message: "QrUrls is required." });
+      for (const url of urls) {
+        let batch: string;
+        let index: number;
+        try {
+          const p = parseRetailId(String(url), { strictPrefixesOnly: true });
+          batch = p.batchId.toHexString();
+          index = p.index;
+        } catch {
+          errors.push({ row, message: `${String(url)} is not a valid Retail ID.` });
+          continue;
+        }
+        if (this.issuances.get(batch)?.packageLabel !== pkg.label) {
+          errors.push({ row, message: `${String(url)} was not generated for package ${pkg.label}.` });
+          continue;
+        }
+        const owner = this.ownerOf(batch, index);
+        if (owner && owner !== pkg) {
+          errors.push({ row, message: `${String(url)} is already associated with package ${owner.label}.` });
+          continue;
+        }
+        planned.push({ pkg, batch, index });
+      }
+    });
+    if (errors.length) throw rowErrors(errors);
+
+    for (const { pkg, batch, index } of planned) {
+      const set = pkg.retailIds.get(batch) ?? new Set<number>();
+      set.add(index);
+      pkg.retailIds.set(batch, set);
+    }
+    return json(200, { Ids: rows.map(() => this.nextId++), Warnings: null } satisfies IdsResponse);
+  }
+
+  private ownerOf(batch: string, index: number): MockPackage | undefined {
+    return [...this.packages.values()].find((p) => p.retailIds.get(batch)?.has(index));
+  }
+
+  /** Moves the Retail IDs of every listed package onto the first one. */
+  private mergeRetailIds(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const labels = ((ctx.body ?? {}) as { packageLabels?: unknown }).packageLabels;
+    if (!Array.isArray(labels) || labels.length < 2) throw rowErrors([{ row: 0, message: "At least two packageLabels are required." }]);
+    const pkgs = labels.map((l, row) => {
+      const p = this.packages.get(String(l));
+      if (!p || p.licenseNumber !== license) throw rowErrors([{ row, message: `Package ${String(l)} was not found.` }]);
+      return p;
+    });
+
+    const [target, ...sources] = pkgs;
+    for (const src of sources) {
+      for (const [batch, indices] of src.retailIds) {
+        const set = target.retailIds.get(batch) ?? new Set<number>();
+        indices.forEach((i) => set.add(i));
+        target.retailIds.set(batch, set);
+      }
+      src.retailIds.clear();
+    }
+    return json(200, undefined);
+  }
+
+  /** Metrc does not document the entry shape (the SDK types it as unknown); this one is the mock's own. */
+  private retailIdPackagesInfo(ctx: MockRequestContext): Response {
+    const license = this.license(ctx)!;
+    const labels = ((ctx.body ?? {}) as { packageLabels?: unknown }).packageLabels;
+    if (!Array.isArray(labels)) throw rowErrors([{ row: 0, message: "packageLabels is required." }]);
+    const packages = labels.map((l) => {
+      const p = this.packages.get(String(l));
+      if (!p || p.licenseNumber !== license) return { PackageLabel: String(l), Found: false, QrCount: 0, Issuances: [] };
+      return {
+        PackageLabel: p.label,
+        Found: true,
+        QrCount: [...p.retailIds.values()].reduce((n, s) => n + s.size, 0),
+        Issuances: [...p.retailIds].map(([IssuanceId, s]) => ({ IssuanceId, Ranges: compressIndices(s) })),
+      };
+    });
+    return json(200, { Packages: packages });
+  }
+
+  private receiveByLabel(ctx: MockRequestContext): Response {
+    const license = this.license(ctx, false);
+    const pkg = this.packages.get(ctx.params[0]);
+    if (!pkg || (license && pkg.licenseNumber !== license)) throw new MockHttpError(404, { Message: "Package not found." });
+    return json(200, this.receiveResponse(pkg, this.latestIssuance(pkg)));
+  }
+
+  /**
+   * Metrc's receive view describes a single issuance in Ranges. For a label lookup the mock takes
+   * the most recently generated issuance the package holds codes from, so the answer depends on
+   * generate order only, never on the order codes were associated or merged in.
+   */
+  private latestIssuance(pkg: MockPackage): string | undefined {
+    let latest: string | undefined;
+    for (const batch of this.issuances.keys()) if (pkg.retailIds.get(batch)?.size) latest = batch;
+    return latest;
+  }
+
+  private receiveByShortCode(ctx: MockRequestContext): Response {
+    this.license(ctx);
+    let batch: string;
+    let index: number;
+    try {
+      const p = parseRetailId(ctx.params[0]);
+      batch = p.batchId.toHexString();
+      index = p.index;
+    } catch {
+      throw new MockHttpError(400, { Message: `${ctx.params[0]} is not a valid Retail ID.` });
+    }
+    const pkg = this.ownerOf(batch, index);
+    if (!pkg) throw new MockHttpError(404, { Message: "No package is associated with this Retail ID." });
+    return json(200, this.receiveResponse(pkg, batch));
+  }
+
+  /**
+   * Ranges cover `primaryBatch` only (receive by short code: the scanned code's batch; by label: see
+   * latestIssuance); associations from other batches are listed as Eaches.
+   */
+  private receiveResponse(pkg: MockPackage, primaryBatch?: string): RetailIdReceiveResponse {
+    const eaches: string[] = [];
+    for (const [batch, indices] of pkg.retailIds) {
+      if (batch === primaryBatch) continue;
+      const id = new ObjectId(batch);
+      for (const i of [...indices].sort((a, b) => a - b)) eaches.push(getShortUrl(id, i));
+    }
+    const primary = primaryBatch ? pkg.retailIds.get(primaryBatch) : undefined;
+    return {
+      Eaches: eaches,
+      SiblingTags: [],
+      RequiresVerification: this.opts.requiresVerification ?? true,
+      Ranges: primary ? compressIndices(primary) : [],
+      QrCount: [...pkg.retailIds.values()].reduce((n, s) => n + s.size, 0),
+      ChildTag: null,
+      LabelSource: "RetailId",
+    };
+  }
+}
@@ -0,0 +1,129 @@
+// src/metrc/pagination.ts
+// Page loops for Metrc endpoints that accept pageNumber/pageSize.
+
+import { MetrcSchema, schema } from "./schema";
+
+/** Metrc caps pageSize at 20; providing a value <= 20 is what enables pagination. */
+export const METRC_MAX_PAGE_SIZE = 20;
+
+/** Paged envelope returned by v2 list endpoints (their getters and iterate* methods both expect it). */
+export interface MetrcPage<T> {
+  Data: T[];
+  Total: number;
+  TotalPages: number;
+  PageSize: number;
+  RecordsOnPage: number;
+  CurrentPage?: number;
+  [k: string]: unknown;
+}
+
+/** Runtime schema for MetrcPage<T>. */
+export function metrcPageSchema<T>(item: MetrcSchema<T>): MetrcSchema<MetrcPage<T>> {
+  return schema.object<MetrcPage<T>>(`MetrcPage<${item.description}>`, {
+    Data: schema.array(item),
+    Total: schema.number(),
+    TotalPages: schema.number(),
+    PageSize: schema.number(),
+    RecordsOnPage: schema.number(),
+    CurrentPage: schema.optional(schema.number()),
+  });
+}
+
+/** Either the paged envelope or a bare array (v1-style endpoints that ignore paging). */
+export function metrcPageOrArraySchema<T>(item: MetrcSchema<T>): MetrcSchema<MetrcPage<T> | T[]> {
+  return schema.union(metrcPageSchema(item), schema.array(item));
+}
+
+export interface PageRequest {
+  pageNumber: number;
+  pageSize: number;
+}
+
+export interface PaginateOptions {
+  /** First page to request (1-based). Default 1. */
+  startPage?: number;
+  /** Records per page, 1..20. Default 20. */
+  pageSize?: number;
+  /** Safety stop; no more than this many pages are requested. */
+  maxPages?: number;
+}
+
+export function isMetrcPage<T = unknown>(v: unknown): v is MetrcPage<T> {
+  return !!v && typeof v === "object" && Array.isArray((v as { Data?: unknown }).Data);
+}
+
+export function assertPageSize(pageSize: number): void {
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > METRC_MAX_PAGE_SIZE) {
+    throw new RangeError(`pageSize must be an integer between 1 and ${METRC_MAX_PAGE_SIZE}, got ${pageSize}`);
+  }
+}
+
+/**
+ * Walks every page of a paged endpoint and yields individual records.
+ *
+ * `fetchPage` receives the page to request and may return either the paged envelope
+ * or a bare array (some endpoints ignore paging and return everything at once).
+ * Iteration stops on the last page per `TotalPages`, on an empty page, or on a short page.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: PageRequest) => Promise<MetrcPage<T> | T[] | null | undefined>,
+  opts?: PaginateOptions
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = opts?.pageSize ?? METRC_MAX_PAGE_SIZE;
+  assertPageSize(pageSize);
+
+  let pageNumber = opts?.startPage ?? 1;
+  const lastAllowed = opts?.maxPages !== undefined ? pageNumber + opts.maxPages - 1 : Infinity;
+
+  while (pageNumber <= lastAllowed) {
+    const res = await fetchPage({ pageNumber, pageSize });
+    if (!res) return;
+
+    // Unpaged array response: everything came back in one go.
+    if (Array.isArray(res)) {
+      yield* res;
+      return;
+    }
+
+    const rows = res.Data ?? [];
+    yield* rows;
+
+    if (rows.length === 0 || res.RecordsOnPage === 0) return;
+    if (Number.isFinite(res.TotalPages) && pageNumber >= res.TotalPages) return;
+    if (rows.length < (res.PageSize || pageSize)) return;
+
+    pageNumber++;
+  }
+}
+
+/** Drains an async iterable (e.g. an `iterate*` resource method) into an array. */
+export async function collectAll<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+/** Longest lastModified range Metrc accepts in one request. */
+export const METRC_MAX_SYNC_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface MetrcSyncWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Splits [start, end] into consecutive windows of at most `windowMs`.
+ * Adjacent windows share their boundary instant (Metrc treats both ends as inclusive).
+ */
+export function splitSyncWindows(start: Date, end: Date, windowMs = METRC_MAX_SYNC_WINDOW_MS): MetrcSyncWindow[] {
+  if (!Number.isFinite(windowMs) || windowMs <= 0 || windowMs > METRC_MAX_SYNC_WINDOW_MS) {
+    throw new RangeError(`windowMs must be between 1 and ${METRC_MAX_SYNC_WINDOW_MS}, got ${windowMs}`);
+  }
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) throw new RangeError("splitSyncWindows: invalid date");
+
+  const out: MetrcSyncWindow[] = [];
+  for (let s = start.getTime(); s < end.getTime(); s += windowMs) {
+    out.push({ start: new Date(s), end: new Date(Math.min(s + windowMs, end.getTime())) });
+  }
+  return out;
+}
@@ -0,0 +1,143 @@
+// src/metrc/rateLimit.ts
+// Client-side token-bucket limiter keyed by license number and by user API key.
+// Requests queue FIFO per key instead of failing, which avoids 429 storms on parallel syncs.
+
+export interface MetrcBucketOptions {
+  /** Sustained requests per second. */
+  ratePerSecond: number;
+  /** Bucket size (max requests sent back-to-back). Default: ratePerSecond. */
+  burst?: number;
+  /** Max requests in flight at once for this key. Default: unlimited. */
+  maxConcurrent?: number;
+}
+
+export interface MetrcRateLimitOptions {
+  /** Applied per license number (args.licenseNumber ?? defaultLicenseNumber). */
+  perLicense?: MetrcBucketOptions;
+  /** Applied per user API key (shared by every license that key touches). */
+  perApiKey?: MetrcBucketOptions;
+}
+
+export type ReleaseFn = () => void;
+
+interface Waiter {
+  resolve: (release: ReleaseFn) => void;
+}
+
+class KeyedBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private readonly queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+
+  constructor(opts: MetrcBucketOptions) {
+    if (!(opts.ratePerSecond > 0)) throw new RangeError(`ratePerSecond must be > 0, got ${opts.ratePerSecond}`);
+    this.rate = opts.ratePerSecond;
+    this.burst = Math.max(1, opts.burst ?? opts.ratePerSecond);
+    this.maxConcurrent = opts.maxConcurrent ?? Infinity;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  acquire(): Promise<ReleaseFn> {
+    return new Promise((resolve) => {
+      this.queue.push({ resolve });
+      this.pump();
+    });
+  }
+
+  /**
+   * Nothing queued or in flight and the bucket has refilled to `burst`. Only then can it be dropped:
+   * a recreated bucket starts full, so dropping a partly drained one would hand out extra tokens.
+   */
+  get disposable(): boolean {
+    if (this.inFlight !== 0 || this.queue.length !== 0) return false;
+    this.refill();
+    return this.tokens >= this.burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private pump(): void {
+    this.refill();
+
+    while (this.queue.length && this.inFlight < this.maxConcurrent && this.tokens >= 1) {
+      const w = this.queue.shift()!;
+      this.tokens -= 1;
+      this.inFlight++;
+
+      let released = false;
+      w.resolve(() => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        this.pump();
+      });
+    }
+
+    // Waiting on tokens (not on concurrency): wake up when the next token lands.
+    if (this.queue.length && this.inFlight < this.maxConcurrent && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, Math.max(waitMs, 1));
+    }
+  }
+}
+
+/**
+ * Share one instance across MetrcClients (pass it as `rateLimit`) when several
+ * clients use the same user key, so the per-key quota is enforced globally.
+ */
+export class MetrcRateLimiter {
+  private readonly licenses = new Map<string, KeyedBucket>();
+  private readonly apiKeys = new Map<string, KeyedBucket>();
+
+  constructor(private readonly opts: MetrcRateLimitOptions) {}
+
+  /**
+   * Waits for a slot on the API key bucket, then on the license bucket. A license slot is only
+   * taken once the key has capacity, so a request stuck behind the key quota never holds a
+   * license slot (or token) that other requests for that license could use.
+   */
+  async acquire(key: { licenseNumber?: string; apiKey: string }): Promise<ReleaseFn> {
+    const releases: ReleaseFn[] = [];
+
+    if (this.opts.perApiKey) {
+      releases.push(await bucketFor(this.apiKeys, key.apiKey, this.opts.perApiKey).acquire());
+    }
+    if (this.opts.perLicense && key.licenseNumber) {
+      releases.push(await bucketFor(this.licenses, key.licenseNumber, this.opts.perLicense).acquire());
+    }
+
+    return () => {
+      for (const r of releases) r();
+      this.prune();
+    };
+  }
+
+  private prune(): void {
+    for (const m of [this.licenses, this.apiKeys]) {
+      for (const [k, b] of m) if (m.size > 1000 && b.disposable) m.delete(k);
+    }
+  }
+}
+
+function bucketFor(map: Map<string, KeyedBucket>, key: string, opts: MetrcBucketOptions): KeyedBucket {
+  let b = map.get(key);
+  if (!b) {
+    b = new KeyedBucket(opts);
+    map.set(key, b);
+  }
+  return b;
+}
@@ -0,0 +1,29 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/employees.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Employee } from "./types";
+import { EmployeeSchema } from "./types";
+
+export const employeesV1LicenseSlots = {
+  get: { params: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createEmployeesV1>>;
+
+export function createEmployeesV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /employees/v1/
+     * Employees of the facility.
+     */
+    get(params: { licenseNumber: string }) {
+      return http.request<Array<Employee>>({
+        method: "GET",
+        path: "/employees/v1/",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(EmployeeSchema),
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,26 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/facilities.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Facility } from "./types";
+import { FacilitySchema } from "./types";
+
+export const facilitiesV1LicenseSlots = {
+} as const satisfies LicenseSlots<ReturnType<typeof createFacilitiesV1>>;
+
+export function createFacilitiesV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /facilities/v1/
+     * Facilities (and licenses) the user key can access.
+     */
+    get() {
+      return http.request<Array<Facility>>({
+        method: "GET",
+        path: "/facilities/v1/",
+        schema: schema.array(FacilitySchema),
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,184 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/harvests.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Harvest, HarvestFinishRequest, HarvestMoveRequest, HarvestPackageRequest, HarvestRenameRequest, HarvestUnfinishRequest, HarvestWasteRequest, HarvestWasteType } from "./types";
+import { HarvestSchema, HarvestWasteTypeSchema } from "./types";
+
+export const harvestsV1LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getOnhold: { params: 0 },
+  createPackages: { arg: 0 },
+  createPackagesTesting: { arg: 0 },
+  move: { arg: 0 },
+  rename: { arg: 0 },
+  removewaste: { arg: 0 },
+  finish: { arg: 0 },
+  unfinish: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createHarvestsV1>>;
+
+export function createHarvestsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /harvests/v1/{id}
+     * A harvest by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Harvest>({
+        method: "GET",
+        path: `/harvests/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: HarvestSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v1/active
+     * Active harvests, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Harvest>>({
+        method: "GET",
+        path: "/harvests/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(HarvestSchema),
+      });
+    },
+
+    /**
+     * GET /harvests/v1/inactive
+     * Inactive harvests, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Harvest>>({
+        method: "GET",
+        path: "/harvests/v1/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(HarvestSchema),
+      });
+    },
+
+    /**
+     * GET /harvests/v1/onhold
+     * Harvests on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Harvest>>({
+        method: "GET",
+        path: "/harvests/v1/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(HarvestSchema),
+      });
+    },
+
+    /**
+     * GET /harvests/v1/waste/types
+     * Harvest waste types.
+     */
+    getWasteTypes() {
+      return http.request<Array<HarvestWasteType>>({
+        method: "GET",
+        path: "/harvests/v1/waste/types",
+        schema: schema.array(HarvestWasteTypeSchema),
+      });
+    },
+
+    /**
+     * POST /harvests/v1/create/packages
+     * Creates packages from harvests.
+     */
+    createPackages(licenseNumber: string, body: Array<HarvestPackageRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/harvests/v1/create/packages",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /harvests/v1/create/packages/testing
+     * Creates testing packages from harvests.
+     */
+    createPackagesTesting(licenseNumber: string, body: Array<HarvestPackageRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/harvests/v1/create/packages/testing",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /harvests/v1/move
+     * Moves harvests to another drying location.
+     */
+    move(licenseNumber: string, body: Array<HarvestMoveRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/harvests/v1/move",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /harvests/v1/rename
+     * Renames harvests.
+     */
+    rename(licenseNumber: string, body: Array<HarvestRenameRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/harvests/v1/rename",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /harvests/v1/removewaste
+     * Records waste removed from harvests.
+     */
+    removewaste(licenseNumber: string, body: Array<HarvestWasteRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/harvests/v1/removewaste",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /harvests/v1/finish
+     * Finishes harvests.
+     */
+    finish(licenseNumber: string, body: Array<HarvestFinishRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/harvests/v1/finish",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /harvests/v1/unfinish
+     * Reopens finished harvests.
+     */
+    unfinish(licenseNumber: string, body: Array<HarvestUnfinishRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/harvests/v1/unfinish",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -1,9 +1,52 @@
 // AUTO-GENERATED. Do not edit.
 import { MetrcHttp } from "../../http";
-
+import { createEmployeesV1, employeesV1LicenseSlots } from "./employees";
+import { createFacilitiesV1, facilitiesV1LicenseSlots } from "./facilities";
+import { createHarvestsV1, harvestsV1LicenseSlots } from "./harvests";
+import { createItemsV1, itemsV1LicenseSlots } from "./items";
+import { createLabTestsV1, labTestsV1LicenseSlots } from "./labTests";
+import { createLocationsV1, locationsV1LicenseSlots } from "./locations";
+import { createPackagesV1, packagesV1LicenseSlots } from "./packages";
+import { createPatientsV1, patientsV1LicenseSlots } from "./patients";
+import { createPlantBatchesV1, plantBatchesV1LicenseSlots } from "./plantBatches";
+import { createPlantsV1, plantsV1LicenseSlots } from "./plants";
+import { createSalesV1, salesV1LicenseSlots } from "./sales";
+import { createStrainsV1, strainsV1LicenseSlots } from "./strains";
+import { createTransfersV1, transfersV1LicenseSlots } from "./transfers";
+import { createUnitsOfMeasureV1, unitsOfMeasureV1LicenseSlots } from "./unitsOfMeasure";
 
 export function createAllV1Resources(http: MetrcHttp) {
   return {
-
+    employees: createEmployeesV1(http),
+    facilities: createFacilitiesV1(http),
+    harvests: createHarvestsV1(http),
+    items: createItemsV1(http),
+    labTests: createLabTestsV1(http),
+    locations: createLocationsV1(http),
+    packages: createPackagesV1(http),
+    patients: createPatientsV1(http),
+    plantBatches: createPlantBatchesV1(http),
+    plants: createPlantsV1(http),
+    sales: createSalesV1(http),
+    strains: createStrainsV1(http),
+    transfers: createTransfersV1(http),
+    unitsOfMeasure: createUnitsOfMeasureV1(http),
   } as const;
 }
+
+export const allV1LicenseSlots = {
+  employees: employeesV1LicenseSlots,
+  facilities: facilitiesV1LicenseSlots,
+  harvests: harvestsV1LicenseSlots,
+  items: itemsV1LicenseSlots,
+  labTests: labTestsV1LicenseSlots,
+  locations: locationsV1LicenseSlots,
+  packages: packagesV1LicenseSlots,
+  patients: patientsV1LicenseSlots,
+  plantBatches: plantBatchesV1LicenseSlots,
+  plants: plantsV1LicenseSlots,
+  sales: salesV1LicenseSlots,
+  strains: strainsV1LicenseSlots,
+  transfers: transfersV1LicenseSlots,
+  unitsOfMeasure: unitsOfMeasureV1LicenseSlots,
+} as const;
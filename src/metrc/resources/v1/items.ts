@@ -0,0 +1,131 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/items.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Item, ItemBrand, ItemCategory, ItemCreateRequest, ItemFile, ItemUpdateRequest } from "./types";
+import { ItemBrandSchema, ItemCategorySchema, ItemFileSchema, ItemSchema } from "./types";
+
+export const itemsV1LicenseSlots = {
+  getActive: { params: 0 },
+  getCategories: { params: 0 },
+  create: { arg: 0 },
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getBrands: { params: 0 },
+  getPhotoById: { params: 1 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createItemsV1>>;
+
+export function createItemsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /items/v1/active
+     * Active items of a facility.
+     */
+    getActive(params: { licenseNumber: string }) {
+      return http.request<Array<Item>>({
+        method: "GET",
+        path: "/items/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(ItemSchema),
+      });
+    },
+
+    /**
+     * GET /items/v1/categories
+     * Item categories.
+     */
+    getCategories(params?: { licenseNumber?: string }) {
+      return http.request<Array<ItemCategory>>({
+        method: "GET",
+        path: "/items/v1/categories",
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: schema.array(ItemCategorySchema),
+      });
+    },
+
+    /**
+     * POST /items/v1/create
+     * Creates items.
+     */
+    create(licenseNumber: string, body: Array<ItemCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/items/v1/create",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * GET /items/v1/{id}
+     * An item by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Item>({
+        method: "GET",
+        path: `/items/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: ItemSchema,
+      });
+    },
+
+    /**
+     * DELETE /items/v1/{id}
+     * Archives an item.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/items/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /items/v1/brands
+     * Item brands of the facility.
+     */
+    getBrands(params: { licenseNumber: string }) {
+      return http.request<Array<ItemBrand>>({
+        method: "GET",
+        path: "/items/v1/brands",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(ItemBrandSchema),
+      });
+    },
+
+    /**
+     * GET /items/v1/photo/{id}
+     * An item photo by Id.
+     */
+    getPhotoById(id: number, params: { licenseNumber: string }) {
+      return http.request<ItemFile>({
+        method: "GET",
+        path: `/items/v1/photo/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemFileSchema,
+      });
+    },
+
+    /**
+     * POST /items/v1/update
+     * Updates items.
+     */
+    update(licenseNumber: string, body: Array<ItemUpdateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/items/v1/update",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,94 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/labTests.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { LabTestDocumentRequest, LabTestRecordRequest, LabTestReleaseRequest, LabTestResult, LabTestType } from "./types";
+import { LabTestResultSchema, LabTestTypeSchema } from "./types";
+
+export const labTestsV1LicenseSlots = {
+  getResults: { params: 0 },
+  record: { arg: 0 },
+  labtestdocument: { arg: 0 },
+  resultsRelease: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createLabTestsV1>>;
+
+export function createLabTestsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /labtests/v1/states
+     * Lab testing states.
+     */
+    getStates() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/labtests/v1/states",
+      });
+    },
+
+    /**
+     * GET /labtests/v1/types
+     * Lab test types.
+     */
+    getTypes() {
+      return http.request<Array<LabTestType>>({
+        method: "GET",
+        path: "/labtests/v1/types",
+        schema: schema.array(LabTestTypeSchema),
+      });
+    },
+
+    /**
+     * GET /labtests/v1/results
+     * Lab test results for a package.
+     */
+    getResults(params: { licenseNumber: string; packageId: number }) {
+      return http.request<Array<LabTestResult>>({
+        method: "GET",
+        path: "/labtests/v1/results",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(LabTestResultSchema),
+      });
+    },
+
+    /**
+     * POST /labtests/v1/record
+     * Records lab test results.
+     */
+    record(licenseNumber: string, body: Array<LabTestRecordRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/labtests/v1/record",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /labtests/v1/labtestdocument
+     * Attaches documents to lab test results.
+     */
+    labtestdocument(licenseNumber: string, body: Array<LabTestDocumentRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/labtests/v1/labtestdocument",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /labtests/v1/results/release
+     * Releases lab test results.
+     */
+    resultsRelease(licenseNumber: string, body: Array<LabTestReleaseRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/labtests/v1/results/release",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,101 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/locations.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Location, LocationCreateRequest, LocationType, LocationUpdateRequest } from "./types";
+import { LocationSchema, LocationTypeSchema } from "./types";
+
+export const locationsV1LicenseSlots = {
+  getActive: { params: 0 },
+  getTypes: { params: 0 },
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createLocationsV1>>;
+
+export function createLocationsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /locations/v1/active
+     * Active locations of a facility.
+     */
+    getActive(params: { licenseNumber: string }) {
+      return http.request<Array<Location>>({
+        method: "GET",
+        path: "/locations/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(LocationSchema),
+      });
+    },
+
+    /**
+     * GET /locations/v1/types
+     * Location types of a facility.
+     */
+    getTypes(params: { licenseNumber: string }) {
+      return http.request<Array<LocationType>>({
+        method: "GET",
+        path: "/locations/v1/types",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(LocationTypeSchema),
+      });
+    },
+
+    /**
+     * GET /locations/v1/{id}
+     * A location by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Location>({
+        method: "GET",
+        path: `/locations/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: LocationSchema,
+      });
+    },
+
+    /**
+     * DELETE /locations/v1/{id}
+     * Archives a location.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/locations/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * POST /locations/v1/create
+     * Creates locations.
+     */
+    create(licenseNumber: string, body: Array<LocationCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/locations/v1/create",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /locations/v1/update
+     * Updates locations.
+     */
+    update(licenseNumber: string, body: Array<LocationUpdateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/locations/v1/update",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
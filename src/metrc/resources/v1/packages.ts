@@ -0,0 +1,255 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/packages.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Package, PackageAdjustRequest, PackageAdjustmentReason, PackageCreateRequest, PackageFinishRequest, PackageItemChange, PackageLocationChange, PackageNoteChange, PackagePlantingsRequest, PackageRemediateRequest, PackageUnfinishRequest } from "./types";
+import { PackageAdjustmentReasonSchema, PackageSchema } from "./types";
+
+export const packagesV1LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  create: { arg: 0 },
+  changeLocations: { arg: 0 },
+  getByLabel: { params: 1 },
+  getOnhold: { params: 0 },
+  getAdjustReasons: { params: 0 },
+  createTesting: { arg: 0 },
+  createPlantings: { arg: 0 },
+  changeItem: { arg: 0 },
+  changeNote: { arg: 0 },
+  adjust: { arg: 0 },
+  finish: { arg: 0 },
+  unfinish: { arg: 0 },
+  remediate: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPackagesV1>>;
+
+export function createPackagesV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /packages/v1/{id}
+     * A package by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Package>({
+        method: "GET",
+        path: `/packages/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PackageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v1/active
+     * Active packages, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Package>>({
+        method: "GET",
+        path: "/packages/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PackageSchema),
+      });
+    },
+
+    /**
+     * GET /packages/v1/inactive
+     * Inactive packages, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Package>>({
+        method: "GET",
+        path: "/packages/v1/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PackageSchema),
+      });
+    },
+
+    /**
+     * GET /packages/v1/types
+     * Package types.
+     */
+    getTypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/packages/v1/types",
+      });
+    },
+
+    /**
+     * POST /packages/v1/create
+     * Creates packages from other packages.
+     */
+    create(licenseNumber: string, body: Array<PackageCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/create",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/change/locations
+     * Moves packages to another location.
+     */
+    changeLocations(licenseNumber: string, body: Array<PackageLocationChange>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/change/locations",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * GET /packages/v1/{label}
+     * A package by label.
+     */
+    getByLabel(label: string, params?: { licenseNumber?: string }) {
+      return http.request<Package>({
+        method: "GET",
+        path: `/packages/v1/${encodeURIComponent(String(label))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PackageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v1/onhold
+     * Packages on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Package>>({
+        method: "GET",
+        path: "/packages/v1/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PackageSchema),
+      });
+    },
+
+    /**
+     * GET /packages/v1/adjust/reasons
+     * Package adjustment reasons.
+     */
+    getAdjustReasons(params: { licenseNumber: string }) {
+      return http.request<Array<PackageAdjustmentReason>>({
+        method: "GET",
+        path: "/packages/v1/adjust/reasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PackageAdjustmentReasonSchema),
+      });
+    },
+
+    /**
+     * POST /packages/v1/create/testing
+     * Creates testing packages from other packages.
+     */
+    createTesting(licenseNumber: string, body: Array<PackageCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/create/testing",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/create/plantings
+     * Creates plantings from packages.
+     */
+    createPlantings(licenseNumber: string, body: Array<PackagePlantingsRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/create/plantings",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/change/item
+     * Changes the item of packages.
+     */
+    changeItem(licenseNumber: string, body: Array<PackageItemChange>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/change/item",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /packages/v1/change/note
+     * Changes the note of packages.
+     */
+    changeNote(licenseNumber: string, body: Array<PackageNoteChange>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/packages/v1/change/note",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/adjust
+     * Adjusts package quantities.
+     */
+    adjust(licenseNumber: string, body: Array<PackageAdjustRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/adjust",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/finish
+     * Finishes packages.
+     */
+    finish(licenseNumber: string, body: Array<PackageFinishRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/finish",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/unfinish
+     * Reopens finished packages.
+     */
+    unfinish(licenseNumber: string, body: Array<PackageUnfinishRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/unfinish",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /packages/v1/remediate
+     * Records package remediation.
+     */
+    remediate(licenseNumber: string, body: Array<PackageRemediateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/packages/v1/remediate",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,86 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/patients.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Patient, PatientCreateRequest, PatientUpdateRequest } from "./types";
+import { PatientSchema } from "./types";
+
+export const patientsV1LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  add: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPatientsV1>>;
+
+export function createPatientsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /patients/v1/{id}
+     * A patient by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Patient>({
+        method: "GET",
+        path: `/patients/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PatientSchema,
+      });
+    },
+
+    /**
+     * DELETE /patients/v1/{id}
+     * Removes a patient.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/patients/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /patients/v1/active
+     * Active patients of the facility.
+     */
+    getActive(params: { licenseNumber: string }) {
+      return http.request<Array<Patient>>({
+        method: "GET",
+        path: "/patients/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PatientSchema),
+      });
+    },
+
+    /**
+     * POST /patients/v1/add
+     * Adds patients.
+     */
+    add(licenseNumber: string, body: Array<PatientCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/patients/v1/add",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /patients/v1/update
+     * Updates patients.
+     */
+    update(licenseNumber: string, body: Array<PatientUpdateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/patients/v1/update",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
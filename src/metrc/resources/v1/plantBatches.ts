@@ -0,0 +1,168 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/plantBatches.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Plant, PlantBatch, PlantBatchAdditiveRequest, PlantBatchDestroyRequest, PlantBatchGrowthPhaseRequest, PlantBatchMoveRequest, PlantBatchPackageRequest, PlantBatchPlantingsRequest, PlantBatchSplitRequest } from "./types";
+import { PlantBatchSchema } from "./types";
+
+export const plantBatchesV1LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  createplantings: { arg: 0 },
+  createpackages: { arg: 0 },
+  split: { arg: 0 },
+  moveplantbatches: { arg: 0 },
+  additives: { arg: 0 },
+  changegrowthphase: { arg: 0 },
+  archive: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPlantBatchesV1>>;
+
+export function createPlantBatchesV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /plantbatches/v1/{id}
+     * A plant batch by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<PlantBatch>({
+        method: "GET",
+        path: `/plantbatches/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantBatchSchema,
+      });
+    },
+
+    /**
+     * GET /plantbatches/v1/active
+     * Active plant batches, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<PlantBatch>>({
+        method: "GET",
+        path: "/plantbatches/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantBatchSchema),
+      });
+    },
+
+    /**
+     * GET /plantbatches/v1/inactive
+     * Inactive plant batches, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<PlantBatch>>({
+        method: "GET",
+        path: "/plantbatches/v1/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantBatchSchema),
+      });
+    },
+
+    /**
+     * GET /plantbatches/v1/types
+     * Plant batch types.
+     */
+    getTypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plantbatches/v1/types",
+      });
+    },
+
+    /**
+     * POST /plantbatches/v1/createplantings
+     * Creates plant batches.
+     */
+    createplantings(licenseNumber: string, body: Array<PlantBatchPlantingsRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plantbatches/v1/createplantings",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v1/createpackages
+     * Creates packages from plant batches.
+     */
+    createpackages(licenseNumber: string, body: Array<PlantBatchPackageRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plantbatches/v1/createpackages",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v1/split
+     * Splits plant batches.
+     */
+    split(licenseNumber: string, body: Array<PlantBatchSplitRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plantbatches/v1/split",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /plantbatches/v1/moveplantbatches
+     * Moves plant batches to another location.
+     */
+    moveplantbatches(licenseNumber: string, body: Array<PlantBatchMoveRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/plantbatches/v1/moveplantbatches",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v1/additives
+     * Records additives applied to plant batches.
+     */
+    additives(licenseNumber: string, body: Array<PlantBatchAdditiveRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plantbatches/v1/additives",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v1/changegrowthphase
+     * Moves plants of a batch to a new growth phase.
+     */
+    changegrowthphase(licenseNumber: string, body: Array<PlantBatchGrowthPhaseRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plantbatches/v1/changegrowthphase",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * DELETE /plantbatches/v1/
+     * Destroys plants of plant batches.
+     */
+    archive(licenseNumber: string, body: Array<PlantBatchDestroyRequest>) {
+      return http.request<void>({
+        method: "DELETE",
+        path: "/plantbatches/v1/",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,297 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/plants.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Plant, PlantAdditive, PlantAdditiveByLocationRequest, PlantAdditiveRequest, PlantBatchPackageFromPlantRequest, PlantDestroyRequest, PlantGrowthPhaseRequest, PlantHarvestRequest, PlantMoveRequest, PlantPlantingsRequest, WasteMethod, WasteReason } from "./types";
+import { PlantAdditiveSchema, PlantSchema, WasteMethodSchema, WasteReasonSchema } from "./types";
+
+export const plantsV1LicenseSlots = {
+  getVegetative: { params: 0 },
+  getFlowering: { params: 0 },
+  getById: { params: 1 },
+  getByLabel: { params: 1 },
+  getOnhold: { params: 0 },
+  getInactive: { params: 0 },
+  getAdditives: { params: 0 },
+  additives: { arg: 0 },
+  getGrowthphases: { params: 0 },
+  getWasteReasons: { params: 0 },
+  moveplants: { arg: 0 },
+  changegrowthphases: { arg: 0 },
+  destroyplants: { arg: 0 },
+  additivesBylocation: { arg: 0 },
+  createPlantings: { arg: 0 },
+  createPlantbatchPackages: { arg: 0 },
+  manicureplants: { arg: 0 },
+  harvestplants: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPlantsV1>>;
+
+export function createPlantsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /plants/v1/vegetative
+     * Vegetative plants, filtered by last modified date.
+     */
+    getVegetative(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Plant>>({
+        method: "GET",
+        path: "/plants/v1/vegetative",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantSchema),
+      });
+    },
+
+    /**
+     * GET /plants/v1/flowering
+     * Flowering plants, filtered by last modified date.
+     */
+    getFlowering(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Plant>>({
+        method: "GET",
+        path: "/plants/v1/flowering",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantSchema),
+      });
+    },
+
+    /**
+     * GET /plants/v1/{id}
+     * A plant by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Plant>({
+        method: "GET",
+        path: `/plants/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v1/{label}
+     * A plant by label.
+     */
+    getByLabel(label: string, params?: { licenseNumber?: string }) {
+      return http.request<Plant>({
+        method: "GET",
+        path: `/plants/v1/${encodeURIComponent(String(label))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v1/onhold
+     * Plants on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Plant>>({
+        method: "GET",
+        path: "/plants/v1/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantSchema),
+      });
+    },
+
+    /**
+     * GET /plants/v1/inactive
+     * Inactive plants, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Plant>>({
+        method: "GET",
+        path: "/plants/v1/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantSchema),
+      });
+    },
+
+    /**
+     * GET /plants/v1/additives
+     * Additives applied to plants, filtered by last modified date.
+     */
+    getAdditives(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<PlantAdditive>>({
+        method: "GET",
+        path: "/plants/v1/additives",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PlantAdditiveSchema),
+      });
+    },
+
+    /**
+     * POST /plants/v1/additives
+     * Records additives applied to plants.
+     */
+    additives(licenseNumber: string, body: Array<PlantAdditiveRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/additives",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * GET /plants/v1/additives/types
+     * Plant additive types.
+     */
+    getAdditivesTypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plants/v1/additives/types",
+      });
+    },
+
+    /**
+     * GET /plants/v1/growthphases
+     * Plant growth phases.
+     */
+    getGrowthphases(params: { licenseNumber: string }) {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plants/v1/growthphases",
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /plants/v1/waste/methods
+     * Plant waste methods.
+     */
+    getWasteMethods() {
+      return http.request<Array<WasteMethod>>({
+        method: "GET",
+        path: "/plants/v1/waste/methods",
+        schema: schema.array(WasteMethodSchema),
+      });
+    },
+
+    /**
+     * GET /plants/v1/waste/reasons
+     * Plant waste reasons.
+     */
+    getWasteReasons(params: { licenseNumber: string }) {
+      return http.request<Array<WasteReason>>({
+        method: "GET",
+        path: "/plants/v1/waste/reasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(WasteReasonSchema),
+      });
+    },
+
+    /**
+     * POST /plants/v1/moveplants
+     * Moves plants to another location.
+     */
+    moveplants(licenseNumber: string, body: Array<PlantMoveRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/moveplants",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/changegrowthphases
+     * Moves plants to a new growth phase.
+     */
+    changegrowthphases(licenseNumber: string, body: Array<PlantGrowthPhaseRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/changegrowthphases",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/destroyplants
+     * Destroys plants.
+     */
+    destroyplants(licenseNumber: string, body: Array<PlantDestroyRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/destroyplants",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/additives/bylocation
+     * Records additives applied to every plant in a location.
+     */
+    additivesBylocation(licenseNumber: string, body: Array<PlantAdditiveByLocationRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/additives/bylocation",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/create/plantings
+     * Creates plant batches from plants.
+     */
+    createPlantings(licenseNumber: string, body: Array<PlantPlantingsRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/create/plantings",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/create/plantbatch/packages
+     * Creates plant batch packages from plants.
+     */
+    createPlantbatchPackages(licenseNumber: string, body: Array<PlantBatchPackageFromPlantRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/create/plantbatch/packages",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/manicureplants
+     * Records manicure harvests.
+     */
+    manicureplants(licenseNumber: string, body: Array<PlantHarvestRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/manicureplants",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /plants/v1/harvestplants
+     * Harvests plants.
+     */
+    harvestplants(licenseNumber: string, body: Array<PlantHarvestRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/plants/v1/harvestplants",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
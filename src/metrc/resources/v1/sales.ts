@@ -0,0 +1,240 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/sales.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Patient, PatientRegistrationLocation, SalesDelivery, SalesDeliveryCompleteRequest, SalesDeliveryCreateRequest, SalesDeliveryReturnReason, SalesDeliveryUpdateRequest, SalesReceipt, SalesReceiptCreateRequest, SalesReceiptUpdateRequest } from "./types";
+import { PatientRegistrationLocationSchema, SalesDeliveryReturnReasonSchema, SalesDeliverySchema, SalesReceiptSchema } from "./types";
+
+export const salesV1LicenseSlots = {
+  getReceiptsActive: { params: 0 },
+  receipts: { arg: 0 },
+  updateReceipts: { arg: 0 },
+  getReceiptsInactive: { params: 0 },
+  getReceiptsById: { params: 1 },
+  deleteReceiptsById: { params: 1 },
+  getDeliveriesActive: { params: 0 },
+  getDeliveriesInactive: { params: 0 },
+  getDeliveriesById: { params: 1 },
+  deleteDeliveriesById: { params: 1 },
+  getDeliveriesReturnreasons: { params: 0 },
+  deliveries: { arg: 0 },
+  updateDeliveries: { arg: 0 },
+  deliveriesComplete: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createSalesV1>>;
+
+export function createSalesV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /sales/v1/customertypes
+     * Sales customer types.
+     */
+    getCustomertypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/sales/v1/customertypes",
+      });
+    },
+
+    /**
+     * GET /sales/v1/receipts/active
+     * Active sales receipts, filtered by last modified date.
+     */
+    getReceiptsActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<SalesReceipt>>({
+        method: "GET",
+        path: "/sales/v1/receipts/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(SalesReceiptSchema),
+      });
+    },
+
+    /**
+     * POST /sales/v1/receipts
+     * Records sales receipts.
+     */
+    receipts(licenseNumber: string, body: Array<SalesReceiptCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/sales/v1/receipts",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /sales/v1/receipts
+     * Updates sales receipts.
+     */
+    updateReceipts(licenseNumber: string, body: Array<SalesReceiptUpdateRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/sales/v1/receipts",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * GET /sales/v1/patientregistration/locations
+     * Patient registration locations.
+     */
+    getPatientregistrationLocations() {
+      return http.request<Array<PatientRegistrationLocation>>({
+        method: "GET",
+        path: "/sales/v1/patientregistration/locations",
+        schema: schema.array(PatientRegistrationLocationSchema),
+      });
+    },
+
+    /**
+     * GET /sales/v1/receipts/inactive
+     * Inactive sales receipts, filtered by last modified date.
+     */
+    getReceiptsInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<SalesReceipt>>({
+        method: "GET",
+        path: "/sales/v1/receipts/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(SalesReceiptSchema),
+      });
+    },
+
+    /**
+     * GET /sales/v1/receipts/{id}
+     * A sales receipt by Id.
+     */
+    getReceiptsById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<SalesReceipt>({
+        method: "GET",
+        path: `/sales/v1/receipts/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: SalesReceiptSchema,
+      });
+    },
+
+    /**
+     * DELETE /sales/v1/receipts/{id}
+     * Voids a sales receipt.
+     */
+    deleteReceiptsById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/sales/v1/receipts/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /sales/v1/deliveries/active
+     * Active sales deliveries, filtered by last modified date.
+     */
+    getDeliveriesActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<SalesDelivery>>({
+        method: "GET",
+        path: "/sales/v1/deliveries/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(SalesDeliverySchema),
+      });
+    },
+
+    /**
+     * GET /sales/v1/deliveries/inactive
+     * Inactive sales deliveries, filtered by last modified date.
+     */
+    getDeliveriesInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<SalesDelivery>>({
+        method: "GET",
+        path: "/sales/v1/deliveries/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(SalesDeliverySchema),
+      });
+    },
+
+    /**
+     * GET /sales/v1/deliveries/{id}
+     * A sales delivery by Id.
+     */
+    getDeliveriesById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<SalesDelivery>({
+        method: "GET",
+        path: `/sales/v1/deliveries/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: SalesDeliverySchema,
+      });
+    },
+
+    /**
+     * DELETE /sales/v1/deliveries/{id}
+     * Voids a sales delivery.
+     */
+    deleteDeliveriesById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/sales/v1/deliveries/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /sales/v1/deliveries/returnreasons
+     * Sales delivery return reasons.
+     */
+    getDeliveriesReturnreasons(params: { licenseNumber: string }) {
+      return http.request<Array<SalesDeliveryReturnReason>>({
+        method: "GET",
+        path: "/sales/v1/deliveries/returnreasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(SalesDeliveryReturnReasonSchema),
+      });
+    },
+
+    /**
+     * POST /sales/v1/deliveries
+     * Records sales deliveries.
+     */
+    deliveries(licenseNumber: string, body: Array<SalesDeliveryCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/sales/v1/deliveries",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /sales/v1/deliveries
+     * Updates sales deliveries.
+     */
+    updateDeliveries(licenseNumber: string, body: Array<SalesDeliveryUpdateRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/sales/v1/deliveries",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /sales/v1/deliveries/complete
+     * Completes sales deliveries.
+     */
+    deliveriesComplete(licenseNumber: string, body: Array<SalesDeliveryCompleteRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/sales/v1/deliveries/complete",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,86 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/strains.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Strain, StrainCreateRequest, StrainUpdateRequest } from "./types";
+import { StrainSchema } from "./types";
+
+export const strainsV1LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createStrainsV1>>;
+
+export function createStrainsV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /strains/v1/{id}
+     * A strain by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Strain>({
+        method: "GET",
+        path: `/strains/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: StrainSchema,
+      });
+    },
+
+    /**
+     * DELETE /strains/v1/{id}
+     * Archives a strain.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/strains/v1/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /strains/v1/active
+     * Active strains of a facility.
+     */
+    getActive(params: { licenseNumber: string }) {
+      return http.request<Array<Strain>>({
+        method: "GET",
+        path: "/strains/v1/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(StrainSchema),
+      });
+    },
+
+    /**
+     * POST /strains/v1/create
+     * Creates strains.
+     */
+    create(licenseNumber: string, body: Array<StrainCreateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/strains/v1/create",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * POST /strains/v1/update
+     * Updates strains.
+     */
+    update(licenseNumber: string, body: Array<StrainUpdateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/strains/v1/update",
+        licenseNumber,
+        body,
+      });
+    },
+  } as const;
+}
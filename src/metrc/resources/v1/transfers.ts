@@ -0,0 +1,268 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v1/transfers.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { LabTestResult, Transfer, TransferDelivery, TransferExternalIncomingRequest, TransferExternalIncomingUpdateRequest, TransferPackage, TransferPackageWholesale, TransferRequiredLabTestBatch, TransferTemplate, TransferTemplateRequest, TransferTemplateUpdateRequest, TransferType } from "./types";
+import { LabTestResultSchema, TransferDeliverySchema, TransferPackageSchema, TransferPackageWholesaleSchema, TransferRequiredLabTestBatchSchema, TransferSchema, TransferTemplateSchema, TransferTypeSchema } from "./types";
+
+export const transfersV1LicenseSlots = {
+  getIncoming: { params: 0 },
+  getOutgoing: { params: 0 },
+  getRejected: { params: 0 },
+  getTypes: { params: 0 },
+  externalIncoming: { arg: 0 },
+  updateExternalIncoming: { arg: 0 },
+  deleteExternalIncomingById: { params: 1 },
+  getTemplates: { params: 0 },
+  templates: { arg: 0 },
+  updateTemplates: { arg: 0 },
+  deleteTemplatesById: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createTransfersV1>>;
+
+export function createTransfersV1(http: MetrcHttp) {
+  return {
+    /**
+     * GET /transfers/v1/incoming
+     * Incoming transfers, filtered by last modified date.
+     */
+    getIncoming(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Transfer>>({
+        method: "GET",
+        path: "/transfers/v1/incoming",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TransferSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/outgoing
+     * Outgoing transfers, filtered by last modified date.
+     */
+    getOutgoing(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<Transfer>>({
+        method: "GET",
+        path: "/transfers/v1/outgoing",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TransferSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/rejected
+     * Rejected transfers.
+     */
+    getRejected(params: { licenseNumber: string }) {
+      return http.request<Array<Transfer>>({
+        method: "GET",
+        path: "/transfers/v1/rejected",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TransferSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/{id}/deliveries
+     * Deliveries of a transfer.
+     */
+    getByIdDeliveries(id: number) {
+      return http.request<Array<TransferDelivery>>({
+        method: "GET",
+        path: `/transfers/v1/${encodeURIComponent(String(id))}/deliveries`,
+        schema: schema.array(TransferDeliverySchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/delivery/{id}/packages
+     * Packages of a transfer delivery.
+     */
+    getDeliveryByIdPackages(id: number) {
+      return http.request<Array<TransferPackage>>({
+        method: "GET",
+        path: `/transfers/v1/delivery/${encodeURIComponent(String(id))}/packages`,
+        schema: schema.array(TransferPackageSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/delivery/{id}/packages/wholesale
+     * Wholesale prices of the packages of a transfer delivery.
+     */
+    getDeliveryByIdPackagesWholesale(id: number) {
+      return http.request<Array<TransferPackageWholesale>>({
+        method: "GET",
+        path: `/transfers/v1/delivery/${encodeURIComponent(String(id))}/packages/wholesale`,
+        schema: schema.array(TransferPackageWholesaleSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/delivery/{id}/requiredlabtestbatches
+     * Lab test batches required for the packages of a transfer delivery.
+     */
+    getDeliveryByIdRequiredlabtestbatches(id: number) {
+      return http.request<Array<TransferRequiredLabTestBatch>>({
+        method: "GET",
+        path: `/transfers/v1/delivery/${encodeURIComponent(String(id))}/requiredlabtestbatches`,
+        schema: schema.array(TransferRequiredLabTestBatchSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/delivery/package/{id}/labresults
+     * Lab results of a transferred package.
+     */
+    getDeliveryPackageByIdLabresults(id: number) {
+      return http.request<Array<LabTestResult>>({
+        method: "GET",
+        path: `/transfers/v1/delivery/package/${encodeURIComponent(String(id))}/labresults`,
+        schema: schema.array(LabTestResultSchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/delivery/packages/states
+     * Transfer package states.
+     */
+    getDeliveryPackagesStates() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/transfers/v1/delivery/packages/states",
+      });
+    },
+
+    /**
+     * GET /transfers/v1/types
+     * Transfer types.
+     */
+    getTypes(params: { licenseNumber: string }) {
+      return http.request<Array<TransferType>>({
+        method: "GET",
+        path: "/transfers/v1/types",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TransferTypeSchema),
+      });
+    },
+
+    /**
+     * POST /transfers/v1/external/incoming
+     * Creates external incoming transfers.
+     */
+    externalIncoming(licenseNumber: string, body: Array<TransferExternalIncomingRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/transfers/v1/external/incoming",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /transfers/v1/external/incoming
+     * Updates external incoming transfers.
+     */
+    updateExternalIncoming(licenseNumber: string, body: Array<TransferExternalIncomingUpdateRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/transfers/v1/external/incoming",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * DELETE /transfers/v1/external/incoming/{id}
+     * Voids an external incoming transfer.
+     */
+    deleteExternalIncomingById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/transfers/v1/external/incoming/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /transfers/v1/templates
+     * Transfer templates, filtered by last modified date.
+     */
+    getTemplates(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string }) {
+      return http.request<Array<TransferTemplate>>({
+        method: "GET",
+        path: "/transfers/v1/templates",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TransferTemplateSchema),
+      });
+    },
+
+    /**
+     * POST /transfers/v1/templates
+     * Creates transfer templates.
+     */
+    templates(licenseNumber: string, body: Array<TransferTemplateRequest>) {
+      return http.request<void>({
+        method: "POST",
+        path: "/transfers/v1/templates",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * PUT /transfers/v1/templates
+     * Updates transfer templates.
+     */
+    updateTemplates(licenseNumber: string, body: Array<TransferTemplateUpdateRequest>) {
+      return http.request<void>({
+        method: "PUT",
+        path: "/transfers/v1/templates",
+        licenseNumber,
+        body,
+      });
+    },
+
+    /**
+     * GET /transfers/v1/templates/{id}/deliveries
+     * Deliveries of a transfer template.
+     */
+    getTemplatesByIdDeliveries(id: number) {
+      return http.request<Array<TransferDelivery>>({
+        method: "GET",
+        path: `/transfers/v1/templates/${encodeURIComponent(String(id))}/deliveries`,
+        schema: schema.array(TransferDeliverySchema),
+      });
+    },
+
+    /**
+     * GET /transfers/v1/templates/delivery/{id}/packages
+     * Packages of a transfer template delivery.
+     */
+    getTemplatesDeliveryByIdPackages(id: number) {
+      return http.request<Array<TransferPackage>>({
+        method: "GET",
+        path: `/transfers/v1/templates/delivery/${encodeURIComponent(String(id))}/packages`,
+        schema: schema.array(TransferPackageSchema),
+      });
+    },
+
+    /**
+     * DELETE /transfers/v1/templates/{id}
+     * Archives a transfer template.
+     */
+    deleteTemplatesById(id: number, params: { licenseNumber: string }) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/transfers/v1/templates/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,1258 @@
+// AUTO-GENERATED. Do not edit.
+// Schemas referenced by this API version. Regenerate with `npm run gen`.
+import { MetrcSchema, schema } from "../../schema";
+
+export interface AdditiveIngredient {
+  Name: string;
+  Percentage: number;
+  [k: string]: unknown;
+}
+
+export const AdditiveIngredientSchema: MetrcSchema<AdditiveIngredient> = schema.object("AdditiveIngredient", { Name: schema.string(), Percentage: schema.number() });
+
+export interface Employee {
+  FullName?: string | null;
+  License?: EmployeeLicense;
+  [k: string]: unknown;
+}
+
+export const EmployeeSchema: MetrcSchema<Employee> = schema.object("Employee", { FullName: schema.optional(schema.nullable(schema.string())), License: schema.optional(schema.lazy(() => EmployeeLicenseSchema, "EmployeeLicense")) });
+
+export interface EmployeeLicense {
+  Number?: string | null;
+  EffectiveStartDate?: string | null;
+  EffectiveEndDate?: string | null;
+  LicenseType?: string | null;
+  [k: string]: unknown;
+}
+
+export const EmployeeLicenseSchema: MetrcSchema<EmployeeLicense> = schema.object("EmployeeLicense", { Number: schema.optional(schema.nullable(schema.string())), EffectiveStartDate: schema.optional(schema.nullable(schema.string())), EffectiveEndDate: schema.optional(schema.nullable(schema.string())), LicenseType: schema.optional(schema.nullable(schema.string())) });
+
+export interface Facility {
+  HireDate?: string | null;
+  IsOwner?: boolean;
+  IsManager?: boolean;
+  Name?: string | null;
+  Alias?: string | null;
+  DisplayName?: string | null;
+  CredentialedDate?: string | null;
+  FacilityType?: Record<string, unknown> | null;
+  License: FacilityLicense;
+  [k: string]: unknown;
+}
+
+export const FacilitySchema: MetrcSchema<Facility> = schema.object("Facility", { HireDate: schema.optional(schema.nullable(schema.string())), IsOwner: schema.optional(schema.boolean()), IsManager: schema.optional(schema.boolean()), Name: schema.optional(schema.nullable(schema.string())), Alias: schema.optional(schema.nullable(schema.string())), DisplayName: schema.optional(schema.nullable(schema.string())), CredentialedDate: schema.optional(schema.nullable(schema.string())), FacilityType: schema.optional(schema.unknown()), License: schema.lazy(() => FacilityLicenseSchema, "FacilityLicense") });
+
+export interface FacilityLicense {
+  Number?: string | null;
+  StartDate?: string | null;
+  EndDate?: string | null;
+  LicenseType?: string | null;
+  [k: string]: unknown;
+}
+
+export const FacilityLicenseSchema: MetrcSchema<FacilityLicense> = schema.object("FacilityLicense", { Number: schema.optional(schema.nullable(schema.string())), StartDate: schema.optional(schema.nullable(schema.string())), EndDate: schema.optional(schema.nullable(schema.string())), LicenseType: schema.optional(schema.nullable(schema.string())) });
+
+export interface Harvest {
+  Id: number;
+  Name?: string | null;
+  HarvestType?: string | null;
+  SourceStrainCount?: number | null;
+  DryingLocationId?: number | null;
+  DryingLocationName?: string | null;
+  CurrentWeight?: number | null;
+  TotalWasteWeight?: number | null;
+  PlantCount?: number | null;
+  TotalWetWeight?: number | null;
+  UnitOfWeightName?: string | null;
+  HarvestStartDate?: string | null;
+  FinishedDate?: string | null;
+  ArchivedDate?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const HarvestSchema: MetrcSchema<Harvest> = schema.object("Harvest", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), HarvestType: schema.optional(schema.nullable(schema.string())), SourceStrainCount: schema.optional(schema.nullable(schema.number())), DryingLocationId: schema.optional(schema.nullable(schema.number())), DryingLocationName: schema.optional(schema.nullable(schema.string())), CurrentWeight: schema.optional(schema.nullable(schema.number())), TotalWasteWeight: schema.optional(schema.nullable(schema.number())), PlantCount: schema.optional(schema.nullable(schema.number())), TotalWetWeight: schema.optional(schema.nullable(schema.number())), UnitOfWeightName: schema.optional(schema.nullable(schema.string())), HarvestStartDate: schema.optional(schema.nullable(schema.string())), FinishedDate: schema.optional(schema.nullable(schema.string())), ArchivedDate: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface HarvestFinishRequest {
+  Id: number;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const HarvestFinishRequestSchema: MetrcSchema<HarvestFinishRequest> = schema.object("HarvestFinishRequest", { Id: schema.number(), ActualDate: schema.string() });
+
+export interface HarvestIngredient {
+  HarvestId?: number | null;
+  HarvestName?: string | null;
+  Weight: number;
+  UnitOfWeight: string;
+  [k: string]: unknown;
+}
+
+export const HarvestIngredientSchema: MetrcSchema<HarvestIngredient> = schema.object("HarvestIngredient", { HarvestId: schema.optional(schema.nullable(schema.number())), HarvestName: schema.optional(schema.nullable(schema.string())), Weight: schema.number(), UnitOfWeight: schema.string() });
+
+export interface HarvestMoveRequest {
+  Id?: number | null;
+  HarvestName?: string | null;
+  DryingLocation: string;
+  DryingSublocation?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const HarvestMoveRequestSchema: MetrcSchema<HarvestMoveRequest> = schema.object("HarvestMoveRequest", { Id: schema.optional(schema.nullable(schema.number())), HarvestName: schema.optional(schema.nullable(schema.string())), DryingLocation: schema.string(), DryingSublocation: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface HarvestPackageRequest {
+  Tag: string;
+  Location?: string | null;
+  Sublocation?: string | null;
+  Item: string;
+  UnitOfWeight: string;
+  PatientLicenseNumber?: string | null;
+  Note?: string | null;
+  IsProductionBatch?: boolean | null;
+  ProductionBatchNumber?: string | null;
+  IsTradeSample?: boolean | null;
+  IsDonation?: boolean | null;
+  ProductRequiresRemediation?: boolean | null;
+  RemediateProduct?: boolean | null;
+  ActualDate: string;
+  Ingredients: Array<HarvestIngredient>;
+  [k: string]: unknown;
+}
+
+export const HarvestPackageRequestSchema: MetrcSchema<HarvestPackageRequest> = schema.object("HarvestPackageRequest", { Tag: schema.string(), Location: schema.optional(schema.nullable(schema.string())), Sublocation: schema.optional(schema.nullable(schema.string())), Item: schema.string(), UnitOfWeight: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), Note: schema.optional(schema.nullable(schema.string())), IsProductionBatch: schema.optional(schema.nullable(schema.boolean())), ProductionBatchNumber: schema.optional(schema.nullable(schema.string())), IsTradeSample: schema.optional(schema.nullable(schema.boolean())), IsDonation: schema.optional(schema.nullable(schema.boolean())), ProductRequiresRemediation: schema.optional(schema.nullable(schema.boolean())), RemediateProduct: schema.optional(schema.nullable(schema.boolean())), ActualDate: schema.string(), Ingredients: schema.array(schema.lazy(() => HarvestIngredientSchema, "HarvestIngredient")) });
+
+export interface HarvestRenameRequest {
+  Id?: number | null;
+  OldName?: string | null;
+  NewName: string;
+  [k: string]: unknown;
+}
+
+export const HarvestRenameRequestSchema: MetrcSchema<HarvestRenameRequest> = schema.object("HarvestRenameRequest", { Id: schema.optional(schema.nullable(schema.number())), OldName: schema.optional(schema.nullable(schema.string())), NewName: schema.string() });
+
+export interface HarvestUnfinishRequest {
+  Id: number;
+  [k: string]: unknown;
+}
+
+export const HarvestUnfinishRequestSchema: MetrcSchema<HarvestUnfinishRequest> = schema.object("HarvestUnfinishRequest", { Id: schema.number() });
+
+export interface HarvestWasteRequest {
+  Id?: number | null;
+  WasteType: string;
+  UnitOfWeight: string;
+  WasteWeight: number;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const HarvestWasteRequestSchema: MetrcSchema<HarvestWasteRequest> = schema.object("HarvestWasteRequest", { Id: schema.optional(schema.nullable(schema.number())), WasteType: schema.string(), UnitOfWeight: schema.string(), WasteWeight: schema.number(), ActualDate: schema.string() });
+
+export interface HarvestWasteType {
+  Name: string;
+  [k: string]: unknown;
+}
+
+export const HarvestWasteTypeSchema: MetrcSchema<HarvestWasteType> = schema.object("HarvestWasteType", { Name: schema.string() });
+
+export interface Item {
+  Id: number;
+  Name?: string | null;
+  ProductCategoryName?: string | null;
+  ProductCategoryType?: string | null;
+  QuantityType?: string | null;
+  DefaultLabTestingState?: string | null;
+  UnitOfMeasureName?: string | null;
+  ApprovalStatus?: string | null;
+  StrainId?: number | null;
+  StrainName?: string | null;
+  UnitThcContent?: number | null;
+  UnitThcContentUnitOfMeasureName?: string | null;
+  UnitWeight?: number | null;
+  UnitWeightUnitOfMeasureName?: string | null;
+  [k: string]: unknown;
+}
+
+export const ItemSchema: MetrcSchema<Item> = schema.object("Item", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), ProductCategoryName: schema.optional(schema.nullable(schema.string())), ProductCategoryType: schema.optional(schema.nullable(schema.string())), QuantityType: schema.optional(schema.nullable(schema.string())), DefaultLabTestingState: schema.optional(schema.nullable(schema.string())), UnitOfMeasureName: schema.optional(schema.nullable(schema.string())), ApprovalStatus: schema.optional(schema.nullable(schema.string())), StrainId: schema.optional(schema.nullable(schema.number())), StrainName: schema.optional(schema.nullable(schema.string())), UnitThcContent: schema.optional(schema.nullable(schema.number())), UnitThcContentUnitOfMeasureName: schema.optional(schema.nullable(schema.string())), UnitWeight: schema.optional(schema.nullable(schema.number())), UnitWeightUnitOfMeasureName: schema.optional(schema.nullable(schema.string())) });
+
+export interface ItemBrand {
+  Id: number;
+  Name?: string | null;
+  Status?: string | null;
+  [k: string]: unknown;
+}
+
+export const ItemBrandSchema: MetrcSchema<ItemBrand> = schema.object("ItemBrand", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), Status: schema.optional(schema.nullable(schema.string())) });
+
+export interface ItemCategory {
+  Name: string | null;
+  ProductCategoryType?: string | null;
+  QuantityType?: string | null;
+  RequiresStrain?: boolean | null;
+  RequiresUnitThcContent?: boolean | null;
+  RequiresUnitWeight?: boolean | null;
+  CanContainSeeds?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const ItemCategorySchema: MetrcSchema<ItemCategory> = schema.object("ItemCategory", { Name: schema.nullable(schema.string()), ProductCategoryType: schema.optional(schema.nullable(schema.string())), QuantityType: schema.optional(schema.nullable(schema.string())), RequiresStrain: schema.optional(schema.nullable(schema.boolean())), RequiresUnitThcContent: schema.optional(schema.nullable(schema.boolean())), RequiresUnitWeight: schema.optional(schema.nullable(schema.boolean())), CanContainSeeds: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface ItemCreateRequest {
+  ItemCategory: string;
+  Name: string;
+  UnitOfMeasure: string;
+  Strain?: string | null;
+  UnitThcContent?: number | null;
+  UnitThcContentUnitOfMeasure?: string | null;
+  UnitWeight?: number | null;
+  UnitWeightUnitOfMeasure?: string | null;
+  [k: string]: unknown;
+}
+
+export const ItemCreateRequestSchema: MetrcSchema<ItemCreateRequest> = schema.object("ItemCreateRequest", { ItemCategory: schema.string(), Name: schema.string(), UnitOfMeasure: schema.string(), Strain: schema.optional(schema.nullable(schema.string())), UnitThcContent: schema.optional(schema.nullable(schema.number())), UnitThcContentUnitOfMeasure: schema.optional(schema.nullable(schema.string())), UnitWeight: schema.optional(schema.nullable(schema.number())), UnitWeightUnitOfMeasure: schema.optional(schema.nullable(schema.string())) });
+
+export interface ItemFile {
+  Id: number;
+  FileName?: string | null;
+  FileType?: string | null;
+  FileBase64?: string | null;
+  [k: string]: unknown;
+}
+
+export const ItemFileSchema: MetrcSchema<ItemFile> = schema.object("ItemFile", { Id: schema.number(), FileName: schema.optional(schema.nullable(schema.string())), FileType: schema.optional(schema.nullable(schema.string())), FileBase64: schema.optional(schema.nullable(schema.string())) });
+
+export type ItemUpdateRequest = ItemCreateRequest & { Id: number };
+
+export const ItemUpdateRequestSchema: MetrcSchema<ItemUpdateRequest> = schema.unknown() as MetrcSchema<ItemUpdateRequest>;
+
+export interface LabTestDocumentRequest {
+  LabTestResultId: number;
+  DocumentFileName: string;
+  DocumentFileBase64: string;
+  [k: string]: unknown;
+}
+
+export const LabTestDocumentRequestSchema: MetrcSchema<LabTestDocumentRequest> = schema.object("LabTestDocumentRequest", { LabTestResultId: schema.number(), DocumentFileName: schema.string(), DocumentFileBase64: schema.string() });
+
+export interface LabTestRecordRequest {
+  Label: string;
+  ResultDate: string;
+  DocumentFileName?: string | null;
+  DocumentFileBase64?: string | null;
+  Results: Array<LabTestResultInput>;
+  [k: string]: unknown;
+}
+
+export const LabTestRecordRequestSchema: MetrcSchema<LabTestRecordRequest> = schema.object("LabTestRecordRequest", { Label: schema.string(), ResultDate: schema.string(), DocumentFileName: schema.optional(schema.nullable(schema.string())), DocumentFileBase64: schema.optional(schema.nullable(schema.string())), Results: schema.array(schema.lazy(() => LabTestResultInputSchema, "LabTestResultInput")) });
+
+export interface LabTestReleaseRequest {
+  PackageLabel: string;
+  [k: string]: unknown;
+}
+
+export const LabTestReleaseRequestSchema: MetrcSchema<LabTestReleaseRequest> = schema.object("LabTestReleaseRequest", { PackageLabel: schema.string() });
+
+export interface LabTestResult {
+  PackageId?: number | null;
+  LabTestResultId: number;
+  LabFacilityLicenseNumber?: string | null;
+  LabFacilityName?: string | null;
+  SourcePackageLabel?: string | null;
+  ProductName?: string | null;
+  ProductCategoryName?: string | null;
+  TestPerformedDate?: string | null;
+  OverallPassed?: boolean | null;
+  RevokedDate?: string | null;
+  ResultReleased?: boolean | null;
+  ResultReleaseDateTime?: string | null;
+  TestTypeName?: string | null;
+  TestPassed?: boolean | null;
+  TestResultLevel?: number | null;
+  TestComment?: string | null;
+  TestInformationalOnly?: boolean | null;
+  LabTestDetailRevokedDate?: string | null;
+  LabTestResultDocumentFileId?: number | null;
+  [k: string]: unknown;
+}
+
+export const LabTestResultSchema: MetrcSchema<LabTestResult> = schema.object("LabTestResult", { PackageId: schema.optional(schema.nullable(schema.number())), LabTestResultId: schema.number(), LabFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), LabFacilityName: schema.optional(schema.nullable(schema.string())), SourcePackageLabel: schema.optional(schema.nullable(schema.string())), ProductName: schema.optional(schema.nullable(schema.string())), ProductCategoryName: schema.optional(schema.nullable(schema.string())), TestPerformedDate: schema.optional(schema.nullable(schema.string())), OverallPassed: schema.optional(schema.nullable(schema.boolean())), RevokedDate: schema.optional(schema.nullable(schema.string())), ResultReleased: schema.optional(schema.nullable(schema.boolean())), ResultReleaseDateTime: schema.optional(schema.nullable(schema.string())), TestTypeName: schema.optional(schema.nullable(schema.string())), TestPassed: schema.optional(schema.nullable(schema.boolean())), TestResultLevel: schema.optional(schema.nullable(schema.number())), TestComment: schema.optional(schema.nullable(schema.string())), TestInformationalOnly: schema.optional(schema.nullable(schema.boolean())), LabTestDetailRevokedDate: schema.optional(schema.nullable(schema.string())), LabTestResultDocumentFileId: schema.optional(schema.nullable(schema.number())) });
+
+export interface LabTestResultInput {
+  LabTestTypeName: string;
+  Quantity: number;
+  Passed: boolean;
+  Notes?: string | null;
+  [k: string]: unknown;
+}
+
+export const LabTestResultInputSchema: MetrcSchema<LabTestResultInput> = schema.object("LabTestResultInput", { LabTestTypeName: schema.string(), Quantity: schema.number(), Passed: schema.boolean(), Notes: schema.optional(schema.nullable(schema.string())) });
+
+export interface LabTestType {
+  Id: number;
+  Name?: string | null;
+  RequiresTestResult?: boolean | null;
+  InformationalOnly?: boolean | null;
+  AlwaysPasses?: boolean | null;
+  LabTestResultMode?: string | null;
+  LabTestResultMinimum?: number | null;
+  LabTestResultMaximum?: number | null;
+  LabTestResultExpirationDays?: number | null;
+  DependencyMode?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const LabTestTypeSchema: MetrcSchema<LabTestType> = schema.object("LabTestType", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), RequiresTestResult: schema.optional(schema.nullable(schema.boolean())), InformationalOnly: schema.optional(schema.nullable(schema.boolean())), AlwaysPasses: schema.optional(schema.nullable(schema.boolean())), LabTestResultMode: schema.optional(schema.nullable(schema.string())), LabTestResultMinimum: schema.optional(schema.nullable(schema.number())), LabTestResultMaximum: schema.optional(schema.nullable(schema.number())), LabTestResultExpirationDays: schema.optional(schema.nullable(schema.number())), DependencyMode: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface Location {
+  Id: number;
+  Name?: string | null;
+  LocationTypeId?: number | null;
+  LocationTypeName?: string | null;
+  ForPlantBatches?: boolean | null;
+  ForPlants?: boolean | null;
+  ForHarvests?: boolean | null;
+  ForPackages?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const LocationSchema: MetrcSchema<Location> = schema.object("Location", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), LocationTypeId: schema.optional(schema.nullable(schema.number())), LocationTypeName: schema.optional(schema.nullable(schema.string())), ForPlantBatches: schema.optional(schema.nullable(schema.boolean())), ForPlants: schema.optional(schema.nullable(schema.boolean())), ForHarvests: schema.optional(schema.nullable(schema.boolean())), ForPackages: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface LocationCreateRequest {
+  Name: string;
+  LocationTypeName: string;
+  [k: string]: unknown;
+}
+
+export const LocationCreateRequestSchema: MetrcSchema<LocationCreateRequest> = schema.object("LocationCreateRequest", { Name: schema.string(), LocationTypeName: schema.string() });
+
+export interface LocationType {
+  Id: number;
+  Name?: string | null;
+  ForPlantBatches?: boolean | null;
+  ForPlants?: boolean | null;
+  ForHarvests?: boolean | null;
+  ForPackages?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const LocationTypeSchema: MetrcSchema<LocationType> = schema.object("LocationType", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), ForPlantBatches: schema.optional(schema.nullable(schema.boolean())), ForPlants: schema.optional(schema.nullable(schema.boolean())), ForHarvests: schema.optional(schema.nullable(schema.boolean())), ForPackages: schema.optional(schema.nullable(schema.boolean())) });
+
+export type LocationUpdateRequest = LocationCreateRequest & { Id: number };
+
+export const LocationUpdateRequestSchema: MetrcSchema<LocationUpdateRequest> = schema.unknown() as MetrcSchema<LocationUpdateRequest>;
+
+export interface Package {
+  Id: number;
+  Label: string | null;
+  PackageType?: string | null;
+  SourceHarvestNames?: string | null;
+  LocationId?: number | null;
+  LocationName?: string | null;
+  Quantity?: number | null;
+  UnitOfMeasureName?: string | null;
+  UnitOfMeasureAbbreviation?: string | null;
+  PatientLicenseNumber?: string | null;
+  ItemFromFacilityLicenseNumber?: string | null;
+  ItemFromFacilityName?: string | null;
+  Note?: string | null;
+  PackagedDate?: string | null;
+  LabTestingState?: string | null;
+  IsProductionBatch?: boolean | null;
+  ProductionBatchNumber?: string | null;
+  IsOnHold?: boolean | null;
+  ArchivedDate?: string | null;
+  FinishedDate?: string | null;
+  LastModified?: string | null;
+  Item?: Item;
+  [k: string]: unknown;
+}
+
+export const PackageSchema: MetrcSchema<Package> = schema.object("Package", { Id: schema.number(), Label: schema.nullable(schema.string()), PackageType: schema.optional(schema.nullable(schema.string())), SourceHarvestNames: schema.optional(schema.nullable(schema.string())), LocationId: schema.optional(schema.nullable(schema.number())), LocationName: schema.optional(schema.nullable(schema.string())), Quantity: schema.optional(schema.nullable(schema.number())), UnitOfMeasureName: schema.optional(schema.nullable(schema.string())), UnitOfMeasureAbbreviation: schema.optional(schema.nullable(schema.string())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ItemFromFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), ItemFromFacilityName: schema.optional(schema.nullable(schema.string())), Note: schema.optional(schema.nullable(schema.string())), PackagedDate: schema.optional(schema.nullable(schema.string())), LabTestingState: schema.optional(schema.nullable(schema.string())), IsProductionBatch: schema.optional(schema.nullable(schema.boolean())), ProductionBatchNumber: schema.optional(schema.nullable(schema.string())), IsOnHold: schema.optional(schema.nullable(schema.boolean())), ArchivedDate: schema.optional(schema.nullable(schema.string())), FinishedDate: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())), Item: schema.optional(schema.lazy(() => ItemSchema, "Item")) });
+
+export interface PackageAdjustRequest {
+  Label: string;
+  Quantity: number;
+  UnitOfMeasure: string;
+  AdjustmentReason: string;
+  AdjustmentDate: string;
+  ReasonNote?: string | null;
+  [k: string]: unknown;
+}
+
+export const PackageAdjustRequestSchema: MetrcSchema<PackageAdjustRequest> = schema.object("PackageAdjustRequest", { Label: schema.string(), Quantity: schema.number(), UnitOfMeasure: schema.string(), AdjustmentReason: schema.string(), AdjustmentDate: schema.string(), ReasonNote: schema.optional(schema.nullable(schema.string())) });
+
+export interface PackageAdjustmentReason {
+  Name: string;
+  RequiresNote?: boolean | null;
+  RequiresWasteWeight?: boolean | null;
+  RequiresImmatureWasteWeight?: boolean | null;
+  RequiresMatureWasteWeight?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const PackageAdjustmentReasonSchema: MetrcSchema<PackageAdjustmentReason> = schema.object("PackageAdjustmentReason", { Name: schema.string(), RequiresNote: schema.optional(schema.nullable(schema.boolean())), RequiresWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresImmatureWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresMatureWasteWeight: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface PackageCreateRequest {
+  Tag: string;
+  Location?: string | null;
+  Item: string;
+  Quantity: number;
+  UnitOfMeasure: string;
+  PatientLicenseNumber?: string | null;
+  Note?: string | null;
+  IsProductionBatch?: boolean;
+  ProductionBatchNumber?: string | null;
+  ProductRequiresRemediation?: boolean;
+  ActualDate: string;
+  Ingredients: Array<PackageIngredient>;
+  [k: string]: unknown;
+}
+
+export const PackageCreateRequestSchema: MetrcSchema<PackageCreateRequest> = schema.object("PackageCreateRequest", { Tag: schema.string(), Location: schema.optional(schema.nullable(schema.string())), Item: schema.string(), Quantity: schema.number(), UnitOfMeasure: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), Note: schema.optional(schema.nullable(schema.string())), IsProductionBatch: schema.optional(schema.boolean()), ProductionBatchNumber: schema.optional(schema.nullable(schema.string())), ProductRequiresRemediation: schema.optional(schema.boolean()), ActualDate: schema.string(), Ingredients: schema.array(schema.lazy(() => PackageIngredientSchema, "PackageIngredient")) });
+
+export interface PackageFinishRequest {
+  Label: string;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PackageFinishRequestSchema: MetrcSchema<PackageFinishRequest> = schema.object("PackageFinishRequest", { Label: schema.string(), ActualDate: schema.string() });
+
+export interface PackageIngredient {
+  Package: string;
+  Quantity: number;
+  UnitOfMeasure: string;
+  [k: string]: unknown;
+}
+
+export const PackageIngredientSchema: MetrcSchema<PackageIngredient> = schema.object("PackageIngredient", { Package: schema.string(), Quantity: schema.number(), UnitOfMeasure: schema.string() });
+
+export interface PackageItemChange {
+  Label: string;
+  Item: string;
+  [k: string]: unknown;
+}
+
+export const PackageItemChangeSchema: MetrcSchema<PackageItemChange> = schema.object("PackageItemChange", { Label: schema.string(), Item: schema.string() });
+
+export interface PackageLocationChange {
+  Label: string;
+  Location: string;
+  MoveDate: string;
+  [k: string]: unknown;
+}
+
+export const PackageLocationChangeSchema: MetrcSchema<PackageLocationChange> = schema.object("PackageLocationChange", { Label: schema.string(), Location: schema.string(), MoveDate: schema.string() });
+
+export interface PackageNoteChange {
+  PackageLabel: string;
+  Note?: string | null;
+  [k: string]: unknown;
+}
+
+export const PackageNoteChangeSchema: MetrcSchema<PackageNoteChange> = schema.object("PackageNoteChange", { PackageLabel: schema.string(), Note: schema.optional(schema.nullable(schema.string())) });
+
+export interface PackagePlantingsRequest {
+  PackageLabel: string;
+  PackageAdjustmentAmount: number;
+  PackageAdjustmentUnitOfMeasureName: string;
+  PlantBatchName: string;
+  PlantBatchType: string;
+  PlantCount: number;
+  LocationName?: string | null;
+  SublocationName?: string | null;
+  StrainName: string;
+  PatientLicenseNumber?: string | null;
+  PlantedDate: string;
+  UnpackagedDate: string;
+  [k: string]: unknown;
+}
+
+export const PackagePlantingsRequestSchema: MetrcSchema<PackagePlantingsRequest> = schema.object("PackagePlantingsRequest", { PackageLabel: schema.string(), PackageAdjustmentAmount: schema.number(), PackageAdjustmentUnitOfMeasureName: schema.string(), PlantBatchName: schema.string(), PlantBatchType: schema.string(), PlantCount: schema.number(), LocationName: schema.optional(schema.nullable(schema.string())), SublocationName: schema.optional(schema.nullable(schema.string())), StrainName: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), PlantedDate: schema.string(), UnpackagedDate: schema.string() });
+
+export interface PackageRemediateRequest {
+  PackageLabel: string;
+  RemediationMethodName: string;
+  RemediationDate: string;
+  RemediationSteps?: string | null;
+  [k: string]: unknown;
+}
+
+export const PackageRemediateRequestSchema: MetrcSchema<PackageRemediateRequest> = schema.object("PackageRemediateRequest", { PackageLabel: schema.string(), RemediationMethodName: schema.string(), RemediationDate: schema.string(), RemediationSteps: schema.optional(schema.nullable(schema.string())) });
+
+export interface PackageUnfinishRequest {
+  Label: string;
+  [k: string]: unknown;
+}
+
+export const PackageUnfinishRequestSchema: MetrcSchema<PackageUnfinishRequest> = schema.object("PackageUnfinishRequest", { Label: schema.string() });
+
+export interface Patient {
+  PatientId: number;
+  LicenseNumber?: string | null;
+  RegistrationDate?: string | null;
+  LicenseEffectiveStartDate?: string | null;
+  LicenseEffectiveEndDate?: string | null;
+  RecommendedPlants?: number | null;
+  RecommendedSmokableQuantity?: number | null;
+  FlowerOuncesAllowed?: number | null;
+  ThcOuncesAllowed?: number | null;
+  ConcentrateOuncesAllowed?: number | null;
+  InfusedOuncesAllowed?: number | null;
+  MaxFlowerThcPercentAllowed?: number | null;
+  MaxConcentrateThcPercentAllowed?: number | null;
+  HasSalesLimitExemption?: boolean | null;
+  OtherFacilitiesCount?: number | null;
+  [k: string]: unknown;
+}
+
+export const PatientSchema: MetrcSchema<Patient> = schema.object("Patient", { PatientId: schema.number(), LicenseNumber: schema.optional(schema.nullable(schema.string())), RegistrationDate: schema.optional(schema.nullable(schema.string())), LicenseEffectiveStartDate: schema.optional(schema.nullable(schema.string())), LicenseEffectiveEndDate: schema.optional(schema.nullable(schema.string())), RecommendedPlants: schema.optional(schema.nullable(schema.number())), RecommendedSmokableQuantity: schema.optional(schema.nullable(schema.number())), FlowerOuncesAllowed: schema.optional(schema.nullable(schema.number())), ThcOuncesAllowed: schema.optional(schema.nullable(schema.number())), ConcentrateOuncesAllowed: schema.optional(schema.nullable(schema.number())), InfusedOuncesAllowed: schema.optional(schema.nullable(schema.number())), MaxFlowerThcPercentAllowed: schema.optional(schema.nullable(schema.number())), MaxConcentrateThcPercentAllowed: schema.optional(schema.nullable(schema.number())), HasSalesLimitExemption: schema.optional(schema.nullable(schema.boolean())), OtherFacilitiesCount: schema.optional(schema.nullable(schema.number())) });
+
+export interface PatientCreateRequest {
+  LicenseNumber: string;
+  LicenseEffectiveStartDate: string;
+  LicenseEffectiveEndDate: string;
+  RecommendedPlants: number;
+  RecommendedSmokableQuantity: number;
+  FlowerOuncesAllowed?: number | null;
+  ThcOuncesAllowed?: number | null;
+  ConcentrateOuncesAllowed?: number | null;
+  InfusedOuncesAllowed?: number | null;
+  MaxFlowerThcPercentAllowed?: number | null;
+  MaxConcentrateThcPercentAllowed?: number | null;
+  HasSalesLimitExemption: boolean;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PatientCreateRequestSchema: MetrcSchema<PatientCreateRequest> = schema.object("PatientCreateRequest", { LicenseNumber: schema.string(), LicenseEffectiveStartDate: schema.string(), LicenseEffectiveEndDate: schema.string(), RecommendedPlants: schema.number(), RecommendedSmokableQuantity: schema.number(), FlowerOuncesAllowed: schema.optional(schema.nullable(schema.number())), ThcOuncesAllowed: schema.optional(schema.nullable(schema.number())), ConcentrateOuncesAllowed: schema.optional(schema.nullable(schema.number())), InfusedOuncesAllowed: schema.optional(schema.nullable(schema.number())), MaxFlowerThcPercentAllowed: schema.optional(schema.nullable(schema.number())), MaxConcentrateThcPercentAllowed: schema.optional(schema.nullable(schema.number())), HasSalesLimitExemption: schema.boolean(), ActualDate: schema.string() });
+
+export interface PatientRegistrationLocation {
+  PatientRegistrationLocationId: number;
+  Name?: string | null;
+  [k: string]: unknown;
+}
+
+export const PatientRegistrationLocationSchema: MetrcSchema<PatientRegistrationLocation> = schema.object("PatientRegistrationLocation", { PatientRegistrationLocationId: schema.number(), Name: schema.optional(schema.nullable(schema.string())) });
+
+export type PatientUpdateRequest = PatientCreateRequest & { NewLicenseNumber?: string | null };
+
+export const PatientUpdateRequestSchema: MetrcSchema<PatientUpdateRequest> = schema.unknown() as MetrcSchema<PatientUpdateRequest>;
+
+export interface Plant {
+  Id: number;
+  Label?: string | null;
+  State?: string | null;
+  GrowthPhase?: string | null;
+  PlantBatchId?: number | null;
+  PlantBatchName?: string | null;
+  StrainId?: number | null;
+  StrainName?: string | null;
+  LocationId?: number | null;
+  LocationName?: string | null;
+  PlantedDate?: string | null;
+  VegetativeDate?: string | null;
+  FloweringDate?: string | null;
+  HarvestedDate?: string | null;
+  DestroyedDate?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const PlantSchema: MetrcSchema<Plant> = schema.object("Plant", { Id: schema.number(), Label: schema.optional(schema.nullable(schema.string())), State: schema.optional(schema.nullable(schema.string())), GrowthPhase: schema.optional(schema.nullable(schema.string())), PlantBatchId: schema.optional(schema.nullable(schema.number())), PlantBatchName: schema.optional(schema.nullable(schema.string())), StrainId: schema.optional(schema.nullable(schema.number())), StrainName: schema.optional(schema.nullable(schema.string())), LocationId: schema.optional(schema.nullable(schema.number())), LocationName: schema.optional(schema.nullable(schema.string())), PlantedDate: schema.optional(schema.nullable(schema.string())), VegetativeDate: schema.optional(schema.nullable(schema.string())), FloweringDate: schema.optional(schema.nullable(schema.string())), HarvestedDate: schema.optional(schema.nullable(schema.string())), DestroyedDate: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface PlantAdditive {
+  AdditiveTypeName?: string | null;
+  ProductTradeName?: string | null;
+  EpaRegistrationNumber?: string | null;
+  ProductSupplier?: string | null;
+  ApplicationDevice?: string | null;
+  AmountUnitOfMeasure?: string | null;
+  TotalAmountApplied?: number | null;
+  PlantBatchId?: number | null;
+  PlantBatchName?: string | null;
+  PlantCount?: number | null;
+  [k: string]: unknown;
+}
+
+export const PlantAdditiveSchema: MetrcSchema<PlantAdditive> = schema.object("PlantAdditive", { AdditiveTypeName: schema.optional(schema.nullable(schema.string())), ProductTradeName: schema.optional(schema.nullable(schema.string())), EpaRegistrationNumber: schema.optional(schema.nullable(schema.string())), ProductSupplier: schema.optional(schema.nullable(schema.string())), ApplicationDevice: schema.optional(schema.nullable(schema.string())), AmountUnitOfMeasure: schema.optional(schema.nullable(schema.string())), TotalAmountApplied: schema.optional(schema.nullable(schema.number())), PlantBatchId: schema.optional(schema.nullable(schema.number())), PlantBatchName: schema.optional(schema.nullable(schema.string())), PlantCount: schema.optional(schema.nullable(schema.number())) });
+
+export interface PlantAdditiveByLocationRequest {
+  LocationName: string;
+  SublocationName?: string | null;
+  AdditiveType: string;
+  ProductTradeName: string;
+  EpaRegistrationNumber?: string | null;
+  ProductSupplier: string;
+  ApplicationDevice: string;
+  TotalAmountApplied: number;
+  TotalAmountUnitOfMeasure: string;
+  ActiveIngredients: Array<AdditiveIngredient>;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantAdditiveByLocationRequestSchema: MetrcSchema<PlantAdditiveByLocationRequest> = schema.object("PlantAdditiveByLocationRequest", { LocationName: schema.string(), SublocationName: schema.optional(schema.nullable(schema.string())), AdditiveType: schema.string(), ProductTradeName: schema.string(), EpaRegistrationNumber: schema.optional(schema.nullable(schema.string())), ProductSupplier: schema.string(), ApplicationDevice: schema.string(), TotalAmountApplied: schema.number(), TotalAmountUnitOfMeasure: schema.string(), ActiveIngredients: schema.array(schema.lazy(() => AdditiveIngredientSchema, "AdditiveIngredient")), ActualDate: schema.string() });
+
+export interface PlantAdditiveRequest {
+  PlantLabels: Array<string>;
+  AdditiveType: string;
+  ProductTradeName: string;
+  EpaRegistrationNumber?: string | null;
+  ProductSupplier: string;
+  ApplicationDevice: string;
+  TotalAmountApplied: number;
+  TotalAmountUnitOfMeasure: string;
+  ActiveIngredients: Array<AdditiveIngredient>;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantAdditiveRequestSchema: MetrcSchema<PlantAdditiveRequest> = schema.object("PlantAdditiveRequest", { PlantLabels: schema.array(schema.string()), AdditiveType: schema.string(), ProductTradeName: schema.string(), EpaRegistrationNumber: schema.optional(schema.nullable(schema.string())), ProductSupplier: schema.string(), ApplicationDevice: schema.string(), TotalAmountApplied: schema.number(), TotalAmountUnitOfMeasure: schema.string(), ActiveIngredients: schema.array(schema.lazy(() => AdditiveIngredientSchema, "AdditiveIngredient")), ActualDate: schema.string() });
+
+export interface PlantBatch {
+  Id: number;
+  Name?: string | null;
+  Type?: string | null;
+  LocationId?: number | null;
+  LocationName?: string | null;
+  SublocationName?: string | null;
+  StrainId?: number | null;
+  StrainName?: string | null;
+  PatientLicenseNumber?: string | null;
+  UntrackedCount?: number | null;
+  TrackedCount?: number | null;
+  DestroyedCount?: number | null;
+  PlantedDate?: string | null;
+  SourcePackageLabel?: string | null;
+  SourcePlantLabel?: string | null;
+  MultiPlantBatch?: boolean | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const PlantBatchSchema: MetrcSchema<PlantBatch> = schema.object("PlantBatch", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), Type: schema.optional(schema.nullable(schema.string())), LocationId: schema.optional(schema.nullable(schema.number())), LocationName: schema.optional(schema.nullable(schema.string())), SublocationName: schema.optional(schema.nullable(schema.string())), StrainId: schema.optional(schema.nullable(schema.number())), StrainName: schema.optional(schema.nullable(schema.string())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), UntrackedCount: schema.optional(schema.nullable(schema.number())), TrackedCount: schema.optional(schema.nullable(schema.number())), DestroyedCount: schema.optional(schema.nullable(schema.number())), PlantedDate: schema.optional(schema.nullable(schema.string())), SourcePackageLabel: schema.optional(schema.nullable(schema.string())), SourcePlantLabel: schema.optional(schema.nullable(schema.string())), MultiPlantBatch: schema.optional(schema.nullable(schema.boolean())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface PlantBatchAdditiveRequest {
+  PlantBatchName: string;
+  AdditiveType: string;
+  ProductTradeName: string;
+  EpaRegistrationNumber?: string | null;
+  ProductSupplier: string;
+  ApplicationDevice: string;
+  TotalAmountApplied: number;
+  TotalAmountUnitOfMeasure: string;
+  ActiveIngredients: Array<AdditiveIngredient>;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchAdditiveRequestSchema: MetrcSchema<PlantBatchAdditiveRequest> = schema.object("PlantBatchAdditiveRequest", { PlantBatchName: schema.string(), AdditiveType: schema.string(), ProductTradeName: schema.string(), EpaRegistrationNumber: schema.optional(schema.nullable(schema.string())), ProductSupplier: schema.string(), ApplicationDevice: schema.string(), TotalAmountApplied: schema.number(), TotalAmountUnitOfMeasure: schema.string(), ActiveIngredients: schema.array(schema.lazy(() => AdditiveIngredientSchema, "AdditiveIngredient")), ActualDate: schema.string() });
+
+export interface PlantBatchDestroyRequest {
+  PlantBatch: string;
+  Count: number;
+  WasteMethodName?: string | null;
+  WasteMaterialMixed?: string | null;
+  WasteReasonName?: string | null;
+  ReasonNote?: string | null;
+  WasteWeight?: number | null;
+  WasteUnitOfMeasure?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchDestroyRequestSchema: MetrcSchema<PlantBatchDestroyRequest> = schema.object("PlantBatchDestroyRequest", { PlantBatch: schema.string(), Count: schema.number(), WasteMethodName: schema.optional(schema.nullable(schema.string())), WasteMaterialMixed: schema.optional(schema.nullable(schema.string())), WasteReasonName: schema.optional(schema.nullable(schema.string())), ReasonNote: schema.optional(schema.nullable(schema.string())), WasteWeight: schema.optional(schema.nullable(schema.number())), WasteUnitOfMeasure: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantBatchGrowthPhaseRequest {
+  Name: string;
+  Count: number;
+  StartingTag: string;
+  GrowthPhase: string;
+  NewLocation: string;
+  NewSublocation?: string | null;
+  GrowthDate: string;
+  PatientLicenseNumber?: string | null;
+  [k: string]: unknown;
+}
+
+export const PlantBatchGrowthPhaseRequestSchema: MetrcSchema<PlantBatchGrowthPhaseRequest> = schema.object("PlantBatchGrowthPhaseRequest", { Name: schema.string(), Count: schema.number(), StartingTag: schema.string(), GrowthPhase: schema.string(), NewLocation: schema.string(), NewSublocation: schema.optional(schema.nullable(schema.string())), GrowthDate: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())) });
+
+export interface PlantBatchMoveRequest {
+  Name: string;
+  Location: string;
+  Sublocation?: string | null;
+  MoveDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchMoveRequestSchema: MetrcSchema<PlantBatchMoveRequest> = schema.object("PlantBatchMoveRequest", { Name: schema.string(), Location: schema.string(), Sublocation: schema.optional(schema.nullable(schema.string())), MoveDate: schema.string() });
+
+export interface PlantBatchPackageFromPlantRequest {
+  PlantLabel: string;
+  PackageTag: string;
+  PlantBatchType: string;
+  Item: string;
+  Location?: string | null;
+  Sublocation?: string | null;
+  Note?: string | null;
+  IsTradeSample?: boolean | null;
+  PatientLicenseNumber?: string | null;
+  IsDonation?: boolean | null;
+  Count: number;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchPackageFromPlantRequestSchema: MetrcSchema<PlantBatchPackageFromPlantRequest> = schema.object("PlantBatchPackageFromPlantRequest", { PlantLabel: schema.string(), PackageTag: schema.string(), PlantBatchType: schema.string(), Item: schema.string(), Location: schema.optional(schema.nullable(schema.string())), Sublocation: schema.optional(schema.nullable(schema.string())), Note: schema.optional(schema.nullable(schema.string())), IsTradeSample: schema.optional(schema.nullable(schema.boolean())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), IsDonation: schema.optional(schema.nullable(schema.boolean())), Count: schema.number(), ActualDate: schema.string() });
+
+export interface PlantBatchPackageRequest {
+  Id?: number | null;
+  PlantBatch: string;
+  Count: number;
+  Location?: string | null;
+  Sublocation?: string | null;
+  Item: string;
+  Tag: string;
+  PatientLicenseNumber?: string | null;
+  Note?: string | null;
+  IsTradeSample?: boolean | null;
+  IsDonation?: boolean | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchPackageRequestSchema: MetrcSchema<PlantBatchPackageRequest> = schema.object("PlantBatchPackageRequest", { Id: schema.optional(schema.nullable(schema.number())), PlantBatch: schema.string(), Count: schema.number(), Location: schema.optional(schema.nullable(schema.string())), Sublocation: schema.optional(schema.nullable(schema.string())), Item: schema.string(), Tag: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), Note: schema.optional(schema.nullable(schema.string())), IsTradeSample: schema.optional(schema.nullable(schema.boolean())), IsDonation: schema.optional(schema.nullable(schema.boolean())), ActualDate: schema.string() });
+
+export interface PlantBatchPlantingsRequest {
+  Name: string;
+  Type: string;
+  Count: number;
+  Strain: string;
+  Location?: string | null;
+  Sublocation?: string | null;
+  PatientLicenseNumber?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchPlantingsRequestSchema: MetrcSchema<PlantBatchPlantingsRequest> = schema.object("PlantBatchPlantingsRequest", { Name: schema.string(), Type: schema.string(), Count: schema.number(), Strain: schema.string(), Location: schema.optional(schema.nullable(schema.string())), Sublocation: schema.optional(schema.nullable(schema.string())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantBatchSplitRequest {
+  PlantBatch: string;
+  GroupName: string;
+  Count: number;
+  Location?: string | null;
+  Sublocation?: string | null;
+  Strain: string;
+  PatientLicenseNumber?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantBatchSplitRequestSchema: MetrcSchema<PlantBatchSplitRequest> = schema.object("PlantBatchSplitRequest", { PlantBatch: schema.string(), GroupName: schema.string(), Count: schema.number(), Location: schema.optional(schema.nullable(schema.string())), Sublocation: schema.optional(schema.nullable(schema.string())), Strain: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantDestroyRequest {
+  Id?: number | null;
+  Label?: string | null;
+  WasteMethodName?: string | null;
+  WasteMaterialMixed?: string | null;
+  WasteReasonName?: string | null;
+  ReasonNote?: string | null;
+  WasteWeight?: number | null;
+  WasteUnitOfMeasureName?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantDestroyRequestSchema: MetrcSchema<PlantDestroyRequest> = schema.object("PlantDestroyRequest", { Id: schema.optional(schema.nullable(schema.number())), Label: schema.optional(schema.nullable(schema.string())), WasteMethodName: schema.optional(schema.nullable(schema.string())), WasteMaterialMixed: schema.optional(schema.nullable(schema.string())), WasteReasonName: schema.optional(schema.nullable(schema.string())), ReasonNote: schema.optional(schema.nullable(schema.string())), WasteWeight: schema.optional(schema.nullable(schema.number())), WasteUnitOfMeasureName: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantGrowthPhaseRequest {
+  Id?: number | null;
+  Label?: string | null;
+  NewTag: string;
+  GrowthPhase: string;
+  NewLocation: string;
+  NewSublocation?: string | null;
+  GrowthDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantGrowthPhaseRequestSchema: MetrcSchema<PlantGrowthPhaseRequest> = schema.object("PlantGrowthPhaseRequest", { Id: schema.optional(schema.nullable(schema.number())), Label: schema.optional(schema.nullable(schema.string())), NewTag: schema.string(), GrowthPhase: schema.string(), NewLocation: schema.string(), NewSublocation: schema.optional(schema.nullable(schema.string())), GrowthDate: schema.string() });
+
+export interface PlantHarvestRequest {
+  Plant: string;
+  Weight: number;
+  UnitOfWeight: string;
+  DryingLocation: string;
+  DryingSublocation?: string | null;
+  HarvestName: string;
+  PatientLicenseNumber?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantHarvestRequestSchema: MetrcSchema<PlantHarvestRequest> = schema.object("PlantHarvestRequest", { Plant: schema.string(), Weight: schema.number(), UnitOfWeight: schema.string(), DryingLocation: schema.string(), DryingSublocation: schema.optional(schema.nullable(schema.string())), HarvestName: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantMoveRequest {
+  Id?: number | null;
+  Label?: string | null;
+  Location: string;
+  Sublocation?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantMoveRequestSchema: MetrcSchema<PlantMoveRequest> = schema.object("PlantMoveRequest", { Id: schema.optional(schema.nullable(schema.number())), Label: schema.optional(schema.nullable(schema.string())), Location: schema.string(), Sublocation: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface PlantPlantingsRequest {
+  PlantLabel: string;
+  PlantBatchName: string;
+  PlantBatchType: string;
+  PlantCount: number;
+  LocationName?: string | null;
+  SublocationName?: string | null;
+  StrainName: string;
+  PatientLicenseNumber?: string | null;
+  ActualDate: string;
+  [k: string]: unknown;
+}
+
+export const PlantPlantingsRequestSchema: MetrcSchema<PlantPlantingsRequest> = schema.object("PlantPlantingsRequest", { PlantLabel: schema.string(), PlantBatchName: schema.string(), PlantBatchType: schema.string(), PlantCount: schema.number(), LocationName: schema.optional(schema.nullable(schema.string())), SublocationName: schema.optional(schema.nullable(schema.string())), StrainName: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ActualDate: schema.string() });
+
+export interface SalesDelivery {
+  Id: number;
+  SalesDateTime?: string | null;
+  SalesCustomerType?: string | null;
+  PatientLicenseNumber?: string | null;
+  ConsumerId?: string | null;
+  RecipientName?: string | null;
+  RecipientAddressStreet1?: string | null;
+  RecipientAddressStreet2?: string | null;
+  RecipientAddressCity?: string | null;
+  RecipientAddressCounty?: string | null;
+  RecipientAddressState?: string | null;
+  RecipientAddressPostalCode?: string | null;
+  PlannedRoute?: string | null;
+  EstimatedDepartureDateTime?: string | null;
+  EstimatedArrivalDateTime?: string | null;
+  ActualArrivalDateTime?: string | null;
+  DriverName?: string | null;
+  DriverOccupationalLicenseNumber?: string | null;
+  DriversLicenseNumber?: string | null;
+  VehicleMake?: string | null;
+  VehicleModel?: string | null;
+  VehicleLicensePlateNumber?: string | null;
+  DeliveryNumber?: string | null;
+  TotalPackages?: number | null;
+  TotalPrice?: number | null;
+  Transactions?: Array<SalesTransaction> | null;
+  CompletedDateTime?: string | null;
+  VoidedDate?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const SalesDeliverySchema: MetrcSchema<SalesDelivery> = schema.object("SalesDelivery", { Id: schema.number(), SalesDateTime: schema.optional(schema.nullable(schema.string())), SalesCustomerType: schema.optional(schema.nullable(schema.string())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ConsumerId: schema.optional(schema.nullable(schema.string())), RecipientName: schema.optional(schema.nullable(schema.string())), RecipientAddressStreet1: schema.optional(schema.nullable(schema.string())), RecipientAddressStreet2: schema.optional(schema.nullable(schema.string())), RecipientAddressCity: schema.optional(schema.nullable(schema.string())), RecipientAddressCounty: schema.optional(schema.nullable(schema.string())), RecipientAddressState: schema.optional(schema.nullable(schema.string())), RecipientAddressPostalCode: schema.optional(schema.nullable(schema.string())), PlannedRoute: schema.optional(schema.nullable(schema.string())), EstimatedDepartureDateTime: schema.optional(schema.nullable(schema.string())), EstimatedArrivalDateTime: schema.optional(schema.nullable(schema.string())), ActualArrivalDateTime: schema.optional(schema.nullable(schema.string())), DriverName: schema.optional(schema.nullable(schema.string())), DriverOccupationalLicenseNumber: schema.optional(schema.nullable(schema.string())), DriversLicenseNumber: schema.optional(schema.nullable(schema.string())), VehicleMake: schema.optional(schema.nullable(schema.string())), VehicleModel: schema.optional(schema.nullable(schema.string())), VehicleLicensePlateNumber: schema.optional(schema.nullable(schema.string())), DeliveryNumber: schema.optional(schema.nullable(schema.string())), TotalPackages: schema.optional(schema.nullable(schema.number())), TotalPrice: schema.optional(schema.nullable(schema.number())), Transactions: schema.optional(schema.nullable(schema.array(schema.lazy(() => SalesTransactionSchema, "SalesTransaction")))), CompletedDateTime: schema.optional(schema.nullable(schema.string())), VoidedDate: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface SalesDeliveryCompleteRequest {
+  Id: number;
+  ActualArrivalDateTime: string;
+  PaymentType?: string | null;
+  AcceptedPackages: Array<string>;
+  ReturnedPackages?: Array<SalesDeliveryReturnedPackage> | null;
+  [k: string]: unknown;
+}
+
+export const SalesDeliveryCompleteRequestSchema: MetrcSchema<SalesDeliveryCompleteRequest> = schema.object("SalesDeliveryCompleteRequest", { Id: schema.number(), ActualArrivalDateTime: schema.string(), PaymentType: schema.optional(schema.nullable(schema.string())), AcceptedPackages: schema.array(schema.string()), ReturnedPackages: schema.optional(schema.nullable(schema.array(schema.lazy(() => SalesDeliveryReturnedPackageSchema, "SalesDeliveryReturnedPackage")))) });
+
+export interface SalesDeliveryCreateRequest {
+  SalesDateTime: string;
+  SalesCustomerType: string;
+  PatientLicenseNumber?: string | null;
+  ConsumerId?: string | null;
+  RecipientName: string;
+  RecipientAddressStreet1: string;
+  RecipientAddressStreet2?: string | null;
+  RecipientAddressCity: string;
+  RecipientAddressCounty?: string | null;
+  RecipientAddressState: string;
+  RecipientAddressPostalCode: string;
+  PlannedRoute: string;
+  EstimatedDepartureDateTime: string;
+  EstimatedArrivalDateTime: string;
+  DriverName: string;
+  DriverOccupationalLicenseNumber: string;
+  DriversLicenseNumber: string;
+  VehicleMake: string;
+  VehicleModel: string;
+  VehicleLicensePlateNumber: string;
+  Transactions: Array<SalesDeliveryTransactionInput>;
+  [k: string]: unknown;
+}
+
+export const SalesDeliveryCreateRequestSchema: MetrcSchema<SalesDeliveryCreateRequest> = schema.object("SalesDeliveryCreateRequest", { SalesDateTime: schema.string(), SalesCustomerType: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), ConsumerId: schema.optional(schema.nullable(schema.string())), RecipientName: schema.string(), RecipientAddressStreet1: schema.string(), RecipientAddressStreet2: schema.optional(schema.nullable(schema.string())), RecipientAddressCity: schema.string(), RecipientAddressCounty: schema.optional(schema.nullable(schema.string())), RecipientAddressState: schema.string(), RecipientAddressPostalCode: schema.string(), PlannedRoute: schema.string(), EstimatedDepartureDateTime: schema.string(), EstimatedArrivalDateTime: schema.string(), DriverName: schema.string(), DriverOccupationalLicenseNumber: schema.string(), DriversLicenseNumber: schema.string(), VehicleMake: schema.string(), VehicleModel: schema.string(), VehicleLicensePlateNumber: schema.string(), Transactions: schema.array(schema.lazy(() => SalesDeliveryTransactionInputSchema, "SalesDeliveryTransactionInput")) });
+
+export interface SalesDeliveryReturnReason {
+  Name: string;
+  RequiresNote?: boolean | null;
+  RequiresWasteWeight?: boolean | null;
+  RequiresImmatureWasteWeight?: boolean | null;
+  RequiresMatureWasteWeight?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const SalesDeliveryReturnReasonSchema: MetrcSchema<SalesDeliveryReturnReason> = schema.object("SalesDeliveryReturnReason", { Name: schema.string(), RequiresNote: schema.optional(schema.nullable(schema.boolean())), RequiresWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresImmatureWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresMatureWasteWeight: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface SalesDeliveryReturnedPackage {
+  Label: string;
+  ReturnQuantityVerified: number;
+  ReturnUnitOfMeasure: string;
+  ReturnReason: string;
+  ReturnReasonNote?: string | null;
+  [k: string]: unknown;
+}
+
+export const SalesDeliveryReturnedPackageSchema: MetrcSchema<SalesDeliveryReturnedPackage> = schema.object("SalesDeliveryReturnedPackage", { Label: schema.string(), ReturnQuantityVerified: schema.number(), ReturnUnitOfMeasure: schema.string(), ReturnReason: schema.string(), ReturnReasonNote: schema.optional(schema.nullable(schema.string())) });
+
+export interface SalesDeliveryTransactionInput {
+  PackageLabel: string;
+  Quantity: number;
+  UnitOfMeasure: string;
+  TotalAmount: number;
+  [k: string]: unknown;
+}
+
+export const SalesDeliveryTransactionInputSchema: MetrcSchema<SalesDeliveryTransactionInput> = schema.object("SalesDeliveryTransactionInput", { PackageLabel: schema.string(), Quantity: schema.number(), UnitOfMeasure: schema.string(), TotalAmount: schema.number() });
+
+export type SalesDeliveryUpdateRequest = SalesDeliveryCreateRequest & { Id: number };
+
+export const SalesDeliveryUpdateRequestSchema: MetrcSchema<SalesDeliveryUpdateRequest> = schema.unknown() as MetrcSchema<SalesDeliveryUpdateRequest>;
+
+export interface SalesReceipt {
+  Id: number;
+  ReceiptNumber?: string | null;
+  SalesDateTime?: string | null;
+  SalesCustomerType?: string | null;
+  PatientLicenseNumber?: string | null;
+  TotalPackages?: number | null;
+  TotalPrice?: number | null;
+  Transactions?: Array<SalesTransaction> | null;
+  IsFinal?: boolean | null;
+  ArchivedDate?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const SalesReceiptSchema: MetrcSchema<SalesReceipt> = schema.object("SalesReceipt", { Id: schema.number(), ReceiptNumber: schema.optional(schema.nullable(schema.string())), SalesDateTime: schema.optional(schema.nullable(schema.string())), SalesCustomerType: schema.optional(schema.nullable(schema.string())), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), TotalPackages: schema.optional(schema.nullable(schema.number())), TotalPrice: schema.optional(schema.nullable(schema.number())), Transactions: schema.optional(schema.nullable(schema.array(schema.lazy(() => SalesTransactionSchema, "SalesTransaction")))), IsFinal: schema.optional(schema.nullable(schema.boolean())), ArchivedDate: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface SalesReceiptCreateRequest {
+  SalesDateTime: string;
+  SalesCustomerType: string;
+  PatientLicenseNumber?: string | null;
+  CaregiverLicenseNumber?: string | null;
+  IdentificationMethod?: string | null;
+  Transactions: Array<SalesReceiptTransactionInput>;
+  [k: string]: unknown;
+}
+
+export const SalesReceiptCreateRequestSchema: MetrcSchema<SalesReceiptCreateRequest> = schema.object("SalesReceiptCreateRequest", { SalesDateTime: schema.string(), SalesCustomerType: schema.string(), PatientLicenseNumber: schema.optional(schema.nullable(schema.string())), CaregiverLicenseNumber: schema.optional(schema.nullable(schema.string())), IdentificationMethod: schema.optional(schema.nullable(schema.string())), Transactions: schema.array(schema.lazy(() => SalesReceiptTransactionInputSchema, "SalesReceiptTransactionInput")) });
+
+export interface SalesReceiptTransactionInput {
+  PackageLabel: string;
+  Quantity: number;
+  UnitOfMeasure: string;
+  TotalAmount: number;
+  [k: string]: unknown;
+}
+
+export const SalesReceiptTransactionInputSchema: MetrcSchema<SalesReceiptTransactionInput> = schema.object("SalesReceiptTransactionInput", { PackageLabel: schema.string(), Quantity: schema.number(), UnitOfMeasure: schema.string(), TotalAmount: schema.number() });
+
+export type SalesReceiptUpdateRequest = SalesReceiptCreateRequest & { Id: number };
+
+export const SalesReceiptUpdateRequestSchema: MetrcSchema<SalesReceiptUpdateRequest> = schema.unknown() as MetrcSchema<SalesReceiptUpdateRequest>;
+
+export interface SalesTransaction {
+  PackageId?: number | null;
+  PackageLabel?: string | null;
+  ProductName?: string | null;
+  QuantitySold?: number | null;
+  UnitOfMeasureName?: string | null;
+  TotalPrice?: number | null;
+  [k: string]: unknown;
+}
+
+export const SalesTransactionSchema: MetrcSchema<SalesTransaction> = schema.object("SalesTransaction", { PackageId: schema.optional(schema.nullable(schema.number())), PackageLabel: schema.optional(schema.nullable(schema.string())), ProductName: schema.optional(schema.nullable(schema.string())), QuantitySold: schema.optional(schema.nullable(schema.number())), UnitOfMeasureName: schema.optional(schema.nullable(schema.string())), TotalPrice: schema.optional(schema.nullable(schema.number())) });
+
+export interface Strain {
+  Id: number;
+  Name?: string | null;
+  TestingStatus?: string | null;
+  ThcLevel?: number | null;
+  CbdLevel?: number | null;
+  IndicaPercentage?: number | null;
+  SativaPercentage?: number | null;
+  IsUsed?: boolean | null;
+  Genetics?: string | null;
+  [k: string]: unknown;
+}
+
+export const StrainSchema: MetrcSchema<Strain> = schema.object("Strain", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), TestingStatus: schema.optional(schema.nullable(schema.string())), ThcLevel: schema.optional(schema.nullable(schema.number())), CbdLevel: schema.optional(schema.nullable(schema.number())), IndicaPercentage: schema.optional(schema.nullable(schema.number())), SativaPercentage: schema.optional(schema.nullable(schema.number())), IsUsed: schema.optional(schema.nullable(schema.boolean())), Genetics: schema.optional(schema.nullable(schema.string())) });
+
+export interface StrainCreateRequest {
+  Name: string;
+  /** None, InHouse or ThirdParty */
+  TestingStatus: string;
+  ThcLevel?: number | null;
+  CbdLevel?: number | null;
+  IndicaPercentage: number;
+  SativaPercentage: number;
+  [k: string]: unknown;
+}
+
+export const StrainCreateRequestSchema: MetrcSchema<StrainCreateRequest> = schema.object("StrainCreateRequest", { Name: schema.string(), TestingStatus: schema.string(), ThcLevel: schema.optional(schema.nullable(schema.number())), CbdLevel: schema.optional(schema.nullable(schema.number())), IndicaPercentage: schema.number(), SativaPercentage: schema.number() });
+
+export type StrainUpdateRequest = StrainCreateRequest & { Id: number };
+
+export const StrainUpdateRequestSchema: MetrcSchema<StrainUpdateRequest> = schema.unknown() as MetrcSchema<StrainUpdateRequest>;
+
+export interface Transfer {
+  Id: number;
+  ManifestNumber?: string | null;
+  ShipmentLicenseType?: string | null;
+  ShipperFacilityLicenseNumber?: string | null;
+  ShipperFacilityName?: string | null;
+  TransporterFacilityLicenseNumber?: string | null;
+  TransporterFacilityName?: string | null;
+  DeliveryId?: number | null;
+  RecipientFacilityLicenseNumber?: string | null;
+  RecipientFacilityName?: string | null;
+  ShipmentTypeName?: string | null;
+  PackageCount?: number | null;
+  ReceivedPackageCount?: number | null;
+  CreatedDateTime?: string | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const TransferSchema: MetrcSchema<Transfer> = schema.object("Transfer", { Id: schema.number(), ManifestNumber: schema.optional(schema.nullable(schema.string())), ShipmentLicenseType: schema.optional(schema.nullable(schema.string())), ShipperFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), ShipperFacilityName: schema.optional(schema.nullable(schema.string())), TransporterFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), TransporterFacilityName: schema.optional(schema.nullable(schema.string())), DeliveryId: schema.optional(schema.nullable(schema.number())), RecipientFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), RecipientFacilityName: schema.optional(schema.nullable(schema.string())), ShipmentTypeName: schema.optional(schema.nullable(schema.string())), PackageCount: schema.optional(schema.nullable(schema.number())), ReceivedPackageCount: schema.optional(schema.nullable(schema.number())), CreatedDateTime: schema.optional(schema.nullable(schema.string())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface TransferDelivery {
+  Id: number;
+  RecipientFacilityLicenseNumber?: string | null;
+  RecipientFacilityName?: string | null;
+  ShipmentTypeName?: string | null;
+  ShipmentTransactionType?: string | null;
+  EstimatedDepartureDateTime?: string | null;
+  ActualDepartureDateTime?: string | null;
+  EstimatedArrivalDateTime?: string | null;
+  ActualArrivalDateTime?: string | null;
+  DeliveryPackageCount?: number | null;
+  DeliveryReceivedPackageCount?: number | null;
+  ReceivedDateTime?: string | null;
+  GrossWeight?: number | null;
+  GrossUnitOfWeightName?: string | null;
+  PlannedRoute?: string | null;
+  RejectedPackagesReturned?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const TransferDeliverySchema: MetrcSchema<TransferDelivery> = schema.object("TransferDelivery", { Id: schema.number(), RecipientFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), RecipientFacilityName: schema.optional(schema.nullable(schema.string())), ShipmentTypeName: schema.optional(schema.nullable(schema.string())), ShipmentTransactionType: schema.optional(schema.nullable(schema.string())), EstimatedDepartureDateTime: schema.optional(schema.nullable(schema.string())), ActualDepartureDateTime: schema.optional(schema.nullable(schema.string())), EstimatedArrivalDateTime: schema.optional(schema.nullable(schema.string())), ActualArrivalDateTime: schema.optional(schema.nullable(schema.string())), DeliveryPackageCount: schema.optional(schema.nullable(schema.number())), DeliveryReceivedPackageCount: schema.optional(schema.nullable(schema.number())), ReceivedDateTime: schema.optional(schema.nullable(schema.string())), GrossWeight: schema.optional(schema.nullable(schema.number())), GrossUnitOfWeightName: schema.optional(schema.nullable(schema.string())), PlannedRoute: schema.optional(schema.nullable(schema.string())), RejectedPackagesReturned: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface TransferDestinationRequest {
+  RecipientLicenseNumber: string;
+  TransferTypeName: string;
+  PlannedRoute: string;
+  EstimatedDepartureDateTime: string;
+  EstimatedArrivalDateTime: string;
+  GrossWeight?: number | null;
+  GrossUnitOfWeightId?: number | null;
+  Transporters: Array<TransferTransporterRequest>;
+  Packages: Array<TransferPackageRequest>;
+  [k: string]: unknown;
+}
+
+export const TransferDestinationRequestSchema: MetrcSchema<TransferDestinationRequest> = schema.object("TransferDestinationRequest", { RecipientLicenseNumber: schema.string(), TransferTypeName: schema.string(), PlannedRoute: schema.string(), EstimatedDepartureDateTime: schema.string(), EstimatedArrivalDateTime: schema.string(), GrossWeight: schema.optional(schema.nullable(schema.number())), GrossUnitOfWeightId: schema.optional(schema.nullable(schema.number())), Transporters: schema.array(schema.lazy(() => TransferTransporterRequestSchema, "TransferTransporterRequest")), Packages: schema.array(schema.lazy(() => TransferPackageRequestSchema, "TransferPackageRequest")) });
+
+export interface TransferExternalIncomingRequest {
+  ShipperLicenseNumber?: string | null;
+  ShipperName: string;
+  ShipperMainPhoneNumber: string;
+  ShipperAddress1: string;
+  ShipperAddress2?: string | null;
+  ShipperAddressCity: string;
+  ShipperAddressState: string;
+  ShipperAddressPostalCode: string;
+  TransporterFacilityLicenseNumber?: string | null;
+  DriverOccupationalLicenseNumber?: string | null;
+  DriverName?: string | null;
+  DriverLicenseNumber?: string | null;
+  PhoneNumberForQuestions?: string | null;
+  VehicleMake?: string | null;
+  VehicleModel?: string | null;
+  VehicleLicensePlateNumber?: string | null;
+  Destinations: Array<TransferDestinationRequest>;
+  [k: string]: unknown;
+}
+
+export const TransferExternalIncomingRequestSchema: MetrcSchema<TransferExternalIncomingRequest> = schema.object("TransferExternalIncomingRequest", { ShipperLicenseNumber: schema.optional(schema.nullable(schema.string())), ShipperName: schema.string(), ShipperMainPhoneNumber: schema.string(), ShipperAddress1: schema.string(), ShipperAddress2: schema.optional(schema.nullable(schema.string())), ShipperAddressCity: schema.string(), ShipperAddressState: schema.string(), ShipperAddressPostalCode: schema.string(), TransporterFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverOccupationalLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverName: schema.optional(schema.nullable(schema.string())), DriverLicenseNumber: schema.optional(schema.nullable(schema.string())), PhoneNumberForQuestions: schema.optional(schema.nullable(schema.string())), VehicleMake: schema.optional(schema.nullable(schema.string())), VehicleModel: schema.optional(schema.nullable(schema.string())), VehicleLicensePlateNumber: schema.optional(schema.nullable(schema.string())), Destinations: schema.array(schema.lazy(() => TransferDestinationRequestSchema, "TransferDestinationRequest")) });
+
+export type TransferExternalIncomingUpdateRequest = TransferExternalIncomingRequest & { TransferId: number };
+
+export const TransferExternalIncomingUpdateRequestSchema: MetrcSchema<TransferExternalIncomingUpdateRequest> = schema.unknown() as MetrcSchema<TransferExternalIncomingUpdateRequest>;
+
+export interface TransferPackage {
+  PackageId: number;
+  PackageLabel?: string | null;
+  PackageType?: string | null;
+  SourceHarvestNames?: string | null;
+  SourcePackageLabels?: string | null;
+  ProductName?: string | null;
+  ProductCategoryName?: string | null;
+  ItemStrainName?: string | null;
+  LabTestingState?: string | null;
+  IsTestingSample?: boolean | null;
+  ProductionBatchNumber?: string | null;
+  ShipmentPackageState?: string | null;
+  ShippedQuantity?: number | null;
+  ShippedUnitOfMeasureName?: string | null;
+  ReceivedQuantity?: number | null;
+  ReceivedUnitOfMeasureName?: string | null;
+  GrossWeight?: number | null;
+  GrossUnitOfWeightName?: string | null;
+  ShipperWholesalePrice?: number | null;
+  ReceiverWholesalePrice?: number | null;
+  [k: string]: unknown;
+}
+
+export const TransferPackageSchema: MetrcSchema<TransferPackage> = schema.object("TransferPackage", { PackageId: schema.number(), PackageLabel: schema.optional(schema.nullable(schema.string())), PackageType: schema.optional(schema.nullable(schema.string())), SourceHarvestNames: schema.optional(schema.nullable(schema.string())), SourcePackageLabels: schema.optional(schema.nullable(schema.string())), ProductName: schema.optional(schema.nullable(schema.string())), ProductCategoryName: schema.optional(schema.nullable(schema.string())), ItemStrainName: schema.optional(schema.nullable(schema.string())), LabTestingState: schema.optional(schema.nullable(schema.string())), IsTestingSample: schema.optional(schema.nullable(schema.boolean())), ProductionBatchNumber: schema.optional(schema.nullable(schema.string())), ShipmentPackageState: schema.optional(schema.nullable(schema.string())), ShippedQuantity: schema.optional(schema.nullable(schema.number())), ShippedUnitOfMeasureName: schema.optional(schema.nullable(schema.string())), ReceivedQuantity: schema.optional(schema.nullable(schema.number())), ReceivedUnitOfMeasureName: schema.optional(schema.nullable(schema.string())), GrossWeight: schema.optional(schema.nullable(schema.number())), GrossUnitOfWeightName: schema.optional(schema.nullable(schema.string())), ShipperWholesalePrice: schema.optional(schema.nullable(schema.number())), ReceiverWholesalePrice: schema.optional(schema.nullable(schema.number())) });
+
+export interface TransferPackageRequest {
+  PackageLabel: string;
+  WholesalePrice?: number | null;
+  GrossWeight?: number | null;
+  GrossUnitOfWeightName?: string | null;
+  [k: string]: unknown;
+}
+
+export const TransferPackageRequestSchema: MetrcSchema<TransferPackageRequest> = schema.object("TransferPackageRequest", { PackageLabel: schema.string(), WholesalePrice: schema.optional(schema.nullable(schema.number())), GrossWeight: schema.optional(schema.nullable(schema.number())), GrossUnitOfWeightName: schema.optional(schema.nullable(schema.string())) });
+
+export interface TransferPackageWholesale {
+  PackageId: number;
+  PackageLabel?: string | null;
+  ShipperWholesalePrice?: number | null;
+  ReceiverWholesalePrice?: number | null;
+  [k: string]: unknown;
+}
+
+export const TransferPackageWholesaleSchema: MetrcSchema<TransferPackageWholesale> = schema.object("TransferPackageWholesale", { PackageId: schema.number(), PackageLabel: schema.optional(schema.nullable(schema.string())), ShipperWholesalePrice: schema.optional(schema.nullable(schema.number())), ReceiverWholesalePrice: schema.optional(schema.nullable(schema.number())) });
+
+export interface TransferRequiredLabTestBatch {
+  PackageId: number;
+  LabTestBatchId: number;
+  LabTestBatchName?: string | null;
+  [k: string]: unknown;
+}
+
+export const TransferRequiredLabTestBatchSchema: MetrcSchema<TransferRequiredLabTestBatch> = schema.object("TransferRequiredLabTestBatch", { PackageId: schema.number(), LabTestBatchId: schema.number(), LabTestBatchName: schema.optional(schema.nullable(schema.string())) });
+
+export interface TransferTemplate {
+  Id: number;
+  Name?: string | null;
+  TransporterFacilityLicenseNumber?: string | null;
+  TransporterFacilityName?: string | null;
+  DriverName?: string | null;
+  DriverOccupationalLicenseNumber?: string | null;
+  DriverLicenseNumber?: string | null;
+  VehicleMake?: string | null;
+  VehicleModel?: string | null;
+  VehicleLicensePlateNumber?: string | null;
+  DeliveryCount?: number | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const TransferTemplateSchema: MetrcSchema<TransferTemplate> = schema.object("TransferTemplate", { Id: schema.number(), Name: schema.optional(schema.nullable(schema.string())), TransporterFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), TransporterFacilityName: schema.optional(schema.nullable(schema.string())), DriverName: schema.optional(schema.nullable(schema.string())), DriverOccupationalLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverLicenseNumber: schema.optional(schema.nullable(schema.string())), VehicleMake: schema.optional(schema.nullable(schema.string())), VehicleModel: schema.optional(schema.nullable(schema.string())), VehicleLicensePlateNumber: schema.optional(schema.nullable(schema.string())), DeliveryCount: schema.optional(schema.nullable(schema.number())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface TransferTemplateRequest {
+  Name: string;
+  TransporterFacilityLicenseNumber?: string | null;
+  DriverOccupationalLicenseNumber?: string | null;
+  DriverName?: string | null;
+  DriverLicenseNumber?: string | null;
+  PhoneNumberForQuestions?: string | null;
+  VehicleMake?: string | null;
+  VehicleModel?: string | null;
+  VehicleLicensePlateNumber?: string | null;
+  Destinations: Array<TransferDestinationRequest>;
+  [k: string]: unknown;
+}
+
+export const TransferTemplateRequestSchema: MetrcSchema<TransferTemplateRequest> = schema.object("TransferTemplateRequest", { Name: schema.string(), TransporterFacilityLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverOccupationalLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverName: schema.optional(schema.nullable(schema.string())), DriverLicenseNumber: schema.optional(schema.nullable(schema.string())), PhoneNumberForQuestions: schema.optional(schema.nullable(schema.string())), VehicleMake: schema.optional(schema.nullable(schema.string())), VehicleModel: schema.optional(schema.nullable(schema.string())), VehicleLicensePlateNumber: schema.optional(schema.nullable(schema.string())), Destinations: schema.array(schema.lazy(() => TransferDestinationRequestSchema, "TransferDestinationRequest")) });
+
+export type TransferTemplateUpdateRequest = TransferTemplateRequest & { TransferTemplateId: number };
+
+export const TransferTemplateUpdateRequestSchema: MetrcSchema<TransferTemplateUpdateRequest> = schema.unknown() as MetrcSchema<TransferTemplateUpdateRequest>;
+
+export interface TransferTransporterRequest {
+  TransporterFacilityLicenseNumber: string;
+  DriverOccupationalLicenseNumber?: string | null;
+  DriverName: string;
+  DriverLicenseNumber: string;
+  PhoneNumberForQuestions?: string | null;
+  VehicleMake: string;
+  VehicleModel: string;
+  VehicleLicensePlateNumber: string;
+  IsLayover?: boolean | null;
+  EstimatedDepartureDateTime?: string | null;
+  EstimatedArrivalDateTime?: string | null;
+  [k: string]: unknown;
+}
+
+export const TransferTransporterRequestSchema: MetrcSchema<TransferTransporterRequest> = schema.object("TransferTransporterRequest", { TransporterFacilityLicenseNumber: schema.string(), DriverOccupationalLicenseNumber: schema.optional(schema.nullable(schema.string())), DriverName: schema.string(), DriverLicenseNumber: schema.string(), PhoneNumberForQuestions: schema.optional(schema.nullable(schema.string())), VehicleMake: schema.string(), VehicleModel: schema.string(), VehicleLicensePlateNumber: schema.string(), IsLayover: schema.optional(schema.nullable(schema.boolean())), EstimatedDepartureDateTime: schema.optional(schema.nullable(schema.string())), EstimatedArrivalDateTime: schema.optional(schema.nullable(schema.string())) });
+
+export interface TransferType {
+  Name: string;
+  ForLicensedShipments?: boolean | null;
+  ForExternalIncomingShipments?: boolean | null;
+  ForExternalOutgoingShipments?: boolean | null;
+  RequiresDestinationGrossWeight?: boolean | null;
+  RequiresPackagesGrossWeight?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const TransferTypeSchema: MetrcSchema<TransferType> = schema.object("TransferType", { Name: schema.string(), ForLicensedShipments: schema.optional(schema.nullable(schema.boolean())), ForExternalIncomingShipments: schema.optional(schema.nullable(schema.boolean())), ForExternalOutgoingShipments: schema.optional(schema.nullable(schema.boolean())), RequiresDestinationGrossWeight: schema.optional(schema.nullable(schema.boolean())), RequiresPackagesGrossWeight: schema.optional(schema.nullable(schema.boolean())) });
+
+export interface UnitOfMeasure {
+  QuantityType?: string | null;
+  Name: string | null;
+  Abbreviation?: string | null;
+  [k: string]: unknown;
+}
+
+export const UnitOfMeasureSchema: MetrcSchema<UnitOfMeasure> = schema.object("UnitOfMeasure", { QuantityType: schema.optional(schema.nullable(schema.string())), Name: schema.nullable(schema.string()), Abbreviation: schema.optional(schema.nullable(schema.string())) });
+
+export interface WasteMethod {
+  Name: string;
+  ForPlants?: boolean | null;
+  ForProductDestruction?: boolean | null;
+  LastModified?: string | null;
+  [k: string]: unknown;
+}
+
+export const WasteMethodSchema: MetrcSchema<WasteMethod> = schema.object("WasteMethod", { Name: schema.string(), ForPlants: schema.optional(schema.nullable(schema.boolean())), ForProductDestruction: schema.optional(schema.nullable(schema.boolean())), LastModified: schema.optional(schema.nullable(schema.string())) });
+
+export interface WasteReason {
+  Name: string;
+  RequiresNote?: boolean | null;
+  RequiresWasteWeight?: boolean | null;
+  RequiresImmatureWasteWeight?: boolean | null;
+  RequiresMatureWasteWeight?: boolean | null;
+  [k: string]: unknown;
+}
+
+export const WasteReasonSchema: MetrcSchema<WasteReason> = schema.object("WasteReason", { Name: schema.string(), RequiresNote: schema.optional(schema.nullable(schema.boolean())), RequiresWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresImmatureWasteWeight: schema.optional(schema.nullable(schema.boolean())), RequiresMatureWasteWeight: schema.optional(schema.nullable(schema.boolean())) });
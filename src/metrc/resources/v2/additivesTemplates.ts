@@ -1,6 +1,10 @@
 // src/metrc/resources/v2/additivesTemplates.ts
 
 import { MetrcHttp } from "../../http";
+import { MetrcIdempotentCallOptions, MetrcReadBack, withIdempotency } from "../../idempotency";
+import { MetrcPage, PaginateOptions, metrcPageSchema, paginate, splitSyncWindows } from "../../pagination";
+import type { LicenseSlots } from "../../licenseScope";
+import { MetrcSchema, schema } from "../../schema";
 
 // Types are based on Metrc example response structure. 
 export interface AdditiveTemplate {
@@ -24,37 +28,258 @@ export interface AdditiveTemplate {
   [k: string]: unknown;
 }
 
+export const AdditiveTemplateSchema: MetrcSchema<AdditiveTemplate> = schema.object("AdditiveTemplate", {
+  Id: schema.number(),
+  FacilityId: schema.number(),
+  Name: schema.nullable(schema.string()),
+  AdditiveType: schema.string(),
+  AdditiveTypeName: schema.nullable(schema.string()),
+  ApplicationDevice: schema.nullable(schema.string()),
+  EpaRegistrationNumber: schema.nullable(schema.string()),
+  Note: schema.nullable(schema.string()),
+  ProductSupplier: schema.nullable(schema.string()),
+  ProductTradeName: schema.nullable(schema.string()),
+  RestrictiveEntryIntervalQuantityDescription: schema.nullable(schema.string()),
+  RestrictiveEntryIntervalTimeDescription: schema.nullable(schema.string()),
+  ActiveIngredients: schema.array(
+    schema.object("ActiveIngredient", {
+      Name: schema.nullable(schema.string()),
+      Percentage: schema.nullable(schema.number()),
+    })
+  ),
+});
+
 export interface IdsResponse {
   Ids: number[];
   Warnings: unknown | null;
 }
 
-export function createAdditivesTemplatesV2(http: MetrcHttp) {
+export const IdsResponseSchema: MetrcSchema<IdsResponse> = schema.object("IdsResponse", {
+  Ids: schema.array(schema.number()),
+  Warnings: schema.unknown(),
+});
+
+export interface AdditiveTemplateIngredientInput {
+  Name: string;
+  /** 0-100; all ingredients of a template may add up to at most 100. */
+  Percentage: number;
+}
+
+/** Body row for POST /additivestemplates/v2/. */
+export interface AdditiveTemplateCreateRequest {
+  Name: string;
+  /** e.g. "Fertilizer", "Pesticide", "Other" */
+  AdditiveType: string;
+  ApplicationDevice?: string | null;
+  EpaRegistrationNumber?: string | null;
+  Note?: string | null;
+  ProductSupplier?: string | null;
+  ProductTradeName?: string | null;
+  RestrictiveEntryIntervalQuantityDescription?: string | null;
+  RestrictiveEntryIntervalTimeDescription?: string | null;
+  ActiveIngredients: AdditiveTemplateIngredientInput[];
+}
+
+/** Body row for PUT /additivestemplates/v2/; replaces the template's fields. */
+export interface AdditiveTemplateUpdateRequest extends AdditiveTemplateCreateRequest {
+  Id: number;
+}
+
+export type AdditiveTemplatesPage = MetrcPage<AdditiveTemplate>;
+
+export interface AdditiveTemplatesQuery {
+  licenseNumber: string;
+  pageNumber?: number;
+  pageSize?: number;
+  lastModifiedStart?: string;
+  lastModifiedEnd?: string;
+}
+
+export class AdditiveTemplateValidationError extends Error {
+  constructor(
+    message: string,
+    /** Index of the offending template in the request body. */
+    public readonly row: number
+  ) {
+    super(message);
+    this.name = "AdditiveTemplateValidationError";
+  }
+}
+
+/**
+ * Checks create/update rows before they are sent: Name and AdditiveType present, every
+ * ingredient percentage within 0-100 and their total at most 100 (Metrc rejects more).
+ */
+export function validateAdditiveTemplates(templates: AdditiveTemplateCreateRequest[]): void {
+  templates.forEach((t, row) => {
+    if (!t.Name?.trim()) throw new AdditiveTemplateValidationError(`Template ${row}: Name is required`, row);
+    if (!t.AdditiveType?.trim()) throw new AdditiveTemplateValidationError(`Template ${row}: AdditiveType is required`, row);
+    let total = 0;
+    for (const i of t.ActiveIngredients ?? []) {
+      if (!Number.isFinite(i.Percentage) || i.Percentage < 0 || i.Percentage > 100) {
+        throw new AdditiveTemplateValidationError(`Template ${row}: ${i.Name} percentage must be 0-100, got ${i.Percentage}`, row);
+      }
+      total += i.Percentage;
+    }
+    // tolerate float noise such as 33.3 + 33.3 + 33.4
+    if (total > 100 + 1e-9) {
+      throw new AdditiveTemplateValidationError(`Template ${row}: active ingredients add up to ${total}%, more than 100%`, row);
+    }
+  });
+}
+
+/**
+ * Create-request fields of an existing template, e.g. to copy or restore it. Throws when the
+ * template or one of its ingredients lacks a Name, or an ingredient lacks a Percentage.
+ */
+export function toAdditiveTemplateRequest(t: AdditiveTemplate): AdditiveTemplateCreateRequest {
+  if (!t.Name) throw new AdditiveTemplateValidationError(`Template ${t.Id} has no Name`, 0);
+  const ingredients = t.ActiveIngredients.map(({ Name, Percentage }, n) => {
+    if (!Name) throw new AdditiveTemplateValidationError(`Template ${t.Id}: ingredient ${n} has no Name`, 0);
+    if (Percentage === null) throw new AdditiveTemplateValidationError(`Template ${t.Id}: ${Name} has no Percentage`, 0);
+    return { Name, Percentage };
+  });
   return {
+    Name: t.Name,
+    AdditiveType: t.AdditiveType,
+    ApplicationDevice: t.ApplicationDevice,
+    EpaRegistrationNumber: t.EpaRegistrationNumber,
+    Note: t.Note,
+    ProductSupplier: t.ProductSupplier,
+    ProductTradeName: t.ProductTradeName,
+    RestrictiveEntryIntervalQuantityDescription: t.RestrictiveEntryIntervalQuantityDescription,
+    RestrictiveEntryIntervalTimeDescription: t.RestrictiveEntryIntervalTimeDescription,
+    ActiveIngredients: ingredients,
+  };
+}
+
+export interface AdditiveTemplatesIterateParams extends PaginateOptions {
+  licenseNumber: string;
+  lastModifiedStart?: string;
+  lastModifiedEnd?: string;
+}
+
+function paginateTemplates(http: MetrcHttp, path: string, params: AdditiveTemplatesIterateParams) {
+  return paginate<AdditiveTemplate>(
+    (page) =>
+      http.request<AdditiveTemplatesPage>({
+        method: "GET",
+        path,
+        licenseNumber: params.licenseNumber,
+        query: {
+          pageNumber: page.pageNumber,
+          pageSize: page.pageSize,
+          lastModifiedStart: params.lastModifiedStart,
+          lastModifiedEnd: params.lastModifiedEnd,
+        },
+        schema: metrcPageSchema(AdditiveTemplateSchema),
+      }),
+    params
+  );
+}
+
+const TEMPLATE_TEXT_FIELDS = [
+  "Name",
+  "AdditiveType",
+  "ApplicationDevice",
+  "EpaRegistrationNumber",
+  "Note",
+  "ProductSupplier",
+  "ProductTradeName",
+  "RestrictiveEntryIntervalQuantityDescription",
+  "RestrictiveEntryIntervalTimeDescription",
+] as const;
+
+/** True when `t` carries every field of `wanted`; omitted optional fields match null. */
+function templateMatches(t: AdditiveTemplate, wanted: AdditiveTemplateCreateRequest): boolean {
+  for (const f of TEMPLATE_TEXT_FIELDS) {
+    if ((t[f] ?? null) !== (wanted[f] ?? null)) return false;
+  }
+  const have = t.ActiveIngredients ?? [];
+  const want = wanted.ActiveIngredients ?? [];
+  if (have.length !== want.length) return false;
+  const left = [...have];
+  for (const w of want) {
+    const i = left.findIndex((h) => h.Name === w.Name && h.Percentage !== null && Math.abs(h.Percentage - w.Percentage) < 1e-9);
+    if (i < 0) return false;
+    left.splice(i, 1);
+  }
+  return true;
+}
+
+/**
+ * Read-back for an uncertain create(): active templates modified between the first attempt and
+ * now (in windows of at most 24 hours, the longest range Metrc accepts) whose fields all match a
+ * submitted row. Found for some but not all means Metrc state is unclear.
+ */
+async function confirmTemplatesCreated(
+  http: MetrcHttp,
+  licenseNumber: string,
+  templates: AdditiveTemplateCreateRequest[],
+  since: Date
+): Promise<MetrcReadBack<IdsResponse>> {
+  const recent: AdditiveTemplate[] = [];
+  // a minute of slack either side for clock skew between us and Metrc
+  const start = new Date(since.getTime() - 60_000);
+  const end = new Date(Date.now() + 60_000);
+  const seen = new Set<number>();
+  for (const w of splitSyncWindows(start, end)) {
+    const query = { licenseNumber, lastModifiedStart: w.start.toISOString(), lastModifiedEnd: w.end.toISOString() };
+    for await (const t of paginateTemplates(http, "/additivestemplates/v2/active", query)) {
+      // adjacent windows share their boundary instant
+      if (!seen.has(t.Id)) recent.push(t);
+      seen.add(t.Id);
+    }
+  }
+
+  const ids: number[] = [];
+  for (const wanted of templates) {
+    const i = recent.findIndex((t) => templateMatches(t, wanted));
+    if (i >= 0) ids.push(recent.splice(i, 1)[0].Id);
+  }
+  if (ids.length === 0) return { applied: false };
+  if (ids.length === templates.length) return { applied: true, result: { Ids: ids, Warnings: null } };
+  throw new Error(`found ${ids.length} of ${templates.length} created additive templates`);
+}
+
+// Where each method takes its license; used by MetrcClient.forLicense().
+export const additivesTemplatesV2LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  iterateActive: { params: 0 },
+  iterateInactive: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+  archive: { arg: 0 },
+  recreateFromArchived: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createAdditivesTemplatesV2>>;
+
+export function createAdditivesTemplatesV2(http: MetrcHttp) {
+  const templates = {
     /**
      * GET /additivestemplates/v2/{id}
      * Optional licenseNumber: validates against that facility; may return 401 if invalid. 
+     * Breaking: returns the single template Metrc sends. It used to be typed AdditiveTemplate[],
+     * so callers that took `[0]` of the result must use it directly.
      */
     getById(id: number, opts?: { licenseNumber?: string }) {
-      return http.request<AdditiveTemplate[]>({
+      return http.request<AdditiveTemplate>({
         method: "GET",
         path: `/additivestemplates/v2/${encodeURIComponent(String(id))}`,
         licenseNumber: opts?.licenseNumber,
+        schema: AdditiveTemplateSchema,
       });
     },
 
     /**
      * GET /additivestemplates/v2/active
      * Requires licenseNumber; supports pagination params. 
+     * Breaking: returns the page Metrc sends (MetrcPage<AdditiveTemplate>). It used to be typed
+     * AdditiveTemplate[], so read the templates from `.Data` (or use iterateActive for every page).
      */
-    getActive(params: {
-      licenseNumber: string;
-      pageNumber?: number;
-      pageSize?: number;
-      lastModifiedStart?: string;
-      lastModifiedEnd?: string;
-    }) {
-      return http.request<AdditiveTemplate[]>({
+    getActive(params: AdditiveTemplatesQuery) {
+      return http.request<AdditiveTemplatesPage>({
         method: "GET",
         path: `/additivestemplates/v2/active`,
         licenseNumber: params.licenseNumber,
@@ -64,21 +289,17 @@ export function createAdditivesTemplatesV2(http: MetrcHttp) {
           lastModifiedStart: params.lastModifiedStart,
           lastModifiedEnd: params.lastModifiedEnd,
         },
+        schema: metrcPageSchema(AdditiveTemplateSchema),
       });
     },
 
     /**
      * GET /additivestemplates/v2/inactive
      * (Same shape as active) 
+     * Breaking: returns MetrcPage<AdditiveTemplate> instead of AdditiveTemplate[], as getActive.
      */
-    getInactive(params: {
-      licenseNumber: string;
-      pageNumber?: number;
-      pageSize?: number;
-      lastModifiedStart?: string;
-      lastModifiedEnd?: string;
-    }) {
-      return http.request<AdditiveTemplate[]>({
+    getInactive(params: AdditiveTemplatesQuery) {
+      return http.request<AdditiveTemplatesPage>({
         method: "GET",
         path: `/additivestemplates/v2/inactive`,
         licenseNumber: params.licenseNumber,
@@ -88,33 +309,108 @@ export function createAdditivesTemplatesV2(http: MetrcHttp) {
           lastModifiedStart: params.lastModifiedStart,
           lastModifiedEnd: params.lastModifiedEnd,
         },
+        schema: metrcPageSchema(AdditiveTemplateSchema),
       });
     },
 
+    /**
+     * Iterates every active template across all pages (pageSize <= 20).
+     * for await (const t of metrc.v2.additivesTemplates.iterateActive({ licenseNumber })) { ... }
+     */
+    iterateActive(params: AdditiveTemplatesIterateParams) {
+      return paginateTemplates(http, "/additivestemplates/v2/active", params);
+    },
+
+    /**
+     * Iterates every inactive template across all pages (pageSize <= 20).
+     */
+    iterateInactive(params: AdditiveTemplatesIterateParams) {
+      return paginateTemplates(http, "/additivestemplates/v2/inactive", params);
+    },
+
     /**
      * POST /additivestemplates/v2/
      * Creates new templates. Returns Ids + Warnings. 
+     * Rows are checked locally first (AdditiveTemplateValidationError).
+     * With MetrcHttpOptions.idempotency, an uncertain attempt is confirmed via the active list before resubmitting.
      */
-    create(licenseNumber: string, templates: Partial<AdditiveTemplate>[]) {
-      return http.request<IdsResponse>({
-        method: "POST",
-        path: `/additivestemplates/v2/`,
-        licenseNumber,
+    async create(licenseNumber: string, templates: AdditiveTemplateCreateRequest[], opts?: MetrcIdempotentCallOptions) {
+      validateAdditiveTemplates(templates);
+      const license = licenseNumber ?? http.defaultLicenseNumber;
+      return withIdempotency<IdsResponse>(http.idempotency, {
+        operation: "additivesTemplates.create",
+        licenseNumber: license,
         body: templates,
+        opts,
+        submit: () =>
+          http.request<IdsResponse>({
+            method: "POST",
+            path: `/additivestemplates/v2/`,
+            licenseNumber,
+            body: templates,
+            schema: IdsResponseSchema,
+          }),
+        confirm: (since) => confirmTemplatesCreated(http, license, templates, since),
       });
     },
 
     /**
      * PUT /additivestemplates/v2/
-     * Updates existing templates. 
+     * Updates existing templates. Rows are checked locally first (AdditiveTemplateValidationError).
      */
-    update(licenseNumber: string, templates: Partial<AdditiveTemplate>[]) {
+    async update(licenseNumber: string, templates: AdditiveTemplateUpdateRequest[]) {
+      validateAdditiveTemplates(templates);
       return http.request<IdsResponse>({
         method: "PUT",
         path: `/additivestemplates/v2/`,
         licenseNumber,
         body: templates,
+        schema: IdsResponseSchema,
       });
     },
+
+    /**
+     * DELETE /additivestemplates/v2/{id}
+     * Archives a template: it moves from the active to the inactive list.
+     */
+    archive(licenseNumber: string, id: number) {
+      return http.request<void>({
+        method: "DELETE",
+        path: `/additivestemplates/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber,
+      });
+    },
+
+    /**
+     * Metrc has no reactivate endpoint, so this creates a new active template from the fields of
+     * an archived one. The returned Ids hold the new template's Id; the archived template keeps
+     * its Id and stays on the inactive list. `overrides` replaces fields of the copy, and is
+     * required to supply a Name (or ActiveIngredients) the archived template lacks. Throws
+     * AdditiveTemplateValidationError when the template is not on the inactive list.
+     */
+    async recreateFromArchived(
+      licenseNumber: string,
+      id: number,
+      overrides?: Partial<AdditiveTemplateCreateRequest>
+    ): Promise<IdsResponse> {
+      const license = licenseNumber ?? http.defaultLicenseNumber;
+      const archived = await templates.getById(id, { licenseNumber: license });
+      let inactive = false;
+      for await (const t of templates.iterateInactive({ licenseNumber: license })) {
+        if (t.Id !== id) continue;
+        inactive = true;
+        break;
+      }
+      if (!inactive) {
+        throw new AdditiveTemplateValidationError(`Template ${id} is active; archive it before recreating it`, 0);
+      }
+      const name = overrides?.Name ?? archived.Name;
+      if (!name) {
+        throw new AdditiveTemplateValidationError(`Template ${id} has no Name; pass overrides.Name to recreate it`, 0);
+      }
+      const ActiveIngredients = overrides?.ActiveIngredients ?? archived.ActiveIngredients;
+      return templates.create(license, [{ ...toAdditiveTemplateRequest({ ...archived, Name: name, ActiveIngredients }), ...overrides }]);
+    },
   };
+  return templates;
 }
@@ -0,0 +1,28 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/caregivers.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { CaregiverStatus } from "./types";
+import { CaregiverStatusSchema } from "./types";
+
+export const caregiversV2LicenseSlots = {
+  getStatusByCaregiverLicenseNumber: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createCaregiversV2>>;
+
+export function createCaregiversV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /caregivers/v2/status/{caregiverLicenseNumber}
+     * Status of a caregiver license.
+     */
+    getStatusByCaregiverLicenseNumber(caregiverLicenseNumber: string, params: { licenseNumber: string }) {
+      return http.request<CaregiverStatus>({
+        method: "GET",
+        path: `/caregivers/v2/status/${encodeURIComponent(String(caregiverLicenseNumber))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: CaregiverStatusSchema,
+      });
+    },
+  } as const;
+}
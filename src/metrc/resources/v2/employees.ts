@@ -0,0 +1,42 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/employees.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { EmployeePage } from "./types";
+import { EmployeePageSchema } from "./types";
+
+export const employeesV2LicenseSlots = {
+  get: { params: 0 },
+  getPermissions: { params: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createEmployeesV2>>;
+
+export function createEmployeesV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /employees/v2/
+     * Employees of the facility.
+     */
+    get(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<EmployeePage>({
+        method: "GET",
+        path: "/employees/v2/",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: EmployeePageSchema,
+      });
+    },
+
+    /**
+     * GET /employees/v2/permissions
+     * Permissions of an employee at the facility.
+     */
+    getPermissions(params: { licenseNumber: string; employeeLicenseNumber: string }) {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/employees/v2/permissions",
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,69 @@
+// src/metrc/resources/v2/facilities.ts
+
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { MetrcSchema, schema } from "../../schema";
+
+// Types are based on Metrc example response structure.
+export interface Facility {
+  HireDate: string | null;
+  IsOwner: boolean;
+  IsManager: boolean;
+  Occupations: string[];
+  Name: string;
+  Alias: string | null;
+  DisplayName: string | null;
+  CredentialedDate: string | null;
+  SupportActivationDate: string | null;
+  SupportExpirationDate: string | null;
+  SupportLastPaidDate: string | null;
+  FacilityType: Record<string, unknown> | null;
+  License: {
+    Number: string;
+    StartDate: string | null;
+    EndDate: string | null;
+    LicenseType: string | null;
+  };
+  // ...Metrc includes more fields in some states; keep it permissive.
+  [k: string]: unknown;
+}
+
+export const FacilitySchema: MetrcSchema<Facility> = schema.object("Facility", {
+  HireDate: schema.nullable(schema.string()),
+  IsOwner: schema.boolean(),
+  IsManager: schema.boolean(),
+  Occupations: schema.array(schema.string()),
+  Name: schema.string(),
+  Alias: schema.nullable(schema.string()),
+  DisplayName: schema.nullable(schema.string()),
+  CredentialedDate: schema.nullable(schema.string()),
+  SupportActivationDate: schema.nullable(schema.string()),
+  SupportExpirationDate: schema.nullable(schema.string()),
+  SupportLastPaidDate: schema.nullable(schema.string()),
+  FacilityType: schema.nullable(schema.unknown()),
+  License: schema.object("FacilityLicense", {
+    Number: schema.string(),
+    StartDate: schema.nullable(schema.string()),
+    EndDate: schema.nullable(schema.string()),
+    LicenseType: schema.nullable(schema.string()),
+  }),
+});
+
+// No method takes a license: the list is everything the user key can access.
+export const facilitiesV2LicenseSlots = {} as const satisfies LicenseSlots<ReturnType<typeof createFacilitiesV2>>;
+
+export function createFacilitiesV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /facilities/v2/
+     * Facilities (licenses) the user API key has access to.
+     */
+    getAll() {
+      return http.request<Facility[]>({
+        method: "GET",
+        path: "/facilities/v2/",
+        schema: schema.array(FacilitySchema),
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,221 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/harvests.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { Harvest, HarvestFinishRequest, HarvestMoveRequest, HarvestPackageRequest, HarvestPage, HarvestRenameRequest, HarvestUnfinishRequest, HarvestWastePage, HarvestWasteRequest, HarvestWasteTypePage, IdsResponse } from "./types";
+import { HarvestPageSchema, HarvestSchema, HarvestWastePageSchema, HarvestWasteTypePageSchema, IdsResponseSchema } from "./types";
+
+export const harvestsV2LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getOnhold: { params: 0 },
+  getWaste: { params: 0 },
+  waste: { arg: 0 },
+  packages: { arg: 0 },
+  packagesTesting: { arg: 0 },
+  location: { arg: 0 },
+  rename: { arg: 0 },
+  deleteWasteById: { params: 1 },
+  finish: { arg: 0 },
+  unfinish: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createHarvestsV2>>;
+
+export function createHarvestsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /harvests/v2/{id}
+     * A harvest by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Harvest>({
+        method: "GET",
+        path: `/harvests/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: HarvestSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v2/active
+     * Active harvests, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<HarvestPage>({
+        method: "GET",
+        path: "/harvests/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: HarvestPageSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v2/inactive
+     * Inactive harvests, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<HarvestPage>({
+        method: "GET",
+        path: "/harvests/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: HarvestPageSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v2/onhold
+     * Harvests on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<HarvestPage>({
+        method: "GET",
+        path: "/harvests/v2/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: HarvestPageSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v2/waste
+     * Waste recorded for a harvest.
+     */
+    getWaste(params: { licenseNumber: string; pageNumber?: number; pageSize?: number; harvestId: number }) {
+      return http.request<HarvestWastePage>({
+        method: "GET",
+        path: "/harvests/v2/waste",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: HarvestWastePageSchema,
+      });
+    },
+
+    /**
+     * POST /harvests/v2/waste
+     * Records waste removed from harvests.
+     */
+    waste(licenseNumber: string, body: Array<HarvestWasteRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/harvests/v2/waste",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /harvests/v2/waste/types
+     * Harvest waste types.
+     */
+    getWasteTypes(params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<HarvestWasteTypePage>({
+        method: "GET",
+        path: "/harvests/v2/waste/types",
+        query: params,
+        schema: HarvestWasteTypePageSchema,
+      });
+    },
+
+    /**
+     * POST /harvests/v2/packages
+     * Creates packages from harvests.
+     */
+    packages(licenseNumber: string, body: Array<HarvestPackageRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/harvests/v2/packages",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /harvests/v2/packages/testing
+     * Creates testing packages from harvests.
+     */
+    packagesTesting(licenseNumber: string, body: Array<HarvestPackageRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/harvests/v2/packages/testing",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /harvests/v2/location
+     * Moves harvests to another drying location.
+     */
+    location(licenseNumber: string, body: Array<HarvestMoveRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/harvests/v2/location",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /harvests/v2/rename
+     * Renames harvests.
+     */
+    rename(licenseNumber: string, body: Array<HarvestRenameRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/harvests/v2/rename",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /harvests/v2/waste/{id}
+     * Discontinues a harvest waste record.
+     */
+    deleteWasteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/harvests/v2/waste/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /harvests/v2/finish
+     * Finishes harvests.
+     */
+    finish(licenseNumber: string, body: Array<HarvestFinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/harvests/v2/finish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /harvests/v2/unfinish
+     * Reopens finished harvests.
+     */
+    unfinish(licenseNumber: string, body: Array<HarvestUnfinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/harvests/v2/unfinish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -1,9 +1,76 @@
 // AUTO-GENERATED. Do not edit.
 import { MetrcHttp } from "../../http";
-import { createLabTestsV2 } from "./labTests";
+import { createAdditivesTemplatesV2, additivesTemplatesV2LicenseSlots } from "./additivesTemplates";
+import { createCaregiversV2, caregiversV2LicenseSlots } from "./caregivers";
+import { createEmployeesV2, employeesV2LicenseSlots } from "./employees";
+import { createFacilitiesV2, facilitiesV2LicenseSlots } from "./facilities";
+import { createHarvestsV2, harvestsV2LicenseSlots } from "./harvests";
+import { createItemsV2, itemsV2LicenseSlots } from "./items";
+import { createLabTestsV2, labTestsV2LicenseSlots } from "./labTests";
+import { createLocationsV2, locationsV2LicenseSlots } from "./locations";
+import { createPackagesV2, packagesV2LicenseSlots } from "./packages";
+import { createPatientCheckInsV2, patientCheckInsV2LicenseSlots } from "./patientCheckIns";
+import { createPatientsV2, patientsV2LicenseSlots } from "./patients";
+import { createPlantBatchesV2, plantBatchesV2LicenseSlots } from "./plantBatches";
+import { createPlantsV2, plantsV2LicenseSlots } from "./plants";
+import { createProcessingJobsV2, processingJobsV2LicenseSlots } from "./processingJobs";
+import { createSalesV2, salesV2LicenseSlots } from "./sales";
+import { createStrainsV2, strainsV2LicenseSlots } from "./strains";
+import { createSublocationsV2, sublocationsV2LicenseSlots } from "./sublocations";
+import { createTagsV2, tagsV2LicenseSlots } from "./tags";
+import { createTransfersV2, transfersV2LicenseSlots } from "./transfers";
+import { createTransportersV2, transportersV2LicenseSlots } from "./transporters";
+import { createUnitsOfMeasureV2, unitsOfMeasureV2LicenseSlots } from "./unitsOfMeasure";
+import { createWasteMethodsV2, wasteMethodsV2LicenseSlots } from "./wasteMethods";
 
 export function createAllV2Resources(http: MetrcHttp) {
   return {
+    additivesTemplates: createAdditivesTemplatesV2(http),
+    caregivers: createCaregiversV2(http),
+    employees: createEmployeesV2(http),
+    facilities: createFacilitiesV2(http),
+    harvests: createHarvestsV2(http),
+    items: createItemsV2(http),
     labTests: createLabTestsV2(http),
+    locations: createLocationsV2(http),
+    packages: createPackagesV2(http),
+    patientCheckIns: createPatientCheckInsV2(http),
+    patients: createPatientsV2(http),
+    plantBatches: createPlantBatchesV2(http),
+    plants: createPlantsV2(http),
+    processingJobs: createProcessingJobsV2(http),
+    sales: createSalesV2(http),
+    strains: createStrainsV2(http),
+    sublocations: createSublocationsV2(http),
+    tags: createTagsV2(http),
+    transfers: createTransfersV2(http),
+    transporters: createTransportersV2(http),
+    unitsOfMeasure: createUnitsOfMeasureV2(http),
+    wasteMethods: createWasteMethodsV2(http),
   } as const;
 }
+
+export const allV2LicenseSlots = {
+  additivesTemplates: additivesTemplatesV2LicenseSlots,
+  caregivers: caregiversV2LicenseSlots,
+  employees: employeesV2LicenseSlots,
+  facilities: facilitiesV2LicenseSlots,
+  harvests: harvestsV2LicenseSlots,
+  items: itemsV2LicenseSlots,
+  labTests: labTestsV2LicenseSlots,
+  locations: locationsV2LicenseSlots,
+  packages: packagesV2LicenseSlots,
+  patientCheckIns: patientCheckInsV2LicenseSlots,
+  patients: patientsV2LicenseSlots,
+  plantBatches: plantBatchesV2LicenseSlots,
+  plants: plantsV2LicenseSlots,
+  processingJobs: processingJobsV2LicenseSlots,
+  sales: salesV2LicenseSlots,
+  strains: strainsV2LicenseSlots,
+  sublocations: sublocationsV2LicenseSlots,
+  tags: tagsV2LicenseSlots,
+  transfers: transfersV2LicenseSlots,
+  transporters: transportersV2LicenseSlots,
+  unitsOfMeasure: unitsOfMeasureV2LicenseSlots,
+  wasteMethods: wasteMethodsV2LicenseSlots,
+} as const;
@@ -0,0 +1,238 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/items.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Item, ItemBrandPage, ItemBrandRequest, ItemBrandUpdateRequest, ItemCategoryPage, ItemCreateRequest, ItemFile, ItemFileUploadRequest, ItemPage, ItemUpdateRequest } from "./types";
+import { IdsResponseSchema, ItemBrandPageSchema, ItemCategoryPageSchema, ItemFileSchema, ItemPageSchema, ItemSchema } from "./types";
+
+export const itemsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getCategories: { params: 0 },
+  getBrands: { params: 0 },
+  getPhotoById: { params: 1 },
+  getFileById: { params: 1 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+  brand: { arg: 0 },
+  updateBrand: { arg: 0 },
+  deleteBrandById: { params: 1 },
+  photo: { arg: 0 },
+  file: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createItemsV2>>;
+
+export function createItemsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /items/v2/{id}
+     * An item by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Item>({
+        method: "GET",
+        path: `/items/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: ItemSchema,
+      });
+    },
+
+    /**
+     * DELETE /items/v2/{id}
+     * Archives an item.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/items/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/active
+     * Active items, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ItemPage>({
+        method: "GET",
+        path: "/items/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemPageSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/inactive
+     * Inactive items, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ItemPage>({
+        method: "GET",
+        path: "/items/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemPageSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/categories
+     * Item categories.
+     */
+    getCategories(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ItemCategoryPage>({
+        method: "GET",
+        path: "/items/v2/categories",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemCategoryPageSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/brands
+     * Item brands of the facility.
+     */
+    getBrands(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ItemBrandPage>({
+        method: "GET",
+        path: "/items/v2/brands",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemBrandPageSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/photo/{id}
+     * An item photo by Id.
+     */
+    getPhotoById(id: number, params: { licenseNumber: string }) {
+      return http.request<ItemFile>({
+        method: "GET",
+        path: `/items/v2/photo/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemFileSchema,
+      });
+    },
+
+    /**
+     * GET /items/v2/file/{id}
+     * An item file by Id.
+     */
+    getFileById(id: number, params: { licenseNumber: string }) {
+      return http.request<ItemFile>({
+        method: "GET",
+        path: `/items/v2/file/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ItemFileSchema,
+      });
+    },
+
+    /**
+     * POST /items/v2/
+     * Creates items.
+     */
+    create(licenseNumber: string, body: Array<ItemCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/items/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /items/v2/
+     * Updates items.
+     */
+    update(licenseNumber: string, body: Array<ItemUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/items/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /items/v2/brand
+     * Creates item brands.
+     */
+    brand(licenseNumber: string, body: Array<ItemBrandRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/items/v2/brand",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /items/v2/brand
+     * Updates item brands.
+     */
+    updateBrand(licenseNumber: string, body: Array<ItemBrandUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/items/v2/brand",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /items/v2/brand/{id}
+     * Archives an item brand.
+     */
+    deleteBrandById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/items/v2/brand/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /items/v2/photo
+     * Uploads item photos.
+     */
+    photo(licenseNumber: string, body: Array<ItemFileUploadRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/items/v2/photo",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /items/v2/file
+     * Uploads item files.
+     */
+    file(licenseNumber: string, body: Array<ItemFileUploadRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/items/v2/file",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
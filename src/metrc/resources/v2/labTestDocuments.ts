@@ -0,0 +1,143 @@
+// src/metrc/resources/v2/labTestDocuments.ts
+// Helpers for the DocumentFileBase64 field of lab test record / document update entries.
+// Docs: PDF only, max 5MB. Checked locally so callers get a clear error instead of a vague 400.
+
+import { base64ToBytes, bytesToBase64 } from "../../../retailid/retailid-core";
+import type { LabTestDocumentUpdateEntry, LabTestRecordEntry, LabTestRecordResult } from "./labTests";
+
+/** 5MB, the Metrc limit for lab test documents. */
+export const LAB_TEST_DOCUMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46, 0x2d]; // "%PDF-"
+
+export class LabTestDocumentError extends Error {
+  constructor(
+    message: string,
+    public readonly fileName?: string,
+    /** Index of the offending entry when validating a request body. */
+    public readonly row?: number
+  ) {
+    super(message);
+    this.name = "LabTestDocumentError";
+  }
+}
+
+/** Raw bytes, or a file path (Node only). */
+export type LabTestDocumentSource = Uint8Array | string;
+
+export function isPdf(bytes: Uint8Array): boolean {
+  if (bytes.length < PDF_MAGIC.length) return false;
+  return PDF_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/** Throws LabTestDocumentError unless `bytes` is a PDF no larger than 5MB. */
+export function validateLabTestDocument(bytes: Uint8Array, fileName?: string): void {
+  const label = fileName ? `"${fileName}"` : "document";
+  if (bytes.length === 0) throw new LabTestDocumentError(`Lab test ${label} is empty`, fileName);
+  if (bytes.length > LAB_TEST_DOCUMENT_MAX_BYTES) {
+    throw new LabTestDocumentError(
+      `Lab test ${label} is ${bytes.length} bytes; Metrc allows at most ${LAB_TEST_DOCUMENT_MAX_BYTES} (5MB)`,
+      fileName
+    );
+  }
+  if (!isPdf(bytes)) {
+    throw new LabTestDocumentError(`Lab test ${label} is not a PDF (missing %PDF- header)`, fileName);
+  }
+}
+
+/**
+ * Same checks as validateLabTestDocument, on an already-encoded DocumentFileBase64 value.
+ * Only the header is decoded; the size comes from the base64 length.
+ */
+export function validateLabTestDocumentBase64(base64: string, fileName?: string): void {
+  const label = fileName ? `"${fileName}"` : "document";
+  const clean = (base64 ?? "").replace(/\s+/g, "");
+  if (!clean) throw new LabTestDocumentError(`Lab test ${label} is empty`, fileName);
+
+  const padding = clean.endsWith("==") ? 2 : clean.endsWith("=") ? 1 : 0;
+  const size = Math.floor((clean.length * 3) / 4) - padding;
+  if (size > LAB_TEST_DOCUMENT_MAX_BYTES) {
+    throw new LabTestDocumentError(
+      `Lab test ${label} is ${size} bytes; Metrc allows at most ${LAB_TEST_DOCUMENT_MAX_BYTES} (5MB)`,
+      fileName
+    );
+  }
+
+  let head: Uint8Array;
+  try {
+    head = base64ToBytes(clean.slice(0, 8));
+  } catch {
+    throw new LabTestDocumentError(`Lab test ${label} is not valid base64`, fileName);
+  }
+  if (!isPdf(head)) {
+    throw new LabTestDocumentError(`Lab test ${label} is not a PDF (missing %PDF- header)`, fileName);
+  }
+}
+
+/** Validates each entry's DocumentFileBase64; errors carry the entry index in `row`. */
+export function validateLabTestDocumentEntries(entries: Array<{ DocumentFileName: string; DocumentFileBase64: string }>): void {
+  entries.forEach((e, row) => {
+    try {
+      validateLabTestDocumentBase64(e.DocumentFileBase64, e.DocumentFileName);
+    } catch (err) {
+      if (err instanceof LabTestDocumentError) {
+        throw new LabTestDocumentError(`Entry ${row}: ${err.message}`, e.DocumentFileName, row);
+      }
+      throw err;
+    }
+  });
+}
+
+/** Validates and base64-encodes a PDF for DocumentFileBase64. */
+export function encodeLabTestDocument(bytes: Uint8Array, fileName?: string): string {
+  validateLabTestDocument(bytes, fileName);
+  return bytesToBase64(bytes);
+}
+
+/** Resolves a source to bytes + file name. File paths need Node (fs is loaded lazily). */
+export async function loadLabTestDocument(
+  source: LabTestDocumentSource,
+  fileName?: string
+): Promise<{ fileName: string; bytes: Uint8Array }> {
+  if (source instanceof Uint8Array) {
+    return { fileName: fileName ?? "document.pdf", bytes: source };
+  }
+
+  // Kept untyped so the SDK compiles without Node type defs (same approach as buildBasicAuth).
+  const fs = (await import("fs" as string)) as { promises: { readFile(p: string): Promise<Uint8Array> } };
+  const bytes = new Uint8Array(await fs.promises.readFile(source));
+  const base = source.split(/[\\/]/).pop() || "document.pdf";
+  return { fileName: fileName ?? base, bytes };
+}
+
+/** Builds a LabTestRecordEntry from a PDF; rejects non-PDF or oversized documents. */
+export async function buildLabTestRecordEntry(args: {
+  label: string;
+  resultDate: string;
+  results: LabTestRecordResult[];
+  document: LabTestDocumentSource;
+  documentFileName?: string;
+}): Promise<LabTestRecordEntry> {
+  const { fileName, bytes } = await loadLabTestDocument(args.document, args.documentFileName);
+  return {
+    Label: args.label,
+    ResultDate: args.resultDate,
+    DocumentFileName: fileName,
+    DocumentFileBase64: encodeLabTestDocument(bytes, fileName),
+    Results: args.results,
+  };
+}
+
+/** Builds a LabTestDocumentUpdateEntry from a PDF; rejects non-PDF or oversized documents. */
+export async function buildLabTestDocumentUpdateEntry(
+  labTestResultId: number,
+  document: LabTestDocumentSource,
+  documentFileName?: string
+): Promise<LabTestDocumentUpdateEntry> {
+  const { fileName, bytes } = await loadLabTestDocument(document, documentFileName);
+  return {
+    LabTestResultId: labTestResultId,
+    DocumentFileName: fileName,
+    DocumentFileBase64: encodeLabTestDocument(bytes, fileName),
+  };
+}
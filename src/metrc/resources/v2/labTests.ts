@@ -1,5 +1,10 @@
 // src/metrc/resources/v2/labTests.ts
-import { MetrcHttp } from "../../http";
+import { MetrcApiError, MetrcBinaryResponse, MetrcHttp } from "../../http";
+import { MetrcPage, PaginateOptions, metrcPageSchema, paginate } from "../../pagination";
+import { validateLabTestDocumentEntries } from "./labTestDocuments";
+import { MetrcIdempotentCallOptions, MetrcReadBack, withIdempotency } from "../../idempotency";
+import type { LicenseSlots } from "../../licenseScope";
+import { MetrcSchema, schema } from "../../schema";
 
 /**
  * Lab Tests (v2)
@@ -14,6 +19,8 @@ import { MetrcHttp } from "../../http";
  * - PUT /labtests/v2/results/release
  * - GET /labtests/v2/labtestdocument/{id}
  *
+ * Iterators (iterateBatches/iterateTypes) walk every page via `paginate` from ../../pagination.
+ *
  * Notes straight from docs:
  * - POST /labtests/v2/record: PDF only, max 5MB; "Label" is the Package Label. :contentReference[oaicite:1]{index=1}
  * - GET /labtests/v2/results requires packageId + licenseNumber. :contentReference[oaicite:2]{index=2}
@@ -29,6 +36,110 @@ export interface Paging {
   pageSize?: number; // Docs mention enabling pagination by providing a value <= 20. :contentReference[oaicite:6]{index=6}
 }
 
+// Response types are based on Metrc example response structure.
+// Nullable fields are ones Metrc returns as null in some states / for some packages.
+
+export interface LabTestType {
+  Id: number;
+  Name: string;
+  RequiresTestResult: boolean;
+  InformationalOnly: boolean;
+  AlwaysPasses: boolean;
+  LabTestResultMode: string | null;
+  LabTestResultMinimum: number | null;
+  LabTestResultMaximum: number | null;
+  LabTestResultExpirationDays: number | null;
+  DependencyMode: string | null;
+  LastModified: string | null;
+  // ...Metrc includes more fields in some states; keep it permissive.
+  [k: string]: unknown;
+}
+
+export interface LabTestBatch {
+  Id: number;
+  Name: string;
+  RequiresAllFromLabTestBatch: boolean;
+  LabTestTypeCount: number;
+  LabTestTypes: LabTestType[] | null;
+  LastModified: string | null;
+  // ...Metrc includes more fields in some states; keep it permissive.
+  [k: string]: unknown;
+}
+
+export interface LabTestResult {
+  PackageId: number;
+  LabTestResultId: number;
+  LabFacilityLicenseNumber: string;
+  LabFacilityName: string | null;
+  SourcePackageLabel: string | null;
+  ProductName: string | null;
+  ProductCategoryName: string | null;
+  TestPerformedDate: string | null;
+  OverallPassed: boolean;
+  RevokedDate: string | null;
+  ResultReleased: boolean;
+  ResultReleaseDateTime: string | null;
+  TestTypeName: string;
+  TestPassed: boolean;
+  /** Measured level; null for pass/fail-only tests. */
+  TestResultLevel: number | null;
+  TestComment: string | null;
+  TestInformationalOnly: boolean;
+  LabTestDetailRevokedDate: string | null;
+  LabTestResultDocumentFileId: number | null;
+  // ...Metrc includes more fields in some states; keep it permissive.
+  [k: string]: unknown;
+}
+
+export const LabTestTypeSchema: MetrcSchema<LabTestType> = schema.object("LabTestType", {
+  Id: schema.number(),
+  Name: schema.string(),
+  RequiresTestResult: schema.boolean(),
+  InformationalOnly: schema.boolean(),
+  AlwaysPasses: schema.boolean(),
+  LabTestResultMode: schema.nullable(schema.string()),
+  LabTestResultMinimum: schema.nullable(schema.number()),
+  LabTestResultMaximum: schema.nullable(schema.number()),
+  LabTestResultExpirationDays: schema.nullable(schema.number()),
+  DependencyMode: schema.nullable(schema.string()),
+  LastModified: schema.nullable(schema.string()),
+});
+
+export const LabTestBatchSchema: MetrcSchema<LabTestBatch> = schema.object("LabTestBatch", {
+  Id: schema.number(),
+  Name: schema.string(),
+  RequiresAllFromLabTestBatch: schema.boolean(),
+  LabTestTypeCount: schema.number(),
+  LabTestTypes: schema.nullable(schema.array(LabTestTypeSchema)),
+  LastModified: schema.nullable(schema.string()),
+});
+
+export const LabTestResultSchema: MetrcSchema<LabTestResult> = schema.object("LabTestResult", {
+  PackageId: schema.number(),
+  LabTestResultId: schema.number(),
+  LabFacilityLicenseNumber: schema.string(),
+  LabFacilityName: schema.nullable(schema.string()),
+  SourcePackageLabel: schema.nullable(schema.string()),
+  ProductName: schema.nullable(schema.string()),
+  ProductCategoryName: schema.nullable(schema.string()),
+  TestPerformedDate: schema.nullable(schema.string()),
+  OverallPassed: schema.boolean(),
+  RevokedDate: schema.nullable(schema.string()),
+  ResultReleased: schema.boolean(),
+  ResultReleaseDateTime: schema.nullable(schema.string()),
+  TestTypeName: schema.string(),
+  TestPassed: schema.boolean(),
+  TestResultLevel: schema.nullable(schema.number()),
+  TestComment: schema.nullable(schema.string()),
+  TestInformationalOnly: schema.boolean(),
+  LabTestDetailRevokedDate: schema.nullable(schema.string()),
+  LabTestResultDocumentFileId: schema.nullable(schema.number()),
+});
+
+export type LabTestBatchesPage = MetrcPage<LabTestBatch>;
+export type LabTestTypesPage = MetrcPage<LabTestType>;
+export type LabTestResultsPage = MetrcPage<LabTestResult>;
+
 export interface LabTestRecordResult {
   LabTestTypeName: string;
   Quantity?: number;
@@ -57,11 +168,116 @@ export interface LabTestReleaseEntry {
   PackageLabel: string;
 }
 
+/** A lab test document (COA) exactly as Metrc stored it, typically a PDF. */
+export interface LabTestDocument {
+  /** From Content-Disposition; falls back to `labtestdocument-{id}.pdf`. */
+  fileName: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
 export interface LabTestsResultsQuery extends Paging {
   licenseNumber: MetrcLicenseNumber;
   packageId: number;
 }
 
+/** Where each method takes its license; used by MetrcClient.forLicense(). */
+export const labTestsV2LicenseSlots = {
+  getResults: { params: 0 },
+  iterateResults: { params: 0 },
+  record: { arg: 0 },
+  updateLabTestDocument: { arg: 0 },
+  releaseResults: { arg: 0 },
+  getLabTestDocumentById: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createLabTestsV2>>;
+
+/** LabTestResultIds each submitted package already had before the first attempt (by label). */
+type LabTestResultSnapshot = Record<string, number[]>;
+
+function findPackage(http: MetrcHttp, licenseNumber: MetrcLicenseNumber, label: string) {
+  return http
+    .request<{ Id: number }>({ method: "GET", path: `/packages/v2/${encodeURIComponent(label)}`, licenseNumber })
+    .catch((err) => {
+      if (err instanceof MetrcApiError && err.status === 404) return undefined;
+      throw err;
+    });
+}
+
+async function collectResults(http: MetrcHttp, licenseNumber: MetrcLicenseNumber, packageId: number): Promise<LabTestResult[]> {
+  const out: LabTestResult[] = [];
+  const results = paginate<LabTestResult>((page) =>
+    http.request<LabTestResultsPage>({
+      method: "GET",
+      path: "/labtests/v2/results",
+      query: { licenseNumber, packageId, ...page },
+      schema: metrcPageSchema(LabTestResultSchema),
+    })
+  );
+  for await (const r of results) out.push(r);
+  return out;
+}
+
+async function snapshotLabTestResults(
+  http: MetrcHttp,
+  licenseNumber: MetrcLicenseNumber,
+  body: LabTestRecordEntry[]
+): Promise<LabTestResultSnapshot> {
+  const snapshot: LabTestResultSnapshot = {};
+  for (const label of new Set(body.map((e) => e.Label))) {
+    const pkg = await findPackage(http, licenseNumber, label);
+    snapshot[label] = pkg ? (await collectResults(http, licenseNumber, pkg.Id)).map((r) => r.LabTestResultId) : [];
+  }
+  return snapshot;
+}
+
+function matchesSubmitted(result: LabTestResult, submitted: LabTestRecordResult): boolean {
+  if (result.TestTypeName?.toLowerCase() !== submitted.LabTestTypeName.toLowerCase()) return false;
+  if (submitted.Passed !== undefined && result.TestPassed !== submitted.Passed) return false;
+  if (submitted.Quantity !== undefined && (result.TestResultLevel === null || Math.abs(result.TestResultLevel - submitted.Quantity) > 1e-9)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Read-back for an uncertain record(): every entry's package has a result created after the
+ * snapshot for each submitted test, with the same type, pass/fail and level. Results that existed
+ * before the first attempt never count, so a same-day retest is not mistaken for the lost one.
+ * Metrc applies record atomically, so a partial match is an error.
+ */
+async function confirmLabTestsRecorded(
+  http: MetrcHttp,
+  licenseNumber: MetrcLicenseNumber,
+  body: LabTestRecordEntry[],
+  snapshot: LabTestResultSnapshot | undefined
+): Promise<MetrcReadBack<void>> {
+  // pending records written before snapshots existed compare against every result
+  const before = new Set(Object.values(snapshot ?? {}).flat());
+  const fresh = new Map<string, LabTestResult[]>();
+
+  let found = 0;
+  for (const entry of body) {
+    let candidates = fresh.get(entry.Label);
+    if (!candidates) {
+      const pkg = await findPackage(http, licenseNumber, entry.Label);
+      candidates = pkg ? (await collectResults(http, licenseNumber, pkg.Id)).filter((r) => !before.has(r.LabTestResultId)) : [];
+      fresh.set(entry.Label, candidates);
+    }
+    // each stored result can only stand for one submitted result
+    const matched = entry.Results.every((submitted) => {
+      const i = candidates!.findIndex((r) => matchesSubmitted(r, submitted));
+      if (i < 0) return false;
+      candidates!.splice(i, 1);
+      return true;
+    });
+    if (matched) found++;
+  }
+
+  if (found === 0) return { applied: false };
+  if (found === body.length) return { applied: true, result: undefined };
+  throw new Error(`lab test results visible for ${found} of ${body.length} packages`);
+}
+
 export function createLabTestsV2(http: MetrcHttp) {
   return {
     /**
@@ -72,6 +288,7 @@ export function createLabTestsV2(http: MetrcHttp) {
       return http.request<string[]>({
         method: "GET",
         path: "/labtests/v2/states",
+        schema: schema.array(schema.string()),
       });
     },
 
@@ -80,10 +297,11 @@ export function createLabTestsV2(http: MetrcHttp) {
      * Retrieves a list of Lab Test batches. Optional paging. :contentReference[oaicite:10]{index=10}
      */
     getBatches(query?: Paging) {
-      return http.request<unknown>({
+      return http.request<LabTestBatchesPage>({
         method: "GET",
         path: "/labtests/v2/batches",
         query,
+        schema: metrcPageSchema(LabTestBatchSchema),
       });
     },
 
@@ -92,44 +310,108 @@ export function createLabTestsV2(http: MetrcHttp) {
      * Returns a list of Lab Test types. Optional paging. :contentReference[oaicite:11]{index=11}
      */
     getTypes(query?: Paging) {
-      return http.request<unknown>({
+      return http.request<LabTestTypesPage>({
         method: "GET",
         path: "/labtests/v2/types",
         query,
+        schema: metrcPageSchema(LabTestTypeSchema),
       });
     },
 
+    /**
+     * Iterates every Lab Test batch across all pages (pageSize <= 20).
+     */
+    iterateBatches(opts?: PaginateOptions) {
+      return paginate<LabTestBatch>(
+        (page) => http.request<LabTestBatchesPage>({
+            method: "GET",
+            path: "/labtests/v2/batches",
+            query: page,
+            schema: metrcPageSchema(LabTestBatchSchema),
+          }),
+        opts
+      );
+    },
+
+    /**
+     * Iterates every Lab Test type across all pages (pageSize <= 20).
+     */
+    iterateTypes(opts?: PaginateOptions) {
+      return paginate<LabTestType>(
+        (page) => http.request<LabTestTypesPage>({
+            method: "GET",
+            path: "/labtests/v2/types",
+            query: page,
+            schema: metrcPageSchema(LabTestTypeSchema),
+          }),
+        opts
+      );
+    },
+
     /**
      * GET /labtests/v2/results
      * Retrieves Lab Test results for a specified Package. Requires packageId + licenseNumber. :contentReference[oaicite:12]{index=12}
      */
     getResults(query: LabTestsResultsQuery) {
-      return http.request<unknown>({
+      return http.request<LabTestResultsPage>({
         method: "GET",
         path: "/labtests/v2/results",
         query,
+        schema: metrcPageSchema(LabTestResultSchema),
       });
     },
 
+    /**
+     * Iterates every Lab Test result for a package across all pages (pageSize <= 20).
+     */
+    iterateResults(query: Omit<LabTestsResultsQuery, keyof Paging>, opts?: PaginateOptions) {
+      return paginate<LabTestResult>(
+        (page) =>
+          http.request<LabTestResultsPage>({
+            method: "GET",
+            path: "/labtests/v2/results",
+            query: { ...query, ...page },
+            schema: metrcPageSchema(LabTestResultSchema),
+          }),
+        opts
+      );
+    },
+
     /**
      * POST /labtests/v2/record
      * Submits Lab Test results for one or more packages.
      * Docs note: PDF only, max 5MB; "Label" is a Package Label. :contentReference[oaicite:13]{index=13}
+     * Documents are checked locally first (LabTestDocumentError); see buildLabTestRecordEntry.
+     * With MetrcHttpOptions.idempotency, the packages' existing results are listed first, and an uncertain
+     * attempt is confirmed via getResults (new results only) before resubmitting.
      */
-    record(licenseNumber: MetrcLicenseNumber, body: LabTestRecordEntry[]) {
-      return http.request<void>({
-        method: "POST",
-        path: "/labtests/v2/record",
-        query: { licenseNumber },
+    async record(licenseNumber: MetrcLicenseNumber, body: LabTestRecordEntry[], opts?: MetrcIdempotentCallOptions) {
+      validateLabTestDocumentEntries(body);
+      const license = licenseNumber ?? http.defaultLicenseNumber;
+      return withIdempotency<void, LabTestResultSnapshot>(http.idempotency, {
+        operation: "labTests.record",
+        licenseNumber: license,
         body,
+        opts,
+        submit: () =>
+          http.request<void>({
+            method: "POST",
+            path: "/labtests/v2/record",
+            query: { licenseNumber },
+            body,
+          }),
+        snapshot: () => snapshotLabTestResults(http, license, body),
+        confirm: (_since, snapshot) => confirmLabTestsRecorded(http, license, body, snapshot),
       });
     },
 
     /**
      * PUT /labtests/v2/labtestdocument
      * Updates one or more documents for previously submitted lab tests. Requires licenseNumber. :contentReference[oaicite:14]{index=14}
+     * Documents are checked locally first (LabTestDocumentError); see buildLabTestDocumentUpdateEntry.
      */
-    updateLabTestDocument(licenseNumber: MetrcLicenseNumber, body: LabTestDocumentUpdateEntry[]) {
+    async updateLabTestDocument(licenseNumber: MetrcLicenseNumber, body: LabTestDocumentUpdateEntry[]) {
+      validateLabTestDocumentEntries(body);
       return http.request<void>({
         method: "PUT",
         path: "/labtests/v2/labtestdocument",
@@ -156,14 +438,20 @@ export function createLabTestsV2(http: MetrcHttp) {
      * Retrieves a specific Lab Test result document by its Id for a given facility; requires licenseNumber. :contentReference[oaicite:16]{index=16}
      *
      * Docs show "No response" (i.e., likely a file download / binary). :contentReference[oaicite:17]{index=17}
-     * So we return `unknown` and let your MetrcHttp decide how to surface bytes (Buffer/ArrayBuffer/etc).
+     * Read as bytes so PDFs are not corrupted by text decoding.
      */
-    getLabTestDocumentById(licenseNumber: MetrcLicenseNumber, id: number) {
-      return http.request<unknown>({
+    async getLabTestDocumentById(licenseNumber: MetrcLicenseNumber, id: number): Promise<LabTestDocument> {
+      const res = await http.request<MetrcBinaryResponse>({
         method: "GET",
         path: `/labtests/v2/labtestdocument/${encodeURIComponent(String(id))}`,
         query: { licenseNumber },
+        responseType: "arrayBuffer",
       });
+      return {
+        fileName: res.fileName ?? `labtestdocument-${id}.pdf`,
+        contentType: res.contentType || "application/pdf",
+        data: res.data,
+      };
     },
   } as const;
 }
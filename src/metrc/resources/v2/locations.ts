@@ -0,0 +1,118 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/locations.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Location, LocationCreateRequest, LocationPage, LocationTypePage, LocationUpdateRequest } from "./types";
+import { IdsResponseSchema, LocationPageSchema, LocationSchema, LocationTypePageSchema } from "./types";
+
+export const locationsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getTypes: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createLocationsV2>>;
+
+export function createLocationsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /locations/v2/{id}
+     * A location by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Location>({
+        method: "GET",
+        path: `/locations/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: LocationSchema,
+      });
+    },
+
+    /**
+     * DELETE /locations/v2/{id}
+     * Archives a location.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/locations/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /locations/v2/active
+     * Active locations, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<LocationPage>({
+        method: "GET",
+        path: "/locations/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: LocationPageSchema,
+      });
+    },
+
+    /**
+     * GET /locations/v2/inactive
+     * Inactive locations, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<LocationPage>({
+        method: "GET",
+        path: "/locations/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: LocationPageSchema,
+      });
+    },
+
+    /**
+     * GET /locations/v2/types
+     * Location types.
+     */
+    getTypes(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<LocationTypePage>({
+        method: "GET",
+        path: "/locations/v2/types",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: LocationTypePageSchema,
+      });
+    },
+
+    /**
+     * POST /locations/v2/
+     * Creates locations.
+     */
+    create(licenseNumber: string, body: Array<LocationCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/locations/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /locations/v2/
+     * Updates locations.
+     */
+    update(licenseNumber: string, body: Array<LocationUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/locations/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,324 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/packages.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Package, PackageAdjustRequest, PackageAdjustmentReasonPage, PackageCreateRequest, PackageFinishRequest, PackageItemChange, PackageLocationChange, PackageNoteChange, PackagePage, PackagePlantingsRequest, PackageRemediateRequest, PackageSourceHarvestPage, PackageUnfinishRequest } from "./types";
+import { IdsResponseSchema, PackageAdjustmentReasonPageSchema, PackagePageSchema, PackageSchema, PackageSourceHarvestPageSchema } from "./types";
+
+export const packagesV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getByLabel: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getOnhold: { params: 0 },
+  getIntransit: { params: 0 },
+  getLabsamples: { params: 0 },
+  getByIdSourceHarvests: { params: 1 },
+  getAdjustReasons: { params: 0 },
+  create: { arg: 0 },
+  testing: { arg: 0 },
+  plantings: { arg: 0 },
+  adjust: { arg: 0 },
+  location: { arg: 0 },
+  item: { arg: 0 },
+  note: { arg: 0 },
+  finish: { arg: 0 },
+  unfinish: { arg: 0 },
+  remediate: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPackagesV2>>;
+
+export function createPackagesV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /packages/v2/{id}
+     * A package by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Package>({
+        method: "GET",
+        path: `/packages/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PackageSchema,
+      });
+    },
+
+    /**
+     * DELETE /packages/v2/{id}
+     * Discontinues a package.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/packages/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/{label}
+     * A package by label.
+     */
+    getByLabel(label: string, params?: { licenseNumber?: string }) {
+      return http.request<Package>({
+        method: "GET",
+        path: `/packages/v2/${encodeURIComponent(String(label))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PackageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/active
+     * Active packages, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackagePage>({
+        method: "GET",
+        path: "/packages/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/inactive
+     * Inactive packages, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackagePage>({
+        method: "GET",
+        path: "/packages/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/onhold
+     * Packages on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackagePage>({
+        method: "GET",
+        path: "/packages/v2/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/intransit
+     * Packages in transit, filtered by last modified date.
+     */
+    getIntransit(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackagePage>({
+        method: "GET",
+        path: "/packages/v2/intransit",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/labsamples
+     * Lab sample packages, filtered by last modified date.
+     */
+    getLabsamples(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackagePage>({
+        method: "GET",
+        path: "/packages/v2/labsamples",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/{id}/source/harvests
+     * Source harvests of a package.
+     */
+    getByIdSourceHarvests(id: number, params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackageSourceHarvestPage>({
+        method: "GET",
+        path: `/packages/v2/${encodeURIComponent(String(id))}/source/harvests`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackageSourceHarvestPageSchema,
+      });
+    },
+
+    /**
+     * GET /packages/v2/types
+     * Package types.
+     */
+    getTypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/packages/v2/types",
+      });
+    },
+
+    /**
+     * GET /packages/v2/adjust/reasons
+     * Package adjustment reasons.
+     */
+    getAdjustReasons(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PackageAdjustmentReasonPage>({
+        method: "GET",
+        path: "/packages/v2/adjust/reasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PackageAdjustmentReasonPageSchema,
+      });
+    },
+
+    /**
+     * POST /packages/v2/
+     * Creates packages from other packages.
+     */
+    create(licenseNumber: string, body: Array<PackageCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/packages/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /packages/v2/testing
+     * Creates testing packages from other packages.
+     */
+    testing(licenseNumber: string, body: Array<PackageCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/packages/v2/testing",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /packages/v2/plantings
+     * Creates plantings from packages.
+     */
+    plantings(licenseNumber: string, body: Array<PackagePlantingsRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/packages/v2/plantings",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /packages/v2/adjust
+     * Adjusts package quantities.
+     */
+    adjust(licenseNumber: string, body: Array<PackageAdjustRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/packages/v2/adjust",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/location
+     * Moves packages to another location.
+     */
+    location(licenseNumber: string, body: Array<PackageLocationChange>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/location",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/item
+     * Changes the item of packages.
+     */
+    item(licenseNumber: string, body: Array<PackageItemChange>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/item",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/note
+     * Changes the note of packages.
+     */
+    note(licenseNumber: string, body: Array<PackageNoteChange>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/note",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/finish
+     * Finishes packages.
+     */
+    finish(licenseNumber: string, body: Array<PackageFinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/finish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/unfinish
+     * Reopens finished packages.
+     */
+    unfinish(licenseNumber: string, body: Array<PackageUnfinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/unfinish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /packages/v2/remediate
+     * Records package remediation.
+     */
+    remediate(licenseNumber: string, body: Array<PackageRemediateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/packages/v2/remediate",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,86 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/patientCheckIns.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { IdsResponse, Patient, PatientCheckIn, PatientCheckInLocation, PatientCheckInRequest, PatientCheckInUpdateRequest } from "./types";
+import { IdsResponseSchema, PatientCheckInLocationSchema, PatientCheckInSchema } from "./types";
+
+export const patientCheckInsV2LicenseSlots = {
+  get: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+  deleteById: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPatientCheckInsV2>>;
+
+export function createPatientCheckInsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /patientcheckins/v2/
+     * Patient check-ins within a date range.
+     */
+    get(params: { licenseNumber: string; checkinDateStart?: string; checkinDateEnd?: string }) {
+      return http.request<Array<PatientCheckIn>>({
+        method: "GET",
+        path: "/patientcheckins/v2/",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PatientCheckInSchema),
+      });
+    },
+
+    /**
+     * POST /patientcheckins/v2/
+     * Records patient check-ins.
+     */
+    create(licenseNumber: string, body: Array<PatientCheckInRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/patientcheckins/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /patientcheckins/v2/
+     * Updates patient check-ins.
+     */
+    update(licenseNumber: string, body: Array<PatientCheckInUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/patientcheckins/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /patientcheckins/v2/locations
+     * Patient check-in locations.
+     */
+    getLocations() {
+      return http.request<Array<PatientCheckInLocation>>({
+        method: "GET",
+        path: "/patientcheckins/v2/locations",
+        schema: schema.array(PatientCheckInLocationSchema),
+      });
+    },
+
+    /**
+     * DELETE /patientcheckins/v2/{id}
+     * Archives a patient check-in.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/patientcheckins/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,104 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/patients.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { IdsResponse, Patient, PatientCreateRequest, PatientPage, PatientStatus, PatientUpdateRequest } from "./types";
+import { IdsResponseSchema, PatientPageSchema, PatientSchema, PatientStatusSchema } from "./types";
+
+export const patientsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getStatusesByPatientLicenseNumber: { params: 1 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPatientsV2>>;
+
+export function createPatientsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /patients/v2/{id}
+     * A patient by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Patient>({
+        method: "GET",
+        path: `/patients/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PatientSchema,
+      });
+    },
+
+    /**
+     * DELETE /patients/v2/{id}
+     * Removes a patient.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/patients/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /patients/v2/active
+     * Active patients of the facility.
+     */
+    getActive(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PatientPage>({
+        method: "GET",
+        path: "/patients/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PatientPageSchema,
+      });
+    },
+
+    /**
+     * GET /patients/v2/statuses/{patientLicenseNumber}
+     * Statuses of a patient license.
+     */
+    getStatusesByPatientLicenseNumber(patientLicenseNumber: string, params: { licenseNumber: string }) {
+      return http.request<Array<PatientStatus>>({
+        method: "GET",
+        path: `/patients/v2/statuses/${encodeURIComponent(String(patientLicenseNumber))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(PatientStatusSchema),
+      });
+    },
+
+    /**
+     * POST /patients/v2/
+     * Adds patients.
+     */
+    create(licenseNumber: string, body: Array<PatientCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/patients/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /patients/v2/
+     * Updates patients.
+     */
+    update(licenseNumber: string, body: Array<PatientUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/patients/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
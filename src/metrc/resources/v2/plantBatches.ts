@@ -0,0 +1,190 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/plantBatches.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Plant, PlantBatch, PlantBatchAdditiveRequest, PlantBatchDestroyRequest, PlantBatchGrowthPhaseRequest, PlantBatchMoveRequest, PlantBatchPackageRequest, PlantBatchPage, PlantBatchPlantingsRequest, PlantBatchSplitRequest, WasteReasonPage } from "./types";
+import { IdsResponseSchema, PlantBatchPageSchema, PlantBatchSchema, WasteReasonPageSchema } from "./types";
+
+export const plantBatchesV2LicenseSlots = {
+  getById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getWasteReasons: { params: 0 },
+  plantings: { arg: 0 },
+  packages: { arg: 0 },
+  split: { arg: 0 },
+  additives: { arg: 0 },
+  location: { arg: 0 },
+  growthphase: { arg: 0 },
+  archive: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPlantBatchesV2>>;
+
+export function createPlantBatchesV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /plantbatches/v2/{id}
+     * A plant batch by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<PlantBatch>({
+        method: "GET",
+        path: `/plantbatches/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantBatchSchema,
+      });
+    },
+
+    /**
+     * GET /plantbatches/v2/active
+     * Active plant batches, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantBatchPage>({
+        method: "GET",
+        path: "/plantbatches/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantBatchPageSchema,
+      });
+    },
+
+    /**
+     * GET /plantbatches/v2/inactive
+     * Inactive plant batches, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantBatchPage>({
+        method: "GET",
+        path: "/plantbatches/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantBatchPageSchema,
+      });
+    },
+
+    /**
+     * GET /plantbatches/v2/types
+     * Plant batch types.
+     */
+    getTypes(params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plantbatches/v2/types",
+        query: params,
+      });
+    },
+
+    /**
+     * GET /plantbatches/v2/waste/reasons
+     * Plant batch waste reasons.
+     */
+    getWasteReasons(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<WasteReasonPage>({
+        method: "GET",
+        path: "/plantbatches/v2/waste/reasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: WasteReasonPageSchema,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v2/plantings
+     * Creates plant batches.
+     */
+    plantings(licenseNumber: string, body: Array<PlantBatchPlantingsRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plantbatches/v2/plantings",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v2/packages
+     * Creates packages from plant batches.
+     */
+    packages(licenseNumber: string, body: Array<PlantBatchPackageRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plantbatches/v2/packages",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v2/split
+     * Splits plant batches.
+     */
+    split(licenseNumber: string, body: Array<PlantBatchSplitRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plantbatches/v2/split",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v2/additives
+     * Records additives applied to plant batches.
+     */
+    additives(licenseNumber: string, body: Array<PlantBatchAdditiveRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plantbatches/v2/additives",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /plantbatches/v2/location
+     * Moves plant batches to another location.
+     */
+    location(licenseNumber: string, body: Array<PlantBatchMoveRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/plantbatches/v2/location",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plantbatches/v2/growthphase
+     * Moves plants of a batch to a new growth phase.
+     */
+    growthphase(licenseNumber: string, body: Array<PlantBatchGrowthPhaseRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plantbatches/v2/growthphase",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /plantbatches/v2/
+     * Destroys plants of plant batches.
+     */
+    archive(licenseNumber: string, body: Array<PlantBatchDestroyRequest>) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: "/plantbatches/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,336 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/plants.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Plant, PlantAdditiveByLocationRequest, PlantAdditivePage, PlantAdditiveRequest, PlantBatchPackageFromPlantRequest, PlantDestroyRequest, PlantGrowthPhaseRequest, PlantHarvestRequest, PlantMoveRequest, PlantPage, PlantPlantingsRequest, PlantWastePage, PlantWasteRequest, WasteMethodPage, WasteReasonPage } from "./types";
+import { IdsResponseSchema, PlantAdditivePageSchema, PlantPageSchema, PlantSchema, PlantWastePageSchema, WasteMethodPageSchema, WasteReasonPageSchema } from "./types";
+
+export const plantsV2LicenseSlots = {
+  getById: { params: 1 },
+  getByLabel: { params: 1 },
+  getVegetative: { params: 0 },
+  getFlowering: { params: 0 },
+  getOnhold: { params: 0 },
+  getInactive: { params: 0 },
+  getAdditives: { params: 0 },
+  additives: { arg: 0 },
+  getGrowthphases: { params: 0 },
+  getWaste: { params: 0 },
+  waste: { arg: 0 },
+  getWasteReasons: { params: 0 },
+  location: { arg: 0 },
+  growthphase: { arg: 0 },
+  harvest: { arg: 0 },
+  manicure: { arg: 0 },
+  additivesBylocation: { arg: 0 },
+  plantings: { arg: 0 },
+  plantbatchPackages: { arg: 0 },
+  archive: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createPlantsV2>>;
+
+export function createPlantsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /plants/v2/{id}
+     * A plant by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Plant>({
+        method: "GET",
+        path: `/plants/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/{label}
+     * A plant by label.
+     */
+    getByLabel(label: string, params?: { licenseNumber?: string }) {
+      return http.request<Plant>({
+        method: "GET",
+        path: `/plants/v2/${encodeURIComponent(String(label))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: PlantSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/vegetative
+     * Vegetative plants, filtered by last modified date.
+     */
+    getVegetative(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantPage>({
+        method: "GET",
+        path: "/plants/v2/vegetative",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantPageSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/flowering
+     * Flowering plants, filtered by last modified date.
+     */
+    getFlowering(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantPage>({
+        method: "GET",
+        path: "/plants/v2/flowering",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantPageSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/onhold
+     * Plants on hold, filtered by last modified date.
+     */
+    getOnhold(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantPage>({
+        method: "GET",
+        path: "/plants/v2/onhold",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantPageSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/inactive
+     * Inactive plants, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantPage>({
+        method: "GET",
+        path: "/plants/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantPageSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/additives
+     * Additives applied to plants, filtered by last modified date.
+     */
+    getAdditives(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantAdditivePage>({
+        method: "GET",
+        path: "/plants/v2/additives",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantAdditivePageSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/additives
+     * Records additives applied to plants.
+     */
+    additives(licenseNumber: string, body: Array<PlantAdditiveRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/additives",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/additives/types
+     * Plant additive types.
+     */
+    getAdditivesTypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plants/v2/additives/types",
+      });
+    },
+
+    /**
+     * GET /plants/v2/growthphases
+     * Plant growth phases.
+     */
+    getGrowthphases(params: { licenseNumber: string }) {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/plants/v2/growthphases",
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /plants/v2/waste
+     * Plant waste records, filtered by last modified date.
+     */
+    getWaste(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<PlantWastePage>({
+        method: "GET",
+        path: "/plants/v2/waste",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: PlantWastePageSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/waste
+     * Records plant waste.
+     */
+    waste(licenseNumber: string, body: Array<PlantWasteRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/waste",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/waste/methods/all
+     * Plant waste methods.
+     */
+    getWasteMethodsAll(params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<WasteMethodPage>({
+        method: "GET",
+        path: "/plants/v2/waste/methods/all",
+        query: params,
+        schema: WasteMethodPageSchema,
+      });
+    },
+
+    /**
+     * GET /plants/v2/waste/reasons
+     * Plant waste reasons.
+     */
+    getWasteReasons(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<WasteReasonPage>({
+        method: "GET",
+        path: "/plants/v2/waste/reasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: WasteReasonPageSchema,
+      });
+    },
+
+    /**
+     * PUT /plants/v2/location
+     * Moves plants to another location.
+     */
+    location(licenseNumber: string, body: Array<PlantMoveRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/plants/v2/location",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /plants/v2/growthphase
+     * Moves plants to a new growth phase.
+     */
+    growthphase(licenseNumber: string, body: Array<PlantGrowthPhaseRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/plants/v2/growthphase",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /plants/v2/harvest
+     * Harvests plants.
+     */
+    harvest(licenseNumber: string, body: Array<PlantHarvestRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/plants/v2/harvest",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/manicure
+     * Records manicure harvests.
+     */
+    manicure(licenseNumber: string, body: Array<PlantHarvestRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/manicure",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/additives/bylocation
+     * Records additives applied to every plant in a location.
+     */
+    additivesBylocation(licenseNumber: string, body: Array<PlantAdditiveByLocationRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/additives/bylocation",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/plantings
+     * Creates plant batches from plants.
+     */
+    plantings(licenseNumber: string, body: Array<PlantPlantingsRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/plantings",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /plants/v2/plantbatch/packages
+     * Creates plant batch packages from plants.
+     */
+    plantbatchPackages(licenseNumber: string, body: Array<PlantBatchPackageFromPlantRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/plants/v2/plantbatch/packages",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /plants/v2/
+     * Destroys plants.
+     */
+    archive(licenseNumber: string, body: Array<PlantDestroyRequest>) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: "/plants/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,253 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/processingJobs.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, ProcessingJob, ProcessingJobAdjustRequest, ProcessingJobAttributePage, ProcessingJobCategoryPage, ProcessingJobCreatePackageRequest, ProcessingJobFinishRequest, ProcessingJobPage, ProcessingJobStartRequest, ProcessingJobTypePage, ProcessingJobTypeRequest, ProcessingJobTypeUpdateRequest, ProcessingJobUnfinishRequest } from "./types";
+import { IdsResponseSchema, ProcessingJobAttributePageSchema, ProcessingJobCategoryPageSchema, ProcessingJobPageSchema, ProcessingJobSchema, ProcessingJobTypePageSchema } from "./types";
+
+export const processingJobsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  getJobtypesActive: { params: 0 },
+  getJobtypesInactive: { params: 0 },
+  getJobtypesCategories: { params: 0 },
+  getJobtypesAttributes: { params: 0 },
+  start: { arg: 0 },
+  createpackages: { arg: 0 },
+  adjust: { arg: 0 },
+  finish: { arg: 0 },
+  unfinish: { arg: 0 },
+  jobtypes: { arg: 0 },
+  updateJobtypes: { arg: 0 },
+  deleteJobtypesById: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createProcessingJobsV2>>;
+
+export function createProcessingJobsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /processing/v2/{id}
+     * A processing job by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<ProcessingJob>({
+        method: "GET",
+        path: `/processing/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: ProcessingJobSchema,
+      });
+    },
+
+    /**
+     * DELETE /processing/v2/{id}
+     * Archives a processing job.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/processing/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/active
+     * Active processing jobs, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobPage>({
+        method: "GET",
+        path: "/processing/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobPageSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/inactive
+     * Inactive processing jobs, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobPage>({
+        method: "GET",
+        path: "/processing/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobPageSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/jobtypes/active
+     * Active processing job types.
+     */
+    getJobtypesActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobTypePage>({
+        method: "GET",
+        path: "/processing/v2/jobtypes/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobTypePageSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/jobtypes/inactive
+     * Inactive processing job types.
+     */
+    getJobtypesInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobTypePage>({
+        method: "GET",
+        path: "/processing/v2/jobtypes/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobTypePageSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/jobtypes/categories
+     * Processing job categories.
+     */
+    getJobtypesCategories(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobCategoryPage>({
+        method: "GET",
+        path: "/processing/v2/jobtypes/categories",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobCategoryPageSchema,
+      });
+    },
+
+    /**
+     * GET /processing/v2/jobtypes/attributes
+     * Processing job attributes.
+     */
+    getJobtypesAttributes(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<ProcessingJobAttributePage>({
+        method: "GET",
+        path: "/processing/v2/jobtypes/attributes",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: ProcessingJobAttributePageSchema,
+      });
+    },
+
+    /**
+     * POST /processing/v2/start
+     * Starts processing jobs from packages.
+     */
+    start(licenseNumber: string, body: Array<ProcessingJobStartRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/processing/v2/start",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /processing/v2/createpackages
+     * Creates packages from processing jobs.
+     */
+    createpackages(licenseNumber: string, body: Array<ProcessingJobCreatePackageRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/processing/v2/createpackages",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /processing/v2/adjust
+     * Adjusts the packages of processing jobs.
+     */
+    adjust(licenseNumber: string, body: Array<ProcessingJobAdjustRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/processing/v2/adjust",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /processing/v2/finish
+     * Finishes processing jobs.
+     */
+    finish(licenseNumber: string, body: Array<ProcessingJobFinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/processing/v2/finish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /processing/v2/unfinish
+     * Reopens finished processing jobs.
+     */
+    unfinish(licenseNumber: string, body: Array<ProcessingJobUnfinishRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/processing/v2/unfinish",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * POST /processing/v2/jobtypes
+     * Creates processing job types.
+     */
+    jobtypes(licenseNumber: string, body: Array<ProcessingJobTypeRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/processing/v2/jobtypes",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /processing/v2/jobtypes
+     * Updates processing job types.
+     */
+    updateJobtypes(licenseNumber: string, body: Array<ProcessingJobTypeUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/processing/v2/jobtypes",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /processing/v2/jobtypes/{id}
+     * Archives a processing job type.
+     */
+    deleteJobtypesById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/processing/v2/jobtypes/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -1,7 +1,10 @@
 // src/metrc/resources/v2/retailId.ts
 
-import { MetrcHttp } from "../../http";
-import { parseRetailId } from "../../../retailid/retailid-core";
+import { MetrcApiError, MetrcHttp } from "../../http";
+import { ParseOptions, ParsedRetailId, parseRetailId } from "../../../retailid/retailid-core";
+import { MetrcIdempotentCallOptions, MetrcReadBack, withIdempotency } from "../../idempotency";
+import type { LicenseSlots } from "../../licenseScope";
+import { MetrcSchema, schema } from "../../schema";
 
 export interface RetailIdGenerateRequest {
   PackageLabel: string;
@@ -10,6 +13,10 @@ export interface RetailIdGenerateRequest {
 export interface RetailIdGenerateResponse {
   IssuanceId: string;
 }
+export const RetailIdGenerateResponseSchema: MetrcSchema<RetailIdGenerateResponse> = schema.object(
+  "RetailIdGenerateResponse",
+  { IssuanceId: schema.string() }
+);
 
 export interface RetailIdAssociateItem {
   PackageLabel: string;
@@ -19,6 +26,10 @@ export interface RetailIdAssociateResponse {
   Ids: number[];
   Warnings: unknown | null;
 }
+export const RetailIdAssociateResponseSchema: MetrcSchema<RetailIdAssociateResponse> = schema.object(
+  "RetailIdAssociateResponse",
+  { Ids: schema.array(schema.number()), Warnings: schema.unknown() }
+);
 
 export interface RetailIdPackagesInfoRequest {
   packageLabels: string[];
@@ -26,6 +37,10 @@ export interface RetailIdPackagesInfoRequest {
 export interface RetailIdPackagesInfoResponse {
   Packages: unknown[];
 }
+export const RetailIdPackagesInfoResponseSchema: MetrcSchema<RetailIdPackagesInfoResponse> = schema.object(
+  "RetailIdPackagesInfoResponse",
+  { Packages: schema.array(schema.unknown()) }
+);
 
 export interface RetailIdReceiveResponse {
   Eaches: string[];
@@ -36,9 +51,104 @@ export interface RetailIdReceiveResponse {
   ChildTag: string | null;
   LabelSource: string;
 }
+export const RetailIdReceiveResponseSchema: MetrcSchema<RetailIdReceiveResponse> = schema.object("RetailIdReceiveResponse", {
+  Eaches: schema.array(schema.string()),
+  SiblingTags: schema.array(schema.string()),
+  RequiresVerification: schema.boolean(),
+  Ranges: schema.array(schema.tuple<[number, number]>(schema.number(), schema.number())),
+  QrCount: schema.number(),
+  ChildTag: schema.nullable(schema.string()),
+  LabelSource: schema.string(),
+});
+
+/**
+ * True when a receive view lists index `index` of batch `batchHex`: in its Ranges (which describe
+ * the batch of the looked-up code) or among its Eaches.
+ */
+export function receiveViewCovers(
+  view: RetailIdReceiveResponse,
+  batchHex: string,
+  index: number,
+  parse?: ParseOptions
+): boolean {
+  if ((view.Ranges ?? []).some(([a, b]) => index >= a && index <= b)) return true;
+  return (view.Eaches ?? []).some((url) => {
+    try {
+      const p = parseRetailId(url, parse);
+      return p.batchId.toHexString() === batchHex && p.index === index;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * The URLs among `urls` that Metrc reports as associated. A Retail ID can only be associated
+ * once, so one receive lookup per batch (by the batch's first URL) answers for the whole batch:
+ * a URL counts when that view covers it. A 404 for the looked-up code counts as none of its batch.
+ */
+export async function findAssociatedRetailIds(
+  retailId: Pick<ReturnType<typeof createRetailIdV2>, "receiveByShortCode">,
+  licenseNumber: string,
+  urls: string[]
+): Promise<string[]> {
+  const byBatch = new Map<string, Array<{ url: string; parsed: ParsedRetailId }>>();
+  for (const url of urls) {
+    const parsed = parseRetailId(url);
+    const batch = parsed.batchId.toHexString();
+    const group = byBatch.get(batch) ?? [];
+    group.push({ url, parsed });
+    byBatch.set(batch, group);
+  }
+
+  const found: string[] = [];
+  for (const [batch, group] of byBatch) {
+    let view: RetailIdReceiveResponse;
+    try {
+      view = await retailId.receiveByShortCode(group[0].parsed.shortCode, licenseNumber);
+    } catch (err) {
+      if (err instanceof MetrcApiError && err.status === 404) continue;
+      throw err;
+    }
+    for (const { url, parsed } of group) if (receiveViewCovers(view, batch, parsed.index)) found.push(url);
+  }
+  return found;
+}
+
+/**
+ * Read-back for an uncertain associate(): every submitted URL must be associated (see
+ * findAssociatedRetailIds). Metrc applies associate atomically, so a partial match is an error.
+ */
+async function confirmAssociated(
+  retailId: Pick<ReturnType<typeof createRetailIdV2>, "receiveByShortCode">,
+  licenseNumber: string,
+  items: RetailIdAssociateItem[]
+): Promise<MetrcReadBack<RetailIdAssociateResponse>> {
+  let covered = 0;
+  let total = 0;
+  for (const item of items) {
+    total += item.QrUrls.length;
+    covered += (await findAssociatedRetailIds(retailId, licenseNumber, item.QrUrls)).length;
+  }
+
+  if (covered === 0) return { applied: false };
+  // Metrc does not return the association ids on read; callers only get an empty Ids list here
+  if (covered === total) return { applied: true, result: { Ids: [], Warnings: null } };
+  throw new Error(`${covered} of ${total} Retail IDs are associated`);
+}
+
+// Where each method takes its license; used by MetrcClient.forLicense().
+export const retailIdV2LicenseSlots = {
+  generate: { arg: 0 },
+  associate: { arg: 0 },
+  merge: { arg: 0 },
+  packagesInfo: { arg: 0 },
+  receiveByShortCode: { arg: 1 },
+  receiveByQrUrl: { arg: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createRetailIdV2>>;
 
 export function createRetailIdV2(http: MetrcHttp) {
-  return {
+  const retailId = {
     // POST /retailid/v2/generate 
     generate(licenseNumber: string, req: RetailIdGenerateRequest) {
       return http.request<RetailIdGenerateResponse>({
@@ -46,16 +156,28 @@ export function createRetailIdV2(http: MetrcHttp) {
         path: "/retailid/v2/generate",
         licenseNumber,
         body: req,
+        schema: RetailIdGenerateResponseSchema,
       });
     },
 
     // POST /retailid/v2/associate 
-    associate(licenseNumber: string, items: RetailIdAssociateItem[]) {
-      return http.request<RetailIdAssociateResponse>({
-        method: "POST",
-        path: "/retailid/v2/associate",
-        licenseNumber,
+    // With MetrcHttpOptions.idempotency, an uncertain attempt is confirmed via the receive endpoints before resubmitting.
+    associate(licenseNumber: string, items: RetailIdAssociateItem[], opts?: MetrcIdempotentCallOptions) {
+      const license = licenseNumber ?? http.defaultLicenseNumber;
+      return withIdempotency<RetailIdAssociateResponse>(http.idempotency, {
+        operation: "retailId.associate",
+        licenseNumber: license,
         body: items,
+        opts,
+        submit: () =>
+          http.request<RetailIdAssociateResponse>({
+            method: "POST",
+            path: "/retailid/v2/associate",
+            licenseNumber,
+            body: items,
+            schema: RetailIdAssociateResponseSchema,
+          }),
+        confirm: () => confirmAssociated(retailId, license, items),
       });
     },
 
@@ -76,6 +198,7 @@ export function createRetailIdV2(http: MetrcHttp) {
         path: "/retailid/v2/packages/info",
         licenseNumber,
         body: req,
+        schema: RetailIdPackagesInfoResponseSchema,
       });
     },
 
@@ -85,6 +208,7 @@ export function createRetailIdV2(http: MetrcHttp) {
         method: "GET",
         path: `/retailid/v2/receive/${encodeURIComponent(label)}`,
         licenseNumber: opts?.licenseNumber,
+        schema: RetailIdReceiveResponseSchema,
       });
     },
 
@@ -94,6 +218,7 @@ export function createRetailIdV2(http: MetrcHttp) {
         method: "GET",
         path: `/retailid/v2/receive/qr/${encodeURIComponent(shortCode)}`,
         licenseNumber,
+        schema: RetailIdReceiveResponseSchema,
       });
     },
 
@@ -103,4 +228,5 @@ export function createRetailIdV2(http: MetrcHttp) {
       return this.receiveByShortCode(parsed.shortCode, licenseNumber);
     },
   };
+  return retailId;
 }
@@ -0,0 +1,316 @@
+// src/metrc/resources/v2/retailIdReceiving.ts
+// Dock receiving: collect QR scans offline, then one receive call per batch and a reconciliation report.
+
+import { EncodeOptions, ObjectId, ParseOptions, getShortUrl, parseRetailId } from "../../../retailid/retailid-core";
+import { RetailIdRangeSet } from "../../../retailid/retailid-ranges";
+import { MetrcApiError } from "../../http";
+import { RetailIdReceiveResponse, createRetailIdV2, receiveViewCovers } from "./retailId";
+
+type RetailIdResource = Pick<ReturnType<typeof createRetailIdV2>, "receiveByShortCode" | "receiveByLabel">;
+
+export interface RetailIdScan {
+  /** Raw scanner input. */
+  raw: string;
+  batchId: string; // ObjectId hex
+  index: number;
+  shortCode: string;
+  encoding: "base36" | "base64";
+  /** Host of a scanned URL; undefined for a bare short code. */
+  domain?: string;
+  scannedAt: Date;
+}
+
+/** A scan the receive view does not list for this package, but one of its SiblingTags holds. */
+export interface RetailIdSiblingScan {
+  scan: RetailIdScan;
+  packageLabel: string;
+}
+
+export type RetailIdScanOutcome =
+  | { status: "accepted"; scan: RetailIdScan }
+  | { status: "duplicate"; scan: RetailIdScan; firstScan: RetailIdScan }
+  | { status: "invalid"; raw: string; error: string };
+
+export interface RetailIdBatchReconciliation {
+  batchId: string;
+  /** Short code used for the receive call (first scan of the batch). */
+  shortCode: string;
+  response?: RetailIdReceiveResponse;
+  /** Set when the receive call failed; the batch's scans are then neither verified nor unexpected. */
+  error?: string;
+  requiresVerification: boolean;
+  siblingTags: string[];
+  childTag: string | null;
+  /** Scans Metrc expects for this batch. */
+  verified: RetailIdScan[];
+  /** Scans of this batch Metrc does not list in Eaches/Ranges, nor under any of the SiblingTags. */
+  unexpected: RetailIdScan[];
+  /** Scans that belong to one of the SiblingTags (they travel in the same shipment). */
+  siblings: RetailIdSiblingScan[];
+  /** Set when a receive lookup for the sibling attribution failed; the scans stay in `unexpected`. */
+  siblingError?: string;
+  /** Expected but not scanned. URLs use the encoding and domain of the batch's scans. */
+  missing: { ranges: Array<[number, number]>; urls: string[] };
+  /** No missing items, or Metrc does not require item-level verification. */
+  complete: boolean;
+}
+
+export interface RetailIdReceivingReport {
+  batches: RetailIdBatchReconciliation[];
+  verified: RetailIdScan[];
+  unexpected: RetailIdScan[];
+  siblings: RetailIdSiblingScan[];
+  duplicates: RetailIdScan[];
+  invalid: Array<{ raw: string; error: string }>;
+  missingCount: number;
+  complete: boolean;
+}
+
+export interface RetailIdReceivingOptions {
+  parse?: ParseOptions;
+  /** Reuse receive responses between reconcile() calls. Default true. */
+  cacheResponses?: boolean;
+}
+
+/**
+ * const session = new RetailIdReceivingSession(metrc.v2.retailId, "123-ABC");
+ * for (const raw of scannerInput) session.scan(raw);   // offline, no network
+ * const report = await session.reconcile();           // one receive call per batch, more for SiblingTags
+ */
+export class RetailIdReceivingSession {
+  private readonly scans = new Map<string, RetailIdScan>(); // `${batch}:${index}` -> first scan
+  private readonly duplicates: RetailIdScan[] = [];
+  private readonly invalid: Array<{ raw: string; error: string }> = [];
+  private readonly responses = new Map<string, RetailIdReceiveResponse>();
+
+  constructor(
+    private readonly retailId: RetailIdResource,
+    private readonly licenseNumber: string,
+    private readonly opts: RetailIdReceivingOptions = {}
+  ) {}
+
+  /** Parses and records one scan. Never throws for bad input; returns "invalid" instead. */
+  scan(raw: string): RetailIdScanOutcome {
+    let parsed;
+    try {
+      parsed = parseRetailId(raw, this.opts.parse);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.invalid.push({ raw, error });
+      return { status: "invalid", raw, error };
+    }
+
+    const scan: RetailIdScan = {
+      raw,
+      batchId: parsed.batchId.toHexString(),
+      index: parsed.index,
+      shortCode: parsed.shortCode,
+      encoding: parsed.encoding,
+      domain: parsed.domain,
+      scannedAt: new Date(),
+    };
+
+    const key = `${scan.batchId}:${scan.index}`;
+    const first = this.scans.get(key);
+    if (first) {
+      this.duplicates.push(scan);
+      return { status: "duplicate", scan, firstScan: first };
+    }
+
+    this.scans.set(key, scan);
+    return { status: "accepted", scan };
+  }
+
+  scanAll(raws: Iterable<string>): RetailIdScanOutcome[] {
+    return [...raws].map((r) => this.scan(r));
+  }
+
+  /** Unique scans grouped by batch ObjectId hex. */
+  get batches(): Map<string, RetailIdScan[]> {
+    const out = new Map<string, RetailIdScan[]>();
+    for (const s of this.scans.values()) {
+      const list = out.get(s.batchId) ?? [];
+      list.push(s);
+      out.set(s.batchId, list);
+    }
+    return out;
+  }
+
+  get scanCount(): number {
+    return this.scans.size;
+  }
+
+  /**
+   * Calls receiveByShortCode once per batch and reconciles scans against Eaches/Ranges. Scans left
+   * over are looked up on the batches' SiblingTags (see attributeSiblings).
+   */
+  async reconcile(): Promise<RetailIdReceivingReport> {
+    const batches: RetailIdBatchReconciliation[] = [];
+
+    for (const [batchHex, scans] of this.batches) {
+      const shortCode = scans[0].shortCode;
+      let response = this.opts.cacheResponses === false ? undefined : this.responses.get(batchHex);
+      let error: string | undefined;
+
+      if (!response) {
+        try {
+          response = await this.retailId.receiveByShortCode(shortCode, this.licenseNumber);
+          this.responses.set(batchHex, response);
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+        }
+      }
+
+      batches.push(reconcileBatch(batchHex, shortCode, scans, response, error, this.opts.parse));
+    }
+
+    await this.attributeSiblings(batches);
+
+    const verified = batches.flatMap((b) => b.verified);
+    const unexpected = batches.flatMap((b) => b.unexpected);
+    const siblings = batches.flatMap((b) => b.siblings);
+    const missingCount = batches.reduce((n, b) => n + b.missing.urls.length, 0);
+
+    return {
+      batches,
+      verified,
+      unexpected,
+      siblings,
+      duplicates: [...this.duplicates],
+      invalid: [...this.invalid],
+      missingCount,
+      complete: batches.every((b) => b.complete && !b.error) && unexpected.length === 0,
+    };
+  }
+
+  /**
+   * Moves unexpected scans that a sibling package holds to `siblings`. A receive view does not name
+   * its package, so the view of the package holding a scan (by its short code) is compared with the
+   * view of each SiblingTag (by label): equal Eaches, Ranges, QrCount and ChildTag identify the
+   * sibling, and every unexpected scan of the batch that view covers is attributed to it.
+   */
+  private async attributeSiblings(batches: RetailIdBatchReconciliation[]): Promise<void> {
+    const siblingViews = new Map<string, RetailIdReceiveResponse | undefined>();
+    const siblingView = async (label: string) => {
+      if (!siblingViews.has(label)) {
+        siblingViews.set(label, await orNotFound(this.retailId.receiveByLabel(label, { licenseNumber: this.licenseNumber })));
+      }
+      return siblingViews.get(label);
+    };
+
+    for (const b of batches) {
+      if (!b.unexpected.length || !b.siblingTags.length) continue;
+      try {
+        const siblings: RetailIdSiblingScan[] = [];
+        const unexpected: RetailIdScan[] = [];
+        let left = b.unexpected;
+        while (left.length) {
+          const [scan] = left;
+          const holder = await orNotFound(this.retailId.receiveByShortCode(scan.shortCode, this.licenseNumber));
+          let owner: string | undefined;
+          if (holder) {
+            for (const tag of b.siblingTags) {
+              const view = await siblingView(tag);
+              if (view && sameReceiveView(holder, view)) {
+                owner = tag;
+                break;
+              }
+            }
+          }
+          const held = holder && owner ? left.filter((s) => receiveViewCovers(holder, b.batchId, s.index, this.opts.parse)) : [];
+          if (!held.includes(scan)) unexpected.push(scan);
+          for (const s of held) siblings.push({ scan: s, packageLabel: owner! });
+          left = left.filter((s) => s !== scan && !held.includes(s));
+        }
+        b.siblings = siblings;
+        b.unexpected = unexpected;
+      } catch (err) {
+        b.siblingError = err instanceof Error ? err.message : String(err);
+      }
+    }
+  }
+}
+
+/** Resolves a receive lookup to undefined when Metrc has no package for it (404). */
+async function orNotFound(lookup: Promise<RetailIdReceiveResponse>): Promise<RetailIdReceiveResponse | undefined> {
+  try {
+    return await lookup;
+  } catch (err) {
+    if (err instanceof MetrcApiError && err.status === 404) return undefined;
+    throw err;
+  }
+}
+
+function sameReceiveView(a: RetailIdReceiveResponse, b: RetailIdReceiveResponse): boolean {
+  const eaches = (v: RetailIdReceiveResponse) => [...(v.Eaches ?? [])].sort().join("\n");
+  const ranges = (v: RetailIdReceiveResponse) => JSON.stringify(v.Ranges ?? []);
+  return a.QrCount === b.QrCount && (a.ChildTag ?? null) === (b.ChildTag ?? null) && ranges(a) === ranges(b) && eaches(a) === eaches(b);
+}
+
+function reconcileBatch(
+  batchHex: string,
+  shortCode: string,
+  scans: RetailIdScan[],
+  response: RetailIdReceiveResponse | undefined,
+  error: string | undefined,
+  parse: ParseOptions | undefined
+): RetailIdBatchReconciliation {
+  const batchId = new ObjectId(batchHex);
+  const scanned = RetailIdRangeSet.fromIndices(scans.map((s) => s.index), batchId);
+
+  if (!response) {
+    return {
+      batchId: batchHex,
+      shortCode,
+      error,
+      requiresVerification: false,
+      siblingTags: [],
+      childTag: null,
+      verified: [],
+      unexpected: [],
+      siblings: [],
+      missing: { ranges: [], urls: [] },
+      complete: false,
+    };
+  }
+
+  // Expected = Eaches that belong to this batch + Ranges. Keep Eaches' original URLs for the missing list.
+  const eachUrlByIndex = new Map<number, string>();
+  for (const url of response.Eaches ?? []) {
+    try {
+      const p = parseRetailId(url, parse);
+      if (p.batchId.toHexString() === batchHex) eachUrlByIndex.set(p.index, url);
+    } catch {
+      // Eaches from other batches or unparseable entries are not ours to reconcile
+    }
+  }
+  const expected = RetailIdRangeSet.fromIndices(eachUrlByIndex.keys(), batchId).union(
+    RetailIdRangeSet.fromRanges(response.Ranges ?? [], batchId)
+  );
+
+  const verified = scans.filter((s) => expected.contains(s.index));
+  const unexpected = scans.filter((s) => !expected.contains(s.index));
+  const missingSet = expected.difference(scanned);
+  // indices not listed in Eaches (only in Ranges) are encoded locally, the way this batch's labels were printed
+  const encode: EncodeOptions = {
+    state: parse?.state,
+    environment: parse?.environment,
+    domain: scans.find((s) => s.domain)?.domain,
+    base64: scans[0].encoding === "base64",
+  };
+  const urls = [...missingSet].map((i) => eachUrlByIndex.get(i) ?? getShortUrl(batchId, i, encode));
+
+  return {
+    batchId: batchHex,
+    shortCode,
+    response,
+    requiresVerification: response.RequiresVerification,
+    siblingTags: response.SiblingTags ?? [],
+    childTag: response.ChildTag ?? null,
+    verified,
+    unexpected,
+    siblings: [],
+    missing: { ranges: missingSet.toRanges(), urls },
+    complete: missingSet.isEmpty || !response.RequiresVerification,
+  };
+}
@@ -0,0 +1,231 @@
+// src/metrc/resources/v2/retailIdWorkflow.ts
+// End-to-end Retail ID labelling: generate an issuance, build the QR URLs, associate them with the package.
+// Progress is tracked per chunk so a failed run can be resumed without re-associating codes.
+
+import { MetrcHttp } from "../../http";
+import { isOutcomeUnknown } from "../../idempotency";
+import type { LicenseSlots } from "../../licenseScope";
+import { RetailIdBatchEncoder } from "../../../retailid/retailid-batch";
+import { EncodeOptions, ObjectId } from "../../../retailid/retailid-core";
+import { createRetailIdV2, findAssociatedRetailIds } from "./retailId";
+
+export interface RetailIdLabelChunk {
+  /** First and last Retail ID index in this chunk (inclusive). */
+  start: number;
+  end: number;
+  status: "pending" | "associated" | "failed";
+  error?: string;
+  /** The failure (timeout, network, 5xx) may have been applied anyway; resume reads the chunk back first. */
+  outcomeUnknown?: boolean;
+  associateIds?: number[];
+}
+
+/** JSON-serializable; persist it and pass it back as `resume` after a failure. */
+export interface RetailIdLabelingState {
+  licenseNumber: string;
+  packageLabel: string;
+  quantity: number;
+  startIndex: number;
+  issuanceId?: string;
+  /**
+   * generate failed without a definite answer, so Metrc may hold an issuance whose id was never
+   * received. Resume refuses to generate again unless `issuanceId` is filled in or `regenerate` is set.
+   */
+  generateOutcomeUnknown?: boolean;
+  chunks: RetailIdLabelChunk[];
+  complete: boolean;
+}
+
+export interface RetailIdLabelResult extends RetailIdLabelingState {
+  issuanceId: string;
+  /** Batch ObjectId hex (same as issuanceId). */
+  batchId: string;
+  /** One URL per index, in index order. */
+  qrUrls: string[];
+}
+
+export interface RetailIdLabelOptions {
+  /** State from a previous failed run. */
+  resume?: RetailIdLabelingState;
+  /** Resume: generate a new issuance even though the last generate may have created one (that batch is abandoned). */
+  regenerate?: boolean;
+  /** QR URLs per associate call. Default 500. */
+  chunkSize?: number;
+  /** First index to encode. Default 1. */
+  startIndex?: number;
+  /** Passed to getShortUrl (domain, legacy base64). */
+  encode?: EncodeOptions;
+  /** Called after every step with the current state (persist it here). */
+  onProgress?: (state: RetailIdLabelingState) => void | Promise<void>;
+}
+
+export class RetailIdWorkflowError extends Error {
+  constructor(
+    message: string,
+    /** Resume from this state; associated chunks will be skipped. */
+    public readonly state: RetailIdLabelingState,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "RetailIdWorkflowError";
+  }
+}
+
+function copyState(s: RetailIdLabelingState): RetailIdLabelingState {
+  return { ...s, chunks: s.chunks.map((c) => ({ ...c })) };
+}
+
+function buildUrls(batchId: ObjectId, start: number, end: number, encode?: EncodeOptions): string[] {
+  return [...new RetailIdBatchEncoder(batchId, encode).range(start, end)];
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+export const retailIdWorkflowV2LicenseSlots = {
+  labelPackage: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createRetailIdWorkflowV2>>;
+
+export function createRetailIdWorkflowV2(http: MetrcHttp) {
+  const retailId = createRetailIdV2(http);
+
+  return {
+    /**
+     * generate -> QR URLs for every index -> associate (chunked).
+     * Throws RetailIdWorkflowError carrying the state to resume from.
+     */
+    async labelPackage(
+      licenseNumber: string,
+      packageLabel: string,
+      quantity: number,
+      opts?: RetailIdLabelOptions
+    ): Promise<RetailIdLabelResult> {
+      const license = licenseNumber ?? http.defaultLicenseNumber;
+      if (!license) throw new Error("labelPackage: licenseNumber is required");
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new RangeError(`labelPackage: quantity must be a positive integer, got ${quantity}`);
+      }
+
+      const chunkSize = opts?.chunkSize ?? 500;
+      if (!Number.isInteger(chunkSize) || chunkSize < 1) throw new RangeError(`labelPackage: invalid chunkSize ${chunkSize}`);
+
+      let state: RetailIdLabelingState;
+      if (opts?.resume) {
+        const r = opts.resume;
+        if (r.licenseNumber !== license || r.packageLabel !== packageLabel || r.quantity !== quantity) {
+          throw new Error(
+            `labelPackage: resume state is for ${r.licenseNumber}/${r.packageLabel} x${r.quantity}, ` +
+              `not ${license}/${packageLabel} x${quantity}`
+          );
+        }
+        state = copyState(r);
+      } else {
+        state = { licenseNumber: license, packageLabel, quantity, startIndex: opts?.startIndex ?? 1, chunks: [], complete: false };
+      }
+
+      const progress = async () => {
+        await opts?.onProgress?.(copyState(state));
+      };
+
+      // 1) Issuance (skipped on resume once we have one, so we never burn a second batch)
+      if (!state.issuanceId) {
+        if (state.generateOutcomeUnknown && !opts?.regenerate) {
+          throw new RetailIdWorkflowError(
+            `Retail ID generate for ${packageLabel} may have created an issuance that was never returned; ` +
+              "set resume.issuanceId to it, or pass regenerate: true to generate another batch",
+            copyState(state)
+          );
+        }
+        try {
+          const gen = await retailId.generate(license, { PackageLabel: packageLabel, Quantity: quantity });
+          state.issuanceId = gen.IssuanceId;
+          delete state.generateOutcomeUnknown;
+        } catch (err) {
+          if (isOutcomeUnknown(err)) state.generateOutcomeUnknown = true;
+          else delete state.generateOutcomeUnknown;
+          await progress();
+          throw new RetailIdWorkflowError(`Retail ID generate failed for ${packageLabel}: ${errorMessage(err)}`, copyState(state), err);
+        }
+        await progress();
+      }
+
+      let batchId: ObjectId;
+      try {
+        batchId = new ObjectId(state.issuanceId);
+      } catch (err) {
+        throw new RetailIdWorkflowError(`IssuanceId is not a batch ObjectId: ${state.issuanceId}`, copyState(state), err);
+      }
+
+      // 2) QR URLs
+      const first = state.startIndex;
+      const last = first + quantity - 1;
+      const qrUrls = buildUrls(batchId, first, last, opts?.encode);
+
+      if (!state.chunks.length) {
+        for (let start = first; start <= last; start += chunkSize) {
+          state.chunks.push({ start, end: Math.min(start + chunkSize - 1, last), status: "pending" });
+        }
+      }
+
+      // 3) Associate, in order, stopping at the first failure
+      for (const chunk of state.chunks) {
+        if (chunk.status === "associated") continue;
+        const urls = qrUrls.slice(chunk.start - first, chunk.end - first + 1);
+
+        // A chunk whose last attempt may have landed is read back before it is submitted again
+        if (chunk.status === "failed" && chunk.outcomeUnknown) {
+          let covered: number;
+          try {
+            covered = (await findAssociatedRetailIds(retailId, license, urls)).length;
+          } catch (err) {
+            throw new RetailIdWorkflowError(
+              `Retail ID read-back failed for ${packageLabel} indices ${chunk.start}-${chunk.end}: ${errorMessage(err)}`,
+              copyState(state),
+              err
+            );
+          }
+          if (covered === urls.length) {
+            chunk.status = "associated";
+            chunk.associateIds = [];
+            delete chunk.error;
+            delete chunk.outcomeUnknown;
+            await progress();
+            continue;
+          }
+          if (covered > 0) {
+            throw new RetailIdWorkflowError(
+              `Retail ID indices ${chunk.start}-${chunk.end} of ${packageLabel} are partly associated (${covered} of ${urls.length})`,
+              copyState(state)
+            );
+          }
+        }
+
+        try {
+          const res = await retailId.associate(license, [{ PackageLabel: packageLabel, QrUrls: urls }]);
+          chunk.status = "associated";
+          chunk.associateIds = res?.Ids ?? [];
+          delete chunk.error;
+          delete chunk.outcomeUnknown;
+        } catch (err) {
+          chunk.status = "failed";
+          chunk.error = errorMessage(err);
+          if (isOutcomeUnknown(err)) chunk.outcomeUnknown = true;
+          else delete chunk.outcomeUnknown;
+          await progress();
+          throw new RetailIdWorkflowError(
+            `Retail ID associate failed for ${packageLabel} indices ${chunk.start}-${chunk.end}: ${chunk.error}`,
+            copyState(state),
+            err
+          );
+        }
+        await progress();
+      }
+
+      state.complete = true;
+      await progress();
+
+      return { ...copyState(state), issuanceId: state.issuanceId!, batchId: batchId.toHexString(), qrUrls };
+    },
+  } as const;
+}
@@ -0,0 +1,302 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/sales.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { IdsResponse, Patient, PatientRegistrationLocation, SalesDelivery, SalesDeliveryCompleteRequest, SalesDeliveryCreateRequest, SalesDeliveryPage, SalesDeliveryReturnReasonPage, SalesDeliveryUpdateRequest, SalesReceipt, SalesReceiptCreateRequest, SalesReceiptFinalizeRequest, SalesReceiptPage, SalesReceiptUpdateRequest } from "./types";
+import { IdsResponseSchema, PatientRegistrationLocationSchema, SalesDeliveryPageSchema, SalesDeliveryReturnReasonPageSchema, SalesDeliverySchema, SalesReceiptPageSchema, SalesReceiptSchema } from "./types";
+
+export const salesV2LicenseSlots = {
+  getPaymenttypes: { params: 0 },
+  getReceiptsById: { params: 1 },
+  deleteReceiptsById: { params: 1 },
+  getReceiptsActive: { params: 0 },
+  getReceiptsInactive: { params: 0 },
+  receipts: { arg: 0 },
+  updateReceipts: { arg: 0 },
+  receiptsFinalize: { arg: 0 },
+  receiptsUnfinalize: { arg: 0 },
+  getDeliveriesById: { params: 1 },
+  deleteDeliveriesById: { params: 1 },
+  getDeliveriesActive: { params: 0 },
+  getDeliveriesInactive: { params: 0 },
+  getDeliveriesReturnreasons: { params: 0 },
+  deliveries: { arg: 0 },
+  updateDeliveries: { arg: 0 },
+  deliveriesComplete: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createSalesV2>>;
+
+export function createSalesV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /sales/v2/customertypes
+     * Sales customer types.
+     */
+    getCustomertypes() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/sales/v2/customertypes",
+      });
+    },
+
+    /**
+     * GET /sales/v2/patientregistration/locations
+     * Patient registration locations.
+     */
+    getPatientregistrationLocations() {
+      return http.request<Array<PatientRegistrationLocation>>({
+        method: "GET",
+        path: "/sales/v2/patientregistration/locations",
+        schema: schema.array(PatientRegistrationLocationSchema),
+      });
+    },
+
+    /**
+     * GET /sales/v2/paymenttypes
+     * Payment types of the facility.
+     */
+    getPaymenttypes(params: { licenseNumber: string }) {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/sales/v2/paymenttypes",
+        licenseNumber: params.licenseNumber,
+        query: params,
+      });
+    },
+
+    /**
+     * GET /sales/v2/counties
+     * Counties accepted in delivery addresses.
+     */
+    getCounties() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/sales/v2/counties",
+      });
+    },
+
+    /**
+     * GET /sales/v2/receipts/{id}
+     * A sales receipt by Id.
+     */
+    getReceiptsById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<SalesReceipt>({
+        method: "GET",
+        path: `/sales/v2/receipts/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: SalesReceiptSchema,
+      });
+    },
+
+    /**
+     * DELETE /sales/v2/receipts/{id}
+     * Voids a sales receipt.
+     */
+    deleteReceiptsById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/sales/v2/receipts/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/receipts/active
+     * Active sales receipts, filtered by last modified date.
+     */
+    getReceiptsActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SalesReceiptPage>({
+        method: "GET",
+        path: "/sales/v2/receipts/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SalesReceiptPageSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/receipts/inactive
+     * Inactive sales receipts, filtered by last modified date.
+     */
+    getReceiptsInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SalesReceiptPage>({
+        method: "GET",
+        path: "/sales/v2/receipts/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SalesReceiptPageSchema,
+      });
+    },
+
+    /**
+     * POST /sales/v2/receipts
+     * Records sales receipts.
+     */
+    receipts(licenseNumber: string, body: Array<SalesReceiptCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/sales/v2/receipts",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sales/v2/receipts
+     * Updates sales receipts.
+     */
+    updateReceipts(licenseNumber: string, body: Array<SalesReceiptUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sales/v2/receipts",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sales/v2/receipts/finalize
+     * Finalizes sales receipts.
+     */
+    receiptsFinalize(licenseNumber: string, body: Array<SalesReceiptFinalizeRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sales/v2/receipts/finalize",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sales/v2/receipts/unfinalize
+     * Reopens finalized sales receipts.
+     */
+    receiptsUnfinalize(licenseNumber: string, body: Array<SalesReceiptFinalizeRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sales/v2/receipts/unfinalize",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/deliveries/{id}
+     * A sales delivery by Id.
+     */
+    getDeliveriesById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<SalesDelivery>({
+        method: "GET",
+        path: `/sales/v2/deliveries/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: SalesDeliverySchema,
+      });
+    },
+
+    /**
+     * DELETE /sales/v2/deliveries/{id}
+     * Voids a sales delivery.
+     */
+    deleteDeliveriesById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/sales/v2/deliveries/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/deliveries/active
+     * Active sales deliveries, filtered by last modified date.
+     */
+    getDeliveriesActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SalesDeliveryPage>({
+        method: "GET",
+        path: "/sales/v2/deliveries/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SalesDeliveryPageSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/deliveries/inactive
+     * Inactive sales deliveries, filtered by last modified date.
+     */
+    getDeliveriesInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SalesDeliveryPage>({
+        method: "GET",
+        path: "/sales/v2/deliveries/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SalesDeliveryPageSchema,
+      });
+    },
+
+    /**
+     * GET /sales/v2/deliveries/returnreasons
+     * Sales delivery return reasons.
+     */
+    getDeliveriesReturnreasons(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SalesDeliveryReturnReasonPage>({
+        method: "GET",
+        path: "/sales/v2/deliveries/returnreasons",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SalesDeliveryReturnReasonPageSchema,
+      });
+    },
+
+    /**
+     * POST /sales/v2/deliveries
+     * Records sales deliveries.
+     */
+    deliveries(licenseNumber: string, body: Array<SalesDeliveryCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/sales/v2/deliveries",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sales/v2/deliveries
+     * Updates sales deliveries.
+     */
+    updateDeliveries(licenseNumber: string, body: Array<SalesDeliveryUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sales/v2/deliveries",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sales/v2/deliveries/complete
+     * Completes sales deliveries.
+     */
+    deliveriesComplete(licenseNumber: string, body: Array<SalesDeliveryCompleteRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sales/v2/deliveries/complete",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
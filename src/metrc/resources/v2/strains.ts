@@ -0,0 +1,103 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/strains.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Strain, StrainCreateRequest, StrainPage, StrainUpdateRequest } from "./types";
+import { IdsResponseSchema, StrainPageSchema, StrainSchema } from "./types";
+
+export const strainsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createStrainsV2>>;
+
+export function createStrainsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /strains/v2/{id}
+     * A strain by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Strain>({
+        method: "GET",
+        path: `/strains/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: StrainSchema,
+      });
+    },
+
+    /**
+     * DELETE /strains/v2/{id}
+     * Archives a strain.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/strains/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /strains/v2/active
+     * Active strains, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<StrainPage>({
+        method: "GET",
+        path: "/strains/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: StrainPageSchema,
+      });
+    },
+
+    /**
+     * GET /strains/v2/inactive
+     * Inactive strains, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<StrainPage>({
+        method: "GET",
+        path: "/strains/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: StrainPageSchema,
+      });
+    },
+
+    /**
+     * POST /strains/v2/
+     * Creates strains.
+     */
+    create(licenseNumber: string, body: Array<StrainCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/strains/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /strains/v2/
+     * Updates strains.
+     */
+    update(licenseNumber: string, body: Array<StrainUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/strains/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
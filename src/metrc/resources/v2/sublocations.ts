@@ -0,0 +1,103 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/sublocations.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { IdsResponse, Sublocation, SublocationCreateRequest, SublocationPage, SublocationUpdateRequest } from "./types";
+import { IdsResponseSchema, SublocationPageSchema, SublocationSchema } from "./types";
+
+export const sublocationsV2LicenseSlots = {
+  getById: { params: 1 },
+  deleteById: { params: 1 },
+  getActive: { params: 0 },
+  getInactive: { params: 0 },
+  create: { arg: 0 },
+  update: { arg: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createSublocationsV2>>;
+
+export function createSublocationsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /sublocations/v2/{id}
+     * A sublocation by Id.
+     */
+    getById(id: number, params?: { licenseNumber?: string }) {
+      return http.request<Sublocation>({
+        method: "GET",
+        path: `/sublocations/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params?.licenseNumber,
+        query: params,
+        schema: SublocationSchema,
+      });
+    },
+
+    /**
+     * DELETE /sublocations/v2/{id}
+     * Archives a sublocation.
+     */
+    deleteById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/sublocations/v2/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /sublocations/v2/active
+     * Active sublocations, filtered by last modified date.
+     */
+    getActive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SublocationPage>({
+        method: "GET",
+        path: "/sublocations/v2/active",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SublocationPageSchema,
+      });
+    },
+
+    /**
+     * GET /sublocations/v2/inactive
+     * Inactive sublocations, filtered by last modified date.
+     */
+    getInactive(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<SublocationPage>({
+        method: "GET",
+        path: "/sublocations/v2/inactive",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: SublocationPageSchema,
+      });
+    },
+
+    /**
+     * POST /sublocations/v2/
+     * Creates sublocations.
+     */
+    create(licenseNumber: string, body: Array<SublocationCreateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/sublocations/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /sublocations/v2/
+     * Updates sublocations.
+     */
+    update(licenseNumber: string, body: Array<SublocationUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/sublocations/v2/",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,59 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/tags.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { Package, Plant, Tag } from "./types";
+import { TagSchema } from "./types";
+
+export const tagsV2LicenseSlots = {
+  getPackageAvailable: { params: 0 },
+  getPlantAvailable: { params: 0 },
+  getStaged: { params: 0 },
+} as const satisfies LicenseSlots<ReturnType<typeof createTagsV2>>;
+
+export function createTagsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /tags/v2/package/available
+     * Package tags available to the facility.
+     */
+    getPackageAvailable(params: { licenseNumber: string }) {
+      return http.request<Array<Tag>>({
+        method: "GET",
+        path: "/tags/v2/package/available",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TagSchema),
+      });
+    },
+
+    /**
+     * GET /tags/v2/plant/available
+     * Plant tags available to the facility.
+     */
+    getPlantAvailable(params: { licenseNumber: string }) {
+      return http.request<Array<Tag>>({
+        method: "GET",
+        path: "/tags/v2/plant/available",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TagSchema),
+      });
+    },
+
+    /**
+     * GET /tags/v2/staged
+     * Tags staged for the facility.
+     */
+    getStaged(params: { licenseNumber: string }) {
+      return http.request<Array<Tag>>({
+        method: "GET",
+        path: "/tags/v2/staged",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: schema.array(TagSchema),
+      });
+    },
+  } as const;
+}
@@ -0,0 +1,306 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/transfers.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { Driver, IdsResponse, LabTestResultPage, Transfer, TransferDeliveryPage, TransferExternalIncomingRequest, TransferExternalIncomingUpdateRequest, TransferPackagePage, TransferPackageWholesalePage, TransferPage, TransferRequiredLabTestBatchPage, TransferTemplatePage, TransferTemplateRequest, TransferTemplateUpdateRequest, TransferTransporterDetailsPage, TransferTransporterPage, TransferTypePage } from "./types";
+import { IdsResponseSchema, LabTestResultPageSchema, TransferDeliveryPageSchema, TransferPackagePageSchema, TransferPackageWholesalePageSchema, TransferPageSchema, TransferRequiredLabTestBatchPageSchema, TransferTemplatePageSchema, TransferTransporterDetailsPageSchema, TransferTransporterPageSchema, TransferTypePageSchema } from "./types";
+
+export const transfersV2LicenseSlots = {
+  getIncoming: { params: 0 },
+  getOutgoing: { params: 0 },
+  getRejected: { params: 0 },
+  getTypes: { params: 0 },
+  externalIncoming: { arg: 0 },
+  updateExternalIncoming: { arg: 0 },
+  deleteExternalIncomingById: { params: 1 },
+  getTemplatesOutgoing: { params: 0 },
+  templatesOutgoing: { arg: 0 },
+  updateTemplatesOutgoing: { arg: 0 },
+  deleteTemplatesOutgoingById: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createTransfersV2>>;
+
+export function createTransfersV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /transfers/v2/incoming
+     * Incoming transfers, filtered by last modified date.
+     */
+    getIncoming(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPage>({
+        method: "GET",
+        path: "/transfers/v2/incoming",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: TransferPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/outgoing
+     * Outgoing transfers, filtered by last modified date.
+     */
+    getOutgoing(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPage>({
+        method: "GET",
+        path: "/transfers/v2/outgoing",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: TransferPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/rejected
+     * Rejected transfers.
+     */
+    getRejected(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPage>({
+        method: "GET",
+        path: "/transfers/v2/rejected",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: TransferPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/{id}/deliveries
+     * Deliveries of a transfer.
+     */
+    getByIdDeliveries(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferDeliveryPage>({
+        method: "GET",
+        path: `/transfers/v2/${encodeURIComponent(String(id))}/deliveries`,
+        query: params,
+        schema: TransferDeliveryPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/{id}/transporters
+     * Transporters of a transfer delivery.
+     */
+    getDeliveriesByIdTransporters(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferTransporterPage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/${encodeURIComponent(String(id))}/transporters`,
+        query: params,
+        schema: TransferTransporterPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/{id}/transporters/details
+     * Driver and vehicle details of a transfer delivery.
+     */
+    getDeliveriesByIdTransportersDetails(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferTransporterDetailsPage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/${encodeURIComponent(String(id))}/transporters/details`,
+        query: params,
+        schema: TransferTransporterDetailsPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/{id}/packages
+     * Packages of a transfer delivery.
+     */
+    getDeliveriesByIdPackages(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPackagePage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/${encodeURIComponent(String(id))}/packages`,
+        query: params,
+        schema: TransferPackagePageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/{id}/packages/wholesale
+     * Wholesale prices of the packages of a transfer delivery.
+     */
+    getDeliveriesByIdPackagesWholesale(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPackageWholesalePage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/${encodeURIComponent(String(id))}/packages/wholesale`,
+        query: params,
+        schema: TransferPackageWholesalePageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/{id}/requiredlabtestbatches
+     * Lab test batches required for the packages of a transfer delivery.
+     */
+    getDeliveriesByIdRequiredlabtestbatches(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferRequiredLabTestBatchPage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/${encodeURIComponent(String(id))}/requiredlabtestbatches`,
+        query: params,
+        schema: TransferRequiredLabTestBatchPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/package/{id}/labresults
+     * Lab results of a transferred package.
+     */
+    getDeliveriesPackageByIdLabresults(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<LabTestResultPage>({
+        method: "GET",
+        path: `/transfers/v2/deliveries/package/${encodeURIComponent(String(id))}/labresults`,
+        query: params,
+        schema: LabTestResultPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/deliveries/packages/states
+     * Transfer package states.
+     */
+    getDeliveriesPackagesStates() {
+      return http.request<Array<string>>({
+        method: "GET",
+        path: "/transfers/v2/deliveries/packages/states",
+      });
+    },
+
+    /**
+     * GET /transfers/v2/types
+     * Transfer types.
+     */
+    getTypes(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferTypePage>({
+        method: "GET",
+        path: "/transfers/v2/types",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: TransferTypePageSchema,
+      });
+    },
+
+    /**
+     * POST /transfers/v2/external/incoming
+     * Creates external incoming transfers.
+     */
+    externalIncoming(licenseNumber: string, body: Array<TransferExternalIncomingRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/transfers/v2/external/incoming",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /transfers/v2/external/incoming
+     * Updates external incoming transfers.
+     */
+    updateExternalIncoming(licenseNumber: string, body: Array<TransferExternalIncomingUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/transfers/v2/external/incoming",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * DELETE /transfers/v2/external/incoming/{id}
+     * Voids an external incoming transfer.
+     */
+    deleteExternalIncomingById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/transfers/v2/external/incoming/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/templates/outgoing
+     * Outgoing transfer templates, filtered by last modified date.
+     */
+    getTemplatesOutgoing(params: { licenseNumber: string; lastModifiedStart?: string; lastModifiedEnd?: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferTemplatePage>({
+        method: "GET",
+        path: "/transfers/v2/templates/outgoing",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: TransferTemplatePageSchema,
+      });
+    },
+
+    /**
+     * POST /transfers/v2/templates/outgoing
+     * Creates outgoing transfer templates.
+     */
+    templatesOutgoing(licenseNumber: string, body: Array<TransferTemplateRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/transfers/v2/templates/outgoing",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /transfers/v2/templates/outgoing
+     * Updates outgoing transfer templates.
+     */
+    updateTemplatesOutgoing(licenseNumber: string, body: Array<TransferTemplateUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/transfers/v2/templates/outgoing",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/templates/outgoing/{id}/deliveries
+     * Deliveries of a transfer template.
+     */
+    getTemplatesOutgoingByIdDeliveries(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferDeliveryPage>({
+        method: "GET",
+        path: `/transfers/v2/templates/outgoing/${encodeURIComponent(String(id))}/deliveries`,
+        query: params,
+        schema: TransferDeliveryPageSchema,
+      });
+    },
+
+    /**
+     * GET /transfers/v2/templates/outgoing/deliveries/{id}/packages
+     * Packages of a transfer template delivery.
+     */
+    getTemplatesOutgoingDeliveriesByIdPackages(id: number, params?: { pageNumber?: number; pageSize?: number }) {
+      return http.request<TransferPackagePage>({
+        method: "GET",
+        path: `/transfers/v2/templates/outgoing/deliveries/${encodeURIComponent(String(id))}/packages`,
+        query: params,
+        schema: TransferPackagePageSchema,
+      });
+    },
+
+    /**
+     * DELETE /transfers/v2/templates/outgoing/{id}
+     * Archives an outgoing transfer template.
+     */
+    deleteTemplatesOutgoingById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/transfers/v2/templates/outgoing/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
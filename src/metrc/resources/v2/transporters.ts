@@ -0,0 +1,163 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/transporters.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import type { Driver, DriverPage, DriverRequest, DriverUpdateRequest, IdsResponse, Vehicle, VehiclePage, VehicleRequest, VehicleUpdateRequest } from "./types";
+import { DriverPageSchema, DriverSchema, IdsResponseSchema, VehiclePageSchema, VehicleSchema } from "./types";
+
+export const transportersV2LicenseSlots = {
+  getDrivers: { params: 0 },
+  drivers: { arg: 0 },
+  updateDrivers: { arg: 0 },
+  getDriversById: { params: 1 },
+  deleteDriversById: { params: 1 },
+  getVehicles: { params: 0 },
+  vehicles: { arg: 0 },
+  updateVehicles: { arg: 0 },
+  getVehiclesById: { params: 1 },
+  deleteVehiclesById: { params: 1 },
+} as const satisfies LicenseSlots<ReturnType<typeof createTransportersV2>>;
+
+export function createTransportersV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /transporters/v2/drivers
+     * Drivers of the facility.
+     */
+    getDrivers(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<DriverPage>({
+        method: "GET",
+        path: "/transporters/v2/drivers",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: DriverPageSchema,
+      });
+    },
+
+    /**
+     * POST /transporters/v2/drivers
+     * Creates drivers.
+     */
+    drivers(licenseNumber: string, body: Array<DriverRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/transporters/v2/drivers",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /transporters/v2/drivers
+     * Updates drivers.
+     */
+    updateDrivers(licenseNumber: string, body: Array<DriverUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/transporters/v2/drivers",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /transporters/v2/drivers/{id}
+     * A driver by Id.
+     */
+    getDriversById(id: number, params: { licenseNumber: string }) {
+      return http.request<Driver>({
+        method: "GET",
+        path: `/transporters/v2/drivers/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: DriverSchema,
+      });
+    },
+
+    /**
+     * DELETE /transporters/v2/drivers/{id}
+     * Archives a driver.
+     */
+    deleteDriversById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/transporters/v2/drivers/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /transporters/v2/vehicles
+     * Vehicles of the facility.
+     */
+    getVehicles(params: { licenseNumber: string; pageNumber?: number; pageSize?: number }) {
+      return http.request<VehiclePage>({
+        method: "GET",
+        path: "/transporters/v2/vehicles",
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: VehiclePageSchema,
+      });
+    },
+
+    /**
+     * POST /transporters/v2/vehicles
+     * Creates vehicles.
+     */
+    vehicles(licenseNumber: string, body: Array<VehicleRequest>) {
+      return http.request<IdsResponse>({
+        method: "POST",
+        path: "/transporters/v2/vehicles",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * PUT /transporters/v2/vehicles
+     * Updates vehicles.
+     */
+    updateVehicles(licenseNumber: string, body: Array<VehicleUpdateRequest>) {
+      return http.request<IdsResponse>({
+        method: "PUT",
+        path: "/transporters/v2/vehicles",
+        licenseNumber,
+        body,
+        schema: IdsResponseSchema,
+      });
+    },
+
+    /**
+     * GET /transporters/v2/vehicles/{id}
+     * A vehicle by Id.
+     */
+    getVehiclesById(id: number, params: { licenseNumber: string }) {
+      return http.request<Vehicle>({
+        method: "GET",
+        path: `/transporters/v2/vehicles/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: VehicleSchema,
+      });
+    },
+
+    /**
+     * DELETE /transporters/v2/vehicles/{id}
+     * Archives a vehicle.
+     */
+    deleteVehiclesById(id: number, params: { licenseNumber: string }) {
+      return http.request<IdsResponse>({
+        method: "DELETE",
+        path: `/transporters/v2/vehicles/${encodeURIComponent(String(id))}`,
+        licenseNumber: params.licenseNumber,
+        query: params,
+        schema: IdsResponseSchema,
+      });
+    },
+  } as const;
+}
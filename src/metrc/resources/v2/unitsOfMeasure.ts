@@ -0,0 +1,38 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/unitsOfMeasure.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { UnitOfMeasure } from "./types";
+import { UnitOfMeasureSchema } from "./types";
+
+export const unitsOfMeasureV2LicenseSlots = {
+} as const satisfies LicenseSlots<ReturnType<typeof createUnitsOfMeasureV2>>;
+
+export function createUnitsOfMeasureV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /unitsofmeasure/v2/active
+     * Active units of measure.
+     */
+    getActive() {
+      return http.request<Array<UnitOfMeasure>>({
+        method: "GET",
+        path: "/unitsofmeasure/v2/active",
+        schema: schema.array(UnitOfMeasureSchema),
+      });
+    },
+
+    /**
+     * GET /unitsofmeasure/v2/inactive
+     * Inactive units of measure.
+     */
+    getInactive() {
+      return http.request<Array<UnitOfMeasure>>({
+        method: "GET",
+        path: "/unitsofmeasure/v2/inactive",
+        schema: schema.array(UnitOfMeasureSchema),
+      });
+    },
+  } as const;
+}
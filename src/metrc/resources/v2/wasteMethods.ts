@@ -0,0 +1,26 @@
+// AUTO-GENERATED. Do not edit.
+// src/metrc/resources/v2/wasteMethods.ts
+import { MetrcHttp } from "../../http";
+import type { LicenseSlots } from "../../licenseScope";
+import { schema } from "../../schema";
+import type { WasteMethod } from "./types";
+import { WasteMethodSchema } from "./types";
+
+export const wasteMethodsV2LicenseSlots = {
+} as const satisfies LicenseSlots<ReturnType<typeof createWasteMethodsV2>>;
+
+export function createWasteMethodsV2(http: MetrcHttp) {
+  return {
+    /**
+     * GET /wastemethods/v2/
+     * Waste methods.
+     */
+    get() {
+      return http.request<Array<WasteMethod>>({
+        method: "GET",
+        path: "/wastemethods/v2/",
+        schema: schema.array(WasteMethodSchema),
+      });
+    },
+  } as const;
+}
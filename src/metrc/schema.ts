@@ -0,0 +1,207 @@
+// src/metrc/schema.ts
+// Minimal runtime schemas for Metrc responses (no dependencies).
+// Resources ship one next to each response interface; MetrcHttp checks them when
+// `validation.mode` is "strict" or "warn" to catch per-state schema drift at the boundary.
+
+export type MetrcValidationMode = "strict" | "warn" | "off";
+
+export interface MetrcSchemaIssue {
+  /** e.g. "$.Data[3].TestResultLevel" */
+  path: string;
+  /** missing: required field absent; type: wrong type (incl. unexpected null); unexpected: field not in the schema */
+  kind: "missing" | "type" | "unexpected";
+  expected?: string;
+  received?: string;
+}
+
+export interface MetrcSchema<T> {
+  readonly description: string;
+  check(value: unknown, path: string, issues: MetrcSchemaIssue[]): void;
+  /** Phantom field tying the schema to its TypeScript type. */
+  readonly __type?: T;
+}
+
+export interface MetrcDriftReport {
+  method: string;
+  path: string;
+  url: string;
+  issues: MetrcSchemaIssue[];
+}
+
+export interface MetrcValidationOptions {
+  mode: MetrcValidationMode;
+  /** Called in "warn" mode (and before throwing in "strict"). Default: console.warn. */
+  onDrift?: (report: MetrcDriftReport) => void;
+}
+
+/** Thrown in "strict" mode when a response has missing or mistyped fields. */
+export class MetrcSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly issues: MetrcSchemaIssue[]
+  ) {
+    super(message);
+    this.name = "MetrcSchemaError";
+  }
+}
+
+function describe(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function primitive<T>(name: "string" | "number" | "boolean"): MetrcSchema<T> {
+  return {
+    description: name,
+    check(value, path, issues) {
+      if (typeof value !== name || (name === "number" && !Number.isFinite(value))) {
+        issues.push({ path, kind: "type", expected: name, received: describe(value) });
+      }
+    },
+  };
+}
+
+type Shape = Record<string, MetrcSchema<unknown> & { optional?: boolean }>;
+
+export const schema = {
+  string: () => primitive<string>("string"),
+  number: () => primitive<number>("number"),
+  boolean: () => primitive<boolean>("boolean"),
+
+  unknown: (): MetrcSchema<unknown> => ({ description: "unknown", check() {} }),
+
+  literal<T extends string | number | boolean>(expected: T): MetrcSchema<T> {
+    return {
+      description: JSON.stringify(expected),
+      check(value, path, issues) {
+        if (value !== expected) issues.push({ path, kind: "type", expected: JSON.stringify(expected), received: describe(value) });
+      },
+    };
+  },
+
+  nullable<T>(inner: MetrcSchema<T>): MetrcSchema<T | null> {
+    return {
+      description: `${inner.description} | null`,
+      check(value, path, issues) {
+        if (value !== null) inner.check(value, path, issues);
+      },
+    };
+  },
+
+  /** Field may be absent from the object; only valid as an object() field. */
+  optional<T>(inner: MetrcSchema<T>): MetrcSchema<T | undefined> & { optional: true } {
+    return {
+      description: `${inner.description}?`,
+      optional: true,
+      check(value, path, issues) {
+        if (value !== undefined) inner.check(value, path, issues);
+      },
+    };
+  },
+
+  array<T>(item: MetrcSchema<T>): MetrcSchema<T[]> {
+    return {
+      description: `${item.description}[]`,
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, kind: "type", expected: "array", received: describe(value) });
+          return;
+        }
+        value.forEach((v, i) => item.check(v, `${path}[${i}]`, issues));
+      },
+    };
+  },
+
+  tuple<T extends unknown[]>(...items: { [K in keyof T]: MetrcSchema<T[K]> }): MetrcSchema<T> {
+    return {
+      description: `[${items.map((i) => i.description).join(", ")}]`,
+      check(value, path, issues) {
+        if (!Array.isArray(value) || value.length !== items.length) {
+          issues.push({ path, kind: "type", expected: `tuple(${items.length})`, received: describe(value) });
+          return;
+        }
+        items.forEach((s, i) => s.check(value[i], `${path}[${i}]`, issues));
+      },
+    };
+  },
+
+  /**
+   * Defers to a schema declared later (recursive or out-of-order definitions). Pass `description`
+   * when the lazy schema is wrapped (array, nullable, ...) before the target is initialized.
+   */
+  lazy<T>(get: () => MetrcSchema<T>, description?: string): MetrcSchema<T> {
+    return {
+      get description() {
+        return description ?? get().description;
+      },
+      check(value, path, issues) {
+        get().check(value, path, issues);
+      },
+    };
+  },
+
+  /** First alternative that produces no issues wins; otherwise reports a single type issue. */
+  union<A, B>(a: MetrcSchema<A>, b: MetrcSchema<B>): MetrcSchema<A | B> {
+    return {
+      description: `${a.description} | ${b.description}`,
+      check(value, path, issues) {
+        for (const s of [a, b]) {
+          const local: MetrcSchemaIssue[] = [];
+          s.check(value, path, local);
+          if (!local.some((i) => i.kind !== "unexpected")) {
+            issues.push(...local);
+            return;
+          }
+        }
+        issues.push({ path, kind: "type", expected: `${a.description} | ${b.description}`, received: describe(value) });
+      },
+    };
+  },
+
+  /**
+   * Fields not in `shape` are reported as "unexpected" (new state-specific fields) but never fail strict mode.
+   */
+  object<T>(name: string, shape: Shape): MetrcSchema<T> {
+    return {
+      description: name,
+      check(value, path, issues) {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          issues.push({ path, kind: "type", expected: name, received: describe(value) });
+          return;
+        }
+        const obj = value as Record<string, unknown>;
+        for (const [k, s] of Object.entries(shape)) {
+          const p = `${path}.${k}`;
+          if (!(k in obj) || obj[k] === undefined) {
+            if (!s.optional) issues.push({ path: p, kind: "missing", expected: s.description });
+            continue;
+          }
+          s.check(obj[k], p, issues);
+        }
+        for (const k of Object.keys(obj)) {
+          if (!(k in shape)) issues.push({ path: `${path}.${k}`, kind: "unexpected", received: describe(obj[k]) });
+        }
+      },
+    };
+  },
+};
+
+/** Runs a schema; returns every issue found (empty when the value matches). */
+export function checkSchema<T>(s: MetrcSchema<T>, value: unknown): MetrcSchemaIssue[] {
+  const issues: MetrcSchemaIssue[] = [];
+  s.check(value, "$", issues);
+  return issues;
+}
+
+/** Issues that break the TypeScript contract (strict mode throws on these). */
+export function isBreakingIssue(issue: MetrcSchemaIssue): boolean {
+  return issue.kind !== "unexpected";
+}
+
+export function formatSchemaIssue(i: MetrcSchemaIssue): string {
+  if (i.kind === "missing") return `${i.path} missing (expected ${i.expected})`;
+  if (i.kind === "unexpected") return `${i.path} unexpected (${i.received})`;
+  return `${i.path} expected ${i.expected}, got ${i.received}`;
+}
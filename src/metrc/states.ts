@@ -0,0 +1,157 @@
+// src/metrc/states.ts
+// Metrc state registry: base URLs per environment, plus a hand-maintained blocklist of path
+// prefixes a state does not serve. Today the only entry is Retail ID outside its rollout states.
+
+export type MetrcState =
+  | "AK"
+  | "AL"
+  | "CA"
+  | "CO"
+  | "DC"
+  | "KY"
+  | "LA"
+  | "MA"
+  | "MD"
+  | "ME"
+  | "MI"
+  | "MN"
+  | "MO"
+  | "MS"
+  | "MT"
+  | "NJ"
+  | "NV"
+  | "NY"
+  | "OH"
+  | "OK"
+  | "OR"
+  | "SD"
+  | "WV";
+
+export type MetrcEnvironment = "production" | "sandbox";
+
+export interface MetrcStateProfile {
+  name: string;
+  /**
+   * Path prefixes this state does not serve. A prefix can cover a whole resource
+   * ("/retailid/") or a single endpoint ("/retailid/v2/generate").
+   */
+  unsupported: string[];
+}
+
+/** Thrown before any network call when the configured state does not serve the endpoint. */
+export class MetrcUnsupportedError extends Error {
+  constructor(
+    message: string,
+    public readonly state: MetrcState,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = "MetrcUnsupportedError";
+  }
+}
+
+/**
+ * States where Retail ID is live. Metrc publishes no machine-readable list or API for this: the
+ * list was compiled by hand from Metrc's state-by-state Retail ID rollout bulletins and is not
+ * checked against any live endpoint, so it can lag behind a rollout. Every other state gets
+ * "/retailid/" on its blocklist. Use registerMetrcStateSupport() to adjust at runtime without a release.
+ */
+const RETAIL_ID_STATES: readonly MetrcState[] = ["AK", "CA", "CO", "MA", "MD", "MI", "MO", "MT", "NJ", "NV", "OH", "OK"];
+
+const STATE_NAMES: Record<MetrcState, string> = {
+  AK: "Alaska",
+  AL: "Alabama",
+  CA: "California",
+  CO: "Colorado",
+  DC: "District of Columbia",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  MA: "Massachusetts",
+  MD: "Maryland",
+  ME: "Maine",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MO: "Missouri",
+  MS: "Mississippi",
+  MT: "Montana",
+  NJ: "New Jersey",
+  NV: "Nevada",
+  NY: "New York",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  SD: "South Dakota",
+  WV: "West Virginia",
+};
+
+export const METRC_STATES: Record<MetrcState, MetrcStateProfile> = (() => {
+  const m = {} as Record<MetrcState, MetrcStateProfile>;
+  for (const [code, name] of Object.entries(STATE_NAMES) as Array<[MetrcState, string]>) {
+    m[code] = { name, unsupported: RETAIL_ID_STATES.includes(code) ? [] : ["/retailid/"] };
+  }
+  return m;
+})();
+
+export function isMetrcState(s: string): s is MetrcState {
+  return Object.prototype.hasOwnProperty.call(METRC_STATES, s.toUpperCase());
+}
+
+/** Upper-cases a state code from config ("ca" -> "CA"); throws for unknown codes. */
+export function normalizeMetrcState(s: string): MetrcState {
+  if (!isMetrcState(s)) throw new Error(`Unknown Metrc state: ${s}`);
+  return s.toUpperCase() as MetrcState;
+}
+
+/** e.g. ("CA", "production") => https://api-ca.metrc.com, ("CA", "sandbox") => https://sandbox-api-ca.metrc.com */
+export function resolveMetrcBaseUrl(state: MetrcState, environment: MetrcEnvironment = "production"): string {
+  if (!isMetrcState(state)) throw new Error(`Unknown Metrc state: ${state}`);
+  const st = state.toLowerCase();
+  return environment === "sandbox" ? `https://sandbox-api-${st}.metrc.com` : `https://api-${st}.metrc.com`;
+}
+
+function normalizePath(p: string): string {
+  const withSlash = p.startsWith("/") ? p : `/${p}`;
+  return withSlash.split("?")[0].toLowerCase();
+}
+
+/** Returns the registry entry that blocks `path` in `state`, if any. */
+function blockingPrefix(state: MetrcState, path: string): string | undefined {
+  const profile = METRC_STATES[state];
+  if (!profile) return undefined;
+  const p = normalizePath(path);
+  return profile.unsupported.find((prefix) => p.startsWith(normalizePath(prefix)));
+}
+
+export function isMetrcEndpointSupported(state: MetrcState, path: string): boolean {
+  return blockingPrefix(state, path) === undefined;
+}
+
+/** Throws MetrcUnsupportedError when `state` does not serve `path`. */
+export function assertMetrcEndpointSupported(state: MetrcState, method: string, path: string): void {
+  const prefix = blockingPrefix(state, path);
+  if (prefix === undefined) return;
+  throw new MetrcUnsupportedError(
+    `${method} ${path} is not available in ${METRC_STATES[state].name} (${state}); ` +
+      `the state registry marks "${prefix}" as unsupported. Use registerMetrcStateSupport() if this has changed.`,
+    state,
+    path
+  );
+}
+
+/**
+ * Adjusts the registry, e.g. when a state turns on Retail ID:
+ * registerMetrcStateSupport("OR", { supported: ["/retailid/"] })
+ */
+export function registerMetrcStateSupport(
+  state: MetrcState,
+  change: { supported?: string[]; unsupported?: string[] }
+): void {
+  const profile = METRC_STATES[state];
+  if (!profile) throw new Error(`Unknown Metrc state: ${state}`);
+
+  const enable = new Set((change.supported ?? []).map(normalizePath));
+  profile.unsupported = profile.unsupported.filter((p) => !enable.has(normalizePath(p)));
+  for (const p of change.unsupported ?? []) {
+    if (!profile.unsupported.some((x) => normalizePath(x) === normalizePath(p))) profile.unsupported.push(p);
+  }
+}
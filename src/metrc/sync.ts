@@ -0,0 +1,242 @@
+// src/metrc/sync.ts
+// Incremental sync over lastModifiedStart/lastModifiedEnd list endpoints. Metrc only accepts
+// windows of up to 24 hours, so a range is split into windows, each window is paged through,
+// and a checkpoint per (license, resource) records how far the last run got.
+
+import { METRC_MAX_SYNC_WINDOW_MS, MetrcPage, MetrcSyncWindow, PageRequest, assertPageSize, paginate, splitSyncWindows } from "./pagination";
+
+export interface MetrcSyncCheckpoint {
+  licenseNumber: string;
+  resource: string;
+  /** Everything modified up to here has been delivered (ISO). */
+  syncedThrough: string;
+  updatedAt: string;
+}
+
+/** Persistence for sync checkpoints. Implementations must be safe to share between engines. */
+export interface MetrcSyncCheckpointStore {
+  get(licenseNumber: string, resource: string): Promise<MetrcSyncCheckpoint | undefined>;
+  set(checkpoint: MetrcSyncCheckpoint): Promise<void>;
+  delete(licenseNumber: string, resource: string): Promise<void>;
+}
+
+const checkpointKey = (licenseNumber: string, resource: string) => `${licenseNumber}|${resource}`;
+
+export class MemorySyncCheckpointStore implements MetrcSyncCheckpointStore {
+  private readonly checkpoints = new Map<string, MetrcSyncCheckpoint>();
+
+  async get(licenseNumber: string, resource: string) {
+    const c = this.checkpoints.get(checkpointKey(licenseNumber, resource));
+    return c && { ...c };
+  }
+
+  async set(checkpoint: MetrcSyncCheckpoint) {
+    this.checkpoints.set(checkpointKey(checkpoint.licenseNumber, checkpoint.resource), { ...checkpoint });
+  }
+
+  async delete(licenseNumber: string, resource: string) {
+    this.checkpoints.delete(checkpointKey(licenseNumber, resource));
+  }
+}
+
+/** JSON file store, one entry per (license, resource). Needs Node. */
+export class FileSyncCheckpointStore implements MetrcSyncCheckpointStore {
+  private checkpoints?: Record<string, MetrcSyncCheckpoint>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  // Kept untyped so the SDK compiles without Node type defs (same approach as loadLabTestDocument).
+  private async fs() {
+    return ((await import("fs" as string)) as {
+      promises: { readFile(p: string, enc: string): Promise<string>; writeFile(p: string, d: string): Promise<void> };
+    }).promises;
+  }
+
+  private async load(): Promise<Record<string, MetrcSyncCheckpoint>> {
+    if (!this.checkpoints) {
+      try {
+        this.checkpoints = JSON.parse(await (await this.fs()).readFile(this.path, "utf8"));
+      } catch (err) {
+        if ((err as { code?: string }).code !== "ENOENT") throw err;
+        this.checkpoints = {};
+      }
+    }
+    return this.checkpoints!;
+  }
+
+  /** Writes are serialized so concurrent syncs never interleave partial files. */
+  private persist(): Promise<void> {
+    const data = JSON.stringify(this.checkpoints, null, 2);
+    this.writing = this.writing.then(async () => (await this.fs()).writeFile(this.path, data));
+    return this.writing;
+  }
+
+  async get(licenseNumber: string, resource: string) {
+    const c = (await this.load())[checkpointKey(licenseNumber, resource)];
+    return c && { ...c };
+  }
+
+  async set(checkpoint: MetrcSyncCheckpoint) {
+    (await this.load())[checkpointKey(checkpoint.licenseNumber, checkpoint.resource)] = { ...checkpoint };
+    await this.persist();
+  }
+
+  async delete(licenseNumber: string, resource: string) {
+    const checkpoints = await this.load();
+    const key = checkpointKey(licenseNumber, resource);
+    if (!(key in checkpoints)) return;
+    delete checkpoints[key];
+    await this.persist();
+  }
+}
+
+/** Query handed to a source for one page of one window. */
+export interface MetrcSyncPageQuery extends PageRequest {
+  licenseNumber: string;
+  lastModifiedStart: string;
+  lastModifiedEnd: string;
+}
+
+/**
+ * A lastModified-filtered list endpoint. Resource methods fit directly:
+ * { resource: "additivesTemplates.active", fetchPage: (q) => metrc.v2.additivesTemplates.getActive(q) }
+ */
+export interface MetrcSyncSource<T> {
+  /** Checkpoint key; unique per endpoint (and filter, if the source applies one). */
+  resource: string;
+  fetchPage(query: MetrcSyncPageQuery): Promise<MetrcPage<T> | T[]>;
+}
+
+export interface MetrcSyncEngineOptions {
+  /** Default: in-memory (checkpoints last as long as the engine). */
+  store?: MetrcSyncCheckpointStore;
+  /** Window length, at most 24h. Default 24h. */
+  windowMs?: number;
+  /** Records per page, 1..20. Default 20. */
+  pageSize?: number;
+  /** Each run starts this long before the checkpoint, to catch records Metrc stamps late. Default 0. */
+  overlapMs?: number;
+  /** Default `until` is now minus this. Default 0. */
+  lagMs?: number;
+  /** Default: the real clock. Also stamps checkpoints' updatedAt. */
+  now?: () => Date;
+}
+
+export interface MetrcSyncRunOptions {
+  licenseNumber: string;
+  /** Where to start when there is no checkpoint yet. Required for the first run. */
+  since?: Date | string;
+  /** Default: now - lagMs. */
+  until?: Date | string;
+}
+
+/** The records of one window that had any changes. */
+export interface MetrcSyncChanges<T> {
+  resource: string;
+  licenseNumber: string;
+  window: MetrcSyncWindow;
+  items: T[];
+  /** 0-based position of this window in the run, and how many windows the run covers. */
+  windowIndex: number;
+  windowCount: number;
+}
+
+export interface MetrcSyncResult {
+  /** Windows that had changes. */
+  windows: number;
+  items: number;
+  /** Checkpoint after the run (ISO), or undefined when there was nothing to do and no checkpoint. */
+  syncedThrough?: string;
+}
+
+function toDate(v: Date | string, label: string): Date {
+  const d = typeof v === "string" ? new Date(v) : v;
+  if (Number.isNaN(d.getTime())) throw new RangeError(`${label}: invalid date ${String(v)}`);
+  return d;
+}
+
+/**
+ * Runs resumable lastModified syncs. Delivery is at-least-once: records on a window boundary,
+ * inside `overlapMs`, or in a window whose processing was interrupted are delivered again.
+ *
+ * const engine = new MetrcSyncEngine({ store: new FileSyncCheckpointStore("sync.json") });
+ * for await (const changes of engine.sync(source, { licenseNumber, since: "2026-01-01" })) await upsert(changes.items);
+ */
+export class MetrcSyncEngine {
+  private readonly store: MetrcSyncCheckpointStore;
+  private readonly windowMs: number;
+  private readonly pageSize?: number;
+
+  constructor(private readonly opts: MetrcSyncEngineOptions = {}) {
+    this.store = opts.store ?? new MemorySyncCheckpointStore();
+    this.windowMs = opts.windowMs ?? METRC_MAX_SYNC_WINDOW_MS;
+    splitSyncWindows(new Date(0), new Date(0), this.windowMs); // validates windowMs
+    if (opts.pageSize !== undefined) assertPageSize(opts.pageSize);
+    this.pageSize = opts.pageSize;
+  }
+
+  checkpoint(licenseNumber: string, resource: string): Promise<MetrcSyncCheckpoint | undefined> {
+    return this.store.get(licenseNumber, resource);
+  }
+
+  /** Forgets the checkpoint so the next run starts from `since` again. */
+  reset(licenseNumber: string, resource: string): Promise<void> {
+    return this.store.delete(licenseNumber, resource);
+  }
+
+  /**
+   * Yields the changes of each non-empty window in order. A window's checkpoint is saved when the
+   * next one is requested (or the loop ends normally), so breaking out re-delivers that window next run.
+   */
+  async *sync<T>(source: MetrcSyncSource<T>, run: MetrcSyncRunOptions): AsyncGenerator<MetrcSyncChanges<T>, void, undefined> {
+    const { licenseNumber } = run;
+    const { resource } = source;
+    const saved = await this.store.get(licenseNumber, resource);
+
+    let start: Date;
+    if (saved) start = new Date(toDate(saved.syncedThrough, "checkpoint").getTime() - (this.opts.overlapMs ?? 0));
+    else if (run.since !== undefined) start = toDate(run.since, "since");
+    else throw new Error(`MetrcSyncEngine: no checkpoint for ${licenseNumber}/${resource}; pass \`since\` for the first run`);
+
+    const clock = this.opts.now ?? (() => new Date());
+    const now = clock();
+    const until = run.until !== undefined ? toDate(run.until, "until") : new Date(now.getTime() - (this.opts.lagMs ?? 0));
+    const windows = splitSyncWindows(start, until, this.windowMs);
+
+    for (const [windowIndex, window] of windows.entries()) {
+      const lastModifiedStart = window.start.toISOString();
+      const lastModifiedEnd = window.end.toISOString();
+      const items: T[] = [];
+      const pages = paginate<T>(
+        (page) => source.fetchPage({ licenseNumber, lastModifiedStart, lastModifiedEnd, ...page }),
+        { pageSize: this.pageSize }
+      );
+      for await (const item of pages) items.push(item);
+
+      if (items.length) yield { resource, licenseNumber, window, items, windowIndex, windowCount: windows.length };
+
+      // never move a checkpoint backwards (overlap re-reads windows before it)
+      if (!saved || window.end.getTime() > Date.parse(saved.syncedThrough)) {
+        await this.store.set({ licenseNumber, resource, syncedThrough: lastModifiedEnd, updatedAt: clock().toISOString() });
+      }
+    }
+  }
+
+  /** Same as sync(), awaiting `onChanges` for each window before saving its checkpoint. */
+  async run<T>(
+    source: MetrcSyncSource<T>,
+    run: MetrcSyncRunOptions,
+    onChanges: (changes: MetrcSyncChanges<T>) => void | Promise<void>
+  ): Promise<MetrcSyncResult> {
+    let windows = 0;
+    let items = 0;
+    for await (const changes of this.sync(source, run)) {
+      await onChanges(changes);
+      windows++;
+      items += changes.items.length;
+    }
+    const checkpoint = await this.store.get(run.licenseNumber, source.resource);
+    return { windows, items, syncedThrough: checkpoint?.syncedThrough };
+  }
+}
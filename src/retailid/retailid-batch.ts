@@ -0,0 +1,194 @@
+/* retailid-batch.ts
+ *
+ * Offline batch encoding of RetailID short URLs for label printing.
+ *
+ * Every URL in a batch shares the same 12 ObjectId bytes, so the expensive part of the
+ * encoding (base36 conversion of the prefix, base64 of the prefix) is done once per batch.
+ * Only the VarInt index bytes are converted per label.
+ */
+
+import {
+  BASE36_ALPHABET,
+  EncodeOptions,
+  ObjectId,
+  VarInt,
+  bytesToBase64,
+  encodeBase36,
+  encodeUrl64,
+} from "./retailid-core";
+import { defaultRetailIdDomain } from "./retailid-issuers";
+
+function assertIndex(n: number, label: string): void {
+  if (!Number.isSafeInteger(n) || n < 0) {
+    throw new TypeError(`${label}: expected a non-negative integer, got ${n}`);
+  }
+}
+
+/**
+ * Encodes URLs for one batch; output is identical to getShortUrl(batchId, index, options).
+ *
+ * const enc = new RetailIdBatchEncoder(batchId);
+ * for (const url of enc.range(1, 10_000)) print(url);
+ */
+export class RetailIdBatchEncoder {
+  readonly batchId: ObjectId;
+  private readonly base64: boolean;
+  /** "HTTPS://1A4.COM/" or "https://1a4.com/" */
+  private readonly urlPrefix: string;
+  private readonly prefixBytes: Uint8Array;
+  /** base36 digits (little-endian) of the prefix value, or null when the prefix is all zero bytes */
+  private readonly prefixDigits: number[] | null;
+  private readonly leadingZeros: string;
+  /** 12 bytes encode to exactly 16 base64 chars, so the prefix never shares a char with the index */
+  private readonly prefixBase64: string;
+
+  constructor(batchId: ObjectId, options?: EncodeOptions) {
+    this.batchId = batchId;
+    this.base64 = !!options?.base64;
+    const domain = options?.domain || defaultRetailIdDomain(options);
+    this.urlPrefix = this.base64 ? `https://${domain}/` : `HTTPS://${domain}/`.toUpperCase();
+    this.prefixBytes = batchId.id;
+
+    let zeros = 0;
+    while (zeros < this.prefixBytes.length && this.prefixBytes[zeros] === 0) zeros++;
+    this.leadingZeros = "0".repeat(zeros);
+    this.prefixDigits = zeros === this.prefixBytes.length ? null : toBase36Digits([0], this.prefixBytes, zeros);
+
+    this.prefixBase64 = encodeUrl64(bytesToBase64(this.prefixBytes));
+  }
+
+  encode(index: number): string {
+    assertIndex(index, "RetailIdBatchEncoder.encode(index)");
+    return this.urlPrefix + this.shortCode(index);
+  }
+
+  /** The path part of the URL (no scheme/domain). */
+  shortCode(index: number): string {
+    const varint = VarInt.encode(index);
+    if (this.base64) return this.prefixBase64 + encodeUrl64(bytesToBase64(varint));
+
+    if (!this.prefixDigits) {
+      // all-zero ObjectId: leading zeros run into the index bytes, take the slow path
+      const buf = new Uint8Array(this.prefixBytes.length + varint.length);
+      buf.set(this.prefixBytes);
+      buf.set(varint, this.prefixBytes.length);
+      return encodeBase36(buf);
+    }
+
+    const digits = toBase36Digits(this.prefixDigits.slice(), varint, 0);
+    let out = this.leadingZeros;
+    for (let i = digits.length - 1; i >= 0; i--) out += BASE36_ALPHABET[digits[i]];
+    return out;
+  }
+
+  /** Lazily yields URLs for start..end (inclusive). */
+  *range(start: number, end: number): Generator<string, void, undefined> {
+    assertRange(start, end, "RetailIdBatchEncoder.range");
+    for (let i = start; i <= end; i++) yield this.encode(i);
+  }
+}
+
+/** Continues a base256 -> base36 conversion (same algorithm as encodeBase36); mutates and returns `digits`. */
+function toBase36Digits(digits: number[], bytes: Uint8Array, from: number): number[] {
+  for (let i = from; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] * 256;
+      digits[j] = carry % 36;
+      carry = Math.floor(carry / 36);
+    }
+    while (carry > 0) {
+      digits.push(carry % 36);
+      carry = Math.floor(carry / 36);
+    }
+  }
+  return digits;
+}
+
+function assertRange(start: number, end: number, label: string): void {
+  assertIndex(start, `${label}(start)`);
+  assertIndex(end, `${label}(end)`);
+  if (end < start) throw new RangeError(`${label}: end (${end}) is before start (${start})`);
+}
+
+/** Lazily yields getShortUrl(batchId, i, options) for i in start..end (inclusive). */
+export function encodeRange(
+  batchId: ObjectId,
+  start: number,
+  end: number,
+  options?: EncodeOptions
+): Generator<string, void, undefined> {
+  return new RetailIdBatchEncoder(batchId, options).range(start, end);
+}
+
+export interface EncodeRangeTextOptions extends EncodeOptions {
+  /** "lines": one URL per line. "csv": `index,url` rows. Default "lines". */
+  format?: "lines" | "csv";
+  /** Write the CSV header row. Default true for csv. */
+  header?: boolean;
+  /** Default "\n". */
+  eol?: "\n" | "\r\n";
+  /** Rows per yielded chunk; the event loop gets a turn between chunks. Default 5000. */
+  chunkSize?: number;
+}
+
+const yieldToEventLoop = (): Promise<void> =>
+  new Promise((r) => {
+    const si = (globalThis as any).setImmediate as ((cb: () => void) => unknown) | undefined;
+    if (typeof si === "function") si(r);
+    else setTimeout(r, 0);
+  });
+
+/**
+ * Yields the range as text chunks (newline or CSV), giving the event loop a turn between chunks.
+ * Pipe into a file with Readable.from(encodeRangeText(...)).pipe(fs.createWriteStream(path)).
+ */
+export async function* encodeRangeText(
+  batchId: ObjectId,
+  start: number,
+  end: number,
+  options?: EncodeRangeTextOptions
+): AsyncGenerator<string, void, undefined> {
+  assertRange(start, end, "encodeRangeText");
+  const chunkSize = options?.chunkSize ?? 5000;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) throw new RangeError(`encodeRangeText: invalid chunkSize ${chunkSize}`);
+
+  const csv = options?.format === "csv";
+  const eol = options?.eol ?? "\n";
+  const enc = new RetailIdBatchEncoder(batchId, options);
+
+  if (csv && options?.header !== false) yield `index,url${eol}`;
+
+  for (let from = start; from <= end; from += chunkSize) {
+    const to = Math.min(from + chunkSize - 1, end);
+    let chunk = "";
+    for (let i = from; i <= to; i++) chunk += csv ? `${i},${enc.encode(i)}${eol}` : enc.encode(i) + eol;
+    yield chunk;
+    if (to < end) await yieldToEventLoop();
+  }
+}
+
+/** Anything with a Node-style write(); `once("drain")` is used for backpressure when present. */
+export interface RetailIdTextSink {
+  write(chunk: string): boolean | void;
+  once?(event: "drain", listener: () => void): unknown;
+}
+
+/**
+ * Writes the range to `sink` (e.g. fs.createWriteStream, process.stdout), waiting on "drain"
+ * when the sink reports backpressure. Resolves with the number of URLs written.
+ */
+export async function writeRetailIdLabels(
+  sink: RetailIdTextSink,
+  batchId: ObjectId,
+  start: number,
+  end: number,
+  options?: EncodeRangeTextOptions
+): Promise<number> {
+  for await (const chunk of encodeRangeText(batchId, start, end, options)) {
+    if (sink.write(chunk) === false && sink.once) {
+      await new Promise<void>((r) => sink.once!("drain", r));
+    }
+  }
+  return end - start + 1;
+}
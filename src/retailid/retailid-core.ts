@@ -11,17 +11,26 @@
  * CHANGE: Added richer types and clearer validation modes while keeping backward compatibility.
  */
 
+import {
+  RetailIdIssuer,
+  RetailIdIssuerScope,
+  defaultRetailIdDomain,
+  matchRetailIdIssuer,
+} from "./retailid-issuers";
+import { NormalizedScan, ScanNormalizationOptions, normalizeScannerInput } from "./retailid-scanner";
+
 export type ValidationMode = "strict" | "mongo" | "any";
 
-export interface EncodeOptions {
-  domain?: string;
+export interface EncodeOptions extends RetailIdIssuerScope {
+  domain?: string; // default: the first registered issuer domain for state/environment
   base64?: boolean; // legacy URL-safe base64
 }
 
-export interface ParseOptions {
+export interface ParseOptions extends RetailIdIssuerScope {
   /**
    * CHANGE: Replaces ambiguous `strict?: boolean` with explicit validation modes.
-   * - "strict": require known RetailID prefixes (RETAILID_PREFIXES) in the decoded ObjectId hex
+   * - "strict": require a registered issuer (retailid-issuers) whose prefix matches the decoded
+   *   ObjectId hex and, for URLs, whose domains include the URL host
    * - "mongo": allow unknown prefixes, but require ObjectId timestamp to be in a reasonable range
    * - "any": accept any 12-byte prefix (least strict)
    *
@@ -29,6 +38,12 @@ export interface ParseOptions {
    */
   validationFallback?: Exclude<ValidationMode, "strict">; // "mongo" | "any"
   strictPrefixesOnly?: boolean; // if true, never fall back beyond strict
+  /**
+   * Clean up scanner input first (symbology ids, control chars, layout damage; see retailid-scanner).
+   * Default false (the input is parsed as-is). Caps Lock repair changes letter case, which can turn a
+   * mixed-case code into a different valid one, so it also needs `{ repairCapsLock: true }`.
+   */
+  normalize?: boolean | ScanNormalizationOptions;
 }
 
 export interface ParsedRetailId {
@@ -37,11 +52,12 @@ export interface ParsedRetailId {
   encoding: "base36" | "base64";
   domain?: string;
   shortCode: string;
+  /** Registered issuer that matched prefix + domain; undefined when accepted by a fallback mode. */
+  issuer?: RetailIdIssuer;
+  /** Set when scanner normalization changed the input. */
+  normalization?: NormalizedScan;
 }
 
-/** Known RetailID prefixes (hex string starts-with) */
-const RETAILID_PREFIXES = ["1a4", "abc"] as const;
-
 /** Valid ObjectId timestamp range: 2012-01-01 to 2052-01-01 (Unix seconds) */
 const MIN_OBJECTID_TIMESTAMP = Math.floor(new Date("2012-01-01T00:00:00Z").getTime() / 1000);
 const MAX_OBJECTID_TIMESTAMP = Math.floor(new Date("2052-01-01T00:00:00Z").getTime() / 1000);
@@ -238,7 +254,7 @@ function assertSafeUint(n: number, label: string): void {
  *
  * Alphabet is 0-9 + A-Z (36 chars), output uppercase.
  */
-const BASE36_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+export const BASE36_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
 const BASE36_MAP: Record<string, number> = (() => {
   const m: Record<string, number> = {};
   for (let i = 0; i < BASE36_ALPHABET.length; i++) {
@@ -346,7 +362,7 @@ export const encodeUrl64 = (base64: string): string => {
   return base64.replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_");
 };
 
-function base64ToBytes(base64: string): Uint8Array {
+export function base64ToBytes(base64: string): Uint8Array {
   // CHANGE: Node/browser compatible
   if (typeof atob === "function") {
     let binary: string;
@@ -369,7 +385,7 @@ function base64ToBytes(base64: string): Uint8Array {
   throw new Error("base64ToBytes: no base64 decoder available in this runtime");
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
+export function bytesToBase64(bytes: Uint8Array): string {
   // CHANGE: Node/browser compatible
   if (typeof btoa === "function") {
     let binary = "";
@@ -393,6 +409,26 @@ function bytesToBase64(bytes: Uint8Array): string {
 interface ParsedId {
   batchId: ObjectId;
   index: number;
+  issuer?: RetailIdIssuer;
+}
+
+/** Why a single (encoding, validation mode) decode attempt failed; see diagnoseRetailId(). */
+export type RetailIdFailureReason =
+  | "invalid-encoding" // shortCode is not valid base36 / URL-safe base64
+  | "too-short" // fewer than 12 ObjectId bytes + 1 index byte
+  | "unknown-prefix" // strict: no registered issuer has this ObjectId prefix
+  | "unregistered-domain" // strict: prefix is known but the URL domain is not one of the issuer's
+  | "invalid-timestamp" // mongo: ObjectId timestamp outside 2012..2052
+  | "varint-underflow" // index bytes end in the middle of a VarInt
+  | "varint-overflow"; // index exceeds Number.MAX_SAFE_INTEGER
+
+class RetailIdDecodeFailure extends Error {
+  constructor(
+    readonly reason: RetailIdFailureReason,
+    message: string
+  ) {
+    super(message);
+  }
 }
 
 /** CHANGE: Safer timestamp parse (no signed 32-bit effects). */
@@ -406,23 +442,31 @@ const isValidObjectIdTimestamp = (bytes: Uint8Array): boolean => {
   return timestamp >= MIN_OBJECTID_TIMESTAMP && timestamp <= MAX_OBJECTID_TIMESTAMP;
 };
 
-const getBatchIdAndIndex = (buffer: Uint8Array, mode: ValidationMode): ParsedId => {
+const getBatchIdAndIndex = (
+  buffer: Uint8Array,
+  mode: ValidationMode,
+  domain: string | undefined,
+  scope: RetailIdIssuerScope | undefined
+): ParsedId => {
   if (buffer.length < 13) {
-    throw new Error(`Buffer too short: expected at least 13 bytes, got ${buffer.length}`);
+    throw new RetailIdDecodeFailure("too-short", `Buffer too short: expected at least 13 bytes, got ${buffer.length}`);
   }
 
   const idBytes = buffer.subarray(0, 12);
   const hexId = bytesToHex(idBytes);
 
-  const hasKnownPrefix = RETAILID_PREFIXES.some((prefix) => hexId.startsWith(prefix));
+  const issuer = matchRetailIdIssuer(hexId, domain, scope);
 
-  if (!hasKnownPrefix) {
+  if (!issuer) {
     if (mode === "strict") {
-      throw new Error(`Unknown RetailID prefix: ${hexId}`);
+      if (domain !== undefined && matchRetailIdIssuer(hexId, undefined, scope)) {
+        throw new RetailIdDecodeFailure("unregistered-domain", `Domain ${domain} is not registered for prefix ${hexId}`);
+      }
+      throw new RetailIdDecodeFailure("unknown-prefix", `No registered RetailID issuer for prefix ${hexId}`);
     }
     if (mode === "mongo") {
       if (!isValidObjectIdTimestamp(idBytes)) {
-        throw new Error(`Invalid mongo timestamp in ObjectId: ${hexId}`);
+        throw new RetailIdDecodeFailure("invalid-timestamp", `Invalid mongo timestamp in ObjectId: ${hexId}`);
       }
     }
     // mode === "any" => accept
@@ -431,9 +475,15 @@ const getBatchIdAndIndex = (buffer: Uint8Array, mode: ValidationMode): ParsedId
   const batchId = new ObjectId(hexId);
 
   const indexBuf = buffer.subarray(12);
-  const decoded = VarInt.decode(indexBuf, 0);
+  let decoded: { value: number };
+  try {
+    decoded = VarInt.decode(indexBuf, 0);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new RetailIdDecodeFailure(err instanceof RangeError ? "varint-overflow" : "varint-underflow", message);
+  }
 
-  return { batchId, index: decoded.value };
+  return { batchId, index: decoded.value, issuer: mode === "strict" ? issuer : undefined };
 };
 
 function concatBytes(...arrays: Uint8Array[]): Uint8Array {
@@ -497,22 +547,45 @@ function detectEncodingHint(rawShortCode: string, schemeHint?: "base36" | "base6
   return "unknown";
 }
 
-function tryParseWithEncoding(
+/** Throws RetailIdDecodeFailure. */
+function decodeWithEncoding(
   shortCode: string,
   encoding: "base36" | "base64",
-  mode: ValidationMode
-): ParsedId | null {
+  mode: ValidationMode,
+  domain?: string,
+  scope?: RetailIdIssuerScope
+): ParsedId {
+  let buf: Uint8Array;
   try {
-    const buf =
+    buf =
       encoding === "base36"
         ? decodeBase36(shortCode)
         : base64ToBytes(decodeUrl64(shortCode));
-    return getBatchIdAndIndex(buf, mode);
+  } catch (err) {
+    throw new RetailIdDecodeFailure("invalid-encoding", err instanceof Error ? err.message : String(err));
+  }
+  return getBatchIdAndIndex(buf, mode, domain, scope);
+}
+
+function tryParseWithEncoding(
+  shortCode: string,
+  encoding: "base36" | "base64",
+  mode: ValidationMode,
+  domain?: string,
+  scope?: RetailIdIssuerScope
+): ParsedId | null {
+  try {
+    return decodeWithEncoding(shortCode, encoding, mode, domain, scope);
   } catch {
     return null;
   }
 }
 
+function normalizeFor(input: string, options?: ParseOptions): NormalizedScan | undefined {
+  if (!options?.normalize) return undefined;
+  return normalizeScannerInput(input, typeof options?.normalize === "object" ? options.normalize : undefined);
+}
+
 /**
  * CHANGE: clearer options and safer multi-try strategy.
  *
@@ -521,7 +594,9 @@ function tryParseWithEncoding(
  * 2) If strict prefixes fail, optionally fall back to mongo/any depending on options.
  */
 export function parseRetailId(input: string, options?: ParseOptions): ParsedRetailId {
-  const { shortCode, domain, schemeHint } = extractShortCode(input);
+  const scan = normalizeFor(input, options);
+  const normalization = scan?.changes.length ? scan : undefined;
+  const { shortCode, domain, schemeHint } = extractShortCode(scan ? scan.value : input);
   const hint = detectEncodingHint(shortCode, schemeHint);
 
   const strictPrefixesOnly = options?.strictPrefixesOnly ?? false;
@@ -534,9 +609,9 @@ export function parseRetailId(input: string, options?: ParseOptions): ParsedReta
         ["base36", "base64"];
 
   for (const enc of strictOrder) {
-    const parsed = tryParseWithEncoding(shortCode, enc, "strict");
+    const parsed = tryParseWithEncoding(shortCode, enc, "strict", domain, options);
     if (parsed) {
-      return { ...parsed, encoding: enc, domain, shortCode };
+      return { ...parsed, encoding: enc, domain, shortCode, normalization };
     }
   }
 
@@ -546,9 +621,9 @@ export function parseRetailId(input: string, options?: ParseOptions): ParsedReta
 
   // Fall back (mongo/any)
   for (const enc of strictOrder) {
-    const parsed = tryParseWithEncoding(shortCode, enc, fallback);
+    const parsed = tryParseWithEncoding(shortCode, enc, fallback, domain, options);
     if (parsed) {
-      return { ...parsed, encoding: enc, domain, shortCode };
+      return { ...parsed, encoding: enc, domain, shortCode, normalization };
     }
   }
 
@@ -567,12 +642,17 @@ export class RetailIdPair {
   readonly encoding: "base36" | "base64";
   readonly domain?: string;
   readonly shortCode: string;
+  readonly issuer?: RetailIdIssuer;
+  /** What scanner normalization changed, if anything. */
+  readonly normalization?: NormalizedScan;
 
-  constructor(stringUrl: string, strict?: boolean) {
+  /** `options` override the fallback implied by `strict` (e.g. normalize: true, environment). */
+  constructor(stringUrl: string, strict?: boolean, options?: ParseOptions) {
     // CHANGE: preserve previous semantics: strict=true => fallback=mongo, else fallback=any
     const parsed = parseRetailId(stringUrl, {
       validationFallback: strict ? "mongo" : "any",
       strictPrefixesOnly: false,
+      ...options,
     });
 
     this.batchId = parsed.batchId;
@@ -580,6 +660,8 @@ export class RetailIdPair {
     this.encoding = parsed.encoding;
     this.domain = parsed.domain;
     this.shortCode = parsed.shortCode;
+    this.issuer = parsed.issuer;
+    this.normalization = parsed.normalization;
   }
 
   encode(options?: EncodeOptions): string {
@@ -603,7 +685,7 @@ function getBuffer(batchId: ObjectId, index: number): Uint8Array {
  * - Base64 legacy uses `https://` and lowercases the scheme (matches your README convention).
  */
 export function getShortUrl(batchId: ObjectId, index: number, options?: EncodeOptions): string {
-  const domain = options?.domain || "1a4.com";
+  const domain = options?.domain || defaultRetailIdDomain(options);
 
   if (options?.base64) {
     const base64 = bytesToBase64(getBuffer(batchId, index));
@@ -617,6 +699,202 @@ export function getShortUrl(batchId: ObjectId, index: number, options?: EncodeOp
   return `HTTPS://${domain}/${dataPart}`.toUpperCase();
 }
 
+/* ------------------------------------------------------------------------------------------------
+ * Diagnostics
+ * ------------------------------------------------------------------------------------------------ */
+
+export interface RetailIdAttempt {
+  encoding: "base36" | "base64";
+  mode: ValidationMode;
+  ok: boolean;
+  reason?: RetailIdFailureReason;
+  error?: string;
+  /** Set when ok. */
+  batchId?: string;
+  index?: number;
+  issuer?: string;
+}
+
+export interface RetailIdSuggestion {
+  kind: "scanner" | "whitespace" | "confusable-chars" | "scheme-case" | "domain";
+  message: string;
+  /** Corrected input; parses against a registered issuer. */
+  candidate: string;
+  parsed: ParsedRetailId;
+}
+
+export interface RetailIdDiagnosis {
+  input: string;
+  /** Scanner normalization applied before the attempts (when ParseOptions.normalize is set). */
+  normalization?: NormalizedScan;
+  shortCode?: string;
+  domain?: string;
+  /** Encoding implied by scheme casing / characters; tried first by parseRetailId. */
+  hint?: "base36" | "base64" | "unknown";
+  /** What parseRetailId(input, options) returns; undefined when it throws (see `error`). */
+  result?: ParsedRetailId;
+  error?: string;
+  /** Every encoding x validation mode, hinted encoding first. */
+  attempts: RetailIdAttempt[];
+  suggestions: RetailIdSuggestion[];
+}
+
+/** Characters scanners and people commonly mix up, per direction. */
+const CONFUSABLE: Record<string, string[]> = {
+  O: ["0"],
+  o: ["0"],
+  "0": ["O"],
+  I: ["1"],
+  i: ["1"],
+  l: ["1"],
+  "1": ["I"],
+};
+
+const MAX_CONFUSABLE_SUGGESTIONS = 10;
+
+/**
+ * Explains why an input does (or does not) parse: every attempted encoding and validation mode with its
+ * failure reason, plus corrected inputs for common scanner and typing mistakes. Never throws.
+ */
+export function diagnoseRetailId(input: string, options?: ParseOptions): RetailIdDiagnosis {
+  const diagnosis: RetailIdDiagnosis = { input, attempts: [], suggestions: [] };
+
+  try {
+    diagnosis.result = parseRetailId(input, options);
+  } catch (err) {
+    diagnosis.error = err instanceof Error ? err.message : String(err);
+  }
+
+  const scan = normalizeFor(input, options);
+  if (scan?.changes.length) diagnosis.normalization = scan;
+
+  let extracted: ReturnType<typeof extractShortCode> | undefined;
+  try {
+    extracted = extractShortCode(scan ? scan.value : input);
+  } catch {
+    // empty input or URL without a path: nothing to attempt
+  }
+
+  if (extracted) {
+    const { shortCode, domain, schemeHint } = extracted;
+    const hint = detectEncodingHint(shortCode, schemeHint);
+    Object.assign(diagnosis, { shortCode, domain, hint });
+
+    const encodings: ("base36" | "base64")[] = hint === "base64" ? ["base64", "base36"] : ["base36", "base64"];
+    for (const encoding of encodings) {
+      for (const mode of ["strict", "mongo", "any"] as const) {
+        try {
+          const p = decodeWithEncoding(shortCode, encoding, mode, domain, options);
+          diagnosis.attempts.push({
+            encoding,
+            mode,
+            ok: true,
+            batchId: p.batchId.toHexString(),
+            index: p.index,
+            issuer: p.issuer?.name,
+          });
+        } catch (err) {
+          const reason = err instanceof RetailIdDecodeFailure ? err.reason : undefined;
+          diagnosis.attempts.push({ encoding, mode, ok: false, reason, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+    }
+  }
+
+  diagnosis.suggestions = suggestRetailIdFixes(diagnosis, options);
+  return diagnosis;
+}
+
+function suggestRetailIdFixes(d: RetailIdDiagnosis, options?: ParseOptions): RetailIdSuggestion[] {
+  const out: RetailIdSuggestion[] = [];
+  const seen = new Set<string>();
+  const value = d.normalization?.value ?? d.input;
+  const strict = (candidate: string): ParsedRetailId | undefined => {
+    try {
+      return parseRetailId(candidate, { ...options, strictPrefixesOnly: true });
+    } catch {
+      return undefined;
+    }
+  };
+  const offer = (kind: RetailIdSuggestion["kind"], message: string, candidate: string): boolean => {
+    if (seen.has(candidate) || candidate === d.input) return false;
+    const parsed = strict(candidate);
+    if (!parsed) return false;
+    seen.add(candidate);
+    out.push({ kind, message, candidate, parsed });
+    return true;
+  };
+
+  // Scanner damage ParseOptions.normalize would repair (never Caps Lock, which can change the code)
+  if (!options?.normalize) {
+    const scan = normalizeScannerInput(d.input);
+    if (scan.changes.length) {
+      offer("scanner", `${scan.changes.map((c) => c.description).join("; ")}. Pass normalize: true to repair such scans`, scan.value);
+    }
+  }
+
+  // Stray whitespace / control characters inside the code (ends are trimmed anyway)
+  const junk = /[\s\u0000-\u001f\u007f]+/g;
+  if (junk.test(d.input.trim())) {
+    offer("whitespace", "Input contains whitespace or control characters; removed them", d.input.replace(junk, ""));
+  }
+
+  // Known prefix printed under a domain the issuer does not use
+  const wrongDomain = d.attempts.find((a) => a.reason === "unregistered-domain");
+  if (wrongDomain) {
+    const ok = d.attempts.find((a) => a.ok && a.encoding === wrongDomain.encoding);
+    const issuer = ok?.batchId ? matchRetailIdIssuer(ok.batchId, undefined, options) : undefined;
+    if (ok && issuer?.domains.length) {
+      offer(
+        "domain",
+        `Domain ${d.domain} is not registered for issuer "${issuer.name}" (expected ${issuer.domains.join(", ")})`,
+        getShortUrl(new ObjectId(ok.batchId), ok.index!, { domain: issuer.domains[0], base64: wrongDomain.encoding === "base64" })
+      );
+    }
+  }
+
+  // Scheme casing pointed at the other encoding (e.g. a scanner lowercased HTTPS://)
+  const strictHit = d.attempts.find((a) => a.ok && a.mode === "strict");
+  const schemeMatch = value.trim().match(/^([a-zA-Z]+):\/\//);
+  if (strictHit && schemeMatch && d.hint !== "unknown" && d.hint !== strictHit.encoding) {
+    const base64 = strictHit.encoding === "base64";
+    offer(
+      "scheme-case",
+      `Scheme "${schemeMatch[1]}" implies ${d.hint}, but the code only decodes as ${strictHit.encoding}; ` +
+        `the scheme casing was probably changed by the scanner`,
+      getShortUrl(new ObjectId(strictHit.batchId!), strictHit.index!, { domain: d.domain, base64 })
+    );
+  }
+
+  // O/0, I/1 mix-ups, only when nothing decodes against a registered issuer
+  if (!strictHit && d.shortCode) {
+    const code = d.shortCode;
+    const at = value.lastIndexOf(code);
+    const withCode = (c: string) => value.slice(0, at) + c + value.slice(at + code.length);
+    const candidates: Array<[string, string]> = [
+      [code.replace(/[Oo]/g, "0").replace(/[Iil]/g, "1"), 'Replaced letters "O", "I" and "l" with digits'],
+    ];
+
+    for (const [from, tos] of Object.entries(CONFUSABLE)) {
+      if (!code.includes(from)) continue;
+      for (const to of tos) candidates.push([code.split(from).join(to), `Replaced every "${from}" with "${to}"`]);
+    }
+    for (let i = 0; i < code.length; i++) {
+      for (const to of CONFUSABLE[code[i]] ?? []) {
+        candidates.push([code.slice(0, i) + to + code.slice(i + 1), `Replaced "${code[i]}" at position ${i + 1} with "${to}"`]);
+      }
+    }
+
+    let n = 0;
+    for (const [c, message] of candidates) {
+      if (n >= MAX_CONFUSABLE_SUGGESTIONS) break;
+      if (offer("confusable-chars", message, withCode(c))) n++;
+    }
+  }
+
+  return out;
+}
+
 /* ------------------------------------------------------------------------------------------------
  * Runtime helpers
  * ------------------------------------------------------------------------------------------------ */
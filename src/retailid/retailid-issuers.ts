@@ -0,0 +1,109 @@
+/* retailid-issuers.ts
+ *
+ * Registry of trusted RetailID issuers: which ObjectId hex prefixes and URL domains belong together.
+ * parseRetailId() uses it for "strict" validation, getShortUrl() for the default domain.
+ *
+ * Issuers can be limited to states and/or environments (sandbox labels use their own
+ * prefixes/domains). An issuer without `states`/`environments` applies everywhere.
+ */
+
+import type { MetrcEnvironment, MetrcState } from "../metrc/states";
+
+export interface RetailIdIssuer {
+  /** Unique key; registering the same name again replaces the entry. */
+  name: string;
+  /** ObjectId hex prefixes (starts-with), e.g. "1a4". */
+  prefixes: string[];
+  /** URL hosts this issuer prints; the first one is the default for getShortUrl. */
+  domains: string[];
+  states?: MetrcState[];
+  environments?: MetrcEnvironment[];
+}
+
+/** Narrows the registry to the issuers valid for a state/environment. Omitted fields match any issuer. */
+export interface RetailIdIssuerScope {
+  state?: MetrcState;
+  environment?: MetrcEnvironment;
+}
+
+/** Domain used by getShortUrl when neither EncodeOptions.domain nor a matching issuer provides one */
+export const DEFAULT_RETAILID_DOMAIN = "1a4.com";
+
+const issuers: RetailIdIssuer[] = [{ name: "metrc", prefixes: ["1a4", "abc"], domains: [DEFAULT_RETAILID_DOMAIN] }];
+
+function normalizeIssuer(issuer: RetailIdIssuer): RetailIdIssuer {
+  if (!issuer.name) throw new Error("RetailIdIssuer: name is required");
+  for (const p of issuer.prefixes) {
+    if (!/^[0-9a-fA-F]{1,24}$/.test(p)) throw new Error(`RetailIdIssuer ${issuer.name}: invalid hex prefix "${p}"`);
+  }
+  return {
+    ...issuer,
+    prefixes: issuer.prefixes.map((p) => p.toLowerCase()),
+    domains: issuer.domains.map(normalizeRetailIdDomain),
+    states: issuer.states?.map((s) => s.toUpperCase() as MetrcState),
+  };
+}
+
+/** Lowercases a host and drops a trailing dot and port: "1A4.COM:443" => "1a4.com" */
+export function normalizeRetailIdDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+/**
+ * Adds or replaces an issuer, e.g. for sandbox labels:
+ * registerRetailIdIssuer({ name: "metrc-sandbox", prefixes: ["5b1"], domains: ["sandbox.1a4.com"], environments: ["sandbox"] })
+ */
+export function registerRetailIdIssuer(issuer: RetailIdIssuer): void {
+  const entry = normalizeIssuer(issuer);
+  const i = issuers.findIndex((x) => x.name === entry.name);
+  if (i >= 0) issuers[i] = entry;
+  else issuers.push(entry);
+}
+
+/** Returns false when no issuer had that name. */
+export function unregisterRetailIdIssuer(name: string): boolean {
+  const i = issuers.findIndex((x) => x.name === name);
+  if (i < 0) return false;
+  issuers.splice(i, 1);
+  return true;
+}
+
+function inScope(issuer: RetailIdIssuer, scope?: RetailIdIssuerScope): boolean {
+  if (scope?.state && issuer.states && !issuer.states.includes(scope.state.toUpperCase() as MetrcState)) return false;
+  if (scope?.environment && issuer.environments && !issuer.environments.includes(scope.environment)) return false;
+  return true;
+}
+
+/** Issuers limited to the requested state/environment rank above ones that apply everywhere. */
+function specificity(issuer: RetailIdIssuer, scope?: RetailIdIssuerScope): number {
+  return (scope?.state && issuer.states ? 2 : 0) + (scope?.environment && issuer.environments ? 1 : 0);
+}
+
+/** Registered issuers valid for `scope` (copies), most specific first, then in registration order. */
+export function getRetailIdIssuers(scope?: RetailIdIssuerScope): RetailIdIssuer[] {
+  return issuers
+    .filter((x) => inScope(x, scope))
+    .sort((a, b) => specificity(b, scope) - specificity(a, scope))
+    .map((x) => ({ ...x, prefixes: [...x.prefixes], domains: [...x.domains] }));
+}
+
+/**
+ * Issuer whose prefixes match the ObjectId hex and, when `domain` is given, whose domains include it.
+ * Returns undefined when nothing in scope matches.
+ */
+export function matchRetailIdIssuer(
+  batchHex: string,
+  domain?: string,
+  scope?: RetailIdIssuerScope
+): RetailIdIssuer | undefined {
+  const hex = batchHex.toLowerCase();
+  const host = domain === undefined ? undefined : normalizeRetailIdDomain(domain);
+  return getRetailIdIssuers(scope).find(
+    (x) => x.prefixes.some((p) => hex.startsWith(p)) && (host === undefined || x.domains.includes(host))
+  );
+}
+
+/** First domain of the most specific issuer in scope, or DEFAULT_RETAILID_DOMAIN. */
+export function defaultRetailIdDomain(scope?: RetailIdIssuerScope): string {
+  return getRetailIdIssuers(scope).find((x) => x.domains.length)?.domains[0] ?? DEFAULT_RETAILID_DOMAIN;
+}
@@ -0,0 +1,516 @@
+/* retailid-qr.ts
+ *
+ * Dependency-free QR Code encoder (ISO/IEC 18004, model 2, versions 1-40) for RetailID URLs.
+ *
+ * Mode is picked from the content: the uppercase base36 form (HTTPS://1A4.COM/...) only uses
+ * characters from the QR alphanumeric set, which packs 2 chars into 11 bits instead of 16, so
+ * it fits a smaller symbol than the same URL in byte mode. Legacy base64 URLs (lowercase, -, _)
+ * fall back to byte mode.
+ */
+
+import { EncodeOptions, RetailIdPair } from "./retailid-core";
+
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+export type QrMode = "alphanumeric" | "byte";
+
+export interface QrOptions {
+  /** Default "M" (15% recovery). */
+  errorCorrection?: QrErrorCorrectionLevel;
+  /** Default: "alphanumeric" when every char allows it, else "byte". */
+  mode?: QrMode;
+  /** Smallest/largest version (symbol size) to consider. Default 1..40. */
+  minVersion?: number;
+  maxVersion?: number;
+  /** Force a mask pattern 0-7; by default the lowest-penalty mask is used. */
+  mask?: number;
+}
+
+export interface QrCode {
+  version: number;
+  errorCorrection: QrErrorCorrectionLevel;
+  mode: QrMode;
+  mask: number;
+  /** Modules per side (17 + 4 * version). */
+  size: number;
+  /** modules[y][x], true = dark. Excludes the quiet zone. */
+  modules: boolean[][];
+}
+
+export interface QrSvgOptions {
+  /** Quiet zone in modules. Default 4 (the spec minimum). */
+  margin?: number;
+  /** Pixels per module for the width/height attributes; omitted (viewBox only) by default. */
+  scale?: number;
+  dark?: string;
+  light?: string;
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Tables (index 0 unused; indexed by version)
+ * ------------------------------------------------------------------------------------------------ */
+
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+/** 2-bit EC level field of the format information. */
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+const ALPHANUMERIC_RE = /^[0-9A-Z $%*+\-./:]*$/;
+
+/* ------------------------------------------------------------------------------------------------
+ * Data encoding
+ * ------------------------------------------------------------------------------------------------ */
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) this.bits.push((value >>> i) & 1);
+  }
+}
+
+/** True when `text` can be encoded in alphanumeric mode (e.g. an uppercase base36 RetailID URL). */
+export function isQrAlphanumeric(text: string): boolean {
+  return ALPHANUMERIC_RE.test(text);
+}
+
+function charCountBits(mode: QrMode, version: number): number {
+  if (mode === "alphanumeric") return version <= 9 ? 9 : version <= 26 ? 11 : 13;
+  return version <= 9 ? 8 : 16;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function dataBitLength(mode: QrMode, text: string): number {
+  if (mode === "alphanumeric") return Math.floor(text.length / 2) * 11 + (text.length % 2) * 6;
+  return utf8(text).length * 8;
+}
+
+function appendData(bb: BitBuffer, mode: QrMode, text: string): void {
+  if (mode === "alphanumeric") {
+    let i = 0;
+    for (; i + 1 < text.length; i += 2) {
+      bb.append(ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+    }
+    if (i < text.length) bb.append(ALPHANUMERIC_CHARSET.indexOf(text[i]), 6);
+    return;
+  }
+  for (const b of utf8(text)) bb.append(b, 8);
+}
+
+/** Modules available for data + EC codewords once function patterns are placed. */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, ecl: QrErrorCorrectionLevel): number {
+  return (
+    Math.floor(numRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version]
+  );
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Reed-Solomon over GF(256), polynomial 0x11D
+ * ------------------------------------------------------------------------------------------------ */
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  }
+  return result;
+}
+
+function addEccAndInterleave(data: number[], version: number, ecl: QrErrorCorrectionLevel): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = rsDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0); // placeholder, skipped when interleaving
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Matrix
+ * ------------------------------------------------------------------------------------------------ */
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    case 7: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: throw new RangeError(`Invalid QR mask: ${mask}`);
+  }
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const pos = alignmentPatternPositions(this.version);
+    const last = pos.length - 1;
+    pos.forEach((x, i) =>
+      pos.forEach((y, j) => {
+        // skip the three corners occupied by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(x, y);
+      })
+    );
+
+    this.drawFormatBits("M", 0); // reserves the area; redrawn once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+
+  drawFormatBits(ecl: QrErrorCorrectionLevel, mask: number): void {
+    const data = (FORMAT_BITS[ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const size = this.size;
+
+    // around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    // split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true); // always-dark module
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  drawCodewords(data: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing column
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+          // remainder bits (if any) stay light
+        }
+      }
+    }
+  }
+
+  /** XORs the mask over non-function modules; applying it twice undoes it. */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty(): number {
+    const size = this.size;
+    const m = this.modules;
+    let result = 0;
+
+    // N1: runs of 5+ same-colour modules; N3: finder-like 1:1:3:1:1 with 4 light modules on one side
+    const finderA = [true, false, true, true, true, false, true, false, false, false, false];
+    const finderB = [false, false, false, false, true, false, true, true, true, false, true];
+    const line = (get: (i: number) => boolean) => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) result += 3 + (run - 5);
+        run = 1;
+      }
+      for (let i = 0; i + 11 <= size; i++) {
+        if (finderA.every((v, k) => get(i + k) === v) || finderB.every((v, k) => get(i + k) === v)) result += 40;
+      }
+    };
+    for (let y = 0; y < size; y++) line((x) => m[y][x]);
+    for (let x = 0; x < size; x++) line((y) => m[y][x]);
+
+    // N2: 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) result += 3;
+      }
+    }
+
+    // N4: dark/light balance
+    let dark = 0;
+    for (const row of m) for (const v of row) if (v) dark++;
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + k * 10;
+  }
+}
+
+/* ------------------------------------------------------------------------------------------------
+ * Public API
+ * ------------------------------------------------------------------------------------------------ */
+
+export function encodeQr(text: string, options?: QrOptions): QrCode {
+  const ecl = options?.errorCorrection ?? "M";
+  if (!(ecl in FORMAT_BITS)) throw new RangeError(`Invalid QR error correction level: ${ecl}`);
+
+  const mode: QrMode = options?.mode ?? (isQrAlphanumeric(text) ? "alphanumeric" : "byte");
+  if (mode === "alphanumeric" && !isQrAlphanumeric(text)) {
+    throw new Error(`encodeQr: text contains characters outside the QR alphanumeric set: ${text}`);
+  }
+
+  const minVersion = options?.minVersion ?? 1;
+  const maxVersion = options?.maxVersion ?? 40;
+  if (!Number.isInteger(minVersion) || !Number.isInteger(maxVersion) || minVersion < 1 || maxVersion > 40 || minVersion > maxVersion) {
+    throw new RangeError(`encodeQr: invalid version range ${minVersion}..${maxVersion}`);
+  }
+  if (options?.mask !== undefined && !(Number.isInteger(options.mask) && options.mask >= 0 && options.mask <= 7)) {
+    throw new RangeError(`encodeQr: invalid mask ${options.mask}`);
+  }
+
+  // smallest version that fits
+  const payloadBits = dataBitLength(mode, text);
+  const count = mode === "alphanumeric" ? text.length : utf8(text).length;
+  let version = minVersion;
+  for (; ; version++) {
+    const ccBits = charCountBits(mode, version);
+    if (count < 1 << ccBits && 4 + ccBits + payloadBits <= numDataCodewords(version, ecl) * 8) break;
+    if (version >= maxVersion) {
+      throw new RangeError(
+        `encodeQr: ${count} ${mode} chars do not fit version ${maxVersion} at error correction ${ecl}`
+      );
+    }
+  }
+
+  const bb = new BitBuffer();
+  bb.append(mode === "alphanumeric" ? 0b0010 : 0b0100, 4);
+  bb.append(count, charCountBits(mode, version));
+  appendData(bb, mode, text);
+
+  // terminator, byte alignment, pad codewords
+  const capacity = numDataCodewords(version, ecl) * 8;
+  bb.append(0, Math.min(4, capacity - bb.bits.length));
+  bb.append(0, (8 - (bb.bits.length % 8)) % 8);
+  for (let pad = 0xec; bb.bits.length < capacity; pad ^= 0xec ^ 0x11) bb.append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bb.bits.length; i += 8) {
+    let b = 0;
+    for (let j = 0; j < 8; j++) b = (b << 1) | bb.bits[i + j];
+    data.push(b);
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawCodewords(addEccAndInterleave(data, version, ecl));
+
+  let mask = options?.mask;
+  if (mask === undefined) {
+    let best = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(ecl, candidate);
+      const p = matrix.penalty();
+      if (p < best) {
+        best = p;
+        mask = candidate;
+      }
+      matrix.applyMask(candidate);
+    }
+  }
+  matrix.applyMask(mask!);
+  matrix.drawFormatBits(ecl, mask!);
+
+  return {
+    version,
+    errorCorrection: ecl,
+    mode,
+    mask: mask!,
+    size: matrix.size,
+    modules: matrix.modules.map((row) => row.slice()),
+  };
+}
+
+/** Renders the symbol as a standalone SVG (one path, crisp edges). */
+export function qrToSvg(qr: QrCode, options?: QrSvgOptions): string {
+  const margin = options?.margin ?? 4;
+  if (!Number.isInteger(margin) || margin < 0) throw new RangeError(`qrToSvg: invalid margin ${margin}`);
+  const dim = qr.size + margin * 2;
+  const dark = options?.dark ?? "#000000";
+  const light = options?.light ?? "#ffffff";
+
+  // one subpath per horizontal run of dark modules
+  let d = "";
+  qr.modules.forEach((row, y) => {
+    for (let x = 0; x < qr.size; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (x + 1 < qr.size && row[x + 1]) x++;
+      d += `M${start + margin},${y + margin}h${x - start + 1}v1h-${x - start + 1}z`;
+    }
+  });
+
+  const sizeAttrs = options?.scale ? ` width="${dim * options.scale}" height="${dim * options.scale}"` : "";
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}"${sizeAttrs} shape-rendering="crispEdges">` +
+    `<rect width="${dim}" height="${dim}" fill="${light}"/>` +
+    `<path d="${d}" fill="${dark}"/>` +
+    `</svg>`
+  );
+}
+
+export interface RetailIdQrOptions extends QrOptions {
+  /** Used when encoding a RetailIdPair to its URL (domain, legacy base64). */
+  encode?: EncodeOptions;
+}
+
+/**
+ * QR symbol for a RetailID. Strings are encoded as given (use the URL from getShortUrl);
+ * a RetailIdPair is first encoded with `options.encode`.
+ */
+export function retailIdQr(input: RetailIdPair | string, options?: RetailIdQrOptions): QrCode {
+  const url = input instanceof RetailIdPair ? input.encode(options?.encode) : input.trim();
+  return encodeQr(url, options);
+}
+
+export function retailIdQrSvg(input: RetailIdPair | string, options?: RetailIdQrOptions & QrSvgOptions): string {
+  return qrToSvg(retailIdQr(input, options), options);
+}
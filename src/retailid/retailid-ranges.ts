@@ -0,0 +1,233 @@
+/* retailid-ranges.ts
+ *
+ * Index range utilities for a single RetailID batch (ObjectId).
+ *
+ * Ranges use the same shape as RetailIdReceiveResponse.Ranges: [start, end], both inclusive.
+ * Every operation returns normalized ranges: sorted, non-overlapping, adjacent ranges merged.
+ */
+
+import { RetailIdBatchEncoder } from "./retailid-batch";
+import { EncodeOptions, ObjectId, ParseOptions, RetailIdPair, parseRetailId } from "./retailid-core";
+
+export type RetailIdRange = [number, number];
+
+function assertIndex(n: number, label: string): void {
+  if (!Number.isSafeInteger(n) || n < 0) {
+    throw new TypeError(`${label}: expected a non-negative integer, got ${n}`);
+  }
+}
+
+/** Sorts and merges overlapping/adjacent ranges. Input is not mutated. */
+export function normalizeRanges(ranges: Iterable<readonly [number, number]>): RetailIdRange[] {
+  const sorted: RetailIdRange[] = [];
+  for (const [a, b] of ranges) {
+    assertIndex(a, "normalizeRanges(start)");
+    assertIndex(b, "normalizeRanges(end)");
+    sorted.push(a <= b ? [a, b] : [b, a]);
+  }
+  sorted.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+
+  const out: RetailIdRange[] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], r[1]);
+    } else {
+      out.push([r[0], r[1]]);
+    }
+  }
+  return out;
+}
+
+/** [1, 2, 3, 7, 9, 8] => [[1, 3], [7, 9]] */
+export function compressIndices(indices: Iterable<number>): RetailIdRange[] {
+  const rs: RetailIdRange[] = [];
+  for (const i of indices) {
+    assertIndex(i, "compressIndices");
+    rs.push([i, i]);
+  }
+  return normalizeRanges(rs);
+}
+
+/** Lazily yields every index in the ranges, ascending. */
+export function* expandRanges(ranges: Iterable<readonly [number, number]>): Generator<number, void, undefined> {
+  for (const [a, b] of normalizeRanges(ranges)) {
+    for (let i = a; i <= b; i++) yield i;
+  }
+}
+
+/** Encodes every index in the ranges as a short URL for `batchId`. */
+export function rangesToShortUrls(
+  batchId: ObjectId,
+  ranges: Iterable<readonly [number, number]>,
+  options?: EncodeOptions
+): string[] {
+  const enc = new RetailIdBatchEncoder(batchId, options);
+  const urls: string[] = [];
+  for (const i of expandRanges(ranges)) urls.push(enc.encode(i));
+  return urls;
+}
+
+/** Accepts already-decoded pairs or raw QR URLs / short codes. */
+export type RetailIdLike = RetailIdPair | string;
+
+function toBatchAndIndex(item: RetailIdLike, options?: ParseOptions): { batchId: ObjectId; index: number } {
+  if (item instanceof RetailIdPair) return { batchId: item.batchId, index: item.index };
+  const parsed = parseRetailId(item, options);
+  return { batchId: parsed.batchId, index: parsed.index };
+}
+
+/** Groups RetailIDs by batch ObjectId hex and compresses each group's indices. */
+export function groupRetailIdRanges(items: Iterable<RetailIdLike>, options?: ParseOptions): Map<string, RetailIdRangeSet> {
+  const byBatch = new Map<string, { batchId: ObjectId; indices: number[] }>();
+  for (const item of items) {
+    const { batchId, index } = toBatchAndIndex(item, options);
+    const hex = batchId.toHexString();
+    let g = byBatch.get(hex);
+    if (!g) {
+      g = { batchId, indices: [] };
+      byBatch.set(hex, g);
+    }
+    g.indices.push(index);
+  }
+
+  const out = new Map<string, RetailIdRangeSet>();
+  for (const [hex, g] of byBatch) out.set(hex, RetailIdRangeSet.fromIndices(g.indices, g.batchId));
+  return out;
+}
+
+/**
+ * Compresses RetailIDs that share one batch ObjectId.
+ * Throws if the items span more than one batch (use groupRetailIdRanges for that).
+ */
+export function compressRetailIds(items: Iterable<RetailIdLike>, options?: ParseOptions): RetailIdRangeSet {
+  const groups = groupRetailIdRanges(items, options);
+  if (groups.size === 0) throw new Error("compressRetailIds: no RetailIDs given");
+  if (groups.size > 1) {
+    throw new Error(`compressRetailIds: items span ${groups.size} batches (${[...groups.keys()].join(", ")})`);
+  }
+  return groups.values().next().value as RetailIdRangeSet;
+}
+
+/**
+ * Immutable set of indices stored as normalized ranges, optionally tied to a batch.
+ *
+ * const expected = RetailIdRangeSet.fromRanges(receive.Ranges, batchId);
+ * const scanned = compressRetailIds(scans);
+ * const missing = expected.difference(scanned).toShortUrls();
+ */
+export class RetailIdRangeSet implements Iterable<number> {
+  private readonly ranges: RetailIdRange[];
+
+  private constructor(
+    ranges: RetailIdRange[],
+    readonly batchId?: ObjectId
+  ) {
+    this.ranges = ranges;
+  }
+
+  static fromRanges(ranges: Iterable<readonly [number, number]>, batchId?: ObjectId): RetailIdRangeSet {
+    return new RetailIdRangeSet(normalizeRanges(ranges), batchId);
+  }
+
+  static fromIndices(indices: Iterable<number>, batchId?: ObjectId): RetailIdRangeSet {
+    return new RetailIdRangeSet(compressIndices(indices), batchId);
+  }
+
+  static empty(batchId?: ObjectId): RetailIdRangeSet {
+    return new RetailIdRangeSet([], batchId);
+  }
+
+  /** Number of indices in the set. */
+  get size(): number {
+    return this.ranges.reduce((n, [a, b]) => n + (b - a + 1), 0);
+  }
+
+  get isEmpty(): boolean {
+    return this.ranges.length === 0;
+  }
+
+  toRanges(): RetailIdRange[] {
+    return this.ranges.map(([a, b]) => [a, b]);
+  }
+
+  contains(index: number): boolean {
+    // binary search over sorted, disjoint ranges
+    let lo = 0;
+    let hi = this.ranges.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const [a, b] = this.ranges[mid];
+      if (index < a) hi = mid - 1;
+      else if (index > b) lo = mid + 1;
+      else return true;
+    }
+    return false;
+  }
+
+  /** True when every index of `other` is in this set. */
+  containsAll(other: RetailIdRangeSet): boolean {
+    return other.difference(this).isEmpty;
+  }
+
+  union(other: RetailIdRangeSet): RetailIdRangeSet {
+    this.assertSameBatch(other);
+    return new RetailIdRangeSet(normalizeRanges([...this.ranges, ...other.ranges]), this.batchId ?? other.batchId);
+  }
+
+  intersection(other: RetailIdRangeSet): RetailIdRangeSet {
+    this.assertSameBatch(other);
+    const out: RetailIdRange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this.ranges.length && j < other.ranges.length) {
+      const [a1, b1] = this.ranges[i];
+      const [a2, b2] = other.ranges[j];
+      const a = Math.max(a1, a2);
+      const b = Math.min(b1, b2);
+      if (a <= b) out.push([a, b]);
+      if (b1 < b2) i++;
+      else j++;
+    }
+    return new RetailIdRangeSet(out, this.batchId ?? other.batchId);
+  }
+
+  /** Indices in this set that are not in `other`. */
+  difference(other: RetailIdRangeSet): RetailIdRangeSet {
+    this.assertSameBatch(other);
+    const out: RetailIdRange[] = [];
+    let j = 0;
+    for (const [a0, b] of this.ranges) {
+      let a = a0;
+      while (j < other.ranges.length && other.ranges[j][1] < a) j++;
+      let k = j;
+      while (a <= b && k < other.ranges.length && other.ranges[k][0] <= b) {
+        const [c, d] = other.ranges[k];
+        if (c > a) out.push([a, c - 1]);
+        a = Math.max(a, d + 1);
+        k++;
+      }
+      if (a <= b) out.push([a, b]);
+    }
+    return new RetailIdRangeSet(out, this.batchId);
+  }
+
+  *[Symbol.iterator](): Iterator<number> {
+    yield* expandRanges(this.ranges);
+  }
+
+  /** Short URLs for every index; needs a batchId (here or on construction). */
+  toShortUrls(options?: EncodeOptions & { batchId?: ObjectId }): string[] {
+    const batchId = options?.batchId ?? this.batchId;
+    if (!batchId) throw new Error("RetailIdRangeSet.toShortUrls: no batchId");
+    return rangesToShortUrls(batchId, this.ranges, options);
+  }
+
+  private assertSameBatch(other: RetailIdRangeSet): void {
+    if (this.batchId && other.batchId && !this.batchId.equals(other.batchId)) {
+      throw new Error(
+        `RetailIdRangeSet: batch mismatch (${this.batchId.toHexString()} vs ${other.batchId.toHexString()})`
+      );
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/* retailid-scanner.ts
+ *
+ * Cleans up RetailID scans from handheld scanners in keyboard-wedge mode before parsing.
+ * parseRetailId() runs this when ParseOptions.normalize is set; every change is recorded so a
+ * POS can log scanner misconfiguration instead of asking staff to rescan.
+ */
+
+import { getRetailIdIssuers, normalizeRetailIdDomain } from "./retailid-issuers";
+
+export type ScanChangeKind =
+  | "symbology-id" // AIM prefix such as ]Q1 (QR) or ]d2 (Data Matrix)
+  | "control-chars" // \r\n suffixes, GS (FNC1), NUL, ...
+  | "whitespace"
+  | "scheme-separator" // HTTPS;// HTTPS:\\ HTTPSÖ-- => HTTPS://
+  | "path-separator" // 1A4.COM-CODE => 1A4.COM/CODE
+  | "caps-lock" // HTTPS://1A4.COM/gKbG... => https://1a4.com/GkBg...
+  | "layout"; // opt-in keyboard layout remap (e.g. QWERTZ Y/Z)
+
+export interface ScanChange {
+  kind: ScanChangeKind;
+  description: string;
+  /** Text removed or replaced, when it is a single span. */
+  from?: string;
+  to?: string;
+}
+
+export interface NormalizedScan {
+  /** Raw scanner input. */
+  input: string;
+  /** Cleaned value handed to the parser. */
+  value: string;
+  /** AIM symbology identifier that was stripped, e.g. "]Q1". */
+  symbologyId?: string;
+  changes: ScanChange[];
+}
+
+export interface ScanNormalizationOptions {
+  /**
+   * Host keyboard layout when the scanner is programmed for US QWERTY.
+   * "qwertz" swaps Y and Z back. Default: no remap (the swap is ambiguous in base36 codes).
+   */
+  layout?: "qwertz";
+  /**
+   * Undo an inverted-case scan (scanner with Caps Lock on). Default false: base64 codes are
+   * case-sensitive, so a genuine mixed-case code would be rewritten into a different Retail ID.
+   */
+  repairCapsLock?: boolean;
+}
+
+const SYMBOLOGY_ID = /^\][A-Za-z][0-9A-Za-z]/;
+const CONTROL_CHARS = /[\u0000-\u001f\u007f-\u009f]/g;
+const WHITESPACE = /\s+/g;
+/** Scheme followed by anything that is not "://", up to the first alphanumeric host char. */
+const SCHEME_SEPARATOR = /^(https?)([^A-Za-z0-9]{1,4})(?=[A-Za-z0-9])/i;
+
+function describeChars(s: string): string {
+  return [...s].map((c) => `U+${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`).join(" ");
+}
+
+function swapCase(s: string): string {
+  let out = "";
+  for (const c of s) {
+    const u = c.toUpperCase();
+    out += c === u ? c.toLowerCase() : u;
+  }
+  return out;
+}
+
+/** Strips symbology ids, control chars and whitespace and repairs keyboard-layout damage. Never throws. */
+export function normalizeScannerInput(raw: string, options?: ScanNormalizationOptions): NormalizedScan {
+  const input = String(raw ?? "");
+  const changes: ScanChange[] = [];
+  let value = input;
+  let symbologyId: string | undefined;
+
+  const controls = value.match(CONTROL_CHARS);
+  if (controls) {
+    value = value.replace(CONTROL_CHARS, "");
+    changes.push({
+      kind: "control-chars",
+      description: `Removed ${controls.length} control character(s): ${describeChars(controls.join(""))}`,
+    });
+  }
+
+  value = value.trim(); // leading/trailing whitespace was always ignored; not worth a change entry
+  const sym = value.match(SYMBOLOGY_ID);
+  if (sym) {
+    symbologyId = sym[0];
+    value = value.slice(sym[0].length);
+    changes.push({ kind: "symbology-id", description: `Removed AIM symbology identifier ${sym[0]}`, from: sym[0] });
+  }
+
+  const spaces = value.match(WHITESPACE);
+  if (spaces) {
+    value = value.replace(WHITESPACE, "");
+    changes.push({ kind: "whitespace", description: `Removed ${spaces.join("").length} whitespace character(s)` });
+  }
+
+  const scheme = value.match(SCHEME_SEPARATOR);
+  if (scheme && scheme[2] !== "://") {
+    value = `${scheme[1]}://${value.slice(scheme[0].length)}`;
+    changes.push({
+      kind: "scheme-separator",
+      description: `Replaced "${scheme[2]}" after the scheme with "://"`,
+      from: scheme[2],
+      to: "://",
+    });
+  }
+
+  // A registered domain followed by something other than "/" (e.g. "-" on a QWERTZ host)
+  const afterScheme = value.match(/^[A-Za-z]+:\/\//);
+  if (afterScheme) {
+    const rest = value.slice(afterScheme[0].length);
+    const domains = getRetailIdIssuers().flatMap((i) => i.domains);
+    const host = domains.find((d) => normalizeRetailIdDomain(rest.slice(0, d.length)) === d);
+    const sep = host ? rest.charAt(host.length) : "";
+    if (host && sep && sep !== "/" && !/[A-Za-z0-9]/.test(sep)) {
+      value = afterScheme[0] + rest.slice(0, host.length) + "/" + rest.slice(host.length + 1);
+      changes.push({ kind: "path-separator", description: `Replaced "${sep}" after the domain with "/"`, from: sep, to: "/" });
+    }
+  }
+
+  if (options?.layout === "qwertz" && /[YZyz]/.test(value)) {
+    value = value.replace(/[YZyz]/g, (c) => ({ Y: "Z", Z: "Y", y: "z", z: "y" })[c as "Y" | "Z" | "y" | "z"]);
+    changes.push({ kind: "layout", description: "Swapped Y and Z (QWERTZ host layout)" });
+  }
+
+  // Caps Lock inverts every letter: uppercase scheme/domain with a mixed-case code can only be base64 inverted
+  if (options?.repairCapsLock) {
+    const m = value.match(/^([A-Za-z]+:\/\/)([^/]+)\/(.+)$/);
+    if (m && m[1] === m[1].toUpperCase() && m[2] === m[2].toUpperCase() && /[a-z]/.test(m[3]) && /[A-Z]/.test(m[3])) {
+      value = swapCase(value);
+      changes.push({ kind: "caps-lock", description: "Inverted letter case (scan made with Caps Lock on)" });
+    }
+  }
+
+  return { input, value, symbologyId, changes };
+}
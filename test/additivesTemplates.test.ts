@@ -0,0 +1,94 @@
+// test/additivesTemplates.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { AdditiveTemplateValidationError, FetchLike, MetrcClient, MetrcHttpOptions, MetrcMockServer } from "../src";
+
+const NEEM = { Name: "Neem oil", AdditiveType: "Pesticide", ActiveIngredients: [{ Name: "Azadirachtin", Percentage: 3 }] };
+
+function setup(fetchWrap?: (fetch: FetchLike) => FetchLike, opts: Partial<MetrcHttpOptions> = {}) {
+  const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+  const metrc = new MetrcClient({
+    baseUrl: "https://mock.metrc",
+    integratorApiKey: "i",
+    userApiKey: "u",
+    fetchImpl: fetchWrap ? fetchWrap(mock.fetch) : mock.fetch,
+    ...opts,
+  });
+  return { mock, templates: metrc.forLicense("LIC-1").v2.additivesTemplates };
+}
+
+describe("additivesTemplates.recreateFromArchived", () => {
+  it("creates a new active template and leaves the archived one inactive", async () => {
+    const { mock, templates } = setup();
+    const { Ids: [id] } = await templates.create([NEEM]);
+    await templates.archive(id);
+
+    const { Ids: [copy] } = await templates.recreateFromArchived(id, { Note: "restored" });
+    assert.notEqual(copy, id);
+    assert.equal(mock.getAdditiveTemplate(id)?.active, false);
+    assert.equal(mock.getAdditiveTemplate(copy)?.active, true);
+    assert.equal(mock.getAdditiveTemplate(copy)?.Name, NEEM.Name);
+    assert.equal(mock.getAdditiveTemplate(copy)?.Note, "restored");
+  });
+
+  it("needs overrides.Name when the archived template has none", async () => {
+    // Metrc can return templates without a Name; the mock never stores one, so blank it on the way out
+    const { mock, templates } = setup((fetch) => async (input, init) => {
+      const res = await fetch(input, init);
+      if (init?.method !== "GET" || !/\/additivestemplates\/v2\/\d+/.test(String(input))) return res;
+      return new Response(JSON.stringify({ ...(await res.json()), Name: null }), { status: res.status, headers: res.headers });
+    });
+    const { Ids: [id] } = await templates.create([NEEM]);
+    await templates.archive(id);
+
+    await assert.rejects(templates.recreateFromArchived(id), AdditiveTemplateValidationError);
+    const { Ids: [copy] } = await templates.recreateFromArchived(id, { Name: "Neem oil (restored)" });
+    assert.equal(mock.getAdditiveTemplate(copy)?.Name, "Neem oil (restored)");
+  });
+
+  it("refuses a template that is still active", async () => {
+    const { mock, templates } = setup();
+    const { Ids: [id] } = await templates.create([NEEM]);
+
+    await assert.rejects(templates.recreateFromArchived(id), AdditiveTemplateValidationError);
+    assert.equal(mock.requests.filter((r) => r.method === "POST").length, 1);
+  });
+
+  it("does not send a blank ingredient in place of a missing Percentage", async () => {
+    const { mock, templates } = setup((fetch) => async (input, init) => {
+      const res = await fetch(input, init);
+      if (init?.method !== "GET" || !/\/additivestemplates\/v2\/\d+/.test(String(input))) return res;
+      const t = await res.json();
+      const ActiveIngredients = t.ActiveIngredients.map((i: object) => ({ ...i, Percentage: null }));
+      return new Response(JSON.stringify({ ...t, ActiveIngredients }), { status: res.status, headers: res.headers });
+    });
+    const { Ids: [id] } = await templates.create([NEEM]);
+    await templates.archive(id);
+
+    await assert.rejects(templates.recreateFromArchived(id), AdditiveTemplateValidationError);
+    const { Ids: [copy] } = await templates.recreateFromArchived(id, { ActiveIngredients: NEEM.ActiveIngredients });
+    assert.deepEqual(mock.getAdditiveTemplate(copy)?.ActiveIngredients, NEEM.ActiveIngredients);
+  });
+});
+
+describe("additivesTemplates.create read-back", () => {
+  it("does not take a recent template that differs in any field for the lost one", async () => {
+    const { mock, templates } = setup(undefined, { idempotency: {}, retry: { baseDelayMs: 1, jitter: false } });
+    const { Ids: [first] } = await templates.create([NEEM]);
+
+    mock.inject({ kind: "serverError", path: "/additivestemplates/v2" });
+    const { Ids: [second] } = await templates.create([{ ...NEEM, Note: "second supplier" }]);
+    assert.notEqual(second, first);
+    assert.equal(mock.getAdditiveTemplate(second)?.Note, "second supplier");
+  });
+
+  it("finds the lost template when Metrc applied it", async () => {
+    const { mock, templates } = setup(undefined, { idempotency: {}, retry: { baseDelayMs: 1, jitter: false } });
+    mock.inject({ kind: "serverError", path: "/additivestemplates/v2", applied: true });
+    const { Ids: [id] } = await templates.create([NEEM]);
+    assert.equal(mock.getAdditiveTemplate(id)?.Name, NEEM.Name);
+    assert.equal(mock.getAdditiveTemplate(id + 1), undefined);
+  });
+});
@@ -0,0 +1,58 @@
+// test/cassette.test.ts
+// Records against MetrcMockServer and replays under a different license number.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MetrcCassette, MetrcClient, MetrcMockServer } from "../src";
+
+const KEYS = { integratorApiKey: "integrator-key", userApiKey: "user-key" };
+const LAB_TEST = {
+  Label: "LIC-1-0042",
+  ResultDate: "2026-10-01",
+  DocumentFileName: "coa.pdf",
+  DocumentFileBase64: Buffer.from("%PDF-1.4 mock").toString("base64"),
+  Results: [{ LabTestTypeName: "THC", Quantity: 21.5, Passed: true, Notes: "LIC-10 retest" }],
+};
+
+describe("MetrcCassette", () => {
+  it("aliases license numbers only where they stand as whole tokens", async () => {
+    const mock = new MetrcMockServer({ ...KEYS, licenses: [{ licenseNumber: "LIC-1", name: "LIC-1 Grow (was LIC-10)" }] });
+    const cassette = MetrcCassette.record();
+    const recording = new MetrcClient({ baseUrl: "https://mock.metrc", ...KEYS, fetchImpl: mock.fetch, cassette });
+    await recording.v2.labTests.record("LIC-1", [LAB_TEST]);
+    await recording.facilities();
+
+    const fixture = JSON.stringify(cassette.toJSON());
+    assert.ok(!fixture.includes(KEYS.userApiKey));
+    const [record, facilities] = cassette.toJSON().interactions;
+    const [recorded] = facilities.response.json as { Name: string; DisplayName: string; License: { Number: string } }[];
+    assert.equal(recorded.Name, "LICENSE-1 Grow (was LIC-10)");
+    assert.equal(recorded.License.Number, "LICENSE-1");
+    assert.equal(record.request.query.licenseNumber, "LICENSE-1");
+    assert.deepEqual(record.request.body, [LAB_TEST]);
+
+    const replay = MetrcCassette.replay(JSON.parse(fixture));
+    const replaying = new MetrcClient({ baseUrl: "https://replay", integratorApiKey: "x", userApiKey: "x", cassette: replay });
+    await replaying.v2.labTests.record("LIC-7", [LAB_TEST]);
+    const [facility] = await replaying.facilities();
+
+    assert.equal(facility.License.Number, "LIC-7");
+    assert.equal(facility.Name, "LIC-7 Grow (was LIC-10)");
+    assert.deepEqual(replay.unplayed(), []);
+  });
+
+  it("redacts a license learned late from interactions recorded before it", async () => {
+    const mock = new MetrcMockServer({ ...KEYS, licenses: ["LIC-1", "LIC-2"] });
+    const cassette = MetrcCassette.record();
+    const metrc = new MetrcClient({ baseUrl: "https://mock.metrc", ...KEYS, fetchImpl: mock.fetch, cassette });
+    const entry = { ...LAB_TEST, Results: [{ ...LAB_TEST.Results[0], Notes: "split from LIC-2 stock" }] };
+    await metrc.v2.labTests.record("LIC-1", [entry]);
+    await metrc.facilities(); // first time LIC-2 is seen as a license
+
+    const fixture = JSON.stringify(cassette.toJSON());
+    assert.ok(!/LIC-2\b/.test(fixture));
+    const [record] = cassette.toJSON().interactions;
+    assert.equal((record.request.body as typeof entry[])[0].Results[0].Notes, "split from LICENSE-2 stock");
+  });
+});
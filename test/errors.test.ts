@@ -0,0 +1,83 @@
+// test/errors.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  FetchLike,
+  MetrcApiError,
+  MetrcAuthError,
+  MetrcHttp,
+  MetrcRateLimitError,
+  MetrcServerError,
+  MetrcValidationError,
+  parseRowErrors,
+} from "../src";
+
+function failWith(status: number, body: unknown, headers: Record<string, string> = {}) {
+  const fetchImpl: FetchLike = async () =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+  const http = new MetrcHttp({ baseUrl: "https://stub.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl, retry: false });
+  return (requestBody?: unknown) =>
+    http.request({ method: requestBody ? "POST" : "GET", path: "/things", body: requestBody }).catch((e: unknown) => e);
+}
+
+describe("MetrcApiError subclasses", () => {
+  it("maps each status family to its class", async () => {
+    const cases: Array<[number, new (...args: never[]) => MetrcApiError]> = [
+      [400, MetrcValidationError],
+      [401, MetrcAuthError],
+      [403, MetrcAuthError],
+      [429, MetrcRateLimitError],
+      [500, MetrcServerError],
+      [503, MetrcServerError],
+    ];
+    for (const [status, cls] of cases) {
+      const err = await failWith(status, { Message: "nope" })();
+      assert.ok(err instanceof cls, `${status} should be ${cls.name}`);
+      assert.equal((err as MetrcApiError).status, status);
+    }
+
+    const notFound = await failWith(404, { Message: "missing" })();
+    assert.equal((notFound as Error).constructor, MetrcApiError);
+    assert.equal((notFound as MetrcApiError).url, "https://stub.metrc/things");
+  });
+
+  it("ties 400 row errors to the submitted entries", async () => {
+    const body = [{ Label: "A" }, { Label: "B" }];
+    const err = await failWith(400, [{ row: 1, message: "Label B is not valid." }])(body);
+
+    assert.ok(err instanceof MetrcValidationError);
+    assert.deepEqual(err.rowErrors, [{ row: 1, message: "Label B is not valid.", entry: { Label: "B" } }]);
+    assert.deepEqual(err.forRow(0), []);
+    assert.match(err.message, /row 1: Label B is not valid\./);
+  });
+
+  it("summarizes at most three row errors in the message", async () => {
+    const rows = [0, 1, 2, 3, 4].map((row) => ({ row, message: `bad ${row}` }));
+    const err = (await failWith(400, rows)([{}, {}, {}, {}, {}])) as MetrcValidationError;
+    assert.equal(err.rowErrors.length, 5);
+    assert.equal(err.message, "Metrc API error 400: row 0: bad 0; row 1: bad 1; row 2: bad 2 (+2 more)");
+  });
+
+  it("carries Retry-After on a rate limit error", async () => {
+    const err = await failWith(429, { Message: "slow down" }, { "Retry-After": "7" })();
+    assert.ok(err instanceof MetrcRateLimitError);
+    assert.equal(err.retryAfterMs, 7000);
+  });
+});
+
+describe("parseRowErrors", () => {
+  it("accepts either casing and a single Message object", () => {
+    assert.deepEqual(parseRowErrors([{ Row: 0, Message: "x" }]), [{ row: 0, message: "x", entry: undefined }]);
+    assert.deepEqual(parseRowErrors({ Message: "whole request" }), [{ row: null, message: "whole request", entry: undefined }]);
+  });
+
+  it("skips entries without a message and non-integer rows", () => {
+    assert.deepEqual(parseRowErrors([{ row: 0 }, { row: 1.5, message: "m" }, "text", null]), [
+      { row: null, message: "m", entry: undefined },
+    ]);
+    assert.deepEqual(parseRowErrors("Bad request"), []);
+    assert.deepEqual(parseRowErrors(undefined), []);
+  });
+});
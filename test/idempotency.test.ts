@@ -0,0 +1,162 @@
+// test/idempotency.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { FetchLike, MemoryIdempotencyStore, MetrcClient, MetrcMockServer, ObjectId, getShortUrl, withIdempotency } from "../src";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function counted<T>(result: T, applied = false) {
+  const calls = { submit: 0, confirm: 0 };
+  return {
+    calls,
+    submit: async () => (calls.submit++, result),
+    confirm: async () => (calls.confirm++, applied ? { applied: true as const, result } : { applied: false as const }),
+  };
+}
+
+describe("withIdempotency", () => {
+  it("always reads back a pending key, however old", async () => {
+    const store = new MemoryIdempotencyStore();
+    const startedAt = new Date(Date.now() - 7 * DAY).toISOString();
+    await store.set("k", { key: "k", operation: "op", state: "pending", startedAt, attempts: 1 });
+
+    const c = counted("stored", true);
+    const res = await withIdempotency({ store, ttlMs: DAY }, { operation: "op", body: {}, opts: { idempotencyKey: "k" }, ...c });
+    assert.equal(res, "stored");
+    assert.deepEqual(c.calls, { submit: 0, confirm: 1 });
+    assert.equal((await store.get("k"))?.state, "committed");
+  });
+
+  it("expires committed keys after ttlMs", async () => {
+    const store = new MemoryIdempotencyStore();
+    const old = new Date(Date.now() - 2 * DAY).toISOString();
+    await store.set("k", { key: "k", operation: "op", state: "committed", startedAt: old, completedAt: old, attempts: 1, result: "old" });
+
+    const c = counted("new");
+    assert.equal(await withIdempotency({ store, ttlMs: DAY }, { operation: "op", body: {}, opts: { idempotencyKey: "k" }, ...c }), "new");
+    assert.deepEqual(c.calls, { submit: 1, confirm: 0 });
+  });
+
+  it("replays a committed caller key without resubmitting", async () => {
+    const store = new MemoryIdempotencyStore();
+    const c = counted("once");
+    const call = { operation: "op", body: {}, opts: { idempotencyKey: "k" }, ...c };
+    await withIdempotency({ store }, call);
+    assert.equal(await withIdempotency({ store }, call), "once");
+    assert.deepEqual(c.calls, { submit: 1, confirm: 0 });
+  });
+
+  it("submits an identical body again once a derived key has committed", async () => {
+    const store = new MemoryIdempotencyStore();
+    const c = counted("again");
+    const call = { operation: "op", body: { a: 1 }, ...c };
+    await withIdempotency({ store }, call);
+    await withIdempotency({ store }, call);
+    assert.deepEqual(c.calls, { submit: 2, confirm: 0 });
+  });
+
+  it("joins concurrent calls for the same key", async () => {
+    const store = new MemoryIdempotencyStore();
+    let release!: () => void;
+    let started!: () => void;
+    const submitted = new Promise<void>((r) => (started = r));
+    let submits = 0;
+    const call = {
+      operation: "op",
+      body: { a: 1 },
+      opts: { idempotencyKey: "k" },
+      submit: async () => {
+        submits++;
+        started();
+        await new Promise<void>((r) => (release = r));
+        return submits;
+      },
+      confirm: async () => ({ applied: false as const }),
+    };
+    const both = Promise.all([withIdempotency({ store }, call), withIdempotency({ store }, call)]);
+    await submitted;
+    release();
+    assert.deepEqual(await both, [1, 1]);
+    assert.equal(submits, 1);
+  });
+});
+
+describe("labTests.record read-back", () => {
+  const entry = (Passed: boolean) => ({
+    Label: "PKG-1",
+    ResultDate: "2026-10-01",
+    DocumentFileName: "coa.pdf",
+    DocumentFileBase64: Buffer.from("%PDF-1.4 mock").toString("base64"),
+    Results: [{ LabTestTypeName: "THC", Quantity: 21.5, Passed, Notes: "" }],
+  });
+
+  function client(mock: MetrcMockServer, fetchImpl: FetchLike = mock.fetch) {
+    return new MetrcClient({
+      baseUrl: "https://mock.metrc",
+      integratorApiKey: "i",
+      userApiKey: "u",
+      fetchImpl,
+      retry: { baseDelayMs: 1, jitter: false },
+      idempotency: {},
+    });
+  }
+
+  it("does not take an earlier identical result for the lost retest", async () => {
+    const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+    const metrc = client(mock);
+    await metrc.v2.labTests.record("LIC-1", [entry(true)]);
+
+    // same package, type and day, but the retest never reached Metrc
+    mock.inject({ kind: "serverError", path: "/labtests/v2/record" });
+    await metrc.v2.labTests.record("LIC-1", [entry(true)]);
+    assert.equal(mock.getLabTestResults("PKG-1").length, 2);
+  });
+
+  it("does not take a result with another outcome for the submitted one", async () => {
+    const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+    const other = client(mock);
+    // a failing result for the same test lands between the lost attempt and its read-back
+    let landed = false;
+    const metrc = client(mock, async (input, init) => {
+      const res = await mock.fetch(input, init);
+      if (res.status === 500 && !landed) {
+        landed = true;
+        await other.v2.labTests.record("LIC-1", [entry(false)]);
+      }
+      return res;
+    });
+    mock.inject({ kind: "serverError", path: "/labtests/v2/record" });
+    await metrc.v2.labTests.record("LIC-1", [entry(true)]);
+    assert.deepEqual(mock.getLabTestResults("PKG-1").map((r) => r.TestPassed), [false, true]);
+  });
+});
+
+describe("retailId.associate read-back", () => {
+  it("does not mistake codes from another batch for the submitted ones", async () => {
+    const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+    const metrc = new MetrcClient({
+      baseUrl: "https://mock.metrc",
+      integratorApiKey: "i",
+      userApiKey: "u",
+      fetchImpl: mock.fetch,
+      retry: { baseDelayMs: 1, jitter: false },
+      idempotency: {},
+    });
+    const urls = async () => {
+      const { IssuanceId } = await metrc.v2.retailId.generate("LIC-1", { PackageLabel: "PKG-1", Quantity: 3 });
+      return { IssuanceId, urls: [1, 2, 3].map((i) => getShortUrl(new ObjectId(IssuanceId), i)) };
+    };
+    const first = await urls();
+    const second = await urls();
+    await metrc.v2.retailId.associate("LIC-1", [{ PackageLabel: "PKG-1", QrUrls: first.urls }]);
+
+    // the lost attempt was not applied; indexes 1-3 of the first batch must not count as a match
+    mock.inject({ kind: "serverError", path: "/retailid/v2/associate" });
+    await metrc.v2.retailId.associate("LIC-1", [{ PackageLabel: "PKG-1", QrUrls: second.urls }]);
+
+    assert.deepEqual(mock.getRetailIdRanges("PKG-1").get(second.IssuanceId), [[1, 3]]);
+    assert.equal(mock.requests.filter((r) => r.path === "/retailid/v2/associate").length, 3);
+  });
+});
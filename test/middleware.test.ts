@@ -0,0 +1,109 @@
+// test/middleware.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { FetchLike, MetrcApiError, MetrcClient, MetrcHttp, MetrcMiddleware } from "../src";
+
+function recordingFetch(status = 200) {
+  const sent: Array<{ url: string; method?: string; headers: Headers; body?: string }> = [];
+  const fetchImpl: FetchLike = async (input, init) => {
+    sent.push({ url: String(input), method: init?.method, headers: new Headers(init?.headers), body: init?.body as string | undefined });
+    return new Response(JSON.stringify({ status }), { status, headers: { "Content-Type": "application/json" } });
+  };
+  return { sent, fetchImpl };
+}
+
+function client(fetchImpl: FetchLike, middleware?: MetrcMiddleware[]) {
+  return new MetrcHttp({
+    baseUrl: "https://stub.metrc",
+    integratorApiKey: "i",
+    userApiKey: "u",
+    fetchImpl,
+    middleware,
+    retry: { baseDelayMs: 1, jitter: false },
+  });
+}
+
+describe("MetrcHttp middleware", () => {
+  it("runs options middleware, then use()d middleware, as an onion", async () => {
+    const order: string[] = [];
+    const tag = (name: string): MetrcMiddleware => async (_ctx, next) => {
+      order.push(`${name}>`);
+      const res = await next();
+      order.push(`<${name}`);
+      return res;
+    };
+    const { fetchImpl } = recordingFetch();
+    const http = client(fetchImpl, [tag("a"), tag("b")]).use(tag("c"));
+
+    await http.request({ method: "GET", path: "/things" });
+    assert.deepEqual(order, ["a>", "b>", "c>", "<c", "<b", "<a"]);
+  });
+
+  it("sends what middleware changed before next()", async () => {
+    const { sent, fetchImpl } = recordingFetch();
+    const http = client(fetchImpl).use(async (ctx, next) => {
+      ctx.path = "/other";
+      ctx.query.extra = "1";
+      ctx.headers["X-Correlation-Id"] = "abc";
+      ctx.body = [{ rewritten: true }];
+      return next();
+    });
+
+    await http.request({ method: "POST", path: "/things", licenseNumber: "LIC-1", body: [{}] });
+    assert.equal(sent[0].url, "https://stub.metrc/other?licenseNumber=LIC-1&extra=1");
+    assert.equal(sent[0].headers.get("X-Correlation-Id"), "abc");
+    assert.equal(sent[0].body, JSON.stringify([{ rewritten: true }]));
+  });
+
+  it("wraps the whole call once, retries included", async () => {
+    let calls = 0;
+    const statuses = [503, 200];
+    const fetchImpl: FetchLike = async () =>
+      new Response("{}", { status: statuses[calls++], headers: { "Content-Type": "application/json" } });
+    let seen = 0;
+    await client(fetchImpl).use(async (_ctx, next) => (seen++, next())).request({ method: "GET", path: "/things" });
+    assert.equal(calls, 2);
+    assert.equal(seen, 1);
+  });
+
+  it("can answer without calling Metrc and replace results or errors", async () => {
+    const { sent, fetchImpl } = recordingFetch(404);
+    const http = client(fetchImpl).use(async (ctx, next) => {
+      if (ctx.path === "/cached") return { cached: true };
+      try {
+        return await next();
+      } catch (err) {
+        if (err instanceof MetrcApiError && err.status === 404) return null;
+        throw err;
+      }
+    });
+
+    assert.deepEqual(await http.request({ method: "GET", path: "/cached" }), { cached: true });
+    assert.equal(sent.length, 0);
+    assert.equal(await http.request({ method: "GET", path: "/missing" }), null);
+    assert.equal(sent.length, 1);
+  });
+
+  it("rejects a second next() from the same middleware", async () => {
+    const { sent, fetchImpl } = recordingFetch();
+    const http = client(fetchImpl).use(async (_ctx, next) => {
+      await next();
+      return next();
+    });
+    await assert.rejects(http.request({ method: "GET", path: "/things" }), /next\(\) more than once/);
+    assert.equal(sent.length, 1);
+  });
+
+  it("is shared by MetrcClient.use with every resource", async () => {
+    const { sent, fetchImpl } = recordingFetch();
+    const metrc = new MetrcClient({ baseUrl: "https://stub.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl });
+    metrc.use(async (ctx, next) => {
+      ctx.headers["X-Tenant"] = "t1";
+      return next();
+    });
+    await metrc.v2.labTests.getStates();
+    assert.equal(sent[0].headers.get("X-Tenant"), "t1");
+  });
+});
@@ -0,0 +1,139 @@
+// test/mockServer.test.ts
+// Drives MetrcClient end to end through MetrcMockServer: routes, every fault kind, and read-back after an applied fault.
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+
+import {
+  MetrcAuthError,
+  MetrcClient,
+  MetrcHttpOptions,
+  MetrcMockServer,
+  MetrcServerError,
+  MetrcValidationError,
+  ObjectId,
+  getShortUrl,
+} from "../src";
+
+const KEYS = { integratorApiKey: "integrator", userApiKey: "user" };
+const PDF = Buffer.from("%PDF-1.4 mock").toString("base64");
+
+function labEntry(label: string) {
+  return {
+    Label: label,
+    ResultDate: "2026-10-01",
+    DocumentFileName: "coa.pdf",
+    DocumentFileBase64: PDF,
+    Results: [{ LabTestTypeName: "THC", Quantity: 21.5, Passed: true, Notes: "" }],
+  };
+}
+
+describe("MetrcMockServer", () => {
+  let mock: MetrcMockServer;
+  let client: (extra?: Partial<MetrcHttpOptions>) => MetrcClient;
+
+  beforeEach(() => {
+    mock = new MetrcMockServer({ ...KEYS, licenses: ["LIC-1", "LIC-2"] });
+    client = (extra = {}) =>
+      new MetrcClient({
+        baseUrl: "https://mock.metrc",
+        ...KEYS,
+        fetchImpl: mock.fetch,
+        timeoutMs: 50,
+        retry: { baseDelayMs: 1, maxDelayMs: 5, jitter: false },
+        ...extra,
+      });
+  });
+
+  const statuses = () => mock.requests.map((r) => `${r.status}${r.fault ? ` ${r.fault}` : ""}`);
+
+  it("lists facilities and rejects unknown keys and licenses", async () => {
+    const facilities = await client().facilities();
+    assert.deepEqual(facilities.map((f) => f.License.Number), ["LIC-1", "LIC-2"]);
+
+    const wrongKeys = new MetrcClient({ baseUrl: "https://mock.metrc", integratorApiKey: "x", userApiKey: "y", fetchImpl: mock.fetch });
+    await assert.rejects(wrongKeys.facilities(), MetrcAuthError);
+    await assert.rejects(client().forLicense("LIC-9").v2.labTests.record([labEntry("PKG-1")]), MetrcAuthError);
+  });
+
+  it("keeps lab test state between calls", async () => {
+    const la = client().forLicense("LIC-1");
+    await la.v2.labTests.record([labEntry("PKG-1")]);
+    assert.equal(mock.getLabTestResults("PKG-1").length, 1);
+
+    const types = await la.v2.labTests.getTypes({ pageNumber: 1, pageSize: 2 });
+    assert.equal(types.Data.length, 2);
+    assert.ok(types.TotalPages > 1);
+  });
+
+  it("retries a 429 after Retry-After", async () => {
+    mock.inject({ kind: "rateLimit", retryAfterSeconds: 1 });
+    await client().v2.labTests.getStates();
+    assert.deepEqual(statuses(), ["429 rateLimit", "200"]);
+  });
+
+  it("retries 5xx and surfaces MetrcServerError once retries run out", async () => {
+    mock.inject({ kind: "serverError", status: 503 });
+    await client().v2.labTests.getStates();
+    assert.deepEqual(statuses(), ["503 serverError", "200"]);
+
+    mock.inject({ kind: "serverError", times: Infinity });
+    await assert.rejects(client({ retry: false }).v2.labTests.getStates(), MetrcServerError);
+    mock.clearFaults();
+  });
+
+  it("aborts a hung request after timeoutMs and retries it", async () => {
+    mock.inject({ kind: "timeout" });
+    assert.ok((await client().v2.labTests.getStates()).length > 0);
+    assert.equal(mock.requests.length, 2);
+    assert.equal(mock.requests[0].fault, "timeout");
+  });
+
+  it("retries network errors", async () => {
+    mock.inject({ kind: "network", times: 2 });
+    await client().v2.labTests.getStates();
+    assert.equal(mock.requests.filter((r) => r.fault === "network").length, 2);
+    assert.equal(mock.requests.length, 3);
+  });
+
+  it("maps validation faults to row errors", async () => {
+    mock.inject({ kind: "validation", path: "/labtests/v2/record", rowErrors: [{ row: 0, message: "Bad result." }] });
+    const err = await client().v2.labTests.record("LIC-1", [labEntry("PKG-1")]).catch((e) => e);
+    assert.ok(err instanceof MetrcValidationError);
+    assert.equal(err.forRow(0)[0]?.message, "Bad result.");
+    assert.equal(mock.getLabTestResults("PKG-1").length, 0);
+  });
+
+  describe("applied faults with idempotency", () => {
+    it("confirms a lab test record whose response was lost instead of resubmitting", async () => {
+      mock.inject({ kind: "timeout", path: "/labtests/v2/record", applied: true });
+      await client({ idempotency: {} }).v2.labTests.record("LIC-1", [labEntry("PKG-1")]);
+
+      assert.equal(mock.getLabTestResults("PKG-1").length, 1);
+      assert.equal(mock.requests.filter((r) => r.method === "POST").length, 1);
+    });
+
+    it("confirms an additive template create after a network error", async () => {
+      mock.inject({ kind: "network", method: "POST", path: "/additivestemplates", applied: true });
+      const res = await client({ idempotency: {} }).v2.additivesTemplates.create("LIC-1", [
+        { Name: "Neem oil", AdditiveType: "Pesticide", ActiveIngredients: [{ Name: "Azadirachtin", Percentage: 3 }] },
+      ]);
+
+      assert.equal(res.Ids.length, 1);
+      assert.equal(mock.getAdditiveTemplate(res.Ids[0])?.Name, "Neem oil");
+      assert.equal(mock.requests.filter((r) => r.method === "POST").length, 1);
+    });
+
+    it("confirms a Retail ID associate after a 5xx", async () => {
+      const metrc = client({ idempotency: {} });
+      const { IssuanceId } = await metrc.v2.retailId.generate("LIC-1", { PackageLabel: "PKG-1", Quantity: 3 });
+      const urls = [1, 2, 3].map((i) => getShortUrl(new ObjectId(IssuanceId), i));
+
+      mock.inject({ kind: "serverError", status: 502, path: "/retailid/v2/associate", applied: true });
+      await metrc.v2.retailId.associate("LIC-1", [{ PackageLabel: "PKG-1", QrUrls: urls }]);
+
+      assert.deepEqual(mock.getRetailIdRanges("PKG-1").get(IssuanceId), [[1, 3]]);
+      assert.equal(mock.requests.filter((r) => r.path === "/retailid/v2/associate").length, 1);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// test/pagination.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MetrcPage, PageRequest, collectAll, paginate } from "../src";
+
+/** Serves `total` numbered records in Metrc's paged envelope and records the pages asked for. */
+function pagedSource(total: number) {
+  const requests: PageRequest[] = [];
+  const fetchPage = async ({ pageNumber, pageSize }: PageRequest): Promise<MetrcPage<number>> => {
+    requests.push({ pageNumber, pageSize });
+    const all = Array.from({ length: total }, (_, i) => i + 1);
+    const Data = all.slice((pageNumber - 1) * pageSize, pageNumber * pageSize);
+    return { Data, Total: total, TotalPages: Math.ceil(total / pageSize), PageSize: pageSize, RecordsOnPage: Data.length };
+  };
+  return { requests, fetchPage };
+}
+
+describe("paginate", () => {
+  it("walks every page and stops after TotalPages", async () => {
+    const { requests, fetchPage } = pagedSource(45);
+    const records = await collectAll(paginate(fetchPage));
+    assert.equal(records.length, 45);
+    assert.deepEqual(requests.map((r) => r.pageNumber), [1, 2, 3]);
+    assert.ok(requests.every((r) => r.pageSize === 20));
+  });
+
+  it("stops on a full last page without asking for an empty one", async () => {
+    const { requests, fetchPage } = pagedSource(40);
+    assert.equal((await collectAll(paginate(fetchPage))).length, 40);
+    assert.equal(requests.length, 2);
+  });
+
+  it("stops on a short page when TotalPages is missing", async () => {
+    let calls = 0;
+    const fetchPage = async ({ pageSize }: PageRequest) => {
+      calls++;
+      const Data = Array.from({ length: calls === 1 ? pageSize : 3 }, (_, i) => i);
+      return { Data, Total: NaN, TotalPages: NaN, PageSize: pageSize, RecordsOnPage: Data.length };
+    };
+    assert.equal((await collectAll(paginate(fetchPage, { pageSize: 5 }))).length, 8);
+    assert.equal(calls, 2);
+  });
+
+  it("yields a bare array response once", async () => {
+    let calls = 0;
+    const records = await collectAll(paginate(async () => (calls++, ["a", "b"])));
+    assert.deepEqual(records, ["a", "b"]);
+    assert.equal(calls, 1);
+  });
+
+  it("honours startPage and maxPages", async () => {
+    const { requests, fetchPage } = pagedSource(100);
+    const records = await collectAll(paginate(fetchPage, { startPage: 2, maxPages: 2, pageSize: 10 }));
+    assert.deepEqual(records, Array.from({ length: 20 }, (_, i) => i + 11));
+    assert.deepEqual(requests.map((r) => r.pageNumber), [2, 3]);
+  });
+
+  it("rejects a pageSize Metrc would not page with", async () => {
+    for (const pageSize of [0, 21, 2.5]) {
+      await assert.rejects(collectAll(paginate(async () => [], { pageSize })), RangeError);
+    }
+  });
+
+  it("stops early when the consumer breaks out", async () => {
+    const { requests, fetchPage } = pagedSource(100);
+    for await (const n of paginate(fetchPage)) if (n === 5) break;
+    assert.equal(requests.length, 1);
+  });
+});
@@ -0,0 +1,138 @@
+// test/qr.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ObjectId, QrCode, encodeQr, getShortUrl, isQrAlphanumeric, qrToSvg, retailIdQr, retailIdQrSvg } from "../src";
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Reads the first copy of the format information: [EC level bits, mask], after checking its BCH code. */
+function readFormat(qr: QrCode): { ecBits: number; mask: number } {
+  const at = (x: number, y: number) => (qr.modules[y][x] ? 1 : 0);
+  const cells: Array<[number, number]> = [];
+  for (let i = 0; i <= 5; i++) cells.push([8, i]);
+  cells.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) cells.push([14 - i, 8]);
+  let raw = 0;
+  cells.forEach(([x, y], i) => (raw |= at(x, y) << i));
+  raw ^= 0x5412;
+
+  let rem = raw;
+  for (let i = 14; i >= 10; i--) if ((rem >>> i) & 1) rem ^= 0x537 << (i - 10);
+  assert.equal(rem, 0, "format information fails its BCH check");
+  return { ecBits: raw >>> 13, mask: (raw >>> 10) & 7 };
+}
+
+/** Unmasks a version 1 symbol and reads its 26 codewords in placement order. */
+function readVersion1Codewords(qr: QrCode): number[] {
+  assert.equal(qr.size, 21);
+  const { mask } = readFormat(qr);
+  const isFunction = (x: number, y: number) =>
+    (x < 9 && y < 9) || (x >= 13 && y < 9) || (x < 9 && y >= 13) || x === 6 || y === 6;
+  const bits: number[] = [];
+  for (let right = 20; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < 21; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? 20 - vert : vert;
+        if (isFunction(x, y)) continue;
+        bits.push(qr.modules[y][x] !== MASKS[mask](x, y) ? 1 : 0);
+      }
+    }
+  }
+  const out: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) out.push(bits.slice(i, i + 8).reduce((b, v) => (b << 1) | v, 0));
+  return out;
+}
+
+describe("encodeQr", () => {
+  it("produces the reference codewords for HELLO WORLD at 1-M with every mask", () => {
+    // data and error correction codewords of the well-known worked example
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    const ecc = [196, 35, 39, 119, 235, 215, 231, 226, 93, 23];
+    for (let mask = 0; mask < 8; mask++) {
+      const qr = encodeQr("HELLO WORLD", { errorCorrection: "M", mask });
+      assert.equal(qr.version, 1);
+      assert.equal(qr.mode, "alphanumeric");
+      assert.deepEqual(readFormat(qr), { ecBits: 0b00, mask });
+      assert.deepEqual(readVersion1Codewords(qr), [...data, ...ecc]);
+    }
+  });
+
+  it("picks a mask by itself and records it in the format information", () => {
+    const qr = encodeQr("HELLO WORLD", { errorCorrection: "Q" });
+    assert.deepEqual(readFormat(qr), { ecBits: 0b11, mask: qr.mask });
+  });
+
+  it("draws finder patterns in three corners", () => {
+    const qr = encodeQr("HTTPS://1A4.COM/ABC");
+    const finderAt = (x0: number, y0: number) => {
+      for (let y = 0; y < 7; y++) {
+        for (let x = 0; x < 7; x++) {
+          const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+          assert.equal(qr.modules[y0 + y][x0 + x], ring !== 2, `finder at ${x0},${y0}`);
+        }
+      }
+    };
+    finderAt(0, 0);
+    finderAt(qr.size - 7, 0);
+    finderAt(0, qr.size - 7);
+    assert.equal(qr.size, 17 + 4 * qr.version);
+  });
+
+  it("uses alphanumeric mode for uppercase base36 URLs and byte mode otherwise", () => {
+    const batch = new ObjectId("1a4000000000000000000042");
+    const upper = getShortUrl(batch, 12345).toUpperCase();
+    assert.ok(isQrAlphanumeric(upper));
+    assert.equal(retailIdQr(upper).mode, "alphanumeric");
+    assert.equal(encodeQr(upper.toLowerCase()).mode, "byte");
+    assert.ok(retailIdQr(upper).version <= encodeQr(upper.toLowerCase()).version);
+  });
+
+  it("grows the symbol with the error correction level and the payload", () => {
+    const text = "HTTPS://1A4.COM/" + "A".repeat(60);
+    const versions = (["L", "M", "Q", "H"] as const).map((errorCorrection) => encodeQr(text, { errorCorrection }).version);
+    assert.deepEqual([...versions].sort((a, b) => a - b), versions);
+    assert.ok(versions[3] > versions[0]);
+    assert.equal(encodeQr("A", { minVersion: 5 }).version, 5);
+  });
+
+  it("rejects bad options and payloads that do not fit", () => {
+    assert.throws(() => encodeQr("abc", { mode: "alphanumeric" }), /alphanumeric/);
+    assert.throws(() => encodeQr("A", { mask: 8 }), RangeError);
+    assert.throws(() => encodeQr("A", { minVersion: 3, maxVersion: 2 }), RangeError);
+    assert.throws(() => encodeQr("A".repeat(100), { maxVersion: 2 }), RangeError);
+  });
+});
+
+describe("qrToSvg", () => {
+  it("adds the quiet zone and draws one run per horizontal stretch of dark modules", () => {
+    const qr = encodeQr("HELLO WORLD", { errorCorrection: "M", mask: 0 });
+    const svg = qrToSvg(qr, { margin: 2, scale: 3, dark: "#111" });
+    const dim = qr.size + 4;
+    assert.ok(svg.startsWith(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" width="${dim * 3}"`));
+    assert.match(svg, /fill="#111"/);
+
+    let runs = 0;
+    for (const row of qr.modules) row.forEach((v, x) => (runs += v && !row[x - 1] ? 1 : 0));
+    assert.equal(svg.match(/M\d+,\d+h\d+v1h-\d+z/g)?.length, runs);
+    assert.ok(svg.includes("M2,2h7v1h-7z")); // top row of the top-left finder
+  });
+
+  it("renders a Retail ID in one call", () => {
+    const url = getShortUrl(new ObjectId("1a4000000000000000000042"), 7).toUpperCase();
+    assert.equal(retailIdQrSvg(url), qrToSvg(retailIdQr(url)));
+    assert.throws(() => qrToSvg(retailIdQr(url), { margin: -1 }), RangeError);
+  });
+});
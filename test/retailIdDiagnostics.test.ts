@@ -0,0 +1,70 @@
+// test/retailIdDiagnostics.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ObjectId, diagnoseRetailId, getShortUrl } from "../src";
+
+const BATCH = new ObjectId("1a4000000000000000000042");
+const URL = getShortUrl(BATCH, 1234); // HTTPS://1A4.COM/13TUBF8B8VIGX8504XA6TL
+
+const outcomes = (input: string) => diagnoseRetailId(input).attempts.map((a) => [a.encoding, a.mode, a.ok ? "ok" : a.reason]);
+
+describe("diagnoseRetailId", () => {
+  it("reports every encoding and validation mode, hinted encoding first", () => {
+    const d = diagnoseRetailId(URL);
+    assert.equal(d.result?.index, 1234);
+    assert.equal(d.hint, "base36");
+    assert.equal(d.domain, "1A4.COM");
+    assert.deepEqual(d.attempts[0], { encoding: "base36", mode: "strict", ok: true, batchId: BATCH.toHexString(), index: 1234, issuer: "metrc" });
+    assert.deepEqual(
+      d.attempts.map((a) => `${a.encoding}/${a.mode}`),
+      ["base36/strict", "base36/mongo", "base36/any", "base64/strict", "base64/mongo", "base64/any"]
+    );
+    assert.deepEqual(d.suggestions, []);
+  });
+
+  it("names the failure reason of each attempt", () => {
+    assert.deepEqual(outcomes(getShortUrl(BATCH, 5, { domain: "labels.example" })).slice(0, 3), [
+      ["base36", "strict", "unregistered-domain"],
+      ["base36", "mongo", "invalid-timestamp"],
+      ["base36", "any", "ok"],
+    ]);
+    assert.deepEqual(outcomes("HTTPS://1A4.COM/12")[0], ["base36", "strict", "too-short"]);
+    assert.equal(diagnoseRetailId(URL.replace("/13T", "/I3T")).attempts[0].reason, "unknown-prefix");
+  });
+
+  it("never throws, even for input with nothing to decode", () => {
+    const empty = diagnoseRetailId("");
+    assert.ok(empty.error);
+    assert.deepEqual(empty.attempts, []);
+    assert.deepEqual(diagnoseRetailId("https://1a4.com/").attempts, []);
+  });
+
+  it("suggests the issuer's domain for a known prefix under another domain", () => {
+    const [s] = diagnoseRetailId(getShortUrl(BATCH, 5, { domain: "labels.example" })).suggestions;
+    assert.equal(s.kind, "domain");
+    assert.equal(s.candidate, getShortUrl(BATCH, 5));
+    assert.equal(s.parsed.index, 5);
+  });
+
+  it("suggests digits for letters a scanner or a person mixed up", () => {
+    const [s] = diagnoseRetailId(URL.replace("/13T", "/I3T")).suggestions;
+    assert.equal(s.kind, "confusable-chars");
+    assert.equal(s.candidate, URL);
+    assert.equal(s.message, 'Replaced "I" at position 1 with "1"');
+  });
+
+  it("suggests removing whitespace inside the code", () => {
+    const d = diagnoseRetailId(URL.slice(0, 20) + " \t" + URL.slice(20));
+    assert.ok(d.suggestions.some((s) => s.candidate === URL && s.parsed.index === 1234));
+  });
+
+  it("points out a scheme whose casing implies the wrong encoding", () => {
+    const d = diagnoseRetailId(URL.replace("HTTPS", "https"));
+    assert.equal(d.hint, "base64");
+    const [s] = d.suggestions;
+    assert.equal(s.kind, "scheme-case");
+    assert.equal(s.candidate, URL);
+  });
+});
@@ -0,0 +1,75 @@
+// test/retailIdIssuers.test.ts
+
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+
+import {
+  DEFAULT_RETAILID_DOMAIN,
+  MetrcState,
+  ObjectId,
+  defaultRetailIdDomain,
+  getRetailIdIssuers,
+  getShortUrl,
+  matchRetailIdIssuer,
+  parseRetailId,
+  registerRetailIdIssuer,
+  unregisterRetailIdIssuer,
+} from "../src";
+
+const METRC_BATCH = "1a4000000000000000000042";
+const SANDBOX_BATCH = new ObjectId("5b1000000000000000000001");
+
+describe("Retail ID issuer registry", () => {
+  afterEach(() => {
+    for (const name of ["sandbox", "co-labels", "spare"]) unregisterRetailIdIssuer(name);
+  });
+
+  it("matches the built-in issuer by prefix and normalized domain", () => {
+    assert.equal(matchRetailIdIssuer(METRC_BATCH)?.name, "metrc");
+    assert.equal(matchRetailIdIssuer(METRC_BATCH.toUpperCase(), "1A4.COM.:443")?.name, "metrc");
+    assert.equal(matchRetailIdIssuer(METRC_BATCH, "labels.example"), undefined);
+    assert.equal(matchRetailIdIssuer("ffff00000000000000000000"), undefined);
+    assert.equal(defaultRetailIdDomain(), DEFAULT_RETAILID_DOMAIN);
+  });
+
+  it("only accepts a registered issuer in strict parsing", () => {
+    const url = getShortUrl(SANDBOX_BATCH, 7, { domain: "sandbox.1a4.com" });
+    assert.throws(() => parseRetailId(url, { strictPrefixesOnly: true }), /RetailID/);
+
+    registerRetailIdIssuer({ name: "sandbox", prefixes: ["5B1"], domains: ["Sandbox.1a4.com"], environments: ["sandbox"] });
+    const parsed = parseRetailId(url, { strictPrefixesOnly: true, environment: "sandbox" });
+    assert.equal(parsed.issuer?.name, "sandbox");
+    assert.equal(parsed.index, 7);
+    // the issuer is limited to sandbox
+    assert.throws(() => parseRetailId(url, { strictPrefixesOnly: true, environment: "production" }));
+
+    assert.equal(unregisterRetailIdIssuer("sandbox"), true);
+    assert.throws(() => parseRetailId(url, { strictPrefixesOnly: true, environment: "sandbox" }));
+  });
+
+  it("ranks issuers limited to the requested scope first and uses their domain by default", () => {
+    registerRetailIdIssuer({ name: "co-labels", prefixes: ["1a4"], domains: ["co.1a4.com"], states: ["co" as MetrcState] });
+
+    assert.equal(matchRetailIdIssuer(METRC_BATCH, undefined, { state: "CO" })?.name, "co-labels");
+    assert.equal(matchRetailIdIssuer(METRC_BATCH, undefined, { state: "CA" })?.name, "metrc");
+    assert.equal(defaultRetailIdDomain({ state: "CO" }), "co.1a4.com");
+    assert.match(getShortUrl(new ObjectId(METRC_BATCH), 1, { state: "CO" }), /^https:\/\/co\.1a4\.com\//i);
+    assert.deepEqual(getRetailIdIssuers({ state: "CA" }).map((x) => x.name), ["metrc"]);
+  });
+
+  it("replaces an issuer registered under the same name and hands out copies", () => {
+    registerRetailIdIssuer({ name: "spare", prefixes: ["abc1"], domains: ["a.example"] });
+    registerRetailIdIssuer({ name: "spare", prefixes: ["abc2"], domains: ["b.example"] });
+    const spare = getRetailIdIssuers().filter((x) => x.name === "spare");
+    assert.deepEqual(spare.map((x) => x.domains), [["b.example"]]);
+
+    spare[0].domains.push("evil.example");
+    assert.equal(matchRetailIdIssuer("abc200000000000000000000", "evil.example"), undefined);
+  });
+
+  it("rejects malformed issuers and reports unknown names", () => {
+    assert.throws(() => registerRetailIdIssuer({ name: "spare", prefixes: ["xyz"], domains: [] }), /invalid hex prefix/);
+    assert.throws(() => registerRetailIdIssuer({ name: "", prefixes: [], domains: [] }), /name is required/);
+    assert.equal(unregisterRetailIdIssuer("nobody"), false);
+  });
+});
@@ -0,0 +1,84 @@
+// test/retailIdRanges.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  ObjectId,
+  RetailIdRangeSet,
+  compressIndices,
+  compressRetailIds,
+  expandRanges,
+  getShortUrl,
+  groupRetailIdRanges,
+  normalizeRanges,
+} from "../src";
+
+const BATCH = new ObjectId("1a4000000000000000000042");
+const OTHER = new ObjectId("1a4000000000000000000043");
+
+/** Deterministic pseudo-random index sets, checked against plain Set arithmetic. */
+function sampleSets(seed: number, count: number): number[][] {
+  let x = seed;
+  const next = () => (x = (x * 1103515245 + 12345) % 2 ** 31) % 40;
+  return Array.from({ length: count }, () => Array.from({ length: next() }, next));
+}
+
+describe("range helpers", () => {
+  it("normalizes unsorted, overlapping, adjacent and reversed ranges", () => {
+    assert.deepEqual(normalizeRanges([[7, 9], [1, 3], [4, 4], [12, 10], [2, 3]]), [[1, 4], [7, 12]]);
+    assert.deepEqual(compressIndices([1, 2, 3, 7, 9, 8, 3]), [[1, 3], [7, 9]]);
+    assert.deepEqual([...expandRanges([[5, 6], [1, 2]])], [1, 2, 5, 6]);
+  });
+
+  it("rejects negative and fractional indices", () => {
+    assert.throws(() => compressIndices([-1]), TypeError);
+    assert.throws(() => normalizeRanges([[1, 2.5]]), TypeError);
+  });
+});
+
+describe("RetailIdRangeSet", () => {
+  it("matches Set semantics for union, intersection and difference", () => {
+    const sets = sampleSets(7, 12);
+    for (let i = 0; i + 1 < sets.length; i += 2) {
+      const [a, b] = [new Set(sets[i]), new Set(sets[i + 1])];
+      const [ra, rb] = [RetailIdRangeSet.fromIndices(a), RetailIdRangeSet.fromIndices(b)];
+      const sorted = (s: Iterable<number>) => [...s].sort((p, q) => p - q);
+
+      assert.deepEqual([...ra.union(rb)], sorted(new Set([...a, ...b])));
+      assert.deepEqual([...ra.intersection(rb)], sorted([...a].filter((n) => b.has(n))));
+      assert.deepEqual([...ra.difference(rb)], sorted([...a].filter((n) => !b.has(n))));
+      assert.equal(ra.size, a.size);
+      for (let n = 0; n < 40; n++) assert.equal(ra.contains(n), a.has(n));
+      assert.equal(ra.containsAll(ra.intersection(rb)), true);
+    }
+  });
+
+  it("keeps ranges normalized and copies them out", () => {
+    const set = RetailIdRangeSet.fromRanges([[5, 9], [1, 3]]).difference(RetailIdRangeSet.fromRanges([[2, 6]]));
+    const ranges = set.toRanges();
+    assert.deepEqual(ranges, [[1, 1], [7, 9]]);
+    ranges[0][0] = 100;
+    assert.deepEqual(set.toRanges(), [[1, 1], [7, 9]]);
+    assert.equal(RetailIdRangeSet.empty().isEmpty, true);
+  });
+
+  it("refuses to combine sets from different batches", () => {
+    const a = RetailIdRangeSet.fromIndices([1], BATCH);
+    assert.throws(() => a.union(RetailIdRangeSet.fromIndices([2], OTHER)), /batch mismatch/);
+    // a set without a batch combines with any
+    assert.deepEqual(a.union(RetailIdRangeSet.fromIndices([2])).toRanges(), [[1, 2]]);
+  });
+
+  it("round-trips URLs through grouping, compression and toShortUrls", () => {
+    const urls = [3, 1, 2, 10].map((i) => getShortUrl(BATCH, i));
+    const set = compressRetailIds(urls, { validationFallback: "any" });
+    assert.deepEqual(set.toRanges(), [[1, 3], [10, 10]]);
+    assert.deepEqual(set.toShortUrls(), [1, 2, 3, 10].map((i) => getShortUrl(BATCH, i)));
+
+    const mixed = [...urls, getShortUrl(OTHER, 5)];
+    const groups = groupRetailIdRanges(mixed, { validationFallback: "any" });
+    assert.deepEqual([...groups.keys()], [BATCH.toHexString(), OTHER.toHexString()]);
+    assert.throws(() => compressRetailIds(mixed, { validationFallback: "any" }), /span 2 batches/);
+  });
+});
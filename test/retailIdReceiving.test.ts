@@ -0,0 +1,47 @@
+// test/retailIdReceiving.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MetrcApiError, ObjectId, RetailIdReceivingSession, getShortUrl, parseRetailId } from "../src";
+
+const BATCH = new ObjectId("1a4000000000000000000042");
+const ENCODE = { domain: "labels.example", base64: true };
+
+describe("RetailIdReceivingSession", () => {
+  it("encodes missing URLs like the scans and attributes sibling-package scans", async () => {
+    const view = (Ranges: Array<[number, number]>, SiblingTags: string[] = []) => ({
+      Eaches: [],
+      SiblingTags,
+      RequiresVerification: true,
+      Ranges,
+      QrCount: 3,
+      ChildTag: null,
+      LabelSource: "RetailId",
+    });
+    const labels: string[] = [];
+    const retailId = {
+      async receiveByShortCode(shortCode: string) {
+        const { index } = parseRetailId(shortCode, { validationFallback: "any" });
+        if (index >= 4 && index <= 5) return view([[4, 5]]); // held by PKG-2
+        if (index > 5) throw new MetrcApiError("No package is associated with this Retail ID.", 404, "");
+        return view([[1, 3]], ["PKG-2", "PKG-3"]);
+      },
+      async receiveByLabel(label: string) {
+        labels.push(label);
+        return label === "PKG-2" ? view([[4, 5]]) : view([[7, 9]]);
+      },
+    };
+
+    const session = new RetailIdReceivingSession(retailId, "LIC-1", { parse: { validationFallback: "any" } });
+    session.scanAll([1, 2, 4, 6].map((i) => getShortUrl(BATCH, i, ENCODE)));
+    const report = await session.reconcile();
+
+    assert.deepEqual(report.verified.map((s) => s.index), [1, 2]);
+    assert.deepEqual(report.siblings.map((s) => [s.scan.index, s.packageLabel]), [[4, "PKG-2"]]);
+    assert.deepEqual(report.unexpected.map((s) => s.index), [6]);
+    assert.deepEqual(report.batches[0].missing.urls, [getShortUrl(BATCH, 3, ENCODE)]);
+    assert.deepEqual(labels, ["PKG-2"]);
+    assert.equal(report.complete, false);
+  });
+});
@@ -0,0 +1,77 @@
+// test/retailIdScanner.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ObjectId, getShortUrl, normalizeScannerInput, parseRetailId } from "../src";
+
+const BATCH = new ObjectId("1a4000000000000000000042");
+const URL = getShortUrl(BATCH, 1234); // HTTPS://1A4.COM/13TUBF8B8VIGX8504XA6TL
+const URL64 = getShortUrl(BATCH, 1234, { base64: true }); // https://1a4.com/GkAAAAAAAAAAAABC0gk
+const SCAN = `]Q1${URL.replace("://", ";//").replace("1A4.COM/", "1A4.COM-")}\r\n`;
+
+const invertCase = (s: string) => s.replace(/[A-Za-z]/g, (c) => (c === c.toUpperCase() ? c.toLowerCase() : c.toUpperCase()));
+
+describe("normalizeScannerInput", () => {
+  it("strips symbology ids and control chars and repairs separators, recording each change", () => {
+    const scan = normalizeScannerInput(SCAN);
+    assert.equal(scan.input, SCAN);
+    assert.equal(scan.value, URL);
+    assert.equal(scan.symbologyId, "]Q1");
+    assert.deepEqual(
+      scan.changes.map((c) => c.kind),
+      ["control-chars", "symbology-id", "scheme-separator", "path-separator"]
+    );
+    assert.deepEqual(scan.changes[2], { kind: "scheme-separator", description: 'Replaced ";//" after the scheme with "://"', from: ";//", to: "://" });
+  });
+
+  it("removes whitespace inside the code", () => {
+    const scan = normalizeScannerInput(` ${URL.slice(0, 20)} ${URL.slice(20)} `);
+    assert.equal(scan.value, URL);
+    assert.deepEqual(scan.changes.map((c) => c.kind), ["whitespace"]);
+  });
+
+  it("leaves a clean scan untouched", () => {
+    assert.deepEqual(normalizeScannerInput(URL), { input: URL, value: URL, symbologyId: undefined, changes: [] });
+  });
+
+  it("inverts a Caps Lock scan only when asked to", () => {
+    const inverted = invertCase(URL64);
+    assert.deepEqual(normalizeScannerInput(inverted).changes, []);
+    const repaired = normalizeScannerInput(inverted, { repairCapsLock: true });
+    assert.equal(repaired.value, URL64);
+    assert.deepEqual(repaired.changes.map((c) => c.kind), ["caps-lock"]);
+    // Lowercase scheme and domain: a genuine base64 code, never rewritten
+    assert.deepEqual(normalizeScannerInput(URL64, { repairCapsLock: true }).changes, []);
+  });
+
+  it("swaps Y and Z only for a QWERTZ host layout", () => {
+    const url = getShortUrl(BATCH, 34); // HTTPS://1A4.COM/5LMTQBUTXOJ967GBXXCY
+    const swapped = url.replace("CY", "CZ");
+    assert.equal(normalizeScannerInput(swapped).value, swapped);
+    assert.equal(normalizeScannerInput(swapped, { layout: "qwertz" }).value, url);
+  });
+});
+
+describe("parseRetailId normalize option", () => {
+  it("is off by default", () => {
+    assert.throws(() => parseRetailId(SCAN), /Unrecognized RetailID/);
+    assert.equal(parseRetailId(URL, { normalize: true }).normalization, undefined);
+  });
+
+  it("parses a damaged scan and reports what it changed", () => {
+    const parsed = parseRetailId(SCAN, { normalize: true });
+    assert.equal(parsed.index, 1234);
+    assert.equal(parsed.batchId.toHexString(), BATCH.toHexString());
+    assert.equal(parsed.normalization?.symbologyId, "]Q1");
+    assert.equal(parsed.normalization?.changes.length, 4);
+  });
+
+  it("repairs Caps Lock only through the explicit option", () => {
+    const inverted = invertCase(URL64);
+    assert.equal(parseRetailId(inverted, { normalize: true }).normalization, undefined);
+    const parsed = parseRetailId(inverted, { normalize: { repairCapsLock: true } });
+    assert.equal(parsed.index, 1234);
+    assert.equal(parsed.batchId.toHexString(), BATCH.toHexString());
+  });
+});
@@ -0,0 +1,60 @@
+// test/retailIdWorkflow.test.ts
+// labelPackage resume after failures whose outcome is unknown.
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+
+import { MetrcClient, MetrcMockServer } from "../src";
+import { RetailIdLabelingState, RetailIdWorkflowError } from "../src/metrc/resources/v2/retailIdWorkflow";
+
+describe("retailIdWorkflow.labelPackage", () => {
+  let mock: MetrcMockServer;
+  let metrc: MetrcClient;
+
+  beforeEach(() => {
+    mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"] });
+    metrc = new MetrcClient({ baseUrl: "https://mock.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl: mock.fetch, timeoutMs: 50, retry: false });
+  });
+
+  const count = (path: string) => mock.requests.filter((r) => r.path === path).length;
+
+  async function failedState(run: Promise<unknown>): Promise<RetailIdLabelingState> {
+    const err = await run.catch((e) => e);
+    assert.ok(err instanceof RetailIdWorkflowError);
+    return err.state;
+  }
+
+  it("reads back a chunk whose associate was applied before resubmitting", async () => {
+    mock.inject({ kind: "serverError", path: "/retailid/v2/associate", applied: true });
+    const state = await failedState(metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5, { chunkSize: 5 }));
+    assert.equal(state.chunks[0].outcomeUnknown, true);
+
+    const res = await metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5, { chunkSize: 5, resume: state });
+    assert.equal(res.complete, true);
+    assert.equal(count("/retailid/v2/associate"), 1);
+    assert.deepEqual(mock.getRetailIdRanges("PKG-1").get(res.issuanceId), [[1, 5]]);
+  });
+
+  it("resubmits a chunk the read-back does not find", async () => {
+    mock.inject({ kind: "timeout", path: "/retailid/v2/associate" });
+    const state = await failedState(metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5));
+
+    const res = await metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5, { resume: state });
+    assert.equal(count("/retailid/v2/associate"), 2);
+    assert.deepEqual(mock.getRetailIdRanges("PKG-1").get(res.issuanceId), [[1, 5]]);
+  });
+
+  it("does not generate again after a lost generate response unless told to", async () => {
+    mock.inject({ kind: "timeout", path: "/retailid/v2/generate", applied: true });
+    const state = await failedState(metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5));
+    assert.equal(state.generateOutcomeUnknown, true);
+
+    await failedState(metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5, { resume: state }));
+    assert.equal(count("/retailid/v2/generate"), 1);
+
+    const res = await metrc.v2.retailIdWorkflow.labelPackage("LIC-1", "PKG-1", 5, { resume: state, regenerate: true });
+    assert.equal(res.complete, true);
+    assert.equal(res.generateOutcomeUnknown, undefined);
+    assert.equal(count("/retailid/v2/generate"), 2);
+  });
+});
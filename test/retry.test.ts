@@ -0,0 +1,129 @@
+// test/retry.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { FetchLike, HttpMethod, MetrcApiError, MetrcHttp, MetrcRetryOptions, parseRetryAfter } from "../src";
+
+type Reply = Response | Error | "hang" | "stall";
+
+/** Stub fetch that plays `replies` in order and counts the calls. */
+function scripted(...replies: Reply[]) {
+  const calls = { count: 0 };
+  const fetchImpl: FetchLike = async (_input, init) => {
+    const reply = replies[Math.min(calls.count++, replies.length - 1)];
+    const signal = init?.signal ?? undefined;
+    if (reply instanceof Error) throw reply;
+    if (reply === "hang") {
+      return new Promise<Response>((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason)));
+    }
+    if (reply === "stall") {
+      // headers arrive, the body never does
+      const body = new ReadableStream({ start: (c) => signal?.addEventListener("abort", () => c.error(signal.reason)) });
+      return new Response(body, { status: 200 });
+    }
+    return reply.clone();
+  };
+  return { calls, fetchImpl };
+}
+
+const ok = () => new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+const status = (s: number, headers?: Record<string, string>) => new Response("{}", { status: s, headers });
+
+function call(fetchImpl: FetchLike, method: HttpMethod = "GET", retry?: MetrcRetryOptions, timeoutMs?: number) {
+  const http = new MetrcHttp({
+    baseUrl: "https://stub.metrc",
+    integratorApiKey: "i",
+    userApiKey: "u",
+    fetchImpl,
+    timeoutMs,
+    retry: { baseDelayMs: 1, jitter: false, ...retry },
+  });
+  return http.request<{ ok: boolean }>({ method, path: "/things", body: method === "GET" ? undefined : [{}] });
+}
+
+describe("MetrcHttp retries", () => {
+  it("retries a retryable status on GET until it succeeds", async () => {
+    const { calls, fetchImpl } = scripted(status(503), status(502), ok());
+    assert.deepEqual(await call(fetchImpl), { ok: true });
+    assert.equal(calls.count, 3);
+  });
+
+  it("gives up after maxAttempts with the last error", async () => {
+    const { calls, fetchImpl } = scripted(status(500));
+    const err = await call(fetchImpl, "GET", { maxAttempts: 2 }).catch((e) => e);
+    assert.ok(err instanceof MetrcApiError);
+    assert.equal(err.status, 500);
+    assert.equal(calls.count, 2);
+  });
+
+  it("does not retry a 5xx on POST unless retryNonIdempotent is set", async () => {
+    const once = scripted(status(500), ok());
+    await assert.rejects(call(once.fetchImpl, "POST"), MetrcApiError);
+    assert.equal(once.calls.count, 1);
+
+    const optedIn = scripted(status(500), ok());
+    assert.deepEqual(await call(optedIn.fetchImpl, "POST", { retryNonIdempotent: true }), { ok: true });
+    assert.equal(optedIn.calls.count, 2);
+  });
+
+  it("always retries a 429, POST included, capping Retry-After at maxDelayMs", async () => {
+    const { calls, fetchImpl } = scripted(status(429, { "Retry-After": "120" }), ok());
+    const started = Date.now();
+    assert.deepEqual(await call(fetchImpl, "POST", { maxDelayMs: 5 }), { ok: true });
+    assert.equal(calls.count, 2);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("does not retry a status outside retryOnStatus", async () => {
+    const { calls, fetchImpl } = scripted(status(400), ok());
+    await assert.rejects(call(fetchImpl), MetrcApiError);
+    assert.equal(calls.count, 1);
+  });
+
+  it("retries network errors unless retryNetworkErrors is off", async () => {
+    const retried = scripted(new TypeError("fetch failed"), ok());
+    assert.deepEqual(await call(retried.fetchImpl), { ok: true });
+    assert.equal(retried.calls.count, 2);
+
+    const off = scripted(new TypeError("fetch failed"), ok());
+    await assert.rejects(call(off.fetchImpl, "GET", { retryNetworkErrors: false }), TypeError);
+    assert.equal(off.calls.count, 1);
+  });
+
+  it("gives every attempt its own timeout, covering the body read", async () => {
+    const hung = scripted("hang", ok());
+    assert.deepEqual(await call(hung.fetchImpl, "GET", {}, 20), { ok: true });
+    assert.equal(hung.calls.count, 2);
+
+    const stalled = scripted("stall", ok());
+    assert.deepEqual(await call(stalled.fetchImpl, "GET", {}, 20), { ok: true });
+    assert.equal(stalled.calls.count, 2);
+
+    const always = scripted("stall");
+    await assert.rejects(call(always.fetchImpl, "GET", { maxAttempts: 2 }, 20), /timed out after 20ms/);
+  });
+
+  it("can be switched off per client", async () => {
+    const { calls, fetchImpl } = scripted(status(503), ok());
+    const http = new MetrcHttp({ baseUrl: "https://stub.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl, retry: false });
+    await assert.rejects(http.request({ method: "GET", path: "/things" }), MetrcApiError);
+    assert.equal(calls.count, 1);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds and HTTP-dates", () => {
+    const now = Date.parse("2026-10-01T12:00:00Z");
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter(" 1.5 ", now), 1500);
+    assert.equal(parseRetryAfter("Thu, 01 Oct 2026 12:00:10 GMT", now), 10_000);
+    assert.equal(parseRetryAfter("Thu, 01 Oct 2026 11:59:00 GMT", now), 0);
+  });
+
+  it("returns undefined for a missing or unreadable header", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter(""), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
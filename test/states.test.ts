@@ -0,0 +1,34 @@
+// test/states.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { MetrcHttp, MetrcUnsupportedError, isMetrcEndpointSupported, registerMetrcStateSupport } from "../src";
+
+describe("state registry", () => {
+  it("gates endpoints for a lower-case state from config", async () => {
+    let calls = 0;
+    const http = new MetrcHttp({
+      state: "sd" as "SD",
+      integratorApiKey: "i",
+      userApiKey: "u",
+      fetchImpl: async () => (calls++, new Response("[]", { headers: { "content-type": "application/json" } })),
+    });
+
+    await assert.rejects(http.request({ method: "GET", path: "/retailid/v2/receive/PKG-1" }), MetrcUnsupportedError);
+    await http.request({ method: "GET", path: "/labtests/v2/states" });
+    assert.equal(calls, 1);
+  });
+
+  it("can be adjusted at runtime", () => {
+    assert.equal(isMetrcEndpointSupported("WV", "/retailid/v2/generate"), false);
+    registerMetrcStateSupport("WV", { supported: ["/retailid/"] });
+    assert.equal(isMetrcEndpointSupported("WV", "/retailid/v2/generate"), true);
+    registerMetrcStateSupport("WV", { unsupported: ["/retailid/"] });
+    assert.equal(isMetrcEndpointSupported("WV", "/RetailId/v2/generate"), false);
+  });
+
+  it("rejects unknown states up front", () => {
+    assert.throws(() => new MetrcHttp({ state: "XX" as "SD", integratorApiKey: "i", userApiKey: "u", fetchImpl: fetch }), /Unknown Metrc state/);
+  });
+});
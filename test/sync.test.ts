@@ -0,0 +1,116 @@
+// test/sync.test.ts
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { AdditiveTemplate, MetrcClient, MetrcMockServer, MetrcSyncEngine, MetrcSyncSource } from "../src";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const T0 = Date.parse("2026-03-01T00:00:00Z");
+
+function setup() {
+  let now = T0;
+  const mock = new MetrcMockServer({ integratorApiKey: "i", userApiKey: "u", licenses: ["LIC-1"], now: () => new Date(now) });
+  const metrc = new MetrcClient({ baseUrl: "https://mock.metrc", integratorApiKey: "i", userApiKey: "u", fetchImpl: mock.fetch });
+  const templates = metrc.forLicense("LIC-1").v2.additivesTemplates;
+  /** Creates `count` templates stamped `at` ms after T0. */
+  const createAt = async (at: number, count = 1, name = `T+${at / HOUR}h`) => {
+    now = T0 + at;
+    const rows = Array.from({ length: count }, (_, i) => ({ Name: `${name} #${i}`, AdditiveType: "Fertilizer", ActiveIngredients: [] }));
+    return (await templates.create(rows)).Ids;
+  };
+  const source: MetrcSyncSource<AdditiveTemplate> = {
+    resource: "additivesTemplates.active",
+    fetchPage: (q) => metrc.v2.additivesTemplates.getActive(q),
+  };
+  const listCalls = () => mock.requests.filter((r) => r.method === "GET" && r.path.startsWith("/additivestemplates/v2/active"));
+  return { mock, createAt, source, listCalls };
+}
+
+const at = (ms: number) => new Date(T0 + ms);
+const names = (items: AdditiveTemplate[]) => items.map((t) => t.Name);
+
+describe("MetrcSyncEngine", () => {
+  it("stamps checkpoints with the engine clock", async () => {
+    const now = new Date("2026-03-02T00:00:00Z");
+    const engine = new MetrcSyncEngine({ now: () => now });
+    const source = { resource: "items", fetchPage: async () => [{ Id: 1 }] };
+
+    const result = await engine.run(source, { licenseNumber: "LIC-1", since: "2026-03-01T00:00:00Z" }, () => {});
+    assert.deepEqual(result, { windows: 1, items: 1, syncedThrough: now.toISOString() });
+    assert.equal((await engine.checkpoint("LIC-1", "items"))?.updatedAt, now.toISOString());
+  });
+
+  it("splits the range into windows of at most 24h and pages through each", async () => {
+    const { createAt, source, listCalls } = setup();
+    await createAt(2 * HOUR, 3);
+    await createAt(DAY + 2 * HOUR, 25);
+    const engine = new MetrcSyncEngine({ now: () => at(2 * DAY + 12 * HOUR) });
+
+    const seen: Array<[number, number]> = [];
+    const result = await engine.run(source, { licenseNumber: "LIC-1", since: at(0) }, (c) => {
+      seen.push([c.windowIndex, c.items.length]);
+    });
+
+    assert.deepEqual(seen, [[0, 3], [1, 25]]);
+    assert.deepEqual(result, { windows: 2, items: 28, syncedThrough: at(2 * DAY + 12 * HOUR).toISOString() });
+    for (const { query } of listCalls()) {
+      assert.ok(Date.parse(query.lastModifiedEnd) - Date.parse(query.lastModifiedStart) <= DAY);
+    }
+    // three windows; the second one takes two pages of 20
+    assert.deepEqual(listCalls().map((r) => r.query.pageNumber), ["1", "1", "2", "1"]);
+  });
+
+  it("resumes from the checkpoint", async () => {
+    const { createAt, source } = setup();
+    await createAt(HOUR, 1, "first");
+    let now = at(2 * HOUR);
+    const engine = new MetrcSyncEngine({ now: () => now });
+    const runs: Array<Array<string | null>> = [];
+    const collect = async () => {
+      const items: AdditiveTemplate[] = [];
+      await engine.run(source, { licenseNumber: "LIC-1", since: at(0) }, (c) => void items.push(...c.items));
+      runs.push(names(items));
+    };
+
+    await collect();
+    await createAt(3 * HOUR, 1, "second");
+    now = at(4 * HOUR);
+    await collect();
+
+    assert.deepEqual(runs, [["first #0"], ["second #0"]]);
+    assert.equal((await engine.checkpoint("LIC-1", source.resource))?.syncedThrough, at(4 * HOUR).toISOString());
+  });
+
+  it("re-reads overlapMs before the checkpoint and never moves the checkpoint back", async () => {
+    const { createAt, source, listCalls } = setup();
+    await createAt(5 * HOUR, 1, "late");
+    const engine = new MetrcSyncEngine({ overlapMs: HOUR, now: () => at(6 * HOUR) });
+    await engine.run(source, { licenseNumber: "LIC-1", since: at(0) }, () => {});
+
+    // ends before the checkpoint, inside the overlap: "late" is delivered again, the checkpoint stays
+    const items: AdditiveTemplate[] = [];
+    await engine.run(source, { licenseNumber: "LIC-1", until: at(5.5 * HOUR) }, (c) => void items.push(...c.items));
+    assert.deepEqual(names(items), ["late #0"]);
+    assert.equal(listCalls().at(-1)?.query.lastModifiedStart, at(5 * HOUR).toISOString());
+    assert.equal((await engine.checkpoint("LIC-1", source.resource))?.syncedThrough, at(6 * HOUR).toISOString());
+  });
+
+  it("re-delivers a window the consumer broke out of", async () => {
+    const { createAt, source } = setup();
+    await createAt(HOUR, 1, "day1");
+    await createAt(DAY + HOUR, 1, "day2");
+    const engine = new MetrcSyncEngine({ now: () => at(2 * DAY) });
+
+    for await (const changes of engine.sync(source, { licenseNumber: "LIC-1", since: at(0) })) {
+      assert.deepEqual(names(changes.items), ["day1 #0"]);
+      break;
+    }
+    assert.equal(await engine.checkpoint("LIC-1", source.resource), undefined);
+
+    const delivered: Array<Array<string | null>> = [];
+    await engine.run(source, { licenseNumber: "LIC-1", since: at(0) }, (c) => void delivered.push(names(c.items)));
+    assert.deepEqual(delivered, [["day1 #0"], ["day2 #0"]]);
+  });
+});